@@ -49,6 +49,77 @@ class CodeLens {
     ) {}
 }
 
+const TreeItemCollapsibleState = {
+    None: 0,
+    Collapsed: 1,
+    Expanded: 2,
+};
+
+class TreeItem {
+    description?: string;
+    tooltip?: string;
+    contextValue?: string;
+    command?: Command;
+    iconPath?: unknown;
+
+    constructor(
+        public label: string,
+        public collapsibleState: number = TreeItemCollapsibleState.None,
+    ) {}
+}
+
+class ThemeIcon {
+    constructor(public readonly id: string) {}
+}
+
+/** The kinds the extension's completion items use, numbered as VS Code numbers them. */
+const CompletionItemKind = {
+    Text: 0,
+    Function: 2,
+    Variable: 5,
+    Class: 6,
+    Interface: 7,
+    Module: 8,
+    Enum: 12,
+    Struct: 21,
+};
+
+class CompletionItem {
+    detail?: string;
+    tags?: number[];
+    documentation?: string;
+    sortText?: string;
+    additionalTextEdits?: TextEdit[];
+
+    constructor(
+        public label: string,
+        public kind?: number,
+    ) {}
+}
+
+class MarkdownString {
+    constructor(public value: string = "") {}
+
+    appendMarkdown(value: string): MarkdownString {
+        this.value += value;
+        return this;
+    }
+}
+
+class Hover {
+    constructor(
+        public contents: MarkdownString | MarkdownString[],
+        public range?: Range,
+    ) {}
+}
+
+class Location {
+    constructor(
+        public uri: Uri,
+        public range: Range,
+    ) {}
+}
+
 /** Registers listeners and fires them synchronously, as VS Code's own does. */
 class EventEmitter<T> {
     private readonly listeners: ((value: T) => void)[] = [];
@@ -179,14 +250,28 @@ class WorkspaceEdit {
  * *because* the collision it asserts against happened.
  */
 class Uri {
-    readonly scheme = "file";
-
-    private constructor(public readonly fsPath: string) {}
+    private constructor(
+        public readonly fsPath: string,
+        readonly scheme: string = "file",
+    ) {}
 
     static file(fsPath: string): Uri {
         return new Uri(fsPath);
     }
 
+    /**
+     * A non-file URI, such as a virtual document's. Only the scheme and path
+     * are kept; its fsPath is the path, as real VS Code reports for one.
+     */
+    static from(components: { scheme: string; path: string }): Uri {
+        return new Uri(components.path, components.scheme);
+    }
+
+    /** The forward-slashed path. */
+    get path(): string {
+        return this.fsPath.replace(/\\/g, "/");
+    }
+
     /**
      * Joins path segments onto a base URI the way ProjectPathCache does when it
      * resolves a workspace-relative path back to a file. Segments are appended
@@ -207,6 +292,9 @@ class Uri {
      * output.
      */
     toString(): string {
+        if (this.scheme !== "file") {
+            return `${this.scheme}:${this.path}`;
+        }
         const forwardSlashed = this.fsPath.replace(/\\/g, "/");
         const rooted = forwardSlashed.startsWith("/") ? forwardSlashed : `/${forwardSlashed}`;
         return `file://${rooted.replace(/^\/([A-Za-z]):/, (_match, drive: string) => `/${drive.toLowerCase()}%3A`)}`;
@@ -295,6 +383,9 @@ const workspace = {
     onDidChangeTextDocument: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })),
     onDidSaveTextDocument: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })),
     onWillSaveTextDocument: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })),
+    onDidOpenTextDocument: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })),
+    onDidCloseTextDocument: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })),
+    onDidRenameFiles: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })),
     applyEdit: jest.fn().mockResolvedValue(true),
     workspaceFolders: undefined as { uri: { fsPath: string }; name: string; index: number }[] | undefined,
     // Set when a .code-workspace file is open, folder-only workspaces leave it
@@ -335,6 +426,7 @@ const workspace = {
         writeFile: jest.fn().mockResolvedValue(undefined),
         readDirectory: jest.fn().mockRejectedValue(new Error("ENOENT")),
     },
+    registerTextDocumentContentProvider: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })),
     createFileSystemWatcher: jest.fn().mockImplementation((globPattern: unknown) => new FileSystemWatcher(globPattern)),
     // Empty by default so a test that only needs the scan to complete does not
     // have to stub it; tests that care about parse timing replace it. The
@@ -380,12 +472,30 @@ const window = {
     })),
     showInformationMessage: jest.fn(),
     showWarningMessage: jest.fn(),
+    showOpenDialog: jest.fn(),
+    showSaveDialog: jest.fn(),
+    showInputBox: jest.fn(),
+    createTreeView: jest.fn().mockImplementation(() => ({ description: undefined, dispose: jest.fn() })),
+    // The page is kept on `webview.html` for a test to read, and the message
+    // listener is a mock whose first argument a test calls to post from the page.
+    createWebviewPanel: jest.fn().mockImplementation(() => ({
+        webview: { html: "", cspSource: "vscode-webview:", onDidReceiveMessage: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })) },
+        reveal: jest.fn(),
+        onDidDispose: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })),
+        dispose: jest.fn(),
+    })),
     showErrorMessage: jest.fn(),
     showQuickPick: jest.fn(),
+    showTextDocument: jest.fn().mockResolvedValue(undefined),
+    registerTreeDataProvider: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })),
     // Settable, like workspaceFolders. Command surfaces scope a setting to the
     // file in front of the user, so undefined here is the real "no editor
     // open" case rather than a gap - a test that needs one assigns it.
     activeTextEditor: undefined as { document: { uri: unknown } } | undefined,
+    // Settable for the same reason: what a listener refreshes on start-up is
+    // whatever is on screen, and a test puts its documents there.
+    visibleTextEditors: [] as { document: unknown }[],
+    onDidChangeVisibleTextEditors: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })),
     setStatusBarMessage: jest.fn(),
     /**
      * Runs the task straight away, as real VS Code does, so a command wrapped
@@ -399,12 +509,69 @@ const window = {
         ),
 };
 
+class DiagnosticRelatedInformation {
+    constructor(
+        public location: Location,
+        public message: string,
+    ) {}
+}
+
+class Diagnostic {
+    source?: string;
+    code?: string | number;
+    tags?: number[];
+    relatedInformation?: DiagnosticRelatedInformation[];
+
+    constructor(
+        public range: Range,
+        public message: string,
+        public severity: number = DiagnosticSeverity.Error,
+    ) {}
+}
+
+/**
+ * A diagnostic collection that keeps what it was given, keyed on the URI's
+ * string form as VS Code keys it, so a test can read back what a publisher set.
+ */
+class DiagnosticCollection {
+    private readonly entries = new Map<string, Diagnostic[]>();
+
+    constructor(public readonly name: string) {}
+
+    set(uri: { toString(): string }, diagnostics: Diagnostic[] | undefined): void {
+        this.entries.set(uri.toString(), diagnostics ?? []);
+    }
+
+    get(uri: { toString(): string }): readonly Diagnostic[] | undefined {
+        return this.entries.get(uri.toString());
+    }
+
+    has(uri: { toString(): string }): boolean {
+        return this.entries.has(uri.toString());
+    }
+
+    delete(uri: { toString(): string }): void {
+        this.entries.delete(uri.toString());
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    dispose(): void {
+        this.entries.clear();
+    }
+}
+
 const languages = {
+    createDiagnosticCollection: jest.fn().mockImplementation((name: string) => new DiagnosticCollection(name)),
     getDiagnostics: jest.fn().mockReturnValue([]),
     onDidChangeDiagnostics: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })),
     registerCodeActionsProvider: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })),
     registerCodeLensProvider: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })),
     registerHoverProvider: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })),
+    registerCompletionItemProvider: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })),
+    registerDefinitionProvider: jest.fn().mockImplementation(() => ({ dispose: jest.fn() })),
 };
 
 /**
@@ -416,6 +583,11 @@ const commands = {
     executeCommand: jest.fn().mockResolvedValue(undefined),
 };
 
+const TextDocumentChangeReason = {
+    Undo: 1,
+    Redo: 2,
+};
+
 const ProgressLocation = {
     SourceControl: 1,
     Window: 10,
@@ -429,6 +601,15 @@ const DiagnosticSeverity = {
     Hint: 3,
 };
 
+const CompletionItemTag = {
+    Deprecated: 1,
+};
+
+const DiagnosticTag = {
+    Unnecessary: 1,
+    Deprecated: 2,
+};
+
 const StatusBarAlignment = {
     Left: 1,
     Right: 2,
@@ -450,6 +631,12 @@ const EndOfLine = {
     CRLF: 2,
 };
 
+/** Only the columns the panels open in. */
+const ViewColumn = {
+    Active: -1,
+    Beside: -2,
+};
+
 const FileType = {
     Unknown: 0,
     File: 1,
@@ -468,6 +655,7 @@ class CodeActionKind {
     // Built by append, as the real API builds it, so a provider that appends
     // the wrong sub-kind cannot agree with a mock that hardcoded the answer.
     static readonly SourceOrganizeImports = CodeActionKind.Source.append("organizeImports");
+    static readonly SourceFixAll = CodeActionKind.Source.append("fixAll");
 
     constructor(public readonly value: string) {}
 
@@ -494,18 +682,38 @@ class CodeAction {
  */
 const version = "1.85.0";
 
+const env = {
+    clipboard: { writeText: jest.fn().mockResolvedValue(undefined) },
+};
+
 export {
     version,
+    env,
     workspace,
     window,
     languages,
     commands,
     DiagnosticSeverity,
+    DiagnosticTag,
+    Diagnostic,
+    DiagnosticRelatedInformation,
+    DiagnosticCollection,
     StatusBarAlignment,
     ConfigurationTarget,
     QuickPickItemKind,
+    TreeItem,
+    TreeItemCollapsibleState,
+    ThemeIcon,
+    CompletionItem,
+    CompletionItemTag,
+    CompletionItemKind,
+    MarkdownString,
+    Hover,
+    Location,
+    TextDocumentChangeReason,
     ProgressLocation,
     EndOfLine,
+    ViewColumn,
     FileType,
     Position,
     Range,
@@ -2,7 +2,9 @@ import * as vscode from "vscode";
 import { activate } from "../extension";
 import { ImportCodeActionProvider } from "../imports/ImportCodeActionProvider";
 import { ImportOrganizeCodeActionProvider } from "../imports/ImportOrganizeCodeActionProvider";
+import { ImportAddMissingCodeActionProvider } from "../imports/ImportAddMissingCodeActionProvider";
 import { ModuleVisibilityCodeActionProvider } from "../visibility/ModuleVisibilityCodeActionProvider";
+import { UnusedImportCodeActionProvider } from "../diagnostics/UnusedImportCodeActionProvider";
 
 /**
  * Regression for #365: the quick fix providers were registered with no
@@ -56,12 +58,20 @@ describe("code action registrations declare the kinds they provide", () => {
         expect(metadataFor(ModuleVisibilityCodeActionProvider)?.providedCodeActionKinds).toEqual([vscode.CodeActionKind.QuickFix]);
     });
 
+    it("declares quick fixes for the unused-import provider", () => {
+        expect(metadataFor(UnusedImportCodeActionProvider)?.providedCodeActionKinds).toEqual([vscode.CodeActionKind.QuickFix]);
+    });
+
     // Already declared before #365, and the one registration where the
     // metadata is what routes the request rather than only filtering it.
     it("still declares the organize imports source action", () => {
         expect(metadataFor(ImportOrganizeCodeActionProvider)?.providedCodeActionKinds).toEqual([vscode.CodeActionKind.SourceOrganizeImports]);
     });
 
+    it("declares the add-missing-imports and fix-all source actions", () => {
+        expect(metadataFor(ImportAddMissingCodeActionProvider)?.providedCodeActionKinds?.map((kind) => kind.value)).toEqual(["source.addMissingImports.verse", "source.fixAll.verse"]);
+    });
+
     it("leaves no code action provider registered without metadata", () => {
         const calls = (vscode.languages.registerCodeActionsProvider as jest.Mock).mock.calls;
         expect(calls.length).toBeGreaterThan(0);
@@ -126,7 +126,7 @@ describe("reads are scoped to the document they decide about", () => {
         try {
             const importHandler = {
                 extractImportSuggestions: jest.fn().mockResolvedValue([]),
-                addImportsToDocument: jest.fn().mockResolvedValue(true),
+                addImportsWithOutcome: jest.fn().mockResolvedValue({ outcome: "applied", addedPaths: [] }),
             } as unknown as ImportHandler;
             const handler = new DiagnosticsHandler(vscode.window.createOutputChannel("test"), importHandler, () => false);
             handler.setDelay(10);
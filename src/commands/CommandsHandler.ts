@@ -1,10 +1,27 @@
 import * as vscode from "vscode";
-import { logger, activeResource, settingsFor, writeSetting } from "../utils";
-import { ImportHandler, ImportPathConverter, ImportCodeLensProvider } from "../imports";
+import { logger, activeResource, settingsFor, writeSetting, writeTargetFor } from "../utils";
+import {
+    ImportHandler,
+    ImportPathConverter,
+    ImportCodeLensProvider,
+    ImportChoiceMemory,
+    WorkspaceImportOptimizer,
+    WorkspaceOptimizeReport,
+    formatOptimizeReport,
+    SupersededModuleMigrator,
+    MigrationReport,
+    formatMigrationReport,
+    previewImportEditsFor,
+} from "../imports";
+import { LINE_SPLIT, scanModuleImports } from "../imports/ImportScanner";
+import { DiagnosticsHandler } from "../diagnostics";
+import { AutoImportHistory, AutoImportHistoryNode, AutoImportHistoryView } from "../history";
+import { ProjectModuleExplorerNode, VerseApiExplorerNode, VerseApiExplorerView } from "../explorer";
 import { StatusBarHandler } from "../ui";
-import { ProjectPathCache } from "../services";
+import { MODULE_GRAPH_FORMATS, ModuleDependencyGraph, ModuleGraphBuilder, ModuleGraphDetail, ModuleGraphFormat, ModuleGraphPanel, formatModuleGraph } from "../graph";
+import { DigestComparer, DigestDiff, DigestSet, ProjectPathCache, diffDigestSets, formatDigestDiff, readDigestSet } from "../services";
 import { ModuleVisibilityRequest, ModuleVisibilityWriter } from "../visibility";
-import { DiagnosticPosition } from "../types";
+import { DiagnosticPosition, DuplicateImportGroup, ImportAtLine, ImportChoice } from "../types";
 
 /** The collaborators the commands act on, wired once during activation. */
 export interface CommandsDependencies {
@@ -13,6 +30,14 @@ export interface CommandsDependencies {
     importPathConverter: ImportPathConverter;
     importCodeLensProvider: ImportCodeLensProvider;
     moduleVisibilityWriter: ModuleVisibilityWriter;
+    workspaceImportOptimizer: WorkspaceImportOptimizer;
+    supersededModuleMigrator: SupersededModuleMigrator;
+    digestComparer: DigestComparer;
+    verseApiExplorerView: VerseApiExplorerView;
+    moduleGraphBuilder: ModuleGraphBuilder;
+    moduleGraphPanel: ModuleGraphPanel;
+    autoImportHistory: AutoImportHistory;
+    importChoiceMemory: ImportChoiceMemory;
     /**
      * Absent when the cache setting is off, so the dependency is missing in
      * fact and not only in type. The commands that would build one refuse
@@ -76,6 +101,9 @@ export class CommandsHandler {
             ...this.pathCacheCommands(),
             ...this.pathConversionCommands(),
             ...this.moduleVisibilityCommands(),
+            ...this.historyCommands(),
+            ...this.apiExplorerCommands(),
+            ...this.moduleGraphCommands(),
         ];
 
         for (const [commandId, handler] of commands) {
@@ -88,6 +116,13 @@ export class CommandsHandler {
             ["verseAutoImports.addSingleImport", this.addSingleImport.bind(this)],
             ["verseAutoImports.optimizeImports", this.optimizeImports.bind(this)],
             ["verseAutoImports.organizeImportsInDocument", this.organizeImportsInDocument.bind(this)],
+            ["verseAutoImports.removeUnusedImports", this.removeUnusedImports.bind(this)],
+            ["verseAutoImports.collapseDuplicateImports", this.collapseDuplicateImports.bind(this)],
+            ["verseAutoImports.replaceRestrictedImport", this.replaceRestrictedImport.bind(this)],
+            ["verseAutoImports.optimizeImportsInWorkspace", this.optimizeImportsInWorkspace.bind(this)],
+            ["verseAutoImports.optimizeImportsInFolder", this.optimizeImportsInFolder.bind(this)],
+            ["verseAutoImports.migrateSupersededImports", this.migrateSupersededImports.bind(this)],
+            ["verseAutoImports.compareDigests", this.compareDigests.bind(this)],
         ];
     }
 
@@ -120,8 +155,11 @@ export class CommandsHandler {
      *   one that needs it. Optional because a caller that cannot name a
      *   diagnostic must not imply it knows of one - placement then follows the
      *   written order alone.
+     * @param choice Set by a quick fix that is one of several for a name: the
+     *   pick is remembered, and a run of the same pick earns the offer of a
+     *   `behavior.ambiguousImports` mapping.
      */
-    async addSingleImport(document: vscode.TextDocument, importStatement: string, diagnosticPosition?: DiagnosticPosition): Promise<void> {
+    async addSingleImport(document: vscode.TextDocument, importStatement: string, diagnosticPosition?: DiagnosticPosition, choice?: ImportChoice): Promise<void> {
         // A false here means applyEdit was rejected - a stale document version
         // or a read-only file - and the document is unchanged. Reporting the
         // import as added would leave the only trace in the output channel.
@@ -138,6 +176,108 @@ export class CommandsHandler {
         }
 
         vscode.window.setStatusBarMessage(`Added import: ${importStatement}`, CommandsHandler.STATUS_MESSAGE_DURATION_MS);
+
+        if (choice) {
+            const streak = await this.deps.importChoiceMemory.recordPick(choice);
+            // Asked once per run, not on every pick after it. Not awaited: the
+            // quick fix is done, and the message may sit unanswered.
+            if (streak === ImportChoiceMemory.OFFER_MAPPING_AFTER) {
+                this.offerAmbiguousImportMapping(choice).catch((error) => {
+                    logger.error("CommandsHandler", "Error offering an ambiguous import mapping", error);
+                });
+            }
+        }
+    }
+
+    /**
+     * Offers to make a repeated pick permanent in `behavior.ambiguousImports`,
+     * unless the name is mapped already.
+     *
+     * The mapping is added to the level that already holds mappings, so the
+     * ones there are kept and the ones at other levels are not copied into it.
+     */
+    private async offerAmbiguousImportMapping({ identifier, modulePath }: ImportChoice): Promise<void> {
+        const key = "behavior.ambiguousImports";
+        if (settingsFor().get<Record<string, string>>(key, {})[identifier]) {
+            return;
+        }
+
+        const accept = "Always Import from There";
+        const answer = await vscode.window.showInformationMessage(
+            `You have imported ${identifier} from ${modulePath} ${ImportChoiceMemory.OFFER_MAPPING_AFTER} times in a row. Add it to behavior.ambiguousImports so it is imported automatically?`,
+            accept,
+        );
+        if (answer !== accept) {
+            return;
+        }
+
+        const config = settingsFor();
+        const target = writeTargetFor(config, key, false);
+        const info = config.inspect<Record<string, string>>(key);
+        const mappings = (target === vscode.ConfigurationTarget.Workspace ? info?.workspaceValue : info?.globalValue) ?? {};
+        await config.update(key, { ...mappings, [identifier]: modulePath }, target);
+        logger.info("CommandsHandler", `Mapped ${identifier} to ${modulePath} in ${key}`);
+    }
+
+    /**
+     * Removes the imports of the given paths from a document.
+     *
+     * The paths come from the unused-import quick fixes, which is why the
+     * command is hidden from the Command Palette. Whether an import is unused
+     * is not checked again here: the quick fix offered it on the analysis the
+     * user was looking at.
+     */
+    async removeUnusedImports(document: vscode.TextDocument, paths: string[]): Promise<void> {
+        const applied = await this.deps.importHandler.removeImports(document, paths);
+
+        if (!applied) {
+            logger.warn("CommandsHandler", `Failed to remove imports: ${paths.join(", ")}`);
+            vscode.window.showWarningMessage("Could not remove unused imports. The document may have changed or be read-only.");
+            return;
+        }
+
+        const removed = paths.length === 1 ? `Removed unused import: ${paths[0]}` : `Removed ${paths.length} unused imports`;
+        vscode.window.setStatusBarMessage(removed, CommandsHandler.STATUS_MESSAGE_DURATION_MS);
+    }
+
+    /**
+     * Collapses each group of imports naming the same module into one import of
+     * the group's preferred path.
+     *
+     * The groups come from the duplicate-import quick fixes, which is why the
+     * command is hidden from the Command Palette. The writer refuses the lot
+     * when an import has moved or changed since they were found.
+     */
+    async collapseDuplicateImports(document: vscode.TextDocument, groups: DuplicateImportGroup[]): Promise<void> {
+        const applied = await this.deps.importHandler.collapseDuplicateImports(document, groups);
+
+        if (!applied) {
+            logger.warn("CommandsHandler", `Failed to collapse duplicate imports of ${groups.map((group) => group.preferredPath).join(", ")}`);
+            vscode.window.showWarningMessage("Could not collapse duplicate imports. The document may have changed or be read-only.");
+            return;
+        }
+
+        const collapsed = groups.length === 1 ? `Collapsed duplicate imports into ${groups[0].preferredPath}` : `Collapsed ${groups.length} groups of duplicate imports`;
+        vscode.window.setStatusBarMessage(collapsed, CommandsHandler.STATUS_MESSAGE_DURATION_MS);
+    }
+
+    /**
+     * Writes the replacement a restriction rule names in place of the import
+     * it forbids.
+     *
+     * The arguments come from the restricted-import quick fix, which is why
+     * the command is hidden from the Command Palette.
+     */
+    async replaceRestrictedImport(document: vscode.TextDocument, target: ImportAtLine, replacement: string): Promise<void> {
+        const applied = await this.deps.importHandler.replaceImport(document, target, replacement);
+
+        if (!applied) {
+            logger.warn("CommandsHandler", `Failed to replace ${target.path} with ${replacement}`);
+            vscode.window.showWarningMessage("Could not replace the restricted import. The document may have changed or be read-only.");
+            return;
+        }
+
+        vscode.window.setStatusBarMessage(`Replaced ${target.path} with ${replacement}`, CommandsHandler.STATUS_MESSAGE_DURATION_MS);
     }
 
     /**
@@ -198,7 +338,7 @@ export class CommandsHandler {
             // Read straight from the current diagnostics rather than waiting on
             // the auto-import debounce, so the command does not race it.
             const diagnostics = vscode.languages.getDiagnostics(document.uri);
-            const { paths, diagnosticPositionsByPath } = this.deps.importHandler.extractImportsFromDiagnostics(diagnostics);
+            const { paths, diagnosticPositionsByPath } = this.deps.importHandler.extractImportsFromDiagnostics(diagnostics, document.uri);
             logger.debug("CommandsHandler", `Found ${paths.length} missing import(s) in current diagnostics`);
 
             // The missing paths are handed to the organizer rather than added
@@ -222,6 +362,225 @@ export class CommandsHandler {
         }
     }
 
+    /** Optimize Imports over every .verse file in the workspace. */
+    async optimizeImportsInWorkspace(): Promise<WorkspaceOptimizeReport | undefined> {
+        return this.optimizeImportsInFiles("**/*.verse", "workspace");
+    }
+
+    /**
+     * Optimize Imports over every .verse file under a folder. The folder comes
+     * from the Explorer context menu, which is why the command is hidden from
+     * the Command Palette.
+     */
+    async optimizeImportsInFolder(folderUri: vscode.Uri): Promise<WorkspaceOptimizeReport | undefined> {
+        return this.optimizeImportsInFiles(new vscode.RelativePattern(folderUri, "**/*.verse"), vscode.workspace.asRelativePath(folderUri, false));
+    }
+
+    /**
+     * Runs the optimizer over the files a pattern matches, behind a cancellable
+     * progress notification, and offers the report once it is done.
+     *
+     * The files are filtered through DiagnosticsHandler.shouldProcessUri, so
+     * the digest files a UEFN workspace carries are never rewritten.
+     */
+    private async optimizeImportsInFiles(pattern: vscode.GlobPattern, scope: string): Promise<WorkspaceOptimizeReport | undefined> {
+        logger.info("CommandsHandler", `Optimizing imports in ${scope}`);
+
+        try {
+            const found = await vscode.workspace.findFiles(pattern, "{**/node_modules/**,**/.git/**}");
+            const uris = found.filter((uri) => DiagnosticsHandler.shouldProcessUri(uri)).sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+            if (uris.length === 0) {
+                vscode.window.showInformationMessage(`No Verse files found in ${scope}`);
+                return undefined;
+            }
+
+            const report = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Optimizing imports in ${scope}`,
+                    cancellable: true,
+                },
+                (progress, token) => this.deps.workspaceImportOptimizer.optimizeFiles(uris, progress, token),
+            );
+
+            const summary =
+                `Optimized imports in ${scope}: ${report.changed.length} changed, ${report.refused.length} skipped, ${report.failed.length} failed, ` +
+                `${report.ambiguous.length} with ambiguous imports left to choose`;
+            logger.info("CommandsHandler", summary);
+
+            const action = await vscode.window.showInformationMessage(summary, "Show Report");
+            if (action === "Show Report") {
+                const reportDocument = await vscode.workspace.openTextDocument({ language: "markdown", content: formatOptimizeReport(report, scope) });
+                await vscode.window.showTextDocument(reportDocument, { preview: false });
+            }
+
+            return report;
+        } catch (error) {
+            logger.error("CommandsHandler", `Error optimizing imports in ${scope}`, error);
+            vscode.window.showErrorMessage(`Failed to optimize imports: ${error instanceof Error ? error.message : String(error)}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Moves the imports of superseded modules, such as the UnrealEngine.com
+     * SpatialMath, to the modules that replaced them across the workspace,
+     * through the refactor preview, and offers a report of the names each
+     * migrated file should be checked for.
+     *
+     * Filtered through DiagnosticsHandler.shouldProcessUri, as the optimizer's
+     * run is.
+     */
+    async migrateSupersededImports(): Promise<MigrationReport | undefined> {
+        logger.info("CommandsHandler", "Migrating imports of superseded modules");
+
+        try {
+            const found = await vscode.workspace.findFiles("**/*.verse", "{**/node_modules/**,**/.git/**}");
+            const uris = found.filter((uri) => DiagnosticsHandler.shouldProcessUri(uri)).sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+            if (uris.length === 0) {
+                vscode.window.showInformationMessage("No Verse files found in workspace");
+                return undefined;
+            }
+
+            const report = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: "Migrating superseded imports",
+                    cancellable: true,
+                },
+                (progress, token) => this.deps.supersededModuleMigrator.migrateFiles(uris, progress, token),
+            );
+
+            const affected = report.migrated.length + report.refused.length + report.failed.length + report.notApplied.length;
+            if (affected === 0 && report.skippedByCancellation === 0) {
+                vscode.window.showInformationMessage("No imports of superseded modules found");
+                return report;
+            }
+
+            const summary =
+                `Migrated superseded imports: ${report.migrated.length} file(s) migrated, ${report.refused.length} skipped, ${report.failed.length} failed, ` +
+                `${report.notApplied.length} not applied`;
+            logger.info("CommandsHandler", summary);
+
+            const action = await vscode.window.showInformationMessage(summary, "Show Report");
+            if (action === "Show Report") {
+                const reportDocument = await vscode.workspace.openTextDocument({ language: "markdown", content: formatMigrationReport(report) });
+                await vscode.window.showTextDocument(reportDocument, { preview: false });
+            }
+
+            return report;
+        } catch (error) {
+            logger.error("CommandsHandler", "Error migrating superseded imports", error);
+            vscode.window.showErrorMessage(`Failed to migrate superseded imports: ${error instanceof Error ? error.message : String(error)}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Reports what changed between two sets of API digests - the bundled
+     * snapshot and the UEFN install, or any two folders - so a team can see
+     * after a UEFN update which of its imports will stop resolving. Each side
+     * is labelled with the build stamped in its digests' headers.
+     *
+     * The changes in the modules the workspace imports are listed first.
+     * The report opens as Markdown to read or JSON to feed a script, and is
+     * returned for the same reason the other reports are.
+     */
+    async compareDigests(): Promise<DigestDiff | undefined> {
+        logger.info("CommandsHandler", "Comparing API digests");
+
+        try {
+            const sides = await this.pickDigestSets();
+            if (!sides) {
+                return undefined;
+            }
+
+            const diff = diffDigestSets(...sides, await this.workspaceImportedModules());
+            logger.info(
+                "CommandsHandler",
+                `Compared digests: ${diff.removedModules.length} module(s) removed, ${diff.movedIdentifiers.length} name(s) moved, ${diff.removedIdentifiers.length} removed, ` +
+                    `${diff.addedModules.length} module(s) and ${diff.addedIdentifiers.length} name(s) added`,
+            );
+
+            const format = await vscode.window.showQuickPick(["Markdown", "JSON"], { placeHolder: "Open the report as" });
+            if (!format) {
+                return diff;
+            }
+            const reportDocument = await vscode.workspace.openTextDocument(
+                format === "JSON" ? { language: "json", content: JSON.stringify(diff, null, 2) + "\n" } : { language: "markdown", content: formatDigestDiff(diff) },
+            );
+            await vscode.window.showTextDocument(reportDocument, { preview: false });
+
+            return diff;
+        } catch (error) {
+            logger.error("CommandsHandler", "Error comparing API digests", error);
+            vscode.window.showErrorMessage(`Failed to compare API digests: ${error instanceof Error ? error.message : String(error)}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * The absolute paths the workspace's Verse files import, read from disk.
+     * Relative imports are left out: they name the project's own modules,
+     * which no digest declares.
+     */
+    private async workspaceImportedModules(): Promise<Set<string>> {
+        const found = await vscode.workspace.findFiles("**/*.verse", "{**/node_modules/**,**/.git/**}");
+        const imported = new Set<string>();
+        for (const uri of found.filter((candidate) => DiagnosticsHandler.shouldProcessUri(candidate))) {
+            const content = await vscode.workspace.fs.readFile(uri).then(
+                (buffer) => Buffer.from(buffer).toString("utf8"),
+                (error) => {
+                    logger.warn("CommandsHandler", `Could not read ${uri.fsPath}: ${error}`);
+                    return null;
+                },
+            );
+            if (content === null) {
+                continue;
+            }
+            for (const { path } of scanModuleImports(content.split(LINE_SPLIT))) {
+                if (path.startsWith("/")) {
+                    imported.add(path);
+                }
+            }
+        }
+        return imported;
+    }
+
+    /** The two sets to compare, older first, or undefined when the user backs out or the install has none. */
+    private async pickDigestSets(): Promise<[DigestSet, DigestSet] | undefined> {
+        const choice = await vscode.window.showQuickPick(
+            [
+                { label: "Bundled and installed", description: "The extension's snapshot against the UEFN install", folders: false },
+                { label: "Two folders…", description: "Any two folders holding *.digest.verse files", folders: true },
+            ],
+            { placeHolder: "Which digests to compare" },
+        );
+        if (!choice) {
+            return undefined;
+        }
+
+        if (!choice.folders) {
+            const installed = await this.deps.digestComparer.installed();
+            if (!installed) {
+                vscode.window.showWarningMessage("No UEFN digests to compare: open a UEFN project, or set experimental.installedDigestFolder.");
+                return undefined;
+            }
+            return [await this.deps.digestComparer.bundled(), installed];
+        }
+
+        const pickFolder = async (openLabel: string): Promise<string | undefined> => {
+            const picked = await vscode.window.showOpenDialog({ canSelectFiles: false, canSelectFolders: true, canSelectMany: false, openLabel });
+            return picked?.[0]?.fsPath;
+        };
+        const beforeFolder = await pickFolder("Compare From");
+        const afterFolder = beforeFolder && (await pickFolder("Compare To"));
+        if (!beforeFolder || !afterFolder) {
+            return undefined;
+        }
+        return [await readDigestSet(beforeFolder, beforeFolder), await readDigestSet(afterFolder, afterFolder)];
+    }
+
     private menuCommands(): CommandEntry[] {
         return [["verseAutoImports.showStatusMenu", this.showStatusMenu.bind(this)]];
     }
@@ -381,6 +740,282 @@ export class CommandsHandler {
         }
     }
 
+    private historyCommands(): CommandEntry[] {
+        return [
+            ["verseAutoImports.showAutoImportHistory", this.showAutoImportHistory.bind(this)],
+            ["verseAutoImports.revertAutoImport", this.revertAutoImport.bind(this)],
+            ["verseAutoImports.clearAutoImportHistory", this.clearAutoImportHistory.bind(this)],
+            ["verseAutoImports.clearImportChoices", this.clearImportChoices.bind(this)],
+        ];
+    }
+
+    /** Reveals the Auto-Import History view, through the focus command VS Code generates for every view. */
+    async showAutoImportHistory(): Promise<void> {
+        await vscode.commands.executeCommand(`${AutoImportHistoryView.VIEW_ID}.focus`);
+    }
+
+    /**
+     * Removes the imports one automatic edit wrote, where the file still holds
+     * them.
+     *
+     * The node comes from the history view's context menu, which is why the
+     * command is hidden from the Command Palette.
+     */
+    async revertAutoImport(node: AutoImportHistoryNode): Promise<void> {
+        try {
+            const { removed, missing, applied } = await this.deps.autoImportHistory.revert(node.entry.id);
+
+            if (!applied) {
+                logger.warn("CommandsHandler", `Failed to revert auto-import in ${node.entry.fsPath}`);
+                vscode.window.showWarningMessage("Could not revert the auto-import. The document may have changed or be read-only.");
+                return;
+            }
+
+            if (removed.length === 0) {
+                vscode.window.showInformationMessage("Nothing to revert: the file no longer holds any of these imports.");
+                return;
+            }
+
+            const message = `Removed ${removed.length} auto-imported statement(s)`;
+            if (missing.length > 0) {
+                vscode.window.showInformationMessage(`${message}. No longer found: ${missing.join(", ")}`);
+            } else {
+                vscode.window.setStatusBarMessage(message, CommandsHandler.STATUS_MESSAGE_DURATION_MS);
+            }
+        } catch (error) {
+            logger.error("CommandsHandler", "Error reverting auto-import", error);
+            vscode.window.showErrorMessage(`Failed to revert auto-import: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    async clearAutoImportHistory(): Promise<void> {
+        await this.deps.autoImportHistory.clear();
+        vscode.window.setStatusBarMessage("Auto-import history cleared", CommandsHandler.STATUS_MESSAGE_DURATION_MS);
+    }
+
+    /** Forgets every remembered quick-fix pick and undone auto-import. Mappings already written to settings stay. */
+    async clearImportChoices(): Promise<void> {
+        await this.deps.importChoiceMemory.clear();
+        vscode.window.setStatusBarMessage("Learned import choices cleared", CommandsHandler.STATUS_MESSAGE_DURATION_MS);
+    }
+
+    private apiExplorerCommands(): CommandEntry[] {
+        return [
+            ["verseAutoImports.filterApiExplorer", this.filterApiExplorer.bind(this)],
+            ["verseAutoImports.clearApiExplorerFilter", this.clearApiExplorerFilter.bind(this)],
+            ["verseAutoImports.refreshApiExplorer", this.refreshApiExplorer.bind(this)],
+            ["verseAutoImports.importFromApiExplorer", this.importFromApiExplorer.bind(this)],
+            ["verseAutoImports.copyUsingStatement", this.copyUsingStatement.bind(this)],
+            ["verseAutoImports.copyProjectUsingStatement", this.copyProjectUsingStatement.bind(this)],
+            ["verseAutoImports.makeProjectModulePublic", this.makeProjectModulePublic.bind(this)],
+        ];
+    }
+
+    async filterApiExplorer(): Promise<void> {
+        const text = await vscode.window.showInputBox({
+            prompt: "Show the names and module paths containing this text",
+            placeHolder: "e.g. button_device or SpatialMath",
+            value: this.deps.verseApiExplorerView.filter,
+        });
+        if (text !== undefined) {
+            this.deps.verseApiExplorerView.setFilter(text);
+        }
+    }
+
+    clearApiExplorerFilter(): void {
+        this.deps.verseApiExplorerView.setFilter("");
+    }
+
+    /** Reads the digests again before rebuilding the view, so a UEFN update shows without a reload. */
+    refreshApiExplorer(): void {
+        this.deps.importHandler.reloadDigests();
+        this.deps.verseApiExplorerView.refresh();
+    }
+
+    /**
+     * Imports the module of an API explorer node into the active Verse file,
+     * placed and formatted as any other added import. A module
+     * `behavior.restrictedImports` forbids in that file is not written, and
+     * the rule's message is shown instead.
+     */
+    async importFromApiExplorer(node: VerseApiExplorerNode): Promise<void> {
+        const importable = VerseApiExplorerView.importableOf(node);
+        const document = vscode.window.activeTextEditor?.document;
+        if (!importable) {
+            return;
+        }
+        if (!document || document.languageId !== "verse") {
+            vscode.window.showWarningMessage(`Open a Verse file to import ${importable.modulePath} into.`);
+            return;
+        }
+        const restriction = this.deps.importHandler.importRestrictionFor(importable.modulePath, document.uri);
+        if (restriction) {
+            vscode.window.showWarningMessage(`Not importing ${importable.modulePath}: ${restriction.message}`);
+            return;
+        }
+
+        await this.addSingleImport(document, await this.deps.importHandler.importStatementFor(importable, document.uri));
+    }
+
+    /** Copies the `using` statement for an API explorer node, in the syntax configured for the active file. */
+    async copyUsingStatement(node: VerseApiExplorerNode): Promise<void> {
+        const importable = VerseApiExplorerView.importableOf(node);
+        if (!importable) {
+            return;
+        }
+
+        const statement = await this.deps.importHandler.importStatementFor(importable, activeResource());
+        await vscode.env.clipboard.writeText(statement);
+        vscode.window.setStatusBarMessage(`Copied: ${statement}`, CommandsHandler.STATUS_MESSAGE_DURATION_MS);
+    }
+
+    /**
+     * Copies the `using` statement for a Project Modules node by its absolute
+     * path, whatever `pathConversion.projectImportPathStyle` says: the copy is
+     * for pasting anywhere in the project, where a relative path may not
+     * resolve.
+     */
+    async copyProjectUsingStatement(node: ProjectModuleExplorerNode): Promise<void> {
+        const modulePath = node.kind === "module" ? node.module.modulePath : node.modulePath;
+        const statement = this.deps.importHandler.absoluteImportStatement(modulePath, activeResource());
+        await vscode.env.clipboard.writeText(statement);
+        vscode.window.setStatusBarMessage(`Copied: ${statement}`, CommandsHandler.STATUS_MESSAGE_DURATION_MS);
+    }
+
+    /**
+     * Makes a Project Modules module reachable from the whole project, as the
+     * quick fix would for an import from the project's root module: each
+     * module below the top level on its path is declared `<public>`.
+     */
+    async makeProjectModulePublic(node: ProjectModuleExplorerNode): Promise<void> {
+        if (node.kind !== "module") {
+            return;
+        }
+
+        const { modulePath } = node.module;
+        await this.makeModulePublic({ targetPath: modulePath, importerPath: node.projectPath, moduleName: modulePath.slice(modulePath.lastIndexOf("/") + 1) });
+    }
+
+    private moduleGraphCommands(): CommandEntry[] {
+        return [
+            ["verseAutoImports.showModuleGraph", this.showModuleGraph.bind(this)],
+            ["verseAutoImports.exportModuleGraph", this.exportModuleGraph.bind(this)],
+        ];
+    }
+
+    /**
+     * Draws which modules import which across the workspace, from every Verse
+     * file's `using` statements resolved to absolute paths. Returned for the
+     * same reason the reports are.
+     */
+    async showModuleGraph(): Promise<ModuleDependencyGraph | undefined> {
+        const graph = await this.buildModuleGraph();
+        if (graph) {
+            this.deps.moduleGraphPanel.show(graph);
+        }
+        return graph;
+    }
+
+    /**
+     * Saves the module graph as Mermaid, Graphviz DOT or JSON. The panel passes
+     * the graph it shows and the format its button names; from the palette the
+     * graph is built afresh and both choices are asked for.
+     */
+    async exportModuleGraph(graph?: ModuleDependencyGraph, format?: ModuleGraphFormat, detail?: ModuleGraphDetail): Promise<vscode.Uri | undefined> {
+        try {
+            const chosenFormat =
+                format ??
+                (
+                    await vscode.window.showQuickPick(
+                        [
+                            { label: "Mermaid", description: "A flowchart for Markdown design docs", format: "mermaid" as const },
+                            { label: "Graphviz DOT", description: "For dot and the tools that read it", format: "dot" as const },
+                            { label: "JSON", description: "Every file, import and resolution, for scripts", format: "json" as const },
+                        ],
+                        { placeHolder: "Export the module graph as" },
+                    )
+                )?.format;
+            if (!chosenFormat) {
+                return undefined;
+            }
+
+            const chosenDetail =
+                detail ??
+                (chosenFormat === "json"
+                    ? "modules"
+                    : (
+                          await vscode.window.showQuickPick(
+                              [
+                                  { label: "Module to module", detail: "modules" as const },
+                                  { label: "File to module", detail: "files" as const },
+                              ],
+                              { placeHolder: "Draw the dependencies" },
+                          )
+                      )?.detail);
+            if (!chosenDetail) {
+                return undefined;
+            }
+
+            const exported = graph ?? (await this.buildModuleGraph());
+            if (!exported) {
+                return undefined;
+            }
+
+            const { name, extension } = MODULE_GRAPH_FORMATS[chosenFormat];
+            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+            const target = await vscode.window.showSaveDialog({
+                defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, `module-graph.${extension}`) : undefined,
+                filters: { [name]: [extension] },
+            });
+            if (!target) {
+                return undefined;
+            }
+
+            await vscode.workspace.fs.writeFile(target, Buffer.from(formatModuleGraph(exported, chosenFormat, chosenDetail), "utf8"));
+            logger.info("CommandsHandler", `Exported the module graph to ${target.fsPath}`);
+
+            const action = await vscode.window.showInformationMessage(`Module graph saved to ${vscode.workspace.asRelativePath(target, false)}`, "Open");
+            if (action === "Open") {
+                await vscode.window.showTextDocument(target, { preview: false });
+            }
+            return target;
+        } catch (error) {
+            logger.error("CommandsHandler", "Error exporting the module graph", error);
+            vscode.window.showErrorMessage(`Failed to export the module graph: ${error instanceof Error ? error.message : String(error)}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Reads every Verse file in the workspace into the graph, filtered through
+     * DiagnosticsHandler.shouldProcessUri as the optimizer's run is.
+     */
+    private async buildModuleGraph(): Promise<ModuleDependencyGraph | undefined> {
+        logger.info("CommandsHandler", "Building the module graph");
+
+        try {
+            const found = await vscode.workspace.findFiles("**/*.verse", "{**/node_modules/**,**/.git/**}");
+            const uris = found.filter((uri) => DiagnosticsHandler.shouldProcessUri(uri)).sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+            if (uris.length === 0) {
+                vscode.window.showInformationMessage("No Verse files found in workspace");
+                return undefined;
+            }
+
+            return await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: "Reading module dependencies",
+                    cancellable: true,
+                },
+                (progress, token) => this.deps.moduleGraphBuilder.build(uris, progress, token),
+            );
+        } catch (error) {
+            logger.error("CommandsHandler", "Error building the module graph", error);
+            vscode.window.showErrorMessage(`Failed to build the module graph: ${error instanceof Error ? error.message : String(error)}`);
+            return undefined;
+        }
+    }
+
     private pathCacheCommands(): CommandEntry[] {
         return [
             ["verseAutoImports.rebuildPathCache", this.rebuildPathCache.bind(this)],
@@ -521,6 +1156,28 @@ export class CommandsHandler {
         vscode.window.showWarningMessage(`${summary} ${failedCount} could not be converted. The document may have changed or be read-only.`);
     }
 
+    /**
+     * Writes a whole document's conversions as one edit through the refactor
+     * preview, with every ambiguous pick already made, so the reviewer sees
+     * them together. Nothing written reads as a decline rather than a failure:
+     * a cancelled preview and a refused edit both answer none, and a cancel is
+     * the likelier of the two.
+     */
+    private async applyPreviewedConversions(
+        document: vscode.TextDocument,
+        pathKind: "absolute" | "relative",
+        conversions: Array<{ conversion: PathConversionResult; selectedPath?: string }>,
+    ): Promise<void> {
+        const written = conversions.length === 0 ? 0 : await this.deps.importPathConverter.applyConversions(document, conversions);
+        if (written === 0) {
+            logger.info("CommandsHandler", `No ${pathKind} path conversions were written: the preview was cancelled or empty, or the edit failed`);
+            vscode.window.showInformationMessage("Verse Auto Imports: no imports were converted.");
+        } else {
+            this.reportConversionTotals(pathKind, written, 0);
+        }
+        this.finalizeConversion(document.uri.toString());
+    }
+
     /**
      * Asks which of several candidate paths to use, and returns undefined when
      * the user dismisses the pick. A dismissal is a decline rather than a
@@ -591,6 +1248,16 @@ export class CommandsHandler {
             return;
         }
 
+        if (previewImportEditsFor(document.uri)) {
+            const picked: Array<{ conversion: PathConversionResult; selectedPath?: string }> = results.filter((result) => !result.isAmbiguous).map((conversion) => ({ conversion }));
+            for (const result of results.filter((result) => result.isAmbiguous)) {
+                const selectedPath = await this.selectAmbiguousPath(result);
+                if (selectedPath) picked.push({ conversion: result, selectedPath });
+            }
+            await this.applyPreviewedConversions(document, "absolute", picked);
+            return;
+        }
+
         let convertedCount = 0;
         let failedCount = 0;
         const ambiguousImports: PathConversionResult[] = [];
@@ -652,6 +1319,15 @@ export class CommandsHandler {
             return;
         }
 
+        if (previewImportEditsFor(document.uri)) {
+            await this.applyPreviewedConversions(
+                document,
+                "relative",
+                results.map((conversion) => ({ conversion })),
+            );
+            return;
+        }
+
         let convertedCount = 0;
         let failedCount = 0;
         for (const result of results) {
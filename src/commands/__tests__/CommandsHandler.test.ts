@@ -4,6 +4,8 @@ import { logger } from "../../utils";
 import { ImportHandler, ImportPathConverter, ImportCodeLensProvider } from "../../imports";
 import { ProjectPathCache } from "../../services";
 import { StatusBarHandler } from "../../ui";
+import { AutoImportHistoryNode } from "../../history";
+import { assembleModuleGraph } from "../../graph";
 
 // Regression for #133: addImportsToDocument and organizeImports return false
 // when applyEdit is rejected - a stale document version, or a read-only file -
@@ -50,6 +52,13 @@ const REGISTERED_COMMANDS: Array<[string, string]> = [
     ["verseAutoImports.addSingleImport", "addSingleImport"],
     ["verseAutoImports.optimizeImports", "optimizeImports"],
     ["verseAutoImports.organizeImportsInDocument", "organizeImportsInDocument"],
+    ["verseAutoImports.removeUnusedImports", "removeUnusedImports"],
+    ["verseAutoImports.collapseDuplicateImports", "collapseDuplicateImports"],
+    ["verseAutoImports.replaceRestrictedImport", "replaceRestrictedImport"],
+    ["verseAutoImports.optimizeImportsInWorkspace", "optimizeImportsInWorkspace"],
+    ["verseAutoImports.optimizeImportsInFolder", "optimizeImportsInFolder"],
+    ["verseAutoImports.migrateSupersededImports", "migrateSupersededImports"],
+    ["verseAutoImports.compareDigests", "compareDigests"],
     ["verseAutoImports.showStatusMenu", "showStatusMenu"],
     ["verseAutoImports.toggleAutoImport", "toggleAutoImport"],
     ["verseAutoImports.togglePreserveLocations", "togglePreserveLocations"],
@@ -68,6 +77,19 @@ const REGISTERED_COMMANDS: Array<[string, string]> = [
     ["verseAutoImports.convertToRelativePath", "convertToRelativePath"],
     ["verseAutoImports.convertAllToRelativePath", "convertAllToRelativePath"],
     ["verseAutoImports.makeModulePublic", "makeModulePublic"],
+    ["verseAutoImports.showAutoImportHistory", "showAutoImportHistory"],
+    ["verseAutoImports.revertAutoImport", "revertAutoImport"],
+    ["verseAutoImports.clearAutoImportHistory", "clearAutoImportHistory"],
+    ["verseAutoImports.clearImportChoices", "clearImportChoices"],
+    ["verseAutoImports.filterApiExplorer", "filterApiExplorer"],
+    ["verseAutoImports.clearApiExplorerFilter", "clearApiExplorerFilter"],
+    ["verseAutoImports.refreshApiExplorer", "refreshApiExplorer"],
+    ["verseAutoImports.importFromApiExplorer", "importFromApiExplorer"],
+    ["verseAutoImports.copyUsingStatement", "copyUsingStatement"],
+    ["verseAutoImports.copyProjectUsingStatement", "copyProjectUsingStatement"],
+    ["verseAutoImports.makeProjectModulePublic", "makeProjectModulePublic"],
+    ["verseAutoImports.showModuleGraph", "showModuleGraph"],
+    ["verseAutoImports.exportModuleGraph", "exportModuleGraph"],
 ];
 
 function registeredCommands(): Array<[string, string]> {
@@ -127,6 +149,367 @@ describe("CommandsHandler.addSingleImport", () => {
     });
 });
 
+describe("CommandsHandler.addSingleImport remembered choices", () => {
+    const choice = { identifier: "vector3", modulePath: "/Verse.org/SpatialMath" };
+    let defaultConfiguration: unknown;
+
+    beforeEach(() => {
+        defaultConfiguration = vscode.workspace.getConfiguration();
+    });
+
+    afterEach(() => {
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue(defaultConfiguration);
+    });
+
+    function makeChoiceHandler(streak: number): { handler: CommandsHandler; recordPick: jest.Mock } {
+        const importHandler = { addImportsToDocument: jest.fn().mockResolvedValue(true) } as unknown as ImportHandler;
+        const recordPick = jest.fn().mockResolvedValue(streak);
+        return { handler: new CommandsHandler({ importHandler, importChoiceMemory: { recordPick } } as unknown as CommandsDependencies), recordPick };
+    }
+
+    /** Lets the offer, which the command does not wait for, run to its end. */
+    const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+    it("remembers a pick made out of several options", async () => {
+        const { handler, recordPick } = makeChoiceHandler(1);
+
+        await handler.addSingleImport(makeDocument(), IMPORT_STATEMENT, { line: 7, character: 3 }, choice);
+
+        expect(recordPick).toHaveBeenCalledWith(choice);
+        expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+    });
+
+    it("offers the mapping on the third pick in a row and adds it to the mappings already there", async () => {
+        const update = jest.fn().mockResolvedValue(undefined);
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+            get: jest.fn().mockImplementation((_key: string, defaultValue?: unknown) => defaultValue),
+            inspect: jest.fn().mockReturnValue({ globalValue: { rotation: "/Verse.org/SpatialMath" } }),
+            update,
+        });
+        (vscode.window.showInformationMessage as jest.Mock).mockResolvedValueOnce("Always Import from There");
+
+        await makeChoiceHandler(3).handler.addSingleImport(makeDocument(), IMPORT_STATEMENT, { line: 7, character: 3 }, choice);
+        await settle();
+
+        expect(update).toHaveBeenCalledWith("behavior.ambiguousImports", { rotation: "/Verse.org/SpatialMath", vector3: "/Verse.org/SpatialMath" }, vscode.ConfigurationTarget.Global);
+    });
+
+    it("does not offer a mapping the settings already hold", async () => {
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+            get: jest.fn().mockReturnValue({ vector3: "/UnrealEngine.com/Temporary/SpatialMath" }),
+            inspect: jest.fn().mockReturnValue(undefined),
+            update: jest.fn(),
+        });
+
+        await makeChoiceHandler(3).handler.addSingleImport(makeDocument(), IMPORT_STATEMENT, { line: 7, character: 3 }, choice);
+        await settle();
+
+        expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+    });
+});
+
+describe("CommandsHandler.removeUnusedImports", () => {
+    it("warns and reports no success when the edit is rejected", async () => {
+        const handler = makeHandler({ removeImports: jest.fn().mockResolvedValue(false) });
+
+        await handler.removeUnusedImports(makeDocument(), [IMPORT_STATEMENT]);
+
+        expect((vscode.window.showWarningMessage as jest.Mock).mock.calls[0][0]).toMatch(/Could not remove unused imports/);
+        expect(vscode.window.setStatusBarMessage).not.toHaveBeenCalled();
+    });
+
+    it("names the import it removed, and counts them when there were several", async () => {
+        const handler = makeHandler({ removeImports: jest.fn().mockResolvedValue(true) });
+
+        await handler.removeUnusedImports(makeDocument(), ["/Verse.org/Random"]);
+        await handler.removeUnusedImports(makeDocument(), ["/Verse.org/Random", "/Verse.org/Simulation"]);
+
+        const messages = (vscode.window.setStatusBarMessage as jest.Mock).mock.calls.map(([message]) => message);
+        expect(messages).toEqual(["Removed unused import: /Verse.org/Random", "Removed 2 unused imports"]);
+    });
+});
+
+describe("CommandsHandler.collapseDuplicateImports", () => {
+    const group = {
+        imports: [
+            { path: "/me@fortnite.com/Game/Gadgets", line: 0 },
+            { path: "Gadgets", line: 1 },
+        ],
+        preferredPath: "Gadgets",
+    };
+
+    it("warns and reports no success when the edit is rejected", async () => {
+        const handler = makeHandler({ collapseDuplicateImports: jest.fn().mockResolvedValue(false) });
+
+        await handler.collapseDuplicateImports(makeDocument(), [group]);
+
+        expect((vscode.window.showWarningMessage as jest.Mock).mock.calls[0][0]).toMatch(/Could not collapse duplicate imports/);
+        expect(vscode.window.setStatusBarMessage).not.toHaveBeenCalled();
+    });
+
+    it("names the path it kept, and counts the groups when there were several", async () => {
+        const handler = makeHandler({ collapseDuplicateImports: jest.fn().mockResolvedValue(true) });
+
+        await handler.collapseDuplicateImports(makeDocument(), [group]);
+        await handler.collapseDuplicateImports(makeDocument(), [group, { ...group, preferredPath: "/Verse.org/Random" }]);
+
+        const messages = (vscode.window.setStatusBarMessage as jest.Mock).mock.calls.map(([message]) => message);
+        expect(messages).toEqual(["Collapsed duplicate imports into Gadgets", "Collapsed 2 groups of duplicate imports"]);
+    });
+});
+
+describe("CommandsHandler.replaceRestrictedImport", () => {
+    const target = { path: "/UnrealEngine.com/Temporary/SpatialMath", line: 2 };
+
+    it("warns and reports no success when the edit is rejected", async () => {
+        const handler = makeHandler({ replaceImport: jest.fn().mockResolvedValue(false) });
+
+        await handler.replaceRestrictedImport(makeDocument(), target, "/Verse.org/SpatialMath");
+
+        expect((vscode.window.showWarningMessage as jest.Mock).mock.calls[0][0]).toMatch(/Could not replace the restricted import/);
+        expect(vscode.window.setStatusBarMessage).not.toHaveBeenCalled();
+    });
+
+    it("names both paths once replaced", async () => {
+        const handler = makeHandler({ replaceImport: jest.fn().mockResolvedValue(true) });
+
+        await handler.replaceRestrictedImport(makeDocument(), target, "/Verse.org/SpatialMath");
+
+        expect((vscode.window.setStatusBarMessage as jest.Mock).mock.calls[0][0]).toBe("Replaced /UnrealEngine.com/Temporary/SpatialMath with /Verse.org/SpatialMath");
+    });
+});
+
+describe("CommandsHandler.optimizeImportsInWorkspace", () => {
+    const emptyReport = { changed: [], refused: [], failed: [], notApplied: [], ambiguous: [], unchangedCount: 0, skippedByCancellation: 0 };
+
+    function makeWorkspaceHandler(optimizeFiles: jest.Mock): CommandsHandler {
+        return new CommandsHandler({ workspaceImportOptimizer: { optimizeFiles } } as unknown as CommandsDependencies);
+    }
+
+    afterEach(() => {
+        (vscode.workspace.findFiles as jest.Mock).mockResolvedValue([]);
+    });
+
+    it("never hands a digest file to the optimizer", async () => {
+        const device = vscode.Uri.file("C:\\Project\\Content\\device.verse");
+        (vscode.workspace.findFiles as jest.Mock).mockResolvedValue([vscode.Uri.file("C:\\Project\\Fortnite.digest.verse"), device]);
+        const optimizeFiles = jest.fn().mockResolvedValue(emptyReport);
+
+        await makeWorkspaceHandler(optimizeFiles).optimizeImportsInWorkspace();
+
+        expect(optimizeFiles.mock.calls[0][0]).toEqual([device]);
+    });
+
+    it("says so, and runs nothing, when there are no Verse files", async () => {
+        const optimizeFiles = jest.fn();
+
+        const report = await makeWorkspaceHandler(optimizeFiles).optimizeImportsInWorkspace();
+
+        expect(report).toBeUndefined();
+        expect(optimizeFiles).not.toHaveBeenCalled();
+        expect((vscode.window.showInformationMessage as jest.Mock).mock.calls[0][0]).toBe("No Verse files found in workspace");
+    });
+
+    it("opens the report when asked to", async () => {
+        (vscode.workspace.findFiles as jest.Mock).mockResolvedValue([vscode.Uri.file("C:\\Project\\Content\\device.verse")]);
+        (vscode.window.showInformationMessage as jest.Mock).mockResolvedValueOnce("Show Report");
+
+        await makeWorkspaceHandler(jest.fn().mockResolvedValue(emptyReport)).optimizeImportsInWorkspace();
+
+        expect(vscode.workspace.openTextDocument).toHaveBeenCalledWith(expect.objectContaining({ language: "markdown" }));
+        expect(vscode.window.showTextDocument).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("CommandsHandler.migrateSupersededImports", () => {
+    const emptyReport = { migrated: [], refused: [], failed: [], notApplied: [], unaffectedCount: 1, skippedByCancellation: 0 };
+
+    afterEach(() => {
+        (vscode.workspace.findFiles as jest.Mock).mockResolvedValue([]);
+    });
+
+    it("says so, and offers no report, when no file imports a superseded module", async () => {
+        (vscode.workspace.findFiles as jest.Mock).mockResolvedValue([vscode.Uri.file("C:\\Project\\Fortnite.digest.verse"), vscode.Uri.file("C:\\Project\\Content\\device.verse")]);
+        const migrateFiles = jest.fn().mockResolvedValue(emptyReport);
+
+        await new CommandsHandler({ supersededModuleMigrator: { migrateFiles } } as unknown as CommandsDependencies).migrateSupersededImports();
+
+        expect(migrateFiles.mock.calls[0][0]).toEqual([vscode.Uri.file("C:\\Project\\Content\\device.verse")]);
+        expect((vscode.window.showInformationMessage as jest.Mock).mock.calls[0]).toEqual(["No imports of superseded modules found"]);
+    });
+});
+
+describe("CommandsHandler.compareDigests", () => {
+    const set = (label: string) => ({ label, digests: new Map() });
+
+    it("warns and compares nothing when the install has no digests to read", async () => {
+        (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce({ folders: false });
+        const digestComparer = { installed: jest.fn().mockResolvedValue(null), bundled: jest.fn() };
+
+        expect(await new CommandsHandler({ digestComparer } as unknown as CommandsDependencies).compareDigests()).toBeUndefined();
+        expect((vscode.window.showWarningMessage as jest.Mock).mock.calls[0][0]).toMatch(/No UEFN digests/);
+        expect(digestComparer.bundled).not.toHaveBeenCalled();
+    });
+
+    it("opens the diff of the bundled and installed digests as JSON when asked to", async () => {
+        (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce({ folders: false }).mockResolvedValueOnce("JSON");
+        const digestComparer = { installed: jest.fn().mockResolvedValue(set("Installed")), bundled: jest.fn().mockResolvedValue(set("Bundled")) };
+
+        const diff = await new CommandsHandler({ digestComparer } as unknown as CommandsDependencies).compareDigests();
+
+        expect(diff?.before.label).toBe("Bundled");
+        expect(diff?.after.label).toBe("Installed");
+        expect(vscode.workspace.openTextDocument).toHaveBeenCalledWith(expect.objectContaining({ language: "json" }));
+    });
+
+    it("reads which modules the workspace imports, for the diff to put first", async () => {
+        (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce({ folders: false });
+        (vscode.workspace.findFiles as jest.Mock).mockResolvedValueOnce([vscode.Uri.file("C:\\Project\\Content\\device.verse")]);
+        (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValueOnce(Buffer.from("using { /Verse.org/Simulation }\nusing. Gadgets\n"));
+        const digestComparer = { installed: jest.fn().mockResolvedValue(set("Installed")), bundled: jest.fn().mockResolvedValue(set("Bundled")) };
+
+        const diff = await new CommandsHandler({ digestComparer } as unknown as CommandsDependencies).compareDigests();
+
+        expect(diff?.impact?.importedModuleCount).toBe(1);
+    });
+});
+
+describe("CommandsHandler API explorer actions", () => {
+    const node = { kind: "declaration" as const, declaration: { identifier: "button_device", modulePath: "/Fortnite.com/Devices", type: "class", source: "digest_lookup" as const } };
+    const importHandler = {
+        importStatementFor: jest.fn().mockResolvedValue("using { /Fortnite.com/Devices }"),
+        addImportsToDocument: jest.fn().mockResolvedValue(true),
+        importRestrictionFor: jest.fn().mockReturnValue(null),
+    };
+
+    afterEach(() => {
+        setActiveEditor(undefined);
+    });
+
+    it("imports a name's module into the active Verse file", async () => {
+        const document = { uri: vscode.Uri.file("C:\\Project\\Content\\device.verse"), languageId: "verse" };
+        setActiveEditor({ document } as unknown as vscode.TextEditor);
+
+        await new CommandsHandler({ importHandler } as unknown as CommandsDependencies).importFromApiExplorer(node);
+
+        expect(importHandler.importStatementFor).toHaveBeenCalledWith(node.declaration, document.uri);
+        expect(importHandler.addImportsToDocument).toHaveBeenCalledWith(document, ["using { /Fortnite.com/Devices }"], undefined);
+    });
+
+    it("warns with the rule's message rather than importing a restricted module", async () => {
+        const document = { uri: vscode.Uri.file("C:\\Project\\Content\\device.verse"), languageId: "verse" };
+        setActiveEditor({ document } as unknown as vscode.TextEditor);
+        importHandler.importRestrictionFor.mockReturnValueOnce({ message: "Devices are wired up in Core only" });
+
+        await new CommandsHandler({ importHandler } as unknown as CommandsDependencies).importFromApiExplorer(node);
+
+        expect(importHandler.importRestrictionFor).toHaveBeenCalledWith("/Fortnite.com/Devices", document.uri);
+        expect(importHandler.addImportsToDocument).not.toHaveBeenCalled();
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith("Not importing /Fortnite.com/Devices: Devices are wired up in Core only");
+    });
+
+    it("warns rather than importing when no Verse file is active", async () => {
+        await new CommandsHandler({ importHandler } as unknown as CommandsDependencies).importFromApiExplorer(node);
+
+        expect(importHandler.addImportsToDocument).not.toHaveBeenCalled();
+        expect((vscode.window.showWarningMessage as jest.Mock).mock.calls[0][0]).toMatch(/Open a Verse file/);
+    });
+
+    it("copies the using statement", async () => {
+        await new CommandsHandler({ importHandler } as unknown as CommandsDependencies).copyUsingStatement(node);
+
+        expect(vscode.env.clipboard.writeText).toHaveBeenCalledWith("using { /Fortnite.com/Devices }");
+    });
+});
+
+describe("CommandsHandler Project Modules actions", () => {
+    const PROJECT = "/acct@fortnite.com/MyGame";
+    const gadgets = { modulePath: `${PROJECT}/Gadgets/Internal`, isFolder: true, declarations: [], isPublic: false, members: [] };
+
+    it("copies a module's using statement by its absolute path", async () => {
+        const importHandler = { absoluteImportStatement: jest.fn().mockReturnValue(`using { ${PROJECT}/Gadgets/Internal }`) };
+
+        await new CommandsHandler({ importHandler } as unknown as CommandsDependencies).copyProjectUsingStatement({ kind: "module", module: gadgets, projectPath: PROJECT });
+
+        expect(importHandler.absoluteImportStatement).toHaveBeenCalledWith(`${PROJECT}/Gadgets/Internal`, undefined);
+        expect(vscode.env.clipboard.writeText).toHaveBeenCalledWith(`using { ${PROJECT}/Gadgets/Internal }`);
+    });
+
+    it("makes a module reachable from the project's root module", async () => {
+        const moduleVisibilityWriter = { makeModulePublic: jest.fn().mockResolvedValue(undefined) };
+
+        await new CommandsHandler({ moduleVisibilityWriter } as unknown as CommandsDependencies).makeProjectModulePublic({ kind: "module", module: gadgets, projectPath: PROJECT });
+
+        expect(moduleVisibilityWriter.makeModulePublic).toHaveBeenCalledWith({ targetPath: `${PROJECT}/Gadgets/Internal`, importerPath: PROJECT, moduleName: "Internal" }, undefined);
+    });
+});
+
+describe("CommandsHandler module graph", () => {
+    const graph = assembleModuleGraph("/acct@fortnite.com/MyGame", [
+        {
+            file: "Content/Gadgets/trap.verse",
+            module: "/acct@fortnite.com/MyGame/Gadgets",
+            imports: [{ path: "/acct@fortnite.com/MyGame/Core", line: 1, resolved: ["/acct@fortnite.com/MyGame/Core"] }],
+        },
+    ]);
+
+    it("shows the graph of the workspace's Verse files", async () => {
+        (vscode.workspace.findFiles as jest.Mock).mockResolvedValueOnce([vscode.Uri.file("C:/Project/Content/Gadgets/trap.verse")]);
+        const moduleGraphBuilder = { build: jest.fn().mockResolvedValue(graph) };
+        const moduleGraphPanel = { show: jest.fn() };
+
+        expect(await new CommandsHandler({ moduleGraphBuilder, moduleGraphPanel } as unknown as CommandsDependencies).showModuleGraph()).toBe(graph);
+        expect(moduleGraphPanel.show).toHaveBeenCalledWith(graph);
+    });
+
+    it("saves the graph it is given in the format it is given, without asking", async () => {
+        const target = vscode.Uri.file("C:/Project/module-graph.mmd");
+        (vscode.window.showSaveDialog as jest.Mock).mockResolvedValueOnce(target);
+
+        expect(await new CommandsHandler({} as CommandsDependencies).exportModuleGraph(graph, "mermaid", "modules")).toBe(target);
+
+        expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+        expect((vscode.window.showSaveDialog as jest.Mock).mock.calls[0][0].filters).toEqual({ Mermaid: ["mmd"] });
+        const written = Buffer.from((vscode.workspace.fs.writeFile as jest.Mock).mock.calls[0][1]).toString("utf8");
+        expect(written).toContain("m1 --> m0");
+    });
+
+    it("writes nothing when the save dialog is dismissed", async () => {
+        (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce({ format: "json" });
+        (vscode.window.showSaveDialog as jest.Mock).mockResolvedValueOnce(undefined);
+
+        expect(await new CommandsHandler({} as CommandsDependencies).exportModuleGraph(graph)).toBeUndefined();
+        expect(vscode.window.showSaveDialog).toHaveBeenCalledWith(expect.objectContaining({ filters: { JSON: ["json"] } }));
+        expect(vscode.workspace.fs.writeFile).not.toHaveBeenCalled();
+    });
+});
+
+describe("CommandsHandler.revertAutoImport", () => {
+    const node = { kind: "entry", entry: { id: "a", timestamp: 0, fsPath: "C:\\Project\\Content\\device.verse", statements: [] } } as unknown as AutoImportHistoryNode;
+
+    function makeHistoryHandler(result: { removed: string[]; missing: string[]; applied: boolean }): CommandsHandler {
+        return new CommandsHandler({ autoImportHistory: { revert: jest.fn().mockResolvedValue(result) } } as unknown as CommandsDependencies);
+    }
+
+    it("warns when the edit is rejected", async () => {
+        await makeHistoryHandler({ removed: ["/Verse.org/Random"], missing: [], applied: false }).revertAutoImport(node);
+
+        expect((vscode.window.showWarningMessage as jest.Mock).mock.calls[0][0]).toMatch(/Could not revert/);
+    });
+
+    it("says so when the file no longer holds any of the imports", async () => {
+        await makeHistoryHandler({ removed: [], missing: ["/Verse.org/Random"], applied: true }).revertAutoImport(node);
+
+        expect((vscode.window.showInformationMessage as jest.Mock).mock.calls[0][0]).toMatch(/Nothing to revert/);
+    });
+
+    it("names the imports it could not find when it removed the rest", async () => {
+        await makeHistoryHandler({ removed: ["/Verse.org/Random"], missing: ["/Fortnite.com/Devices"], applied: true }).revertAutoImport(node);
+
+        expect((vscode.window.showInformationMessage as jest.Mock).mock.calls[0][0]).toBe("Removed 1 auto-imported statement(s). No longer found: /Fortnite.com/Devices");
+    });
+});
+
 describe("CommandsHandler.optimizeImports", () => {
     function activateVerseDocument(): vscode.TextDocument & { save: jest.Mock } {
         const document = makeDocument();
@@ -183,6 +566,38 @@ describe("CommandsHandler.optimizeImports", () => {
         expect(organizeImports.mock.calls[0][1]).toEqual(["Features"]);
         expect(organizeImports.mock.calls[0][2]).toBe(diagnosticPositionsByPath);
     });
+
+    // The handler is real up to the writer: the restriction has to be applied
+    // where the command reads its paths, not only by the quick fixes.
+    it("does not write a module behavior.restrictedImports forbids", async () => {
+        const document = activateVerseDocument();
+        const getConfiguration = vscode.workspace.getConfiguration as unknown as jest.Mock;
+        const original = getConfiguration.getMockImplementation();
+        getConfiguration.mockImplementation(() => ({
+            get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "behavior.restrictedImports" ? [{ prefix: "/Fortnite.com/Devices" }] : defaultValue)),
+            update: jest.fn().mockResolvedValue(undefined),
+            inspect: jest.fn().mockReturnValue(undefined),
+        }));
+        (vscode.languages.getDiagnostics as jest.Mock).mockReturnValue([
+            new vscode.Diagnostic(new vscode.Range(2, 0, 2, 6), "Unknown identifier `creative_device`. Did you forget to specify using { /Fortnite.com/Devices }"),
+            new vscode.Diagnostic(new vscode.Range(3, 0, 3, 6), "Unknown identifier `player`. Did you forget to specify using { /Verse.org/Simulation }"),
+        ]);
+
+        try {
+            const importHandler = new ImportHandler({ appendLine: jest.fn() } as unknown as vscode.OutputChannel);
+            const organizeImports = jest.spyOn(importHandler, "organizeImports").mockResolvedValue(true);
+
+            await new CommandsHandler({ importHandler } as unknown as CommandsDependencies).optimizeImports();
+
+            expect(organizeImports).toHaveBeenCalledTimes(1);
+            expect(organizeImports.mock.calls[0][1]).toEqual(["/Verse.org/Simulation"]);
+            expect([...(organizeImports.mock.calls[0][2]?.keys() ?? [])]).toEqual(["/Verse.org/Simulation"]);
+            expect(document.save).toHaveBeenCalledTimes(1);
+        } finally {
+            getConfiguration.mockImplementation(original);
+            (vscode.languages.getDiagnostics as jest.Mock).mockReturnValue([]);
+        }
+    });
 });
 
 // Regression for #387: what the Organize Imports source action runs. It shares
@@ -404,6 +819,27 @@ describe("CommandsHandler.convertAllToFullPath", () => {
         expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
         expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
     });
+
+    it("asks every ambiguous pick first and converts the whole document in one previewed edit", async () => {
+        (vscode.window.showQuickPick as jest.Mock).mockImplementation(async (items: Array<{ path: string }>) => items[0]);
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+            get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "general.previewImportEdits" ? true : defaultValue)),
+        });
+        const plain = makeConversion();
+        const ambiguous = makeConversion({ isAmbiguous: true, possiblePaths: [ABSOLUTE_PATH] });
+        const applyConversions = jest.fn().mockResolvedValue(2);
+        const { handler } = makeConversionHandler({
+            convertAllImportsToFullPath: jest.fn().mockResolvedValue([ambiguous, plain]),
+            applyConversion: jest.fn(),
+            applyConversions,
+        });
+
+        await handler.convertAllToFullPath(makeDocument());
+
+        expect(applyConversions).toHaveBeenCalledTimes(1);
+        expect(applyConversions.mock.calls[0][1]).toEqual([{ conversion: plain }, { conversion: ambiguous, selectedPath: ABSOLUTE_PATH }]);
+        expect(vscode.window.setStatusBarMessage).toHaveBeenCalledWith("Using absolute paths for 2 imports.", expect.any(Number));
+    });
 });
 
 describe("CommandsHandler.convertAllToRelativePath", () => {
@@ -1,13 +1,19 @@
 import * as fs from "fs";
 import * as path from "path";
 
-// Regression for #136: several commands need caller-supplied arguments - the
-// import quick fix passes them to addSingleImport, the CodeLens passes them to
-// the four conversion commands, the module-visibility quick fix passes the
-// parsed diagnostic to makeModulePublic, and the organize source action passes
-// the document to organizeImportsInDocument. Without a commandPalette entry
-// hiding them, every declared command is palette-visible, and invoking one of
-// these from the palette dereferences an undefined argument.
+// Regression for #136: several commands need caller-supplied arguments:
+//   - the import quick fix passes them to addSingleImport
+//   - the CodeLens passes them to the four conversion commands
+//   - the module-visibility quick fix passes the parsed diagnostic to makeModulePublic
+//   - the organize source action passes the document to organizeImportsInDocument
+//   - the unused-import quick fix passes the document and paths to removeUnusedImports
+//   - the duplicate-import quick fix passes the document and groups to collapseDuplicateImports
+//   - the restricted-import quick fix passes the import and its replacement to replaceRestrictedImport
+//   - the Explorer context menu passes the folder to optimizeImportsInFolder
+//   - the history view passes the entry to revertAutoImport
+// Without a commandPalette entry hiding them, every declared command is
+// palette-visible, and invoking one of these from the palette dereferences an
+// undefined argument.
 
 interface CommandContribution {
     command: string;
@@ -34,6 +40,15 @@ const ARGUMENT_REQUIRING_COMMANDS = [
     "verseAutoImports.convertAllToRelativePath",
     "verseAutoImports.makeModulePublic",
     "verseAutoImports.organizeImportsInDocument",
+    "verseAutoImports.removeUnusedImports",
+    "verseAutoImports.collapseDuplicateImports",
+    "verseAutoImports.replaceRestrictedImport",
+    "verseAutoImports.optimizeImportsInFolder",
+    "verseAutoImports.revertAutoImport",
+    "verseAutoImports.importFromApiExplorer",
+    "verseAutoImports.copyUsingStatement",
+    "verseAutoImports.copyProjectUsingStatement",
+    "verseAutoImports.makeProjectModulePublic",
 ];
 
 const manifest: Manifest = JSON.parse(fs.readFileSync(path.join(__dirname, "..", "..", "..", "package.json"), "utf8"));
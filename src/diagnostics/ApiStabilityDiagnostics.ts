@@ -0,0 +1,153 @@
+import * as vscode from "vscode";
+import { logger, settingsFor } from "../utils";
+import { ImportHandler } from "../imports";
+import { UnstableApiUse } from "../types";
+import { DiagnosticsHandler } from "./DiagnosticsHandler";
+
+/** The values of `diagnostics.apiStability` that publish, and the severity each publishes at. */
+const SEVERITY_BY_SETTING: Record<string, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    information: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint,
+};
+
+/**
+ * Marks every `using` and every name that pulls in an API the digests mark
+ * `@experimental` or deprecated, at the severity `diagnostics.apiStability`
+ * asks for, and owns the collection those marks live in. See
+ * findUnstableApiUses for what is and is not reported.
+ *
+ * An experimental API blocks publishing the island, which is why this is on
+ * by default: the compiler accepts the code, and the refusal only comes at
+ * publish time.
+ *
+ * Only documents on screen are analyzed, as UnusedImportDiagnostics explains.
+ * Disposable, and registered as one during activation.
+ */
+export class ApiStabilityDiagnostics implements vscode.Disposable {
+    static readonly DIAGNOSTIC_CODE = "unstable-api";
+    static readonly DIAGNOSTIC_SOURCE = "Verse Auto Imports";
+
+    /** See UnusedImportDiagnostics.REFRESH_DELAY_MS. */
+    private static readonly REFRESH_DELAY_MS = 500;
+
+    private readonly collection: vscode.DiagnosticCollection;
+    private readonly pendingRefreshes = new Map<string, NodeJS.Timeout>();
+    private readonly disposables: vscode.Disposable[] = [];
+    private disposed = false;
+
+    constructor(private importHandler: ImportHandler) {
+        this.collection = vscode.languages.createDiagnosticCollection("verseApiStability");
+
+        this.disposables.push(
+            vscode.window.onDidChangeVisibleTextEditors((editors) => editors.forEach((editor) => this.scheduleRefresh(editor.document))),
+            vscode.workspace.onDidChangeTextDocument((e) => {
+                if (this.isVisible(e.document)) {
+                    this.scheduleRefresh(e.document);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument((document) => this.forget(document.uri)),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration("verseAutoImports.diagnostics.apiStability")) {
+                    this.refreshVisible();
+                }
+            }),
+        );
+
+        this.refreshVisible();
+    }
+
+    /** The diagnostics this collection holds for a document, empty when none. */
+    diagnosticsFor(uri: vscode.Uri): readonly vscode.Diagnostic[] {
+        return this.collection.get(uri) ?? [];
+    }
+
+    /** Analyzes every document on screen again, after a settings change or at start-up. */
+    refreshVisible(): void {
+        vscode.window.visibleTextEditors.forEach((editor) => this.scheduleRefresh(editor.document));
+    }
+
+    private isVisible(document: vscode.TextDocument): boolean {
+        return vscode.window.visibleTextEditors.some((editor) => editor.document === document);
+    }
+
+    private scheduleRefresh(document: vscode.TextDocument): void {
+        if (this.disposed || document.languageId !== "verse" || !DiagnosticsHandler.shouldProcessUri(document.uri)) {
+            return;
+        }
+
+        const key = document.uri.toString();
+        const pending = this.pendingRefreshes.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        this.pendingRefreshes.set(
+            key,
+            setTimeout(() => {
+                this.pendingRefreshes.delete(key);
+                void this.refresh(document);
+            }, ApiStabilityDiagnostics.REFRESH_DELAY_MS),
+        );
+    }
+
+    /**
+     * Replaces a document's diagnostics with a fresh analysis of its current
+     * text, or clears them when the setting is "off" for it. A stale answer is
+     * dropped, as UnusedImportDiagnostics.refresh explains.
+     */
+    async refresh(document: vscode.TextDocument): Promise<void> {
+        const severity = SEVERITY_BY_SETTING[settingsFor(document.uri).get<string>("diagnostics.apiStability", "warning")];
+        if (severity === undefined) {
+            this.collection.delete(document.uri);
+            return;
+        }
+
+        try {
+            const version = document.version;
+            const uses = await this.importHandler.findUnstableApiUses(document);
+            if (this.disposed || document.isClosed || document.version !== version) {
+                return;
+            }
+
+            this.collection.set(
+                document.uri,
+                uses.map((use) => ApiStabilityDiagnostics.diagnosticFor(use, severity)),
+            );
+        } catch (error) {
+            logger.error("ApiStabilityDiagnostics", `Error analyzing API use in ${document.uri.toString()}`, error);
+        }
+    }
+
+    private static diagnosticFor(use: UnstableApiUse, severity: vscode.DiagnosticSeverity): vscode.Diagnostic {
+        const subject = use.name === use.modulePath ? `Module ${use.modulePath}` : `${use.name} from ${use.modulePath}`;
+        const message = use.experimental ? `Experimental API: ${subject} is experimental, and an island using it cannot be published` : `Deprecated API: ${subject} is deprecated`;
+
+        const range = new vscode.Range(new vscode.Position(use.line, use.character), new vscode.Position(use.line, use.character + use.length));
+        const diagnostic = new vscode.Diagnostic(range, use.experimental && use.deprecated ? `${message}, and deprecated` : message, severity);
+        diagnostic.source = ApiStabilityDiagnostics.DIAGNOSTIC_SOURCE;
+        diagnostic.code = ApiStabilityDiagnostics.DIAGNOSTIC_CODE;
+        if (use.deprecated) {
+            diagnostic.tags = [vscode.DiagnosticTag.Deprecated];
+        }
+        return diagnostic;
+    }
+
+    private forget(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const pending = this.pendingRefreshes.get(key);
+        if (pending) {
+            clearTimeout(pending);
+            this.pendingRefreshes.delete(key);
+        }
+        this.collection.delete(uri);
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        this.pendingRefreshes.forEach((timer) => clearTimeout(timer));
+        this.pendingRefreshes.clear();
+        this.disposables.forEach((disposable) => disposable.dispose());
+        this.collection.dispose();
+    }
+}
@@ -0,0 +1,175 @@
+import * as vscode from "vscode";
+import { logger, settingsFor } from "../utils";
+import { CyclicImport, ModuleDependencyGraph, ModuleGraphBuilder, findCyclicImports, moduleGraphLabel } from "../graph";
+import { ProjectPathCache } from "../services";
+import { DiagnosticsHandler } from "./DiagnosticsHandler";
+
+/** The values of `diagnostics.circularImports` that publish, and the severity each publishes at. */
+const SEVERITY_BY_SETTING: Record<string, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    information: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint,
+};
+
+/**
+ * Marks every `using` that takes part in a cycle between the project's own
+ * modules, with the whole cycle in the message and a related-information link
+ * to the import behind each step of it, and owns the collection those marks
+ * live in. Modules outside the project - the digests' - never close a cycle,
+ * so they are left out of the search.
+ *
+ * Unlike the other import diagnostics this reads the whole workspace rather
+ * than the documents on screen, because a cycle is a property of the project:
+ * the import that closes it may sit in a file nobody has open. So it runs
+ * whenever the project path cache loads or takes in a changed Verse file, once
+ * the changes have settled, rather than on every keystroke, and publishes on
+ * files that are not open. Following the cache rather than a watcher of its
+ * own means a run resolves through declarations that already include the
+ * change. With the cache off nothing follows the project, and the marks are
+ * only read at start-up and when the setting changes.
+ *
+ * Disposable, and registered as one during activation.
+ */
+export class CircularImportDiagnostics implements vscode.Disposable {
+    static readonly DIAGNOSTIC_CODE = "circular-import";
+    static readonly DIAGNOSTIC_SOURCE = "Verse Auto Imports";
+
+    /**
+     * Far longer than the on-screen diagnostics wait, since each run resolves
+     * every import in the project; a save-all of twenty files is one run.
+     */
+    private static readonly REFRESH_DELAY_MS = 2000;
+
+    /** An end column past any line's end, which the editor clamps to it. */
+    private static readonly LINE_END = Number.MAX_SAFE_INTEGER;
+
+    private readonly collection: vscode.DiagnosticCollection;
+    private readonly disposables: vscode.Disposable[] = [];
+    private pendingRefresh: NodeJS.Timeout | null = null;
+    /** Counts runs, so one that finishes after a later one started publishes nothing. */
+    private generation = 0;
+    private disposed = false;
+
+    constructor(
+        private moduleGraphBuilder: ModuleGraphBuilder,
+        projectPathCache?: ProjectPathCache,
+    ) {
+        this.collection = vscode.languages.createDiagnosticCollection("verseCircularImports");
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration("verseAutoImports.diagnostics.circularImports")) {
+                    this.scheduleRefresh();
+                }
+            }),
+        );
+        // The cache's first load or scan fires its change event too, which is
+        // the start-up run; without a cache nothing else would start one.
+        if (projectPathCache) {
+            this.disposables.push(projectPathCache.onDidChange(() => this.scheduleRefresh()));
+        } else {
+            void this.refresh();
+        }
+    }
+
+    /** The diagnostics this collection holds for a document, empty when none. */
+    diagnosticsFor(uri: vscode.Uri): readonly vscode.Diagnostic[] {
+        return this.collection.get(uri) ?? [];
+    }
+
+    /** Whether a diagnostic is one of this collection's. See UnusedImportDiagnostics.isUnusedImportDiagnostic. */
+    static isCircularImportDiagnostic(diagnostic: vscode.Diagnostic): boolean {
+        return diagnostic.source === CircularImportDiagnostics.DIAGNOSTIC_SOURCE && diagnostic.code === CircularImportDiagnostics.DIAGNOSTIC_CODE;
+    }
+
+    scheduleRefresh(): void {
+        if (this.disposed) {
+            return;
+        }
+        if (this.pendingRefresh) {
+            clearTimeout(this.pendingRefresh);
+        }
+        this.pendingRefresh = setTimeout(() => {
+            this.pendingRefresh = null;
+            void this.refresh();
+        }, CircularImportDiagnostics.REFRESH_DELAY_MS);
+    }
+
+    /**
+     * Replaces every diagnostic with a fresh reading of the project, or clears
+     * them when the setting is "off". Filtered through
+     * DiagnosticsHandler.shouldProcessUri, as the workspace commands are.
+     */
+    async refresh(): Promise<void> {
+        const generation = ++this.generation;
+        const severity = SEVERITY_BY_SETTING[settingsFor().get<string>("diagnostics.circularImports", "warning")];
+        if (severity === undefined) {
+            this.collection.clear();
+            return;
+        }
+
+        try {
+            const found = await vscode.workspace.findFiles("**/*.verse", "{**/node_modules/**,**/.git/**}");
+            const uris = found.filter((uri) => DiagnosticsHandler.shouldProcessUri(uri));
+            const graph = await this.moduleGraphBuilder.build(uris);
+            const cyclic = findCyclicImports(graph);
+
+            const byFile = new Map(uris.map((uri) => [vscode.workspace.asRelativePath(uri, false), uri]));
+            const published = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+            for (const cyclicImport of cyclic) {
+                const uri = byFile.get(cyclicImport.file);
+                if (!uri) {
+                    continue;
+                }
+                const diagnostic = CircularImportDiagnostics.diagnosticFor(graph, cyclicImport, byFile, severity);
+                const entry = published.get(uri.toString()) ?? { uri, diagnostics: [] };
+                entry.diagnostics.push(diagnostic);
+                published.set(uri.toString(), entry);
+            }
+
+            if (this.disposed || generation !== this.generation) {
+                return;
+            }
+            this.collection.clear();
+            published.forEach(({ uri, diagnostics }) => this.collection.set(uri, diagnostics));
+            logger.debug("CircularImportDiagnostics", `${cyclic.length} import(s) in a module cycle across ${published.size} file(s)`);
+        } catch (error) {
+            logger.error("CircularImportDiagnostics", "Error looking for module cycles", error);
+        }
+    }
+
+    /**
+     * The mark for one import, over the whole of its line. The end column is
+     * past any line and the editor clamps it, so a background run opens no
+     * document to measure one.
+     */
+    private static diagnosticFor(graph: ModuleDependencyGraph, cyclicImport: CyclicImport, byFile: Map<string, vscode.Uri>, severity: vscode.DiagnosticSeverity): vscode.Diagnostic {
+        const label = (modulePath: string): string => moduleGraphLabel(graph, modulePath);
+        const message = `Circular module dependency: ${cyclicImport.cycle.map(label).join(" → ")}`;
+
+        const range = new vscode.Range(new vscode.Position(cyclicImport.line - 1, 0), new vscode.Position(cyclicImport.line - 1, CircularImportDiagnostics.LINE_END));
+        const diagnostic = new vscode.Diagnostic(range, message, severity);
+        diagnostic.source = CircularImportDiagnostics.DIAGNOSTIC_SOURCE;
+        diagnostic.code = CircularImportDiagnostics.DIAGNOSTIC_CODE;
+        diagnostic.relatedInformation = cyclicImport.steps.flatMap((step) => {
+            const stepUri = byFile.get(step.file);
+            if (!stepUri) {
+                return [];
+            }
+            const position = new vscode.Position(step.line - 1, 0);
+            return [new vscode.DiagnosticRelatedInformation(new vscode.Location(stepUri, new vscode.Range(position, position)), `${label(step.from)} imports ${label(step.to)} here`)];
+        });
+        return diagnostic;
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        if (this.pendingRefresh) {
+            clearTimeout(this.pendingRefresh);
+            this.pendingRefresh = null;
+        }
+        this.disposables.forEach((disposable) => disposable.dispose());
+        this.collection.dispose();
+    }
+}
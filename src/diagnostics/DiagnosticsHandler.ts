@@ -1,8 +1,9 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import { logger, settingsFor } from "../utils";
-import { DiagnosticPosition, ImportSuggestion } from "../types";
-import { ImportHandler } from "../imports";
+import { AutoImportedStatement, DiagnosticPosition, ImportChoice, ImportSuggestion } from "../types";
+import { ImportChoiceMemory, ImportFormatter, ImportHandler, ImportSuggestionRanker } from "../imports";
+import { AutoImportHistory } from "../history";
 
 /**
  * Turns the Verse compiler's diagnostics into imports: one debounce timer per
@@ -20,6 +21,7 @@ export class DiagnosticsHandler {
     private pendingTimers: Map<string, NodeJS.Timeout> = new Map();
     private delayMs: number = 1000;
     private disposed = false;
+    private readonly formatter = new ImportFormatter();
 
     constructor(
         private outputChannel: vscode.OutputChannel,
@@ -30,6 +32,16 @@ export class DiagnosticsHandler {
         // Required rather than defaulted: a call site that forgot it would
         // lose suppression silently at runtime instead of failing the build.
         private isAutoImportSuppressed: () => boolean,
+        // Optional because only activation has workspace state to keep one in.
+        // Without it automatic edits are made exactly as before and recorded
+        // nowhere.
+        private history?: AutoImportHistory,
+        // Optional for the same reason. Without it the strategy alone picks
+        // among several options, and an undone import is written again.
+        private choiceMemory?: ImportChoiceMemory,
+        // Optional so a caller that builds none keeps working; auto_ranked then
+        // takes the first option, as an unrecognized strategy does.
+        private ranker?: ImportSuggestionRanker,
     ) {
         // Injected rather than constructed so the auto-import path resolves
         // through the same handler as quick fixes; one built here would carry
@@ -155,6 +167,7 @@ export class DiagnosticsHandler {
                 const config = settingsFor(document.uri);
                 const autoImportEnabled = config.get<boolean>("general.autoImport", true) && !this.isAutoImportSuppressed();
                 const multiOptionStrategy = config.get<string>("behavior.multiOptionStrategy", "quickfix");
+                const choiceMemory = this.choiceMemory && ImportChoiceMemory.enabledFor(document.uri) ? this.choiceMemory : undefined;
 
                 const autoImportSuggestions = new Set<string>();
                 // The position a diagnostic was reported at, kept beside the
@@ -169,12 +182,26 @@ export class DiagnosticsHandler {
                 // asked for it, which is the reading this signal exists to
                 // correct.
                 const diagnosticPositionsByStatement = new Map<string, DiagnosticPosition[]>();
-                const recordSuggestion = (statement: string, diagnostic: vscode.Diagnostic): void => {
+                // Why each statement was picked, for the history. The first
+                // diagnostic to ask for a statement is the one recorded.
+                const provenanceByStatement = new Map<string, AutoImportedStatement>();
+                const recordSuggestion = (statement: string, diagnostic: vscode.Diagnostic, strategy: string): void => {
                     autoImportSuggestions.add(statement);
                     const start = { line: diagnostic.range.start.line, character: diagnostic.range.start.character };
                     diagnosticPositionsByStatement.set(statement, [...(diagnosticPositionsByStatement.get(statement) ?? []), start]);
+                    if (!provenanceByStatement.has(statement)) {
+                        provenanceByStatement.set(statement, { statement, diagnosticMessage: diagnostic.message, strategy });
+                    }
                 };
                 let hasMultiOptionSuggestions = false;
+                // The name and module behind each statement, so an undo of
+                // this edit can be told apart as a rejection of that choice.
+                const choiceByStatement = new Map<string, ImportChoice>();
+                const noteChoice = (identifier: string | null, suggestion: ImportSuggestion): void => {
+                    if (identifier && suggestion.modulePath && !choiceByStatement.has(suggestion.importStatement)) {
+                        choiceByStatement.set(suggestion.importStatement, { identifier, modulePath: suggestion.modulePath });
+                    }
+                };
 
                 for (const diagnostic of currentDiagnostics) {
                     const suggestions = await this.importHandler.extractImportSuggestions(diagnostic.message, document.uri);
@@ -183,14 +210,32 @@ export class DiagnosticsHandler {
                         continue;
                     }
 
-                    if (suggestions.length > 1) {
+                    // A module whose automatic import was undone for this name
+                    // is never written automatically again. The quick fixes
+                    // still offer it. A module behavior.restrictedImports
+                    // forbids is written by nothing, so it does not count as
+                    // an option: the strategies pick among the rest, and a
+                    // lone module left over is imported as though the
+                    // diagnostic had named only it.
+                    const permitted = suggestions.filter((suggestion) => !suggestion.modulePath || !this.importHandler.importRestrictionFor(suggestion.modulePath, document.uri));
+                    const ranked = multiOptionStrategy === "auto_ranked" && this.ranker !== undefined && permitted.length > 1;
+                    const identifier = choiceMemory || ranked ? this.importHandler.identifierInMessage(diagnostic.message, document.uri) : null;
+                    const candidates = identifier && choiceMemory ? permitted.filter((suggestion) => !suggestion.modulePath || !choiceMemory.isRejected(identifier, suggestion.modulePath)) : permitted;
+
+                    if (permitted.length > 1) {
                         hasMultiOptionSuggestions = true;
-                        logger.debug("DiagnosticsHandler", `Multi-option diagnostic found with ${suggestions.length} suggestions - will use quick fixes`);
+                        logger.debug("DiagnosticsHandler", `Multi-option diagnostic found with ${permitted.length} suggestions - will use quick fixes`);
 
                         if (multiOptionStrategy.startsWith("auto_")) {
-                            const selectedSuggestion = this.selectBestSuggestion(suggestions, multiOptionStrategy);
+                            // What the user picked for this name before beats
+                            // the strategy's rule.
+                            const rememberedPath = identifier && choiceMemory ? choiceMemory.preferredPath(identifier) : undefined;
+                            const remembered = rememberedPath ? candidates.find((candidate) => candidate.modulePath === rememberedPath) : undefined;
+                            const selectedSuggestion =
+                                remembered ?? (ranked ? ((await this.ranker!.rank(document, identifier, candidates))[0] ?? null) : this.selectBestSuggestion(candidates, multiOptionStrategy));
                             if (selectedSuggestion && autoImportEnabled) {
-                                recordSuggestion(selectedSuggestion.importStatement, diagnostic);
+                                recordSuggestion(selectedSuggestion.importStatement, diagnostic, remembered ? "remembered_choice" : multiOptionStrategy);
+                                noteChoice(identifier, selectedSuggestion);
                                 logger.debug("DiagnosticsHandler", `Auto-selected: ${selectedSuggestion.importStatement}`);
                             }
                         }
@@ -199,10 +244,15 @@ export class DiagnosticsHandler {
                         continue;
                     }
 
-                    const suggestion = suggestions[0];
-                    if (autoImportEnabled && suggestion.confidence === "high") {
+                    const suggestion = permitted[0] ?? suggestions[0];
+                    if (permitted.length === 0) {
+                        logger.debug("DiagnosticsHandler", `Not auto-importing ${suggestion.importStatement}: restricted by behavior.restrictedImports`);
+                    } else if (candidates.length === 0) {
+                        logger.debug("DiagnosticsHandler", `Not auto-importing ${suggestion.importStatement}: undone for ${identifier} before - will use quick fix`);
+                    } else if (autoImportEnabled && suggestion.confidence === "high") {
                         logger.debug("DiagnosticsHandler", `Adding high-confidence import: ${suggestion.importStatement}`);
-                        recordSuggestion(suggestion.importStatement, diagnostic);
+                        recordSuggestion(suggestion.importStatement, diagnostic, "high_confidence");
+                        noteChoice(identifier, suggestion);
                     } else {
                         logger.debug("DiagnosticsHandler", `Low confidence or auto-import disabled - will use quick fix for: ${suggestion.importStatement}`);
                     }
@@ -226,10 +276,24 @@ export class DiagnosticsHandler {
                     // The edit is rejected when the document moved on between
                     // the read and the write, or when the file is read-only.
                     // Reporting the imports as applied hides that entirely.
-                    const applied = await this.importHandler.addImportsToDocument(document, Array.from(autoImportSuggestions), diagnosticPositionsByStatement);
+                    const { outcome, addedPaths } = await this.importHandler.addImportsWithOutcome(document, Array.from(autoImportSuggestions), diagnosticPositionsByStatement);
 
-                    if (applied) {
+                    if (outcome === "applied" || outcome === "unchanged") {
                         vscode.window.setStatusBarMessage(`Auto-imported ${autoImportSuggestions.size} statements to ${displayName}`, 3000);
+
+                        // Only what this edit wrote: a statement whose path the
+                        // file already imported was skipped by the writer, and
+                        // recording it would let a revert delete an import
+                        // the user wrote.
+                        const added = new Set(addedPaths);
+                        const recorded = Array.from(provenanceByStatement.values()).filter(({ statement }) => added.has(this.formatter.extractPathFromImport(statement) ?? ""));
+                        if (recorded.length > 0) {
+                            await this.history?.record(document.uri, recorded);
+                        }
+                        choiceMemory?.noteAutoImport(
+                            document.uri,
+                            Array.from(choiceByStatement.values()).filter(({ modulePath }) => added.has(modulePath)),
+                        );
                     } else {
                         logger.warn("DiagnosticsHandler", `Failed to auto-import ${autoImportSuggestions.size} statements to ${displayName}`);
                         vscode.window.showWarningMessage(`Could not auto-import ${autoImportSuggestions.size} statement(s) into ${displayName}. The document may have changed or be read-only.`);
@@ -253,7 +317,8 @@ export class DiagnosticsHandler {
     /**
      * Picks the one suggestion to import from several. An unrecognized strategy
      * takes the first, so a mistyped setting still imports something rather
-     * than nothing.
+     * than nothing. `auto_ranked` is decided by the ranker before this is
+     * reached, and lands here only when there is no ranker.
      */
     private selectBestSuggestion(suggestions: ImportSuggestion[], strategy: string): ImportSuggestion | null {
         if (suggestions.length === 0) {
@@ -0,0 +1,58 @@
+import * as vscode from "vscode";
+import { DuplicateImportGroup } from "../types";
+import { DuplicateImportDiagnostics } from "./DuplicateImportDiagnostics";
+
+/**
+ * The quick fixes on a duplicate-import diagnostic: collapse that import's
+ * group into one statement, and collapse every group the file's diagnostics
+ * mark.
+ *
+ * Run as a command through the import writer, for the reason
+ * UnusedImportCodeActionProvider gives.
+ */
+export class DuplicateImportCodeActionProvider implements vscode.CodeActionProvider {
+    /** See ImportCodeActionProvider.providedCodeActionKinds. */
+    static readonly providedCodeActionKinds: readonly vscode.CodeActionKind[] = [vscode.CodeActionKind.QuickFix];
+
+    constructor(private duplicateImportDiagnostics: DuplicateImportDiagnostics) {}
+
+    provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] | undefined {
+        const atCursor = context.diagnostics.filter(DuplicateImportDiagnostics.isDuplicateImportDiagnostic);
+        if (atCursor.length === 0) {
+            return undefined;
+        }
+
+        const groups = this.duplicateImportDiagnostics.groupsFor(document.uri);
+        const actions: vscode.CodeAction[] = [];
+        const offered = new Set<DuplicateImportGroup>();
+
+        // A diagnostic names its import by the line it starts on, as the
+        // unused-import ones do.
+        for (const diagnostic of atCursor) {
+            const group = groups.find((candidate) => candidate.imports.some((imp) => imp.line === diagnostic.range.start.line));
+            if (!group || offered.has(group)) {
+                continue;
+            }
+            offered.add(group);
+            actions.push(this.createCollapseAction(`Collapse duplicate imports into ${group.preferredPath}`, document, [group], [diagnostic], true));
+        }
+
+        if (groups.length > 1) {
+            actions.push(this.createCollapseAction("Collapse all duplicate imports", document, [...groups], [...this.duplicateImportDiagnostics.diagnosticsFor(document.uri)], false));
+        }
+
+        return actions.length > 0 ? actions : undefined;
+    }
+
+    private createCollapseAction(title: string, document: vscode.TextDocument, groups: DuplicateImportGroup[], diagnostics: vscode.Diagnostic[], isPreferred: boolean): vscode.CodeAction {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.isPreferred = isPreferred;
+        action.diagnostics = diagnostics;
+        action.command = {
+            title,
+            command: "verseAutoImports.collapseDuplicateImports",
+            arguments: [document, groups],
+        };
+        return action;
+    }
+}
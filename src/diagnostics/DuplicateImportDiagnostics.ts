@@ -0,0 +1,162 @@
+import * as vscode from "vscode";
+import { logger, settingsFor } from "../utils";
+import { ImportPathConverter } from "../imports";
+import { DuplicateImportGroup } from "../types";
+import { DiagnosticsHandler } from "./DiagnosticsHandler";
+
+/**
+ * Marks every import that names a module an earlier import of the file already
+ * names - under another spelling, or the same one twice - and owns the
+ * collection those marks live in. ImportDocumentEditor deduplicates by path
+ * text alone, so `using { /me@fortnite.com/Game/Gadgets }` and
+ * `using { Gadgets }` both survive every rebuild; these are what that leaves.
+ *
+ * Only documents on screen are analyzed, as UnusedImportDiagnostics explains.
+ * Disposable, and registered as one during activation.
+ */
+export class DuplicateImportDiagnostics implements vscode.Disposable {
+    /** What the quick fixes match a diagnostic of this collection on. */
+    static readonly DIAGNOSTIC_CODE = "duplicate-import";
+    static readonly DIAGNOSTIC_SOURCE = "Verse Auto Imports";
+
+    /**
+     * Longer than the unused-import delay: telling a relative import's module
+     * apart is a workspace search, not a line scan.
+     */
+    private static readonly REFRESH_DELAY_MS = 1000;
+
+    private readonly collection: vscode.DiagnosticCollection;
+    /** The groups behind each document's marks, which the quick fixes collapse. */
+    private readonly groups = new Map<string, DuplicateImportGroup[]>();
+    private readonly pendingRefreshes = new Map<string, NodeJS.Timeout>();
+    private readonly disposables: vscode.Disposable[] = [];
+    private disposed = false;
+
+    constructor(private importPathConverter: ImportPathConverter) {
+        this.collection = vscode.languages.createDiagnosticCollection("verseDuplicateImports");
+
+        this.disposables.push(
+            vscode.window.onDidChangeVisibleTextEditors((editors) => editors.forEach((editor) => this.scheduleRefresh(editor.document))),
+            vscode.workspace.onDidChangeTextDocument((e) => {
+                if (this.isVisible(e.document)) {
+                    this.scheduleRefresh(e.document);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument((document) => this.forget(document.uri)),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration("verseAutoImports.diagnostics.duplicateImports") || e.affectsConfiguration("verseAutoImports.pathConversion.projectImportPathStyle")) {
+                    this.refreshVisible();
+                }
+            }),
+        );
+
+        this.refreshVisible();
+    }
+
+    /** The diagnostics this collection holds for a document, empty when none. */
+    diagnosticsFor(uri: vscode.Uri): readonly vscode.Diagnostic[] {
+        return this.collection.get(uri) ?? [];
+    }
+
+    /** The groups the document's diagnostics were published for, empty when none. */
+    groupsFor(uri: vscode.Uri): readonly DuplicateImportGroup[] {
+        return this.groups.get(uri.toString()) ?? [];
+    }
+
+    /** Whether a diagnostic is one of this collection's. See UnusedImportDiagnostics.isUnusedImportDiagnostic. */
+    static isDuplicateImportDiagnostic(diagnostic: vscode.Diagnostic): boolean {
+        return diagnostic.source === DuplicateImportDiagnostics.DIAGNOSTIC_SOURCE && diagnostic.code === DuplicateImportDiagnostics.DIAGNOSTIC_CODE;
+    }
+
+    /** Analyzes every document on screen again, after a settings change or at start-up. */
+    refreshVisible(): void {
+        vscode.window.visibleTextEditors.forEach((editor) => this.scheduleRefresh(editor.document));
+    }
+
+    private isVisible(document: vscode.TextDocument): boolean {
+        return vscode.window.visibleTextEditors.some((editor) => editor.document === document);
+    }
+
+    private scheduleRefresh(document: vscode.TextDocument): void {
+        if (this.disposed || document.languageId !== "verse" || !DiagnosticsHandler.shouldProcessUri(document.uri)) {
+            return;
+        }
+
+        const key = document.uri.toString();
+        const pending = this.pendingRefreshes.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        this.pendingRefreshes.set(
+            key,
+            setTimeout(() => {
+                this.pendingRefreshes.delete(key);
+                void this.refresh(document);
+            }, DuplicateImportDiagnostics.REFRESH_DELAY_MS),
+        );
+    }
+
+    /**
+     * Replaces a document's diagnostics with a fresh analysis of its current
+     * text, or clears them when the setting is off for it. A stale answer is
+     * dropped, as in UnusedImportDiagnostics.refresh.
+     *
+     * Every import of a group but the first is marked. The first is where the
+     * collapse writes the preferred spelling, so it is the one that stays.
+     */
+    async refresh(document: vscode.TextDocument): Promise<void> {
+        if (!settingsFor(document.uri).get<boolean>("diagnostics.duplicateImports", true)) {
+            this.collection.delete(document.uri);
+            this.groups.delete(document.uri.toString());
+            return;
+        }
+
+        try {
+            const version = document.version;
+            const groups = await this.importPathConverter.findDuplicateImports(document);
+            if (this.disposed || document.isClosed || document.version !== version) {
+                return;
+            }
+
+            this.groups.set(document.uri.toString(), groups);
+            this.collection.set(
+                document.uri,
+                groups.flatMap(({ imports: [first, ...rest] }) =>
+                    rest.map((imp) => {
+                        const range = new vscode.Range(new vscode.Position(imp.line, 0), document.lineAt(imp.line).range.end);
+                        const diagnostic = new vscode.Diagnostic(
+                            range,
+                            `Duplicate import: ${imp.path} names the same module as ${first.path} on line ${first.line + 1}`,
+                            vscode.DiagnosticSeverity.Hint,
+                        );
+                        diagnostic.source = DuplicateImportDiagnostics.DIAGNOSTIC_SOURCE;
+                        diagnostic.code = DuplicateImportDiagnostics.DIAGNOSTIC_CODE;
+                        diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+                        return diagnostic;
+                    }),
+                ),
+            );
+        } catch (error) {
+            logger.error("DuplicateImportDiagnostics", `Error analyzing imports in ${document.uri.toString()}`, error);
+        }
+    }
+
+    private forget(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const pending = this.pendingRefreshes.get(key);
+        if (pending) {
+            clearTimeout(pending);
+            this.pendingRefreshes.delete(key);
+        }
+        this.groups.delete(key);
+        this.collection.delete(uri);
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        this.pendingRefreshes.forEach((timer) => clearTimeout(timer));
+        this.pendingRefreshes.clear();
+        this.disposables.forEach((disposable) => disposable.dispose());
+        this.collection.dispose();
+    }
+}
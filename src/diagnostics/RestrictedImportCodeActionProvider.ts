@@ -0,0 +1,41 @@
+import * as vscode from "vscode";
+import { RestrictedImportDiagnostics } from "./RestrictedImportDiagnostics";
+
+/**
+ * The quick fix on a restricted-import diagnostic whose rule names a
+ * replacement: write the replacement in place of the import.
+ *
+ * Run as a command through the import writer, for the reason
+ * UnusedImportCodeActionProvider gives.
+ */
+export class RestrictedImportCodeActionProvider implements vscode.CodeActionProvider {
+    /** See ImportCodeActionProvider.providedCodeActionKinds. */
+    static readonly providedCodeActionKinds: readonly vscode.CodeActionKind[] = [vscode.CodeActionKind.QuickFix];
+
+    constructor(private restrictedImportDiagnostics: RestrictedImportDiagnostics) {}
+
+    provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] | undefined {
+        const restricted = this.restrictedImportDiagnostics.restrictedImportsFor(document.uri);
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics.filter(RestrictedImportDiagnostics.isRestrictedImportDiagnostic)) {
+            const imp = restricted.find((candidate) => candidate.line === diagnostic.range.start.line);
+            if (!imp?.replacement) {
+                continue;
+            }
+
+            const title = `Replace ${imp.path} with ${imp.replacement}`;
+            const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+            action.isPreferred = true;
+            action.diagnostics = [diagnostic];
+            action.command = {
+                title,
+                command: "verseAutoImports.replaceRestrictedImport",
+                arguments: [document, { path: imp.path, line: imp.line }, imp.replacement],
+            };
+            actions.push(action);
+        }
+
+        return actions.length > 0 ? actions : undefined;
+    }
+}
@@ -0,0 +1,140 @@
+import * as vscode from "vscode";
+import { logger } from "../utils";
+import { ImportHandler } from "../imports";
+import { RestrictedImport } from "../types";
+import { DiagnosticsHandler } from "./DiagnosticsHandler";
+
+/**
+ * Marks every import that `behavior.restrictedImports` forbids in its file,
+ * with the rule's message, and owns the collection those marks live in. An
+ * empty policy marks nothing, so there is no setting to turn this off.
+ *
+ * Only documents on screen are analyzed, as UnusedImportDiagnostics explains.
+ * Disposable, and registered as one during activation.
+ */
+export class RestrictedImportDiagnostics implements vscode.Disposable {
+    /** What the quick fixes match a diagnostic of this collection on. */
+    static readonly DIAGNOSTIC_CODE = "restricted-import";
+    static readonly DIAGNOSTIC_SOURCE = "Verse Auto Imports";
+
+    /** See UnusedImportDiagnostics.REFRESH_DELAY_MS. Judging a path is cheaper still. */
+    private static readonly REFRESH_DELAY_MS = 500;
+
+    private readonly collection: vscode.DiagnosticCollection;
+    /** The imports behind each document's marks, which the quick fixes replace. */
+    private readonly restricted = new Map<string, RestrictedImport[]>();
+    private readonly pendingRefreshes = new Map<string, NodeJS.Timeout>();
+    private readonly disposables: vscode.Disposable[] = [];
+    private disposed = false;
+
+    constructor(private importHandler: ImportHandler) {
+        this.collection = vscode.languages.createDiagnosticCollection("verseRestrictedImports");
+
+        this.disposables.push(
+            vscode.window.onDidChangeVisibleTextEditors((editors) => editors.forEach((editor) => this.scheduleRefresh(editor.document))),
+            vscode.workspace.onDidChangeTextDocument((e) => {
+                if (this.isVisible(e.document)) {
+                    this.scheduleRefresh(e.document);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument((document) => this.forget(document.uri)),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration("verseAutoImports.behavior.restrictedImports")) {
+                    this.refreshVisible();
+                }
+            }),
+        );
+
+        this.refreshVisible();
+    }
+
+    /** The diagnostics this collection holds for a document, empty when none. */
+    diagnosticsFor(uri: vscode.Uri): readonly vscode.Diagnostic[] {
+        return this.collection.get(uri) ?? [];
+    }
+
+    /** The restricted imports the document's diagnostics were published for, empty when none. */
+    restrictedImportsFor(uri: vscode.Uri): readonly RestrictedImport[] {
+        return this.restricted.get(uri.toString()) ?? [];
+    }
+
+    /** Whether a diagnostic is one of this collection's. See UnusedImportDiagnostics.isUnusedImportDiagnostic. */
+    static isRestrictedImportDiagnostic(diagnostic: vscode.Diagnostic): boolean {
+        return diagnostic.source === RestrictedImportDiagnostics.DIAGNOSTIC_SOURCE && diagnostic.code === RestrictedImportDiagnostics.DIAGNOSTIC_CODE;
+    }
+
+    /** Analyzes every document on screen again, after a settings change or at start-up. */
+    refreshVisible(): void {
+        vscode.window.visibleTextEditors.forEach((editor) => this.scheduleRefresh(editor.document));
+    }
+
+    private isVisible(document: vscode.TextDocument): boolean {
+        return vscode.window.visibleTextEditors.some((editor) => editor.document === document);
+    }
+
+    private scheduleRefresh(document: vscode.TextDocument): void {
+        if (this.disposed || document.languageId !== "verse" || !DiagnosticsHandler.shouldProcessUri(document.uri)) {
+            return;
+        }
+
+        const key = document.uri.toString();
+        const pending = this.pendingRefreshes.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        this.pendingRefreshes.set(
+            key,
+            setTimeout(() => {
+                this.pendingRefreshes.delete(key);
+                this.refresh(document);
+            }, RestrictedImportDiagnostics.REFRESH_DELAY_MS),
+        );
+    }
+
+    /**
+     * Replaces a document's diagnostics with a fresh reading of its current
+     * text. A warning rather than a hint: the import compiles, but the team
+     * has said it should not be there.
+     */
+    refresh(document: vscode.TextDocument): void {
+        if (this.disposed || document.isClosed) {
+            return;
+        }
+
+        try {
+            const restricted = this.importHandler.findRestrictedImports(document);
+            this.restricted.set(document.uri.toString(), restricted);
+            this.collection.set(
+                document.uri,
+                restricted.map((imp) => {
+                    const range = new vscode.Range(new vscode.Position(imp.line, 0), document.lineAt(imp.line).range.end);
+                    const diagnostic = new vscode.Diagnostic(range, `Restricted import: ${imp.message}`, vscode.DiagnosticSeverity.Warning);
+                    diagnostic.source = RestrictedImportDiagnostics.DIAGNOSTIC_SOURCE;
+                    diagnostic.code = RestrictedImportDiagnostics.DIAGNOSTIC_CODE;
+                    return diagnostic;
+                }),
+            );
+        } catch (error) {
+            logger.error("RestrictedImportDiagnostics", `Error judging imports in ${document.uri.toString()}`, error);
+        }
+    }
+
+    private forget(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const pending = this.pendingRefreshes.get(key);
+        if (pending) {
+            clearTimeout(pending);
+            this.pendingRefreshes.delete(key);
+        }
+        this.restricted.delete(key);
+        this.collection.delete(uri);
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        this.pendingRefreshes.forEach((timer) => clearTimeout(timer));
+        this.pendingRefreshes.clear();
+        this.disposables.forEach((disposable) => disposable.dispose());
+        this.collection.dispose();
+    }
+}
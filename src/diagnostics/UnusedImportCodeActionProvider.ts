@@ -0,0 +1,69 @@
+import * as vscode from "vscode";
+import { LINE_SPLIT, scanModuleImports } from "../imports/ImportScanner";
+import { UnusedImportDiagnostics } from "./UnusedImportDiagnostics";
+
+/**
+ * The quick fixes on an unused-import diagnostic: remove that import, and
+ * remove every import the file's diagnostics mark unused.
+ *
+ * Both run the removal as a command rather than carrying a ready edit. The
+ * command goes through the import writer, which queues behind any other import
+ * write to the document and reads the rebuilt text back before applying it; an
+ * edit computed here would be built against the text as it was when the menu
+ * opened.
+ */
+export class UnusedImportCodeActionProvider implements vscode.CodeActionProvider {
+    /** See ImportCodeActionProvider.providedCodeActionKinds. */
+    static readonly providedCodeActionKinds: readonly vscode.CodeActionKind[] = [vscode.CodeActionKind.QuickFix];
+
+    constructor(private unusedImportDiagnostics: UnusedImportDiagnostics) {}
+
+    provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] | undefined {
+        const atCursor = context.diagnostics.filter(UnusedImportDiagnostics.isUnusedImportDiagnostic);
+        if (atCursor.length === 0) {
+            return undefined;
+        }
+
+        const pathsByLine = this.importPathsByLine(document);
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of atCursor) {
+            const path = pathsByLine.get(diagnostic.range.start.line);
+            if (path === undefined) {
+                continue;
+            }
+            actions.push(this.createRemoveAction(`Remove unused import ${path}`, document, [path], [diagnostic], true));
+        }
+
+        // Read from the collection rather than the context, which carries only
+        // the diagnostics at the cursor.
+        const everyUnused = this.unusedImportDiagnostics.diagnosticsFor(document.uri);
+        const everyPath = Array.from(new Set(everyUnused.map((diagnostic) => pathsByLine.get(diagnostic.range.start.line)).filter((path): path is string => path !== undefined)));
+        if (everyPath.length > 1) {
+            actions.push(this.createRemoveAction("Remove all unused imports", document, everyPath, [...everyUnused], false));
+        }
+
+        return actions.length > 0 ? actions : undefined;
+    }
+
+    /**
+     * The path of the import starting on each line. A diagnostic names its
+     * import by where it starts; the path is read back from the document
+     * rather than out of the message, which is prose.
+     */
+    private importPathsByLine(document: vscode.TextDocument): Map<number, string> {
+        return new Map(scanModuleImports(document.getText().split(LINE_SPLIT)).map((imp) => [imp.startLine, imp.path]));
+    }
+
+    private createRemoveAction(title: string, document: vscode.TextDocument, paths: string[], diagnostics: vscode.Diagnostic[], isPreferred: boolean): vscode.CodeAction {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.isPreferred = isPreferred;
+        action.diagnostics = diagnostics;
+        action.command = {
+            title,
+            command: "verseAutoImports.removeUnusedImports",
+            arguments: [document, paths],
+        };
+        return action;
+    }
+}
@@ -0,0 +1,151 @@
+import * as vscode from "vscode";
+import { logger, settingsFor } from "../utils";
+import { ImportHandler } from "../imports";
+import { DiagnosticsHandler } from "./DiagnosticsHandler";
+
+/**
+ * Marks every import that brings nothing its file refers to into scope, so the
+ * editor fades it, and owns the collection those marks live in.
+ *
+ * Only documents on screen are analyzed. `workspace.textDocuments` is not that
+ * list: the project scan opens every .verse file in the project to read it, so
+ * keyed on it this would analyze the whole project on every cache rebuild.
+ *
+ * Disposable, and registered as one during activation: the per-document timers
+ * and the listeners are live until then.
+ */
+export class UnusedImportDiagnostics implements vscode.Disposable {
+    /** What the quick fixes match a diagnostic of this collection on. */
+    static readonly DIAGNOSTIC_CODE = "unused-import";
+    static readonly DIAGNOSTIC_SOURCE = "Verse Auto Imports";
+
+    /**
+     * How long after the last edit a document is analyzed again. Fixed rather
+     * than a setting: the analysis is a line scan, and the delay only keeps it
+     * off the keystroke path.
+     */
+    private static readonly REFRESH_DELAY_MS = 500;
+
+    private readonly collection: vscode.DiagnosticCollection;
+    private readonly pendingRefreshes = new Map<string, NodeJS.Timeout>();
+    private readonly disposables: vscode.Disposable[] = [];
+    private disposed = false;
+
+    constructor(private importHandler: ImportHandler) {
+        this.collection = vscode.languages.createDiagnosticCollection("verseUnusedImports");
+
+        this.disposables.push(
+            vscode.window.onDidChangeVisibleTextEditors((editors) => editors.forEach((editor) => this.scheduleRefresh(editor.document))),
+            vscode.workspace.onDidChangeTextDocument((e) => {
+                if (this.isVisible(e.document)) {
+                    this.scheduleRefresh(e.document);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument((document) => this.forget(document.uri)),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration("verseAutoImports.diagnostics.unusedImports")) {
+                    this.refreshVisible();
+                }
+            }),
+        );
+
+        this.refreshVisible();
+    }
+
+    /** The diagnostics this collection holds for a document, empty when none. */
+    diagnosticsFor(uri: vscode.Uri): readonly vscode.Diagnostic[] {
+        return this.collection.get(uri) ?? [];
+    }
+
+    /**
+     * Whether a diagnostic is one of this collection's. Read by the quick fixes,
+     * which are handed every diagnostic at the cursor whoever published it.
+     */
+    static isUnusedImportDiagnostic(diagnostic: vscode.Diagnostic): boolean {
+        return diagnostic.source === UnusedImportDiagnostics.DIAGNOSTIC_SOURCE && diagnostic.code === UnusedImportDiagnostics.DIAGNOSTIC_CODE;
+    }
+
+    /** Analyzes every document on screen again, after a settings change or at start-up. */
+    refreshVisible(): void {
+        vscode.window.visibleTextEditors.forEach((editor) => this.scheduleRefresh(editor.document));
+    }
+
+    private isVisible(document: vscode.TextDocument): boolean {
+        return vscode.window.visibleTextEditors.some((editor) => editor.document === document);
+    }
+
+    private scheduleRefresh(document: vscode.TextDocument): void {
+        if (this.disposed || document.languageId !== "verse" || !DiagnosticsHandler.shouldProcessUri(document.uri)) {
+            return;
+        }
+
+        const key = document.uri.toString();
+        const pending = this.pendingRefreshes.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        this.pendingRefreshes.set(
+            key,
+            setTimeout(() => {
+                this.pendingRefreshes.delete(key);
+                void this.refresh(document);
+            }, UnusedImportDiagnostics.REFRESH_DELAY_MS),
+        );
+    }
+
+    /**
+     * Replaces a document's diagnostics with a fresh analysis of its current
+     * text, or clears them when the setting is off for it.
+     *
+     * The analysis awaits the digest index, so the document may have changed by
+     * the time it answers. The version read before is compared after, and a
+     * stale answer is dropped rather than published against lines that have
+     * moved; the edit that moved them has scheduled a refresh of its own.
+     */
+    async refresh(document: vscode.TextDocument): Promise<void> {
+        if (!settingsFor(document.uri).get<boolean>("diagnostics.unusedImports", true)) {
+            this.collection.delete(document.uri);
+            return;
+        }
+
+        try {
+            const version = document.version;
+            const unused = await this.importHandler.findUnusedImports(document);
+            if (this.disposed || document.isClosed || document.version !== version) {
+                return;
+            }
+
+            this.collection.set(
+                document.uri,
+                unused.map((imp) => {
+                    const range = new vscode.Range(new vscode.Position(imp.startLine, 0), document.lineAt(imp.endLine).range.end);
+                    const diagnostic = new vscode.Diagnostic(range, `Unused import: nothing in this file uses ${imp.path}`, vscode.DiagnosticSeverity.Hint);
+                    diagnostic.source = UnusedImportDiagnostics.DIAGNOSTIC_SOURCE;
+                    diagnostic.code = UnusedImportDiagnostics.DIAGNOSTIC_CODE;
+                    diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+                    return diagnostic;
+                }),
+            );
+        } catch (error) {
+            logger.error("UnusedImportDiagnostics", `Error analyzing imports in ${document.uri.toString()}`, error);
+        }
+    }
+
+    private forget(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const pending = this.pendingRefreshes.get(key);
+        if (pending) {
+            clearTimeout(pending);
+            this.pendingRefreshes.delete(key);
+        }
+        this.collection.delete(uri);
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        this.pendingRefreshes.forEach((timer) => clearTimeout(timer));
+        this.pendingRefreshes.clear();
+        this.disposables.forEach((disposable) => disposable.dispose());
+        this.collection.dispose();
+    }
+}
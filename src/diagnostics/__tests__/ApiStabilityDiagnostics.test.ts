@@ -0,0 +1,77 @@
+import * as vscode from "vscode";
+import { ApiStabilityDiagnostics } from "../ApiStabilityDiagnostics";
+import { ImportHandler } from "../../imports";
+import { UnstableApiUse } from "../../types";
+
+const document = {
+    uri: vscode.Uri.file("/project/Content/device.verse"),
+    languageId: "verse",
+    isClosed: false,
+    version: 1,
+    getText: () => "",
+} as unknown as vscode.TextDocument;
+
+const use = (marks: Pick<UnstableApiUse, "experimental" | "deprecated">): UnstableApiUse => ({
+    name: "camera_component",
+    modulePath: "/Verse.org/SceneGraph",
+    line: 2,
+    character: 7,
+    length: 16,
+    ...marks,
+});
+
+function handlerReporting(uses: UnstableApiUse[]): ImportHandler {
+    return { findUnstableApiUses: jest.fn().mockResolvedValue(uses) } as unknown as ImportHandler;
+}
+
+function settingReturns(value: string): void {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+        get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "diagnostics.apiStability" ? value : defaultValue)),
+        inspect: jest.fn().mockReturnValue(undefined),
+        update: jest.fn().mockResolvedValue(undefined),
+    });
+}
+
+let diagnostics: ApiStabilityDiagnostics | undefined;
+
+afterEach(() => {
+    diagnostics?.dispose();
+    diagnostics = undefined;
+});
+
+describe("ApiStabilityDiagnostics.refresh", () => {
+    it("marks each use at the configured severity, over the name alone", async () => {
+        settingReturns("error");
+        diagnostics = new ApiStabilityDiagnostics(handlerReporting([use({ experimental: true, deprecated: false })]));
+
+        await diagnostics.refresh(document);
+
+        const [published] = diagnostics.diagnosticsFor(document.uri);
+        expect(published.severity).toBe(vscode.DiagnosticSeverity.Error);
+        expect(published.message).toBe("Experimental API: camera_component from /Verse.org/SceneGraph is experimental, and an island using it cannot be published");
+        expect([published.range.start.character, published.range.end.character]).toEqual([7, 23]);
+        expect(published.tags).toBeUndefined();
+    });
+
+    it("tags a deprecated use so the editor strikes it through", async () => {
+        settingReturns("warning");
+        diagnostics = new ApiStabilityDiagnostics(handlerReporting([use({ experimental: false, deprecated: true })]));
+
+        await diagnostics.refresh(document);
+
+        const [published] = diagnostics.diagnosticsFor(document.uri);
+        expect(published.message).toBe("Deprecated API: camera_component from /Verse.org/SceneGraph is deprecated");
+        expect(published.tags).toEqual([vscode.DiagnosticTag.Deprecated]);
+    });
+
+    it("publishes nothing, and does not analyze, when the setting is off", async () => {
+        settingReturns("off");
+        const importHandler = handlerReporting([use({ experimental: true, deprecated: false })]);
+        diagnostics = new ApiStabilityDiagnostics(importHandler);
+
+        await diagnostics.refresh(document);
+
+        expect(diagnostics.diagnosticsFor(document.uri)).toEqual([]);
+        expect(importHandler.findUnstableApiUses).not.toHaveBeenCalled();
+    });
+});
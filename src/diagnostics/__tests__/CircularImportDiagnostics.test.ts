@@ -0,0 +1,100 @@
+import * as vscode from "vscode";
+import { CircularImportDiagnostics } from "../CircularImportDiagnostics";
+import { ModuleGraphBuilder, assembleModuleGraph } from "../../graph";
+import { ProjectPathCache } from "../../services";
+
+const PROJECT = "/acct@fortnite.com/MyGame";
+const GADGETS = vscode.Uri.file("/project/Content/Gadgets/trap.verse");
+const CORE = vscode.Uri.file("/project/Content/Core/core.verse");
+
+/** Gadgets and Core importing each other, each on its file's first line. */
+const GRAPH = assembleModuleGraph(PROJECT, [
+    { file: "Content/Gadgets/trap.verse", module: `${PROJECT}/Gadgets`, imports: [{ path: "Core", line: 1, resolved: [`${PROJECT}/Core`] }] },
+    { file: "Content/Core/core.verse", module: `${PROJECT}/Core`, imports: [{ path: "Gadgets", line: 1, resolved: [`${PROJECT}/Gadgets`] }] },
+]);
+
+function builderReturning(): ModuleGraphBuilder {
+    return { build: jest.fn().mockResolvedValue(GRAPH) } as unknown as ModuleGraphBuilder;
+}
+
+function settingReturns(value: string): void {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+        get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "diagnostics.circularImports" ? value : defaultValue)),
+        inspect: jest.fn().mockReturnValue(undefined),
+        update: jest.fn().mockResolvedValue(undefined),
+    });
+}
+
+/** A path cache whose change event the test fires by hand, so nothing runs at construction. */
+function cacheWithListeners(): { cache: ProjectPathCache; listeners: Array<() => void> } {
+    const listeners: Array<() => void> = [];
+    const cache = { onDidChange: (listener: () => void) => (listeners.push(listener), { dispose: jest.fn() }) } as unknown as ProjectPathCache;
+    return { cache, listeners };
+}
+
+let diagnostics: CircularImportDiagnostics | undefined;
+
+beforeEach(() => {
+    (vscode.workspace.findFiles as jest.Mock).mockResolvedValue([GADGETS, CORE]);
+    (vscode.workspace.asRelativePath as jest.Mock).mockImplementation((uri: vscode.Uri) => uri.fsPath.replace(/\\/g, "/").replace(/^\/project\//, ""));
+    (vscode.workspace.openTextDocument as jest.Mock).mockClear();
+});
+
+afterEach(() => {
+    diagnostics?.dispose();
+    diagnostics = undefined;
+});
+
+describe("CircularImportDiagnostics.refresh", () => {
+    it("marks each import of the cycle, naming the cycle, with a link to each step's import", async () => {
+        settingReturns("error");
+        diagnostics = new CircularImportDiagnostics(builderReturning(), cacheWithListeners().cache);
+
+        await diagnostics.refresh();
+
+        const [published] = diagnostics.diagnosticsFor(GADGETS);
+        expect(published.message).toBe("Circular module dependency: Gadgets → Core → Gadgets");
+        expect(published.severity).toBe(vscode.DiagnosticSeverity.Error);
+        expect([published.range.start.line, published.range.start.character, published.range.end.line]).toEqual([0, 0, 0]);
+        expect(published.relatedInformation?.map((related) => [related.location.uri.fsPath, related.message])).toEqual([
+            [GADGETS.fsPath, "Gadgets imports Core here"],
+            [CORE.fsPath, "Core imports Gadgets here"],
+        ]);
+        expect(diagnostics.diagnosticsFor(CORE)).toHaveLength(1);
+        // The line's end is left to the editor: a background run opens nothing.
+        expect(vscode.workspace.openTextDocument).not.toHaveBeenCalled();
+    });
+
+    it("clears its marks, and reads nothing, when the setting is off", async () => {
+        settingReturns("warning");
+        const builder = builderReturning();
+        diagnostics = new CircularImportDiagnostics(builder, cacheWithListeners().cache);
+        await diagnostics.refresh();
+
+        settingReturns("off");
+        await diagnostics.refresh();
+
+        expect(diagnostics.diagnosticsFor(GADGETS)).toEqual([]);
+        expect(builder.build).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("CircularImportDiagnostics refresh triggers", () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it("reads the project once the path cache has changed and settled, however often it fired", async () => {
+        settingReturns("warning");
+        const builder = builderReturning();
+        const { cache, listeners } = cacheWithListeners();
+        diagnostics = new CircularImportDiagnostics(builder, cache);
+        await jest.runOnlyPendingTimersAsync();
+        expect(builder.build).not.toHaveBeenCalled();
+
+        listeners.forEach((listener) => listener());
+        listeners.forEach((listener) => listener());
+        await jest.runOnlyPendingTimersAsync();
+
+        expect(builder.build).toHaveBeenCalledTimes(1);
+    });
+});
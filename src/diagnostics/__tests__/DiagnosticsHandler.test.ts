@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
 import { DiagnosticsHandler } from "../DiagnosticsHandler";
-import { ImportHandler } from "../../imports";
+import { ImportChoiceMemory, ImportHandler, ImportSuggestionRanker } from "../../imports";
+import { AutoImportHistory } from "../../history";
 
 describe("DiagnosticsHandler.shouldProcessUri", () => {
     const fileUri = (fsPath: string) => ({ scheme: "file", fsPath });
@@ -124,12 +125,15 @@ describe("DiagnosticsHandler.isUriInScope", () => {
 
 const DELAY_MS = 10;
 
+const APPLIED = { outcome: "applied", addedPaths: ["/Fortnite.com/Devices"] };
+
 function makeImportHandler(): ImportHandler {
     return {
         extractImportSuggestions: jest.fn().mockResolvedValue([{ importStatement: "using { /Fortnite.com/Devices }", confidence: "high" }]),
-        // true is what a successful applyEdit returns; the handler reads it to
-        // decide between the success status message and a warning.
-        addImportsToDocument: jest.fn().mockResolvedValue(true),
+        importRestrictionFor: jest.fn().mockReturnValue(null),
+        // "applied" is what a successful applyEdit answers; the handler reads it
+        // to decide between the success status message and a warning.
+        addImportsWithOutcome: jest.fn().mockResolvedValue(APPLIED),
     } as unknown as ImportHandler;
 }
 
@@ -163,7 +167,7 @@ describe("DiagnosticsHandler auto-import suppression", () => {
         await handler.handle(makeDocument());
         await jest.advanceTimersByTimeAsync(DELAY_MS);
 
-        expect(importHandler.addImportsToDocument).toHaveBeenCalledTimes(1);
+        expect(importHandler.addImportsWithOutcome).toHaveBeenCalledTimes(1);
     });
 
     // Regression: the debounce timer re-reads the auto-import decision when it
@@ -180,7 +184,7 @@ describe("DiagnosticsHandler auto-import suppression", () => {
         snoozed = true;
         await jest.advanceTimersByTimeAsync(DELAY_MS);
 
-        expect(importHandler.addImportsToDocument).not.toHaveBeenCalled();
+        expect(importHandler.addImportsWithOutcome).not.toHaveBeenCalled();
     });
 });
 
@@ -215,7 +219,7 @@ describe("DiagnosticsHandler debounce keying", () => {
         await handler.handle(uiUtils);
         await jest.advanceTimersByTimeAsync(DELAY_MS);
 
-        const imported = (importHandler.addImportsToDocument as jest.Mock).mock.calls.map((call) => call[0]);
+        const imported = (importHandler.addImportsWithOutcome as jest.Mock).mock.calls.map((call) => call[0]);
         expect(imported).toEqual(expect.arrayContaining([weaponsUtils, uiUtils]));
         expect(imported).toHaveLength(2);
     });
@@ -223,10 +227,10 @@ describe("DiagnosticsHandler debounce keying", () => {
     it("does not drop a same-named file while another is mid-processing", async () => {
         const importHandler = makeImportHandler();
         let releaseFirstImport: () => void = () => {};
-        (importHandler.addImportsToDocument as jest.Mock).mockImplementationOnce(
+        (importHandler.addImportsWithOutcome as jest.Mock).mockImplementationOnce(
             () =>
-                new Promise<boolean>((resolve) => {
-                    releaseFirstImport = () => resolve(true);
+                new Promise<typeof APPLIED>((resolve) => {
+                    releaseFirstImport = () => resolve(APPLIED);
                 }),
         );
 
@@ -236,7 +240,7 @@ describe("DiagnosticsHandler debounce keying", () => {
         const weaponsUtils = makeDocument(WEAPONS_UTILS);
         const uiUtils = makeDocument(UI_UTILS);
 
-        // Let the first file's timer fire and park inside addImportsToDocument,
+        // Let the first file's timer fire and park inside addImportsWithOutcome,
         // so it is still in processingDocuments when the second file arrives.
         await handler.handle(weaponsUtils);
         await jest.advanceTimersByTimeAsync(DELAY_MS);
@@ -245,11 +249,222 @@ describe("DiagnosticsHandler debounce keying", () => {
         releaseFirstImport();
         await jest.advanceTimersByTimeAsync(DELAY_MS);
 
-        const imported = (importHandler.addImportsToDocument as jest.Mock).mock.calls.map((call) => call[0]);
+        const imported = (importHandler.addImportsWithOutcome as jest.Mock).mock.calls.map((call) => call[0]);
         expect(imported).toEqual([weaponsUtils, uiUtils]);
     });
 });
 
+describe("DiagnosticsHandler auto-import history", () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+        (vscode.languages.getDiagnostics as jest.Mock).mockReturnValue([{ message: "Unknown identifier `button_device`.", range: { start: { line: 7 } } }]);
+    });
+
+    afterEach(() => {
+        jest.clearAllTimers();
+        jest.useRealTimers();
+        jest.clearAllMocks();
+    });
+
+    async function runAutoImport(importHandler: ImportHandler): Promise<jest.Mock> {
+        const record = jest.fn().mockResolvedValue(undefined);
+        const handler = new DiagnosticsHandler(vscode.window.createOutputChannel("test"), importHandler, () => false, { record } as unknown as AutoImportHistory);
+        handler.setDelay(DELAY_MS);
+
+        await handler.handle(makeDocument());
+        await jest.advanceTimersByTimeAsync(DELAY_MS);
+        return record;
+    }
+
+    it("records each statement it wrote with the message that asked for it", async () => {
+        const record = await runAutoImport(makeImportHandler());
+
+        expect(record).toHaveBeenCalledTimes(1);
+        expect(record.mock.calls[0][1]).toEqual([{ statement: "using { /Fortnite.com/Devices }", diagnosticMessage: "Unknown identifier `button_device`.", strategy: "high_confidence" }]);
+    });
+
+    it("records nothing the writer skipped because the file already imported it", async () => {
+        const importHandler = makeImportHandler();
+        (importHandler.addImportsWithOutcome as jest.Mock).mockResolvedValue({ outcome: "unchanged", addedPaths: [] });
+
+        const record = await runAutoImport(importHandler);
+
+        expect(record).not.toHaveBeenCalled();
+    });
+
+    it("records the strategy that picked a statement out of several", async () => {
+        const importHandler = makeImportHandler();
+        (importHandler.extractImportSuggestions as jest.Mock).mockResolvedValue([
+            { importStatement: "using { /Fortnite.com/Devices }", confidence: "medium" },
+            { importStatement: "using { /Fortnite.com/Devices/Other }", confidence: "medium" },
+        ]);
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+            get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "behavior.multiOptionStrategy" ? "auto_shortest" : defaultValue)),
+            inspect: jest.fn().mockReturnValue(undefined),
+            update: jest.fn().mockResolvedValue(undefined),
+        });
+
+        const record = await runAutoImport(importHandler);
+
+        expect(record.mock.calls[0][1]).toEqual([expect.objectContaining({ statement: "using { /Fortnite.com/Devices }", strategy: "auto_shortest" })]);
+    });
+});
+
+describe("DiagnosticsHandler remembered choices", () => {
+    const SPATIAL = "/Verse.org/SpatialMath";
+    const TEMPORARY = "/UnrealEngine.com/Temporary/SpatialMath";
+    const suggestion = (modulePath: string) => ({ importStatement: `using { ${modulePath} }`, confidence: "high", modulePath });
+
+    const memento = (): vscode.Memento => ({ get: () => undefined, update: jest.fn().mockResolvedValue(undefined) }) as unknown as vscode.Memento;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        (vscode.languages.getDiagnostics as jest.Mock).mockReturnValue([{ message: "Unknown identifier `vector3`.", range: { start: { line: 7 } } }]);
+    });
+
+    afterEach(() => {
+        jest.clearAllTimers();
+        jest.useRealTimers();
+        jest.clearAllMocks();
+    });
+
+    function importHandlerSuggesting(...modulePaths: string[]): ImportHandler {
+        return {
+            extractImportSuggestions: jest.fn().mockResolvedValue(modulePaths.map(suggestion)),
+            importRestrictionFor: jest.fn().mockReturnValue(null),
+            identifierInMessage: jest.fn().mockReturnValue("vector3"),
+            addImportsWithOutcome: jest.fn().mockImplementation(async (_document: vscode.TextDocument, statements: string[]) => ({
+                outcome: "applied",
+                addedPaths: statements.map((statement) => statement.slice("using { ".length, -" }".length)),
+            })),
+        } as unknown as ImportHandler;
+    }
+
+    async function runAutoImport(importHandler: ImportHandler, memory: ImportChoiceMemory, strategy = "quickfix"): Promise<jest.Mock> {
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+            get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "behavior.multiOptionStrategy" ? strategy : defaultValue)),
+            inspect: jest.fn().mockReturnValue(undefined),
+            update: jest.fn().mockResolvedValue(undefined),
+        });
+        const record = jest.fn().mockResolvedValue(undefined);
+        const handler = new DiagnosticsHandler(vscode.window.createOutputChannel("test"), importHandler, () => false, { record } as unknown as AutoImportHistory, memory);
+        handler.setDelay(DELAY_MS);
+
+        await handler.handle(makeDocument());
+        await jest.advanceTimersByTimeAsync(DELAY_MS);
+        return record;
+    }
+
+    it("takes the module picked before over the auto_ strategy's own pick", async () => {
+        const memory = new ImportChoiceMemory(memento());
+        await memory.recordPick({ identifier: "vector3", modulePath: TEMPORARY });
+
+        const record = await runAutoImport(importHandlerSuggesting(SPATIAL, TEMPORARY), memory, "auto_first");
+
+        expect(record.mock.calls[0][1]).toEqual([expect.objectContaining({ statement: `using { ${TEMPORARY} }`, strategy: "remembered_choice" })]);
+    });
+
+    it("never writes a module whose automatic import was undone", async () => {
+        const memory = new ImportChoiceMemory(memento());
+        await memory.recordRejection({ identifier: "vector3", modulePath: SPATIAL });
+
+        const lone = importHandlerSuggesting(SPATIAL);
+        await runAutoImport(lone, memory);
+        expect(lone.addImportsWithOutcome).not.toHaveBeenCalled();
+
+        const record = await runAutoImport(importHandlerSuggesting(SPATIAL, TEMPORARY), memory, "auto_first");
+        expect(record.mock.calls[0][1]).toEqual([expect.objectContaining({ statement: `using { ${TEMPORARY} }`, strategy: "auto_first" })]);
+    });
+
+    it("never writes a restricted module, and an auto_ strategy falls back to the next option", async () => {
+        const restrictTemporary = (importHandler: ImportHandler): ImportHandler => {
+            (importHandler.importRestrictionFor as jest.Mock).mockImplementation((path: string) => (path === TEMPORARY ? { message: `${path} is restricted` } : null));
+            return importHandler;
+        };
+
+        const lone = restrictTemporary(importHandlerSuggesting(TEMPORARY));
+        await runAutoImport(lone, new ImportChoiceMemory(memento()));
+        expect(lone.addImportsWithOutcome).not.toHaveBeenCalled();
+
+        const record = await runAutoImport(restrictTemporary(importHandlerSuggesting(TEMPORARY, SPATIAL, "/Fortnite.com/SpatialMath")), new ImportChoiceMemory(memento()), "auto_first");
+        expect(record.mock.calls[0][1]).toEqual([expect.objectContaining({ statement: `using { ${SPATIAL} }`, strategy: "auto_first" })]);
+    });
+
+    it("imports the one module a restriction leaves under the quickfix strategy", async () => {
+        const importHandler = importHandlerSuggesting(TEMPORARY, SPATIAL);
+        (importHandler.importRestrictionFor as jest.Mock).mockImplementation((path: string) => (path === TEMPORARY ? { message: `${path} is restricted` } : null));
+
+        const record = await runAutoImport(importHandler, new ImportChoiceMemory(memento()));
+
+        expect(record.mock.calls[0][1]).toEqual([expect.objectContaining({ statement: `using { ${SPATIAL} }`, strategy: "high_confidence" })]);
+        expect(vscode.window.setStatusBarMessage).not.toHaveBeenCalledWith(expect.stringMatching(/Multiple import options/), expect.anything());
+    });
+
+    it("notes what it wrote, so an undo of it reads as a rejection", async () => {
+        const memory = new ImportChoiceMemory(memento());
+        const noteAutoImport = jest.spyOn(memory, "noteAutoImport");
+
+        await runAutoImport(importHandlerSuggesting(SPATIAL), memory);
+
+        expect(noteAutoImport).toHaveBeenCalledWith(expect.anything(), [{ identifier: "vector3", modulePath: SPATIAL }]);
+    });
+});
+
+describe("DiagnosticsHandler auto_ranked strategy", () => {
+    const suggestions = [
+        { importStatement: "using { /Verse.org/SpatialMath }", confidence: "high", modulePath: "/Verse.org/SpatialMath" },
+        { importStatement: "using { /UnrealEngine.com/Temporary/SpatialMath }", confidence: "high", modulePath: "/UnrealEngine.com/Temporary/SpatialMath" },
+    ];
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        (vscode.languages.getDiagnostics as jest.Mock).mockReturnValue([{ message: "Unknown identifier `vector3`.", range: { start: { line: 7 } } }]);
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+            get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "behavior.multiOptionStrategy" ? "auto_ranked" : defaultValue)),
+            inspect: jest.fn().mockReturnValue(undefined),
+            update: jest.fn().mockResolvedValue(undefined),
+        });
+    });
+
+    afterEach(() => {
+        jest.clearAllTimers();
+        jest.useRealTimers();
+        jest.clearAllMocks();
+    });
+
+    async function runAutoImport(ranker?: ImportSuggestionRanker): Promise<jest.Mock> {
+        const importHandler = makeImportHandler();
+        (importHandler.extractImportSuggestions as jest.Mock).mockResolvedValue(suggestions);
+        (importHandler as unknown as { identifierInMessage: jest.Mock }).identifierInMessage = jest.fn().mockReturnValue("vector3");
+        (importHandler.addImportsWithOutcome as jest.Mock).mockImplementation(async (_document: vscode.TextDocument, statements: string[]) => ({
+            outcome: "applied",
+            addedPaths: statements.map((statement) => statement.slice("using { ".length, -" }".length)),
+        }));
+        const record = jest.fn().mockResolvedValue(undefined);
+        const handler = new DiagnosticsHandler(vscode.window.createOutputChannel("test"), importHandler, () => false, { record } as unknown as AutoImportHistory, undefined, ranker);
+        handler.setDelay(DELAY_MS);
+
+        await handler.handle(makeDocument());
+        await jest.advanceTimersByTimeAsync(DELAY_MS);
+        return record;
+    }
+
+    it("imports the option the ranker scores highest", async () => {
+        const rank = jest.fn().mockResolvedValue([suggestions[1], suggestions[0]]);
+
+        const record = await runAutoImport({ rank } as unknown as ImportSuggestionRanker);
+
+        expect(rank).toHaveBeenCalledWith(expect.anything(), "vector3", suggestions);
+        expect(record.mock.calls[0][1]).toEqual([expect.objectContaining({ statement: "using { /UnrealEngine.com/Temporary/SpatialMath }", strategy: "auto_ranked" })]);
+    });
+
+    it("takes the first option when there is no ranker", async () => {
+        const record = await runAutoImport();
+
+        expect(record.mock.calls[0][1]).toEqual([expect.objectContaining({ statement: "using { /Verse.org/SpatialMath }", strategy: "auto_ranked" })]);
+    });
+});
+
 // Regression for #133: addImportsToDocument returns false when applyEdit is
 // rejected, and the status message was shown regardless. The user was told
 // imports had been added to a document that never changed.
@@ -267,7 +482,7 @@ describe("DiagnosticsHandler auto-import failure reporting", () => {
 
     async function runAutoImport(applyEditResult: boolean): Promise<void> {
         const importHandler = makeImportHandler();
-        (importHandler.addImportsToDocument as jest.Mock).mockResolvedValue(applyEditResult);
+        (importHandler.addImportsWithOutcome as jest.Mock).mockResolvedValue(applyEditResult ? APPLIED : { outcome: "failed", addedPaths: [] });
 
         const handler = new DiagnosticsHandler(vscode.window.createOutputChannel("test"), importHandler, () => false);
         handler.setDelay(DELAY_MS);
@@ -321,7 +536,7 @@ describe("DiagnosticsHandler teardown", () => {
         expect(jest.getTimerCount()).toBe(0);
 
         await jest.advanceTimersByTimeAsync(DELAY_MS);
-        expect(importHandler.addImportsToDocument).not.toHaveBeenCalled();
+        expect(importHandler.addImportsWithOutcome).not.toHaveBeenCalled();
     });
 
     it("does not apply an edit when teardown lands mid-callback", async () => {
@@ -347,7 +562,7 @@ describe("DiagnosticsHandler teardown", () => {
         releaseSuggestions();
         await jest.advanceTimersByTimeAsync(0);
 
-        expect(importHandler.addImportsToDocument).not.toHaveBeenCalled();
+        expect(importHandler.addImportsWithOutcome).not.toHaveBeenCalled();
     });
 
     it("arms no new timer for diagnostics that arrive after dispose", async () => {
@@ -0,0 +1,132 @@
+import * as vscode from "vscode";
+import { DuplicateImportDiagnostics } from "../DuplicateImportDiagnostics";
+import { DuplicateImportCodeActionProvider } from "../DuplicateImportCodeActionProvider";
+import { ImportPathConverter } from "../../imports";
+import { DuplicateImportGroup } from "../../types";
+
+function fakeDocument(text: string, version = 1): vscode.TextDocument & { version: number } {
+    const lines = text.split("\n");
+    return {
+        uri: vscode.Uri.file("/project/Content/device.verse"),
+        languageId: "verse",
+        isClosed: false,
+        version,
+        getText: () => text,
+        lineAt: (index: number) => ({ range: { end: new vscode.Position(index, lines[index].length) } }),
+    } as unknown as vscode.TextDocument & { version: number };
+}
+
+/** A converter whose analysis finds the given groups. */
+function converterFinding(groups: DuplicateImportGroup[], onAnalyze?: () => void): ImportPathConverter {
+    return {
+        findDuplicateImports: jest.fn(async (): Promise<DuplicateImportGroup[]> => {
+            onAnalyze?.();
+            return groups;
+        }),
+    } as unknown as ImportPathConverter;
+}
+
+function settingReturns(value: boolean): void {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+        get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "diagnostics.duplicateImports" ? value : defaultValue)),
+        inspect: jest.fn().mockReturnValue(undefined),
+        update: jest.fn().mockResolvedValue(undefined),
+    });
+}
+
+const text = "using { /me@fortnite.com/Game/Gadgets }\nusing { /me@fortnite.com/Game/Tools }\nusing { Gadgets }\nusing { /Me@Fortnite.com/game/Tools }\n\ncode()";
+
+const gadgets: DuplicateImportGroup = {
+    imports: [
+        { path: "/me@fortnite.com/Game/Gadgets", line: 0 },
+        { path: "Gadgets", line: 2 },
+    ],
+    preferredPath: "/me@fortnite.com/Game/Gadgets",
+};
+const tools: DuplicateImportGroup = {
+    imports: [
+        { path: "/me@fortnite.com/Game/Tools", line: 1 },
+        { path: "/Me@Fortnite.com/game/Tools", line: 3 },
+    ],
+    preferredPath: "/me@fortnite.com/Game/Tools",
+};
+
+let diagnostics: DuplicateImportDiagnostics | undefined;
+
+beforeEach(() => {
+    settingReturns(true);
+});
+
+afterEach(() => {
+    diagnostics?.dispose();
+    diagnostics = undefined;
+});
+
+describe("DuplicateImportDiagnostics.refresh", () => {
+    it("marks every import of a group but the first, naming the one it repeats", async () => {
+        const document = fakeDocument(text);
+        diagnostics = new DuplicateImportDiagnostics(converterFinding([gadgets]));
+
+        await diagnostics.refresh(document);
+
+        const published = diagnostics.diagnosticsFor(document.uri);
+        expect(published).toHaveLength(1);
+        expect(published[0].severity).toBe(vscode.DiagnosticSeverity.Hint);
+        expect(published[0].tags).toEqual([vscode.DiagnosticTag.Unnecessary]);
+        expect(published[0].range.start.line).toBe(2);
+        expect(published[0].message).toBe("Duplicate import: Gadgets names the same module as /me@fortnite.com/Game/Gadgets on line 1");
+        expect(DuplicateImportDiagnostics.isDuplicateImportDiagnostic(published[0])).toBe(true);
+        expect(diagnostics.groupsFor(document.uri)).toEqual([gadgets]);
+    });
+
+    it("drops an analysis the document was edited under", async () => {
+        const document = fakeDocument(text);
+        diagnostics = new DuplicateImportDiagnostics(converterFinding([gadgets], () => document.version++));
+
+        await diagnostics.refresh(document);
+
+        expect(diagnostics.diagnosticsFor(document.uri)).toEqual([]);
+        expect(diagnostics.groupsFor(document.uri)).toEqual([]);
+    });
+
+    it("clears a document's marks and groups when the setting is turned off", async () => {
+        const document = fakeDocument(text);
+        const converter = converterFinding([gadgets]);
+        diagnostics = new DuplicateImportDiagnostics(converter);
+        await diagnostics.refresh(document);
+
+        settingReturns(false);
+        await diagnostics.refresh(document);
+
+        expect(diagnostics.diagnosticsFor(document.uri)).toEqual([]);
+        expect(diagnostics.groupsFor(document.uri)).toEqual([]);
+        expect(converter.findDuplicateImports).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("DuplicateImportCodeActionProvider", () => {
+    const contextWith = (diagnosticsAtCursor: readonly vscode.Diagnostic[]) => ({ diagnostics: diagnosticsAtCursor }) as unknown as vscode.CodeActionContext;
+
+    it("offers to collapse the group under the cursor, and every group when there are more", async () => {
+        const document = fakeDocument(text);
+        diagnostics = new DuplicateImportDiagnostics(converterFinding([gadgets, tools]));
+        await diagnostics.refresh(document);
+        const [atCursor] = diagnostics.diagnosticsFor(document.uri);
+
+        const actions = new DuplicateImportCodeActionProvider(diagnostics).provideCodeActions(document, atCursor.range, contextWith([atCursor]));
+
+        expect(actions?.map((action) => action.title)).toEqual(["Collapse duplicate imports into /me@fortnite.com/Game/Gadgets", "Collapse all duplicate imports"]);
+        expect(actions?.[0].isPreferred).toBe(true);
+        expect(actions?.[0].command?.command).toBe("verseAutoImports.collapseDuplicateImports");
+        expect(actions?.[0].command?.arguments).toEqual([document, [gadgets]]);
+        expect(actions?.[1].command?.arguments).toEqual([document, [gadgets, tools]]);
+    });
+
+    it("offers nothing for another source's diagnostics", () => {
+        const document = fakeDocument(text);
+        diagnostics = new DuplicateImportDiagnostics(converterFinding([]));
+        const compilerError = new vscode.Diagnostic(new vscode.Range(new vscode.Position(5, 0), new vscode.Position(5, 4)), "Unknown identifier `code`");
+
+        expect(new DuplicateImportCodeActionProvider(diagnostics).provideCodeActions(document, compilerError.range, contextWith([compilerError]))).toBeUndefined();
+    });
+});
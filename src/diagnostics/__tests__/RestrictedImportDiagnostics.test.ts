@@ -0,0 +1,67 @@
+import * as vscode from "vscode";
+import { RestrictedImportDiagnostics } from "../RestrictedImportDiagnostics";
+import { RestrictedImportCodeActionProvider } from "../RestrictedImportCodeActionProvider";
+import { ImportHandler } from "../../imports";
+import { RestrictedImport } from "../../types";
+
+function fakeDocument(text: string): vscode.TextDocument {
+    const lines = text.split("\n");
+    return {
+        uri: vscode.Uri.file("/project/Content/device.verse"),
+        languageId: "verse",
+        isClosed: false,
+        version: 1,
+        getText: () => text,
+        lineAt: (index: number) => ({ range: { end: new vscode.Position(index, lines[index].length) } }),
+    } as unknown as vscode.TextDocument;
+}
+
+/** An import handler reporting the given imports as restricted. */
+function handlerRestricting(restricted: RestrictedImport[]): ImportHandler {
+    return { findRestrictedImports: jest.fn().mockReturnValue(restricted) } as unknown as ImportHandler;
+}
+
+const text = "using { /Verse.org/Simulation }\nusing { /UnrealEngine.com/Temporary/SpatialMath }\nusing { /Fortnite.com/Experimental }\n\ncode()";
+
+const temporary: RestrictedImport = { path: "/UnrealEngine.com/Temporary/SpatialMath", line: 1, message: "Use /Verse.org/SpatialMath.", replacement: "/Verse.org/SpatialMath" };
+const experimental: RestrictedImport = { path: "/Fortnite.com/Experimental", line: 2, message: "/Fortnite.com/Experimental is restricted: it is not in the allow-list" };
+
+let diagnostics: RestrictedImportDiagnostics | undefined;
+
+afterEach(() => {
+    diagnostics?.dispose();
+    diagnostics = undefined;
+});
+
+describe("RestrictedImportDiagnostics.refresh", () => {
+    it("warns on each restricted import with its rule's message", () => {
+        const document = fakeDocument(text);
+        diagnostics = new RestrictedImportDiagnostics(handlerRestricting([temporary]));
+
+        diagnostics.refresh(document);
+
+        const published = diagnostics.diagnosticsFor(document.uri);
+        expect(published).toHaveLength(1);
+        expect(published[0].severity).toBe(vscode.DiagnosticSeverity.Warning);
+        expect(published[0].message).toBe("Restricted import: Use /Verse.org/SpatialMath.");
+        expect(published[0].range.start.line).toBe(1);
+        expect(RestrictedImportDiagnostics.isRestrictedImportDiagnostic(published[0])).toBe(true);
+    });
+});
+
+describe("RestrictedImportCodeActionProvider", () => {
+    const contextWith = (diagnosticsAtCursor: readonly vscode.Diagnostic[]) => ({ diagnostics: diagnosticsAtCursor }) as unknown as vscode.CodeActionContext;
+
+    it("offers the rule's replacement, and nothing for a rule without one", () => {
+        const document = fakeDocument(text);
+        diagnostics = new RestrictedImportDiagnostics(handlerRestricting([temporary, experimental]));
+        diagnostics.refresh(document);
+        const published = diagnostics.diagnosticsFor(document.uri);
+
+        const actions = new RestrictedImportCodeActionProvider(diagnostics).provideCodeActions(document, published[0].range, contextWith(published));
+
+        expect(actions?.map((action) => action.title)).toEqual(["Replace /UnrealEngine.com/Temporary/SpatialMath with /Verse.org/SpatialMath"]);
+        expect(actions?.[0].command?.command).toBe("verseAutoImports.replaceRestrictedImport");
+        expect(actions?.[0].command?.arguments).toEqual([document, { path: temporary.path, line: 1 }, "/Verse.org/SpatialMath"]);
+    });
+});
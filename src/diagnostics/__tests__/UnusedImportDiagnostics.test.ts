@@ -0,0 +1,146 @@
+import * as vscode from "vscode";
+import { UnusedImportDiagnostics } from "../UnusedImportDiagnostics";
+import { UnusedImportCodeActionProvider } from "../UnusedImportCodeActionProvider";
+import { ImportHandler } from "../../imports";
+import { ScannedImport, scanModuleImports } from "../../imports/ImportScanner";
+
+function fakeDocument(text: string, version = 1): vscode.TextDocument & { version: number } {
+    const lines = text.split("\n");
+    return {
+        uri: vscode.Uri.file("/project/Content/device.verse"),
+        languageId: "verse",
+        isClosed: false,
+        version,
+        getText: () => text,
+        lineAt: (index: number) => ({ range: { end: new vscode.Position(index, lines[index].length) } }),
+    } as unknown as vscode.TextDocument & { version: number };
+}
+
+/** An import handler whose analysis reports the imports of `paths` as unused. */
+function handlerReporting(paths: string[], onAnalyze?: () => void): ImportHandler {
+    return {
+        findUnusedImports: jest.fn(async (document: vscode.TextDocument): Promise<ScannedImport[]> => {
+            onAnalyze?.();
+            return scanModuleImports(document.getText().split("\n")).filter((imp) => paths.includes(imp.path));
+        }),
+    } as unknown as ImportHandler;
+}
+
+function settingReturns(value: boolean): void {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+        get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "diagnostics.unusedImports" ? value : defaultValue)),
+        inspect: jest.fn().mockReturnValue(undefined),
+        update: jest.fn().mockResolvedValue(undefined),
+    });
+}
+
+const text = "using { /Fortnite.com/Devices }\nusing { /Verse.org/Random }\nusing { /Verse.org/Simulation }\n\ncode()";
+
+let diagnostics: UnusedImportDiagnostics | undefined;
+
+beforeEach(() => {
+    settingReturns(true);
+});
+
+afterEach(() => {
+    diagnostics?.dispose();
+    diagnostics = undefined;
+});
+
+describe("UnusedImportDiagnostics.refresh", () => {
+    it("marks each unused import with a hint tagged unnecessary", async () => {
+        const document = fakeDocument(text);
+        diagnostics = new UnusedImportDiagnostics(handlerReporting(["/Verse.org/Random"]));
+
+        await diagnostics.refresh(document);
+
+        const published = diagnostics.diagnosticsFor(document.uri);
+        expect(published).toHaveLength(1);
+        expect(published[0].severity).toBe(vscode.DiagnosticSeverity.Hint);
+        expect(published[0].tags).toEqual([vscode.DiagnosticTag.Unnecessary]);
+        expect(published[0].range.start.line).toBe(1);
+        expect(published[0].range.end.character).toBe("using { /Verse.org/Random }".length);
+        expect(UnusedImportDiagnostics.isUnusedImportDiagnostic(published[0])).toBe(true);
+    });
+
+    it("replaces the previous analysis rather than adding to it", async () => {
+        const document = fakeDocument(text);
+        const paths = ["/Verse.org/Random", "/Verse.org/Simulation"];
+        diagnostics = new UnusedImportDiagnostics(handlerReporting(paths));
+
+        await diagnostics.refresh(document);
+        paths.pop();
+        await diagnostics.refresh(document);
+
+        expect(diagnostics.diagnosticsFor(document.uri)).toHaveLength(1);
+    });
+
+    it("drops an analysis the document was edited under", async () => {
+        const document = fakeDocument(text);
+        diagnostics = new UnusedImportDiagnostics(handlerReporting(["/Verse.org/Random"], () => document.version++));
+
+        await diagnostics.refresh(document);
+
+        expect(diagnostics.diagnosticsFor(document.uri)).toEqual([]);
+    });
+
+    it("clears a document's marks when the setting is turned off", async () => {
+        const document = fakeDocument(text);
+        const importHandler = handlerReporting(["/Verse.org/Random"]);
+        diagnostics = new UnusedImportDiagnostics(importHandler);
+        await diagnostics.refresh(document);
+
+        settingReturns(false);
+        await diagnostics.refresh(document);
+
+        expect(diagnostics.diagnosticsFor(document.uri)).toEqual([]);
+        expect(importHandler.findUnusedImports).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("UnusedImportDiagnostics.isUnusedImportDiagnostic", () => {
+    it("does not claim a diagnostic another source published", () => {
+        const compilerError = new vscode.Diagnostic(new vscode.Range(0, 0, 0, 5), "Unknown identifier `button_device`");
+        compilerError.code = UnusedImportDiagnostics.DIAGNOSTIC_CODE;
+
+        expect(UnusedImportDiagnostics.isUnusedImportDiagnostic(compilerError)).toBe(false);
+    });
+});
+
+describe("UnusedImportCodeActionProvider", () => {
+    const contextWith = (diagnosticsAtCursor: readonly vscode.Diagnostic[]) => ({ diagnostics: diagnosticsAtCursor }) as unknown as vscode.CodeActionContext;
+
+    it("offers to remove the import under the cursor, and every unused import when there are more", async () => {
+        const document = fakeDocument(text);
+        diagnostics = new UnusedImportDiagnostics(handlerReporting(["/Verse.org/Random", "/Verse.org/Simulation"]));
+        await diagnostics.refresh(document);
+        const [atCursor] = diagnostics.diagnosticsFor(document.uri);
+
+        const actions = new UnusedImportCodeActionProvider(diagnostics).provideCodeActions(document, atCursor.range, contextWith([atCursor]));
+
+        expect(actions?.map((action) => action.title)).toEqual(["Remove unused import /Verse.org/Random", "Remove all unused imports"]);
+        expect(actions?.[0].isPreferred).toBe(true);
+        expect(actions?.[0].command?.command).toBe("verseAutoImports.removeUnusedImports");
+        expect(actions?.[0].command?.arguments).toEqual([document, ["/Verse.org/Random"]]);
+        expect(actions?.[1].command?.arguments).toEqual([document, ["/Verse.org/Random", "/Verse.org/Simulation"]]);
+    });
+
+    it("offers no remove-all when only one import is unused", async () => {
+        const document = fakeDocument(text);
+        diagnostics = new UnusedImportDiagnostics(handlerReporting(["/Verse.org/Random"]));
+        await diagnostics.refresh(document);
+        const [atCursor] = diagnostics.diagnosticsFor(document.uri);
+
+        const actions = new UnusedImportCodeActionProvider(diagnostics).provideCodeActions(document, atCursor.range, contextWith([atCursor]));
+
+        expect(actions?.map((action) => action.title)).toEqual(["Remove unused import /Verse.org/Random"]);
+    });
+
+    it("offers nothing for another source's diagnostics", () => {
+        const document = fakeDocument(text);
+        diagnostics = new UnusedImportDiagnostics(handlerReporting([]));
+        const compilerError = new vscode.Diagnostic(new vscode.Range(4, 0, 4, 4), "Unknown identifier `code`");
+
+        expect(new UnusedImportCodeActionProvider(diagnostics).provideCodeActions(document, compilerError.range, contextWith([compilerError]))).toBeUndefined();
+    });
+});
@@ -1 +1,9 @@
 export { DiagnosticsHandler } from "./DiagnosticsHandler";
+export { UnusedImportDiagnostics } from "./UnusedImportDiagnostics";
+export { UnusedImportCodeActionProvider } from "./UnusedImportCodeActionProvider";
+export { DuplicateImportDiagnostics } from "./DuplicateImportDiagnostics";
+export { DuplicateImportCodeActionProvider } from "./DuplicateImportCodeActionProvider";
+export { RestrictedImportDiagnostics } from "./RestrictedImportDiagnostics";
+export { RestrictedImportCodeActionProvider } from "./RestrictedImportCodeActionProvider";
+export { ApiStabilityDiagnostics } from "./ApiStabilityDiagnostics";
+export { CircularImportDiagnostics } from "./CircularImportDiagnostics";
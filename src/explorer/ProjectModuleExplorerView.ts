@@ -0,0 +1,159 @@
+import * as vscode from "vscode";
+import { ProjectModule, ProjectPathCache } from "../services";
+import { ProjectPathNode } from "../types";
+
+/** A project module, or a declaration directly inside one. */
+export type ProjectModuleExplorerNode = { kind: "module"; module: ProjectModule; projectPath: string } | { kind: "declaration"; declaration: ProjectPathNode; modulePath: string };
+
+/** The module tree, built once per change of the cache. */
+interface ModuleTree {
+    root: ProjectModule | null;
+    children: Map<string, ProjectModule[]>;
+}
+
+const ICONS: Record<ProjectPathNode["type"], string> = {
+    module: "symbol-module",
+    class: "symbol-class",
+    struct: "symbol-struct",
+    function: "symbol-function",
+    variable: "symbol-variable",
+    interface: "symbol-interface",
+    enum: "symbol-enum",
+};
+
+/**
+ * The tree behind the Project Modules view: the modules the project path cache
+ * knows - the folders under Content and the explicit `:= module` declarations -
+ * nested by path under the project, each with its visibility and the
+ * declarations directly inside it. A declaration or an explicit module opens
+ * its source where it is declared.
+ *
+ * Rebuilt whenever the cache changes, and empty while the cache is off or has
+ * not found a project, which is when the view's welcome text shows instead.
+ *
+ * A module deeper than the top level that is not `<public>` is what the Make
+ * Module Public action is offered on: a top-level module is reachable from the
+ * whole project as it is, being internal to the project's own module.
+ */
+export class ProjectModuleExplorerView implements vscode.TreeDataProvider<ProjectModuleExplorerNode>, vscode.Disposable {
+    static readonly VIEW_ID = "verseAutoImports.projectModules";
+
+    private readonly changeEmitter = new vscode.EventEmitter<ProjectModuleExplorerNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+    private readonly cacheListener: vscode.Disposable | undefined;
+    private tree: Promise<ModuleTree> | null = null;
+
+    constructor(private readonly projectPathCache?: ProjectPathCache) {
+        this.cacheListener = projectPathCache?.onDidChange(() => {
+            this.tree = null;
+            this.changeEmitter.fire(undefined);
+        });
+    }
+
+    async getChildren(node?: ProjectModuleExplorerNode): Promise<ProjectModuleExplorerNode[]> {
+        if (node?.kind === "declaration") {
+            return [];
+        }
+
+        const tree = await this.loadTree();
+        if (!tree.root) {
+            return [];
+        }
+        const projectPath = tree.root.modulePath;
+        if (!node) {
+            return [{ kind: "module", module: tree.root, projectPath }];
+        }
+
+        const { module: parent } = node;
+        const modules = (tree.children.get(parent.modulePath) ?? []).map((child): ProjectModuleExplorerNode => ({ kind: "module", module: child, projectPath }));
+        const declarations = [...parent.members]
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map((declaration): ProjectModuleExplorerNode => ({ kind: "declaration", declaration, modulePath: parent.modulePath }));
+        return [...modules, ...declarations];
+    }
+
+    getTreeItem(node: ProjectModuleExplorerNode): vscode.TreeItem {
+        if (node.kind === "declaration") {
+            const { declaration } = node;
+            const item = new vscode.TreeItem(declaration.name, vscode.TreeItemCollapsibleState.None);
+            item.description = `${declaration.type}, ${declaration.isPublic ? "public" : "not public"}`;
+            item.tooltip = `${declaration.name} in ${node.modulePath}`;
+            item.iconPath = new vscode.ThemeIcon(ICONS[declaration.type] ?? "symbol-misc");
+            item.contextValue = "projectDeclaration";
+            item.command = ProjectModuleExplorerView.openCommand(declaration);
+            return item;
+        }
+
+        const { module: projectModule, projectPath } = node;
+        const isRoot = projectModule.modulePath === projectPath;
+        const item = new vscode.TreeItem(
+            projectModule.modulePath.slice(projectModule.modulePath.lastIndexOf("/") + 1),
+            isRoot ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed,
+        );
+        item.description = isRoot ? "project" : projectModule.isPublic ? "public" : "internal";
+        const declaredIn = projectModule.declarations.map((declaration) => `${declaration.sourceFile}:${declaration.sourceLine ?? 1}`);
+        item.tooltip = [projectModule.modulePath, projectModule.isFolder ? "Folder module" : null, ...declaredIn.map((where) => `Declared in ${where}`)].filter(Boolean).join("\n");
+        item.iconPath = new vscode.ThemeIcon(projectModule.isFolder ? "folder" : "symbol-module");
+        item.contextValue = ProjectModuleExplorerView.needsPublic(projectModule, projectPath) ? "projectModuleInternal" : "projectModule";
+        if (projectModule.declarations.length > 0) {
+            item.command = ProjectModuleExplorerView.openCommand(projectModule.declarations[0]);
+        }
+        return item;
+    }
+
+    dispose(): void {
+        this.cacheListener?.dispose();
+        this.changeEmitter.dispose();
+    }
+
+    /** Whether part of the project cannot reach the module: it is below the top level and not `<public>`. */
+    private static needsPublic(projectModule: ProjectModule, projectPath: string): boolean {
+        const depth = projectModule.modulePath
+            .slice(projectPath.length)
+            .split("/")
+            .filter((s) => s.length > 0).length;
+        return depth > 1 && !projectModule.isPublic;
+    }
+
+    /** Opens a declaration's file at its line, or nothing for one the cache did not place. */
+    private static openCommand(declaration: ProjectPathNode): vscode.Command | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder || !declaration.sourceFile) {
+            return undefined;
+        }
+
+        const start = new vscode.Position(Math.max((declaration.sourceLine ?? 1) - 1, 0), 0);
+        return {
+            title: "Go to Declaration",
+            command: "vscode.open",
+            arguments: [vscode.Uri.joinPath(workspaceFolder.uri, declaration.sourceFile), { selection: new vscode.Range(start, start) }],
+        };
+    }
+
+    private loadTree(): Promise<ModuleTree> {
+        this.tree ??= (this.projectPathCache?.listProjectModules() ?? Promise.resolve([])).then(buildModuleTree);
+        return this.tree;
+    }
+}
+
+/**
+ * Hangs each module under the closest module above it. The Content root sorts
+ * first, being the shortest path, and every other module sits under it.
+ */
+function buildModuleTree(modules: ProjectModule[]): ModuleTree {
+    const root = modules[0] ?? null;
+    const byPath = new Map(modules.map((projectModule) => [projectModule.modulePath, projectModule]));
+    const children = new Map<string, ProjectModule[]>();
+
+    for (const projectModule of modules.slice(1)) {
+        let parent = projectModule.modulePath.slice(0, projectModule.modulePath.lastIndexOf("/"));
+        while (parent && !byPath.has(parent)) {
+            parent = parent.slice(0, parent.lastIndexOf("/"));
+        }
+        const siblings = children.get(parent) ?? [];
+        siblings.push(projectModule);
+        children.set(parent, siblings);
+    }
+
+    return { root, children };
+}
@@ -0,0 +1,185 @@
+import * as vscode from "vscode";
+import { ImportHandler, apiStabilityLabel } from "../imports";
+import { ImportableIdentifier } from "../types";
+
+/** A module path, or a name a module declares. */
+export type VerseApiExplorerNode = { kind: "module"; path: string; declared: boolean } | { kind: "declaration"; declaration: ImportableIdentifier };
+
+/** The module tree, built once per load of the digests. */
+interface ApiTree {
+    /** Module paths below each path, "" holding the domains. */
+    children: Map<string, string[]>;
+    /** What each declared module declares, sorted by name. */
+    declarations: Map<string, ImportableIdentifier[]>;
+}
+
+const ICONS: Record<string, string> = {
+    class: "symbol-class",
+    function: "symbol-function",
+    variable: "symbol-variable",
+};
+
+/**
+ * The tree behind the Verse API view: the modules of the loaded digests -
+ * the bundled ones, or the install's where `experimental.useInstalledDigests`
+ * asks for them - nested by path under `/Verse.org`, `/Fortnite.com` and
+ * `/UnrealEngine.com`, with the names each declares beneath it.
+ *
+ * A path segment no digest declares as a module, such as
+ * `/UnrealEngine.com/Temporary`, is still a node, so its modules nest under
+ * it; it cannot be imported, and its context value says so to the menus.
+ *
+ * The filter keeps a name that contains the text and a module whose path
+ * does, ignoring case, along with the modules above either.
+ */
+export class VerseApiExplorerView implements vscode.TreeDataProvider<VerseApiExplorerNode>, vscode.Disposable {
+    static readonly VIEW_ID = "verseAutoImports.verseApiExplorer";
+    /** Set while a filter applies, for the view title's clear button. */
+    static readonly FILTERED_CONTEXT_KEY = "verseAutoImports.apiExplorerFiltered";
+
+    private readonly changeEmitter = new vscode.EventEmitter<VerseApiExplorerNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    private tree: Promise<ApiTree> | null = null;
+    private treeView: vscode.TreeView<VerseApiExplorerNode> | null = null;
+    private filterText = "";
+    /** Whether each module path shows under the current filter. Cleared with it. */
+    private readonly shown = new Map<string, boolean>();
+
+    constructor(private readonly importHandler: ImportHandler) {}
+
+    /** Creates the view this fills, which names the filter in its title. */
+    createTreeView(): vscode.TreeView<VerseApiExplorerNode> {
+        this.treeView = vscode.window.createTreeView(VerseApiExplorerView.VIEW_ID, { treeDataProvider: this, showCollapseAll: true });
+        return this.treeView;
+    }
+
+    get filter(): string {
+        return this.filterText;
+    }
+
+    /** Narrows the tree to what matches `text`; an empty text shows everything again. */
+    setFilter(text: string): void {
+        this.filterText = text.trim();
+        this.shown.clear();
+        if (this.treeView) {
+            this.treeView.description = this.filterText ? `Filter: ${this.filterText}` : undefined;
+        }
+        void vscode.commands.executeCommand("setContext", VerseApiExplorerView.FILTERED_CONTEXT_KEY, this.filterText !== "");
+        this.changeEmitter.fire(undefined);
+    }
+
+    /** Builds the tree again from the digests, for after they are read again. */
+    refresh(): void {
+        this.tree = null;
+        this.shown.clear();
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * What a node imports: a declared module itself, or the module a name
+     * lives in. Null for a path segment no digest declares.
+     */
+    static importableOf(node: VerseApiExplorerNode): ImportableIdentifier | null {
+        if (node.kind === "declaration") {
+            return node.declaration;
+        }
+        if (!node.declared) {
+            return null;
+        }
+        return { identifier: node.path.slice(node.path.lastIndexOf("/") + 1), modulePath: node.path, type: "module", source: "digest_lookup" };
+    }
+
+    async getChildren(node?: VerseApiExplorerNode): Promise<VerseApiExplorerNode[]> {
+        if (node?.kind === "declaration") {
+            return [];
+        }
+
+        const tree = await this.loadTree();
+        const parent = node?.path ?? "";
+        const modules: VerseApiExplorerNode[] = (tree.children.get(parent) ?? [])
+            .filter((path) => this.shows(tree, path))
+            .map((path) => ({ kind: "module", path, declared: tree.declarations.has(path) }));
+
+        const declarations = tree.declarations.get(parent) ?? [];
+        const shownDeclarations = this.filterText && !this.matches(parent) ? declarations.filter((declaration) => this.matches(declaration.identifier)) : declarations;
+        return [...modules, ...shownDeclarations.map((declaration): VerseApiExplorerNode => ({ kind: "declaration", declaration }))];
+    }
+
+    getTreeItem(node: VerseApiExplorerNode): vscode.TreeItem {
+        if (node.kind === "declaration") {
+            const { declaration } = node;
+            const item = new vscode.TreeItem(declaration.identifier, vscode.TreeItemCollapsibleState.None);
+            const stability = apiStabilityLabel(declaration);
+            item.description = stability ? `${declaration.type}, ${stability}` : declaration.type;
+            item.tooltip = `${declaration.identifier} in ${declaration.modulePath}`;
+            item.iconPath = new vscode.ThemeIcon(ICONS[declaration.type] ?? "symbol-misc");
+            item.contextValue = "verseApiDeclaration";
+            return item;
+        }
+
+        const label = node.path.slice(node.path.lastIndexOf("/") + 1);
+        // Opened while filtering, so a match is in sight without expanding
+        // every module above it by hand.
+        const item = new vscode.TreeItem(label, this.filterText ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+        item.tooltip = node.path;
+        item.iconPath = new vscode.ThemeIcon(node.declared ? "symbol-module" : "symbol-namespace");
+        item.contextValue = node.declared ? "verseApiModule" : "verseApiPath";
+        return item;
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
+    private loadTree(): Promise<ApiTree> {
+        this.tree ??= this.importHandler.listDigestModules().then(buildApiTree);
+        return this.tree;
+    }
+
+    private matches(text: string): boolean {
+        return text.toLowerCase().includes(this.filterText.toLowerCase());
+    }
+
+    /** Whether the module path, or anything beneath it, matches the filter. */
+    private shows(tree: ApiTree, path: string): boolean {
+        if (!this.filterText) {
+            return true;
+        }
+        const cached = this.shown.get(path);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const shows =
+            this.matches(path) ||
+            (tree.declarations.get(path) ?? []).some((declaration) => this.matches(declaration.identifier)) ||
+            (tree.children.get(path) ?? []).some((child) => this.shows(tree, child));
+        this.shown.set(path, shows);
+        return shows;
+    }
+}
+
+/** Nests the module paths under each other, adding the path segments no digest declares. */
+function buildApiTree(modules: Map<string, ImportableIdentifier[]>): ApiTree {
+    const children = new Map<string, Set<string>>();
+    for (const modulePath of modules.keys()) {
+        let path = modulePath;
+        while (path) {
+            const parent = path.slice(0, path.lastIndexOf("/"));
+            const siblings = children.get(parent) ?? new Set<string>();
+            siblings.add(path);
+            children.set(parent, siblings);
+            path = parent;
+        }
+    }
+
+    const declarations = new Map<string, ImportableIdentifier[]>();
+    for (const [modulePath, declared] of modules) {
+        declarations.set(
+            modulePath,
+            [...declared].sort((a, b) => a.identifier.localeCompare(b.identifier)),
+        );
+    }
+    return { children: new Map([...children].map(([parent, paths]) => [parent, [...paths].sort((a, b) => a.localeCompare(b))])), declarations };
+}
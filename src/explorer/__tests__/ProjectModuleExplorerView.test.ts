@@ -0,0 +1,91 @@
+import * as vscode from "vscode";
+import { ProjectModuleExplorerNode, ProjectModuleExplorerView } from "../ProjectModuleExplorerView";
+import { ProjectModule, ProjectPathCache } from "../../services";
+import { ProjectPathNode } from "../../types";
+
+const PROJECT = "/acct@fortnite.com/MyGame";
+
+const node = (name: string, type: ProjectPathNode["type"], sourceFile: string, isPublic = true): ProjectPathNode => ({ name, fullPath: name, type, isPublic, sourceFile, sourceLine: 4 });
+
+const projectModule = (modulePath: string, overrides: Partial<ProjectModule> = {}): ProjectModule => ({ modulePath, isFolder: true, declarations: [], isPublic: false, members: [], ...overrides });
+
+const MODULES = [
+    projectModule(PROJECT),
+    projectModule(`${PROJECT}/Gadgets`, { members: [node("trap_device", "class", "Content/Gadgets/trap.verse"), node("alarm_device", "class", "Content/Gadgets/alarm.verse", false)] }),
+    projectModule(`${PROJECT}/Gadgets/Internal`),
+    projectModule(`${PROJECT}/Gadgets/Shared`, { isPublic: true, declarations: [node("Shared", "module", "Content/Definitions.verse")] }),
+];
+
+function makeView(modules = MODULES): { view: ProjectModuleExplorerView; cache: { listProjectModules: jest.Mock; fireChange: () => void } } {
+    const changeEmitter = new vscode.EventEmitter<void>();
+    const cache = { listProjectModules: jest.fn().mockResolvedValue(modules), onDidChange: changeEmitter.event, fireChange: () => changeEmitter.fire() };
+    return { view: new ProjectModuleExplorerView(cache as unknown as ProjectPathCache), cache };
+}
+
+const moduleNode = (modulePath: string): ProjectModuleExplorerNode => ({ kind: "module", module: MODULES.find((m) => m.modulePath === modulePath)!, projectPath: PROJECT });
+
+/** The labels of a node's children, modules as their paths. */
+async function childrenOf(view: ProjectModuleExplorerView, parent?: ProjectModuleExplorerNode): Promise<string[]> {
+    return (await view.getChildren(parent)).map((child) => (child.kind === "module" ? child.module.modulePath : child.declaration.name));
+}
+
+describe("ProjectModuleExplorerView", () => {
+    beforeAll(() => {
+        (vscode.workspace as { workspaceFolders: unknown }).workspaceFolders = [{ uri: vscode.Uri.file("C:/Project"), name: "Project", index: 0 }];
+    });
+
+    afterAll(() => {
+        (vscode.workspace as { workspaceFolders: unknown }).workspaceFolders = undefined;
+    });
+
+    it("roots the tree at the project, nesting each module under the one above it", async () => {
+        const { view } = makeView();
+
+        expect(await childrenOf(view)).toEqual([PROJECT]);
+        expect(await childrenOf(view, moduleNode(PROJECT))).toEqual([`${PROJECT}/Gadgets`]);
+    });
+
+    it("lists a module's submodules, then what it declares by name", async () => {
+        const { view } = makeView();
+
+        expect(await childrenOf(view, moduleNode(`${PROJECT}/Gadgets`))).toEqual([`${PROJECT}/Gadgets/Internal`, `${PROJECT}/Gadgets/Shared`, "alarm_device", "trap_device"]);
+    });
+
+    it("offers Make Module Public only below the top level, on a module that is not public", () => {
+        const { view } = makeView();
+
+        expect(view.getTreeItem(moduleNode(`${PROJECT}/Gadgets/Internal`)).contextValue).toBe("projectModuleInternal");
+        expect(view.getTreeItem(moduleNode(`${PROJECT}/Gadgets/Shared`)).contextValue).toBe("projectModule");
+        expect(view.getTreeItem(moduleNode(`${PROJECT}/Gadgets`)).contextValue).toBe("projectModule");
+        expect(view.getTreeItem(moduleNode(`${PROJECT}/Gadgets`)).description).toBe("internal");
+    });
+
+    it("opens a declaration at its line", () => {
+        const { view } = makeView();
+
+        const item = view.getTreeItem({ kind: "declaration", declaration: node("trap_device", "class", "Content/Gadgets/trap.verse"), modulePath: `${PROJECT}/Gadgets` });
+
+        expect(item.description).toBe("class, public");
+        expect(item.command?.command).toBe("vscode.open");
+        expect((item.command?.arguments?.[0] as vscode.Uri).fsPath).toBe(vscode.Uri.joinPath(vscode.Uri.file("C:/Project"), "Content/Gadgets/trap.verse").fsPath);
+        expect((item.command?.arguments?.[1] as { selection: vscode.Range }).selection.start.line).toBe(3);
+    });
+
+    it("lists the modules again after the cache changes", async () => {
+        const { view, cache } = makeView();
+        const fired = jest.fn();
+        view.onDidChangeTreeData(fired);
+
+        await view.getChildren();
+        await view.getChildren(moduleNode(PROJECT));
+        cache.fireChange();
+        await view.getChildren();
+
+        expect(fired).toHaveBeenCalledTimes(1);
+        expect(cache.listProjectModules).toHaveBeenCalledTimes(2);
+    });
+
+    it("shows nothing without a cache", async () => {
+        expect(await new ProjectModuleExplorerView(undefined).getChildren()).toEqual([]);
+    });
+});
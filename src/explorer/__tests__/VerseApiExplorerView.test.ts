@@ -0,0 +1,103 @@
+import * as vscode from "vscode";
+import { VerseApiExplorerNode, VerseApiExplorerView } from "../VerseApiExplorerView";
+import { ImportHandler } from "../../imports";
+import { ImportableIdentifier } from "../../types";
+
+const declaration = (identifier: string, modulePath: string, type = "class", marks: Partial<ImportableIdentifier> = {}): ImportableIdentifier => ({
+    identifier,
+    modulePath,
+    type,
+    source: "digest_lookup",
+    ...marks,
+});
+
+const MODULES = new Map<string, ImportableIdentifier[]>([
+    ["/Fortnite.com/Devices", [declaration("trigger_device", "/Fortnite.com/Devices"), declaration("button_device", "/Fortnite.com/Devices")]],
+    ["/Fortnite.com/Devices/CreativeAnimation", [declaration("animation_controller", "/Fortnite.com/Devices/CreativeAnimation")]],
+    ["/UnrealEngine.com/Temporary/SpatialMath", [declaration("vector3", "/UnrealEngine.com/Temporary/SpatialMath", "class", { deprecated: true })]],
+    ["/Verse.org/Simulation", [declaration("GetSimulationElapsedTime", "/Verse.org/Simulation", "function")]],
+]);
+
+function makeView(modules = MODULES): { view: VerseApiExplorerView; listDigestModules: jest.Mock } {
+    const listDigestModules = jest.fn().mockResolvedValue(modules);
+    return { view: new VerseApiExplorerView({ listDigestModules } as unknown as ImportHandler), listDigestModules };
+}
+
+const moduleNode = (path: string, declared = true): VerseApiExplorerNode => ({ kind: "module", path, declared });
+
+/** The labels of a node's children, modules as their paths. */
+async function childrenOf(view: VerseApiExplorerView, node?: VerseApiExplorerNode): Promise<string[]> {
+    return (await view.getChildren(node)).map((child) => (child.kind === "module" ? child.path : child.declaration.identifier));
+}
+
+describe("VerseApiExplorerView", () => {
+    it("nests the modules by path under their domains, adding the segments no digest declares", async () => {
+        const { view } = makeView();
+
+        expect(await childrenOf(view)).toEqual(["/Fortnite.com", "/UnrealEngine.com", "/Verse.org"]);
+        expect(await view.getChildren(moduleNode("/UnrealEngine.com", false))).toEqual([moduleNode("/UnrealEngine.com/Temporary", false)]);
+    });
+
+    it("lists a module's submodules, then the names it declares in order", async () => {
+        const { view } = makeView();
+
+        expect(await childrenOf(view, moduleNode("/Fortnite.com/Devices"))).toEqual(["/Fortnite.com/Devices/CreativeAnimation", "button_device", "trigger_device"]);
+    });
+
+    it("describes a name by its kind and any stability mark, and a path segment as not importable", () => {
+        const { view } = makeView();
+
+        const item = view.getTreeItem({ kind: "declaration", declaration: declaration("vector3", "/UnrealEngine.com/Temporary/SpatialMath", "class", { deprecated: true }) });
+
+        expect(item.description).toBe("class, deprecated");
+        expect(item.contextValue).toBe("verseApiDeclaration");
+        expect(view.getTreeItem(moduleNode("/UnrealEngine.com/Temporary", false)).contextValue).toBe("verseApiPath");
+    });
+
+    it("keeps only what matches the filter, and the modules above it", async () => {
+        const { view } = makeView();
+
+        view.setFilter("BUTTON");
+
+        expect(await childrenOf(view)).toEqual(["/Fortnite.com"]);
+        expect(await childrenOf(view, moduleNode("/Fortnite.com/Devices"))).toEqual(["button_device"]);
+        expect(vscode.commands.executeCommand).toHaveBeenCalledWith("setContext", VerseApiExplorerView.FILTERED_CONTEXT_KEY, true);
+    });
+
+    it("keeps every name of a module whose path matches the filter", async () => {
+        const { view } = makeView();
+
+        view.setFilter("simulation");
+
+        expect(await childrenOf(view)).toEqual(["/Verse.org"]);
+        expect(await childrenOf(view, moduleNode("/Verse.org/Simulation"))).toEqual(["GetSimulationElapsedTime"]);
+    });
+
+    it("names the filter in the view's title", () => {
+        const { view } = makeView();
+        const treeView = view.createTreeView();
+
+        view.setFilter("device");
+        expect(treeView.description).toBe("Filter: device");
+
+        view.setFilter("");
+        expect(treeView.description).toBeUndefined();
+    });
+
+    it("lists the digests once, and again after a refresh", async () => {
+        const { view, listDigestModules } = makeView();
+
+        await view.getChildren();
+        await view.getChildren(moduleNode("/Verse.org", false));
+        view.refresh();
+        await view.getChildren();
+
+        expect(listDigestModules).toHaveBeenCalledTimes(2);
+    });
+
+    it("imports a declared module itself, a name's module for a name, and nothing for a path segment", () => {
+        expect(VerseApiExplorerView.importableOf(moduleNode("/Verse.org/Simulation"))).toMatchObject({ identifier: "Simulation", modulePath: "/Verse.org/Simulation", type: "module" });
+        expect(VerseApiExplorerView.importableOf({ kind: "declaration", declaration: declaration("button_device", "/Fortnite.com/Devices") })?.modulePath).toBe("/Fortnite.com/Devices");
+        expect(VerseApiExplorerView.importableOf(moduleNode("/Verse.org", false))).toBeNull();
+    });
+});
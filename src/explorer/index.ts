@@ -0,0 +1,4 @@
+// From outside this module, take the views: activation creates them, and the
+// explorer commands act on their nodes.
+export { VerseApiExplorerView, VerseApiExplorerNode } from "./VerseApiExplorerView";
+export { ProjectModuleExplorerView, ProjectModuleExplorerNode } from "./ProjectModuleExplorerView";
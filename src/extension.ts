@@ -1,12 +1,40 @@
 import * as vscode from "vscode";
 import { logger, collectEnvironment, formatHostSummary, readSessionState, settingsFor, explicitSetting } from "./utils";
-import { DiagnosticsHandler } from "./diagnostics";
-import { ImportHandler, ImportPathConverter, ImportCodeActionProvider, ImportOrganizeCodeActionProvider, ImportCodeLensProvider, ImportFormatter } from "./imports";
+import {
+    DiagnosticsHandler,
+    DuplicateImportCodeActionProvider,
+    DuplicateImportDiagnostics,
+    RestrictedImportCodeActionProvider,
+    RestrictedImportDiagnostics,
+    ApiStabilityDiagnostics,
+    CircularImportDiagnostics,
+    UnusedImportDiagnostics,
+    UnusedImportCodeActionProvider,
+} from "./diagnostics";
+import {
+    ImportHandler,
+    ImportPathConverter,
+    ImportCodeActionProvider,
+    ImportOrganizeCodeActionProvider,
+    ImportAddMissingCodeActionProvider,
+    ImportCodeLensProvider,
+    ImportCompletionProvider,
+    ImportHoverProvider,
+    DigestDefinitionProvider,
+    ImportChoiceMemory,
+    ImportSuggestionRanker,
+    WorkspaceImportOptimizer,
+    SupersededModuleMigrator,
+    ModuleRenameRewriter,
+} from "./imports";
 import { CommandsHandler, CommandsDependencies } from "./commands";
 import { StatusBarHandler } from "./ui";
 import { ProjectPathHandler } from "./project";
-import { AssetsDigestParser, ProjectPathCache } from "./services";
+import { AssetsDigestParser, DigestComparer, DigestSourceProvider, InstalledDigestSource, ProjectPathCache } from "./services";
 import { ModuleVisibilityCodeActionProvider, ModuleVisibilityWriter } from "./visibility";
+import { AutoImportHistory, AutoImportHistoryView } from "./history";
+import { ProjectModuleExplorerView, VerseApiExplorerView } from "./explorer";
+import { ModuleGraphBuilder, ModuleGraphPanel } from "./graph";
 
 /**
  * The project path cache toggle, and the default the two reads of it must
@@ -74,12 +102,23 @@ export function activate(context: vscode.ExtensionContext) {
     // so it is stale from the moment it is stored.
     const projectPathCache = cacheEnabled ? new ProjectPathCache(context, outputChannel, projectPathHandler) : undefined;
 
-    const importHandler = new ImportHandler(outputChannel, assetsDigestParser, context);
+    const importHandler = new ImportHandler(outputChannel, assetsDigestParser, context, projectPathCache);
     const statusBarHandler = new StatusBarHandler(outputChannel);
-    const diagnosticsHandler = new DiagnosticsHandler(outputChannel, importHandler, () => statusBarHandler.isSnoozeActive());
+    const autoImportHistory = new AutoImportHistory(context.workspaceState, importHandler);
+    const importChoiceMemory = new ImportChoiceMemory(context.workspaceState);
+    const suggestionRanker = new ImportSuggestionRanker(importHandler);
+    const diagnosticsHandler = new DiagnosticsHandler(outputChannel, importHandler, () => statusBarHandler.isSnoozeActive(), autoImportHistory, importChoiceMemory, suggestionRanker);
+    const unusedImportDiagnostics = new UnusedImportDiagnostics(importHandler);
+    const restrictedImportDiagnostics = new RestrictedImportDiagnostics(importHandler);
+    const apiStabilityDiagnostics = new ApiStabilityDiagnostics(importHandler);
     const importPathConverter = new ImportPathConverter(outputChannel, projectPathCache);
+    const duplicateImportDiagnostics = new DuplicateImportDiagnostics(importPathConverter);
     const importCodeLensProvider = new ImportCodeLensProvider(outputChannel);
     const moduleVisibilityWriter = new ModuleVisibilityWriter(outputChannel, projectPathHandler);
+    const verseApiExplorerView = new VerseApiExplorerView(importHandler);
+    const moduleGraphBuilder = new ModuleGraphBuilder(importPathConverter, projectPathHandler);
+    const moduleGraphPanel = new ModuleGraphPanel();
+    const circularImportDiagnostics = new CircularImportDiagnostics(moduleGraphBuilder, projectPathCache);
 
     const commandsDeps: CommandsDependencies = {
         importHandler,
@@ -87,6 +126,14 @@ export function activate(context: vscode.ExtensionContext) {
         importPathConverter,
         importCodeLensProvider,
         moduleVisibilityWriter,
+        workspaceImportOptimizer: new WorkspaceImportOptimizer(importHandler),
+        supersededModuleMigrator: new SupersededModuleMigrator(importHandler),
+        digestComparer: new DigestComparer(context, new InstalledDigestSource(context, assetsDigestParser)),
+        verseApiExplorerView,
+        moduleGraphBuilder,
+        moduleGraphPanel,
+        autoImportHistory,
+        importChoiceMemory,
         projectPathCache,
     };
     const commandsHandler = new CommandsHandler(commandsDeps);
@@ -126,7 +173,7 @@ export function activate(context: vscode.ExtensionContext) {
     // of it: registerCodeLensProvider disposes the registration only, leaving
     // the provider's own listeners and hide timers live after deactivation.
     context.subscriptions.push(
-        vscode.languages.registerCodeActionsProvider({ language: "verse" }, new ImportCodeActionProvider(outputChannel, importHandler), {
+        vscode.languages.registerCodeActionsProvider({ language: "verse" }, new ImportCodeActionProvider(outputChannel, importHandler, importChoiceMemory, suggestionRanker), {
             providedCodeActionKinds: ImportCodeActionProvider.providedCodeActionKinds,
         }),
         vscode.languages.registerCodeActionsProvider({ language: "verse" }, new ModuleVisibilityCodeActionProvider(), {
@@ -138,49 +185,52 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.languages.registerCodeActionsProvider({ language: "verse" }, new ImportOrganizeCodeActionProvider(), {
             providedCodeActionKinds: ImportOrganizeCodeActionProvider.providedCodeActionKinds,
         }),
+        vscode.languages.registerCodeActionsProvider({ language: "verse" }, new ImportAddMissingCodeActionProvider(importHandler, importChoiceMemory), {
+            providedCodeActionKinds: ImportAddMissingCodeActionProvider.providedCodeActionKinds,
+        }),
+        vscode.languages.registerCodeActionsProvider({ language: "verse" }, new UnusedImportCodeActionProvider(unusedImportDiagnostics), {
+            providedCodeActionKinds: UnusedImportCodeActionProvider.providedCodeActionKinds,
+        }),
+        vscode.languages.registerCodeActionsProvider({ language: "verse" }, new DuplicateImportCodeActionProvider(duplicateImportDiagnostics), {
+            providedCodeActionKinds: DuplicateImportCodeActionProvider.providedCodeActionKinds,
+        }),
+        vscode.languages.registerCodeActionsProvider({ language: "verse" }, new RestrictedImportCodeActionProvider(restrictedImportDiagnostics), {
+            providedCodeActionKinds: RestrictedImportCodeActionProvider.providedCodeActionKinds,
+        }),
         vscode.languages.registerCodeLensProvider({ language: "verse" }, importCodeLensProvider),
         importCodeLensProvider,
+        vscode.languages.registerCompletionItemProvider({ language: "verse" }, new ImportCompletionProvider(importHandler)),
+        vscode.languages.registerHoverProvider({ language: "verse" }, new ImportHoverProvider(importHandler, importCodeLensProvider)),
+        vscode.languages.registerDefinitionProvider({ language: "verse" }, new DigestDefinitionProvider(importHandler)),
+        vscode.workspace.registerTextDocumentContentProvider(DigestSourceProvider.SCHEME, new DigestSourceProvider(context)),
     );
 
     // Cancels any armed debounce timer on deactivation, so a pending
     // auto-import cannot edit a document after the extension is torn down.
     context.subscriptions.push(diagnosticsHandler);
+    context.subscriptions.push(unusedImportDiagnostics);
+    context.subscriptions.push(duplicateImportDiagnostics);
+    context.subscriptions.push(restrictedImportDiagnostics);
+    context.subscriptions.push(apiStabilityDiagnostics);
+    context.subscriptions.push(circularImportDiagnostics);
+
+    // The view is pushed alongside its registration for the same reason as the
+    // CodeLens provider: the registration does not dispose its listener.
+    const autoImportHistoryView = new AutoImportHistoryView(autoImportHistory);
+    context.subscriptions.push(vscode.window.registerTreeDataProvider(AutoImportHistoryView.VIEW_ID, autoImportHistoryView), autoImportHistoryView, autoImportHistory);
+    context.subscriptions.push(verseApiExplorerView.createTreeView(), verseApiExplorerView);
+    const projectModuleExplorerView = new ProjectModuleExplorerView(projectPathCache);
+    context.subscriptions.push(vscode.window.registerTreeDataProvider(ProjectModuleExplorerView.VIEW_ID, projectModuleExplorerView), projectModuleExplorerView);
+    context.subscriptions.push(moduleGraphPanel);
 
     context.subscriptions.push(projectPathHandler.setupFileWatcher());
     context.subscriptions.push(assetsDigestParser.setupFileWatcher());
     if (projectPathCache) {
-        context.subscriptions.push(projectPathCache.setupFileWatchers());
+        context.subscriptions.push(projectPathCache.setupFileWatchers(), projectPathCache);
     }
 
     commandsHandler.registerAll(context);
 
-    // The hover provider exists only to drive CodeLens visibility: it always
-    // returns null, and its work is the setHoverState call.
-    context.subscriptions.push(
-        vscode.languages.registerHoverProvider(
-            { language: "verse" },
-            {
-                provideHover(document, position) {
-                    const config = settingsFor(document.uri);
-                    if (!config.get<boolean>("pathConversion.enableCodeLens", true)) {
-                        return null;
-                    }
-
-                    const line = document.lineAt(position.line);
-                    const text = line.text.trim();
-                    const nextLineText = position.line + 1 < document.lineCount ? document.lineAt(position.line + 1).text : undefined;
-
-                    if (ImportFormatter.isModuleImport(text, nextLineText)) {
-                        importCodeLensProvider.setHoverState(document.uri.toString(), true, position.line);
-                    } else {
-                        importCodeLensProvider.setHoverState(document.uri.toString(), false);
-                    }
-                    return null;
-                },
-            },
-        ),
-    );
-
     // Disposal is what removes the handler's own configuration listener, which
     // would otherwise outlive the extension; it also stops the snooze countdown
     // and disposes the status bar item.
@@ -197,6 +247,18 @@ export function activate(context: vscode.ExtensionContext) {
         }),
     );
 
+    // The digest index is loaded once, on first use; a change of where it is
+    // read from takes effect on the next lookup after it is dropped.
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration("verseAutoImports.experimental.useInstalledDigests") || event.affectsConfiguration("verseAutoImports.experimental.installedDigestFolder")) {
+                importHandler.reloadDigests();
+                verseApiExplorerView.refresh();
+                logger.info("Extension", "Digest source settings changed; the digests will be read again");
+            }
+        }),
+    );
+
     // The cache is constructed once at activation, so toggling the setting
     // cannot take effect until the window reloads - say so rather than leaving
     // the user with a setting that silently does nothing.
@@ -242,6 +304,29 @@ export function activate(context: vscode.ExtensionContext) {
         }),
     );
 
+    // An undo right after an automatic import is the user turning that import
+    // down; the memory tells which undo that is.
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeTextDocument((event) => {
+            if (event.reason !== vscode.TextDocumentChangeReason.Undo || event.document.languageId !== "verse") {
+                return;
+            }
+            importChoiceMemory.handleUndo(event.document).catch((error) => {
+                logger.error("Extension", "Error recording an undone auto-import", error);
+            });
+        }),
+    );
+
+    // A renamed folder is a renamed module; the rewriter offers to follow it.
+    const moduleRenameRewriter = new ModuleRenameRewriter(projectPathHandler);
+    context.subscriptions.push(
+        vscode.workspace.onDidRenameFiles((event) => {
+            moduleRenameRewriter.handleRename(event).catch((error) => {
+                logger.error("Extension", "Error following a module rename", error);
+            });
+        }),
+    );
+
     context.subscriptions.push(
         vscode.languages.onDidChangeDiagnostics(async (e) => {
             // Read once per event, and snapshot what the user has on screen only
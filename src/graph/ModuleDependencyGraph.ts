@@ -0,0 +1,171 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { logger } from "../utils";
+import { ImportPathConverter } from "../imports";
+import { LINE_SPLIT, scanModuleImports } from "../imports/ImportScanner";
+import { ProjectPathHandler } from "../project";
+
+/** One `using` in a file, with the absolute paths it was resolved to. */
+export interface GraphImport {
+    /** The path as written, relative or absolute. */
+    path: string;
+    /** 1-based, as the reports print it. */
+    line: number;
+    /**
+     * Every module the import may name: one where it resolved, none where
+     * nothing was found, several where the search could not tell them apart.
+     * Only an import with exactly one counts as an edge.
+     */
+    resolved: string[];
+}
+
+/** A file's own module and the modules its imports name. */
+export interface FileDependencies {
+    /** Relative to its workspace folder, forward-slashed. */
+    file: string;
+    /** The module its top level sits in, or null for a file outside the Content root. */
+    module: string | null;
+    imports: GraphImport[];
+}
+
+export interface GraphModule {
+    path: string;
+    /** Outside the project: a Verse.org, Fortnite.com or UnrealEngine.com module, or another project's. */
+    external: boolean;
+    /** The files whose top level sits in it. */
+    files: string[];
+}
+
+/** A module importing another: some file at the top level of `from` has a `using` of `to`. */
+export interface ModuleDependency {
+    from: string;
+    to: string;
+    /** The files that import it, sorted. */
+    files: string[];
+}
+
+/**
+ * The project's `using` statements as a graph, file to module and module to
+ * module, each list sorted by path. Plain data, so the JSON export is the
+ * graph itself.
+ */
+export interface ModuleDependencyGraph {
+    /** The project's Verse path, or null where no `.uefnproject` was found. */
+    projectPath: string | null;
+    modules: GraphModule[];
+    files: FileDependencies[];
+    dependencies: ModuleDependency[];
+    /** False when the scan was cancelled, so the graph covers only the files read before it stopped. */
+    complete: boolean;
+}
+
+/**
+ * Derives the module graph from the files' resolved imports: the modules are
+ * those a file sits in or imports, and the edges run from a file's module to
+ * each module it names unambiguously. A module importing itself - a file
+ * naming the folder it sits in - is no dependency and is left out.
+ */
+export function assembleModuleGraph(projectPath: string | null, files: FileDependencies[], complete = true): ModuleDependencyGraph {
+    const modules = new Map<string, Set<string>>();
+    const edges = new Map<string, ModuleDependency>();
+    const moduleFor = (modulePath: string): Set<string> => {
+        let moduleFiles = modules.get(modulePath);
+        if (!moduleFiles) {
+            moduleFiles = new Set<string>();
+            modules.set(modulePath, moduleFiles);
+        }
+        return moduleFiles;
+    };
+
+    for (const { file, module: from, imports } of files) {
+        if (from) {
+            moduleFor(from).add(file);
+        }
+        for (const { resolved } of imports) {
+            if (resolved.length !== 1) {
+                continue;
+            }
+            const [to] = resolved;
+            moduleFor(to);
+            if (!from || from === to) {
+                continue;
+            }
+            const key = `${from}\0${to}`;
+            const edge = edges.get(key) ?? { from, to, files: [] };
+            if (!edge.files.includes(file)) {
+                edge.files.push(file);
+            }
+            edges.set(key, edge);
+        }
+    }
+
+    const inProject = (modulePath: string): boolean => projectPath !== null && (modulePath === projectPath || modulePath.startsWith(`${projectPath}/`));
+    return {
+        projectPath,
+        modules: [...modules].map(([modulePath, moduleFiles]) => ({ path: modulePath, external: !inProject(modulePath), files: [...moduleFiles].sort() })).sort((a, b) => a.path.localeCompare(b.path)),
+        files: [...files].sort((a, b) => a.file.localeCompare(b.file)),
+        dependencies: [...edges.values()].map((edge) => ({ ...edge, files: edge.files.sort() })).sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to)),
+        complete,
+    };
+}
+
+/**
+ * Reads the `using` statements of a list of files and resolves each to the
+ * absolute module it names, through ImportPathConverter's search - the
+ * project path cache where there is one, the workspace otherwise.
+ *
+ * A relative import resolves against the folder it is written in, so each
+ * answer is kept per folder and path: a project importing one module from
+ * fifty files in a folder searches for it once.
+ */
+export class ModuleGraphBuilder {
+    constructor(
+        private importPathConverter: ImportPathConverter,
+        private projectPathHandler: ProjectPathHandler,
+    ) {}
+
+    async build(uris: readonly vscode.Uri[], progress?: vscode.Progress<{ message?: string; increment?: number }>, token?: vscode.CancellationToken): Promise<ModuleDependencyGraph> {
+        const files: FileDependencies[] = [];
+        const resolutions = new Map<string, Promise<string[]>>();
+        let complete = true;
+
+        for (const uri of uris) {
+            if (token?.isCancellationRequested) {
+                complete = false;
+                logger.info("ModuleGraphBuilder", `Cancelled after ${files.length} of ${uris.length} file(s)`);
+                break;
+            }
+
+            const file = vscode.workspace.asRelativePath(uri, false);
+            progress?.report({ message: file, increment: 100 / uris.length });
+
+            const content = await vscode.workspace.fs.readFile(uri).then(
+                (buffer) => Buffer.from(buffer).toString("utf8"),
+                (error) => {
+                    logger.warn("ModuleGraphBuilder", `Could not read ${uri.fsPath}: ${error}`);
+                    return null;
+                },
+            );
+            if (content === null) {
+                continue;
+            }
+
+            const imports: GraphImport[] = [];
+            for (const scanned of scanModuleImports(content.split(LINE_SPLIT))) {
+                const key = `${path.dirname(uri.fsPath)}\0${scanned.path}`;
+                let resolved = resolutions.get(key);
+                if (!resolved) {
+                    resolved = this.importPathConverter.resolveModulePaths(scanned.path, uri);
+                    resolutions.set(key, resolved);
+                }
+                imports.push({ path: scanned.path, line: scanned.startLine + 1, resolved: await resolved });
+            }
+            files.push({ file, module: await this.importPathConverter.fileModulePath(uri), imports });
+        }
+
+        const projectPath = uris.length > 0 ? await this.projectPathHandler.getProjectVersePath(uris[0]) : null;
+        const graph = assembleModuleGraph(projectPath, files, complete);
+        logger.info("ModuleGraphBuilder", `Read ${files.length} file(s): ${graph.modules.length} module(s), ${graph.dependencies.length} dependencies`);
+        return graph;
+    }
+}
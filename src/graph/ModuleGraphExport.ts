@@ -0,0 +1,123 @@
+import { ModuleDependencyGraph } from "./ModuleDependencyGraph";
+
+export type ModuleGraphFormat = "mermaid" | "dot" | "json";
+
+/** Whether a diagram draws module to module, or each file to the modules it imports. */
+export type ModuleGraphDetail = "modules" | "files";
+
+/** What each format is called in a save dialog, and the extension it is saved with. */
+export const MODULE_GRAPH_FORMATS: Record<ModuleGraphFormat, { name: string; extension: string }> = {
+    mermaid: { name: "Mermaid", extension: "mmd" },
+    dot: { name: "Graphviz DOT", extension: "dot" },
+    json: { name: "JSON", extension: "json" },
+};
+
+/**
+ * How a module is labelled in a diagram: a project module by its path below
+ * the project, which is what the project's own relative imports call it, and
+ * the project's root module and anything outside the project in full.
+ */
+export function moduleGraphLabel(graph: ModuleDependencyGraph, modulePath: string): string {
+    const { projectPath } = graph;
+    return projectPath && modulePath.startsWith(`${projectPath}/`) ? modulePath.slice(projectPath.length + 1) : modulePath;
+}
+
+/** A node per module and per file, and the edges between them, as both diagram formats draw them. */
+interface DiagramParts {
+    nodes: Array<{ id: string; label: string; external: boolean }>;
+    edges: Array<{ from: string; to: string }>;
+}
+
+/**
+ * The nodes and edges of a diagram, with ids that are safe in either format:
+ * `m` and `f` and a counter, since a Verse path holds `/`, `@` and `.` and
+ * Mermaid takes none of them in an id.
+ */
+function diagramParts(graph: ModuleDependencyGraph, detail: ModuleGraphDetail): DiagramParts {
+    const moduleIds = new Map(graph.modules.map((graphModule, index) => [graphModule.path, `m${index}`]));
+    const nodes: DiagramParts["nodes"] = [];
+    const edges: DiagramParts["edges"] = [];
+
+    if (detail === "modules") {
+        const connected = new Set(graph.dependencies.flatMap((edge) => [edge.from, edge.to]));
+        for (const graphModule of graph.modules) {
+            // A module nothing imports and that imports nothing is still a
+            // node when it is the project's, since it is part of the layout
+            // being documented; an outside module shows only where it is used.
+            if (connected.has(graphModule.path) || !graphModule.external) {
+                nodes.push({ id: moduleIds.get(graphModule.path)!, label: moduleGraphLabel(graph, graphModule.path), external: graphModule.external });
+            }
+        }
+        edges.push(...graph.dependencies.map((edge) => ({ from: moduleIds.get(edge.from)!, to: moduleIds.get(edge.to)! })));
+        return { nodes, edges };
+    }
+
+    const imported = new Set<string>();
+    graph.files.forEach((file, index) => {
+        nodes.push({ id: `f${index}`, label: file.file, external: false });
+        for (const target of new Set(file.imports.filter((imp) => imp.resolved.length === 1).map((imp) => imp.resolved[0]))) {
+            imported.add(target);
+            edges.push({ from: `f${index}`, to: moduleIds.get(target)! });
+        }
+    });
+    for (const graphModule of graph.modules.filter((candidate) => imported.has(candidate.path))) {
+        nodes.push({ id: moduleIds.get(graphModule.path)!, label: moduleGraphLabel(graph, graphModule.path), external: graphModule.external });
+    }
+    return { nodes, edges };
+}
+
+/** A Mermaid flowchart, outside modules dashed. */
+export function formatMermaidGraph(graph: ModuleDependencyGraph, detail: ModuleGraphDetail): string {
+    const { nodes, edges } = diagramParts(graph, detail);
+    // Mermaid reads `"` as the end of the label, and has its own entity for it.
+    const label = (text: string): string => `"${text.replace(/"/g, "#quot;")}"`;
+
+    const lines = ["flowchart LR"];
+    lines.push(...nodes.map((node) => `    ${node.id}[${label(node.label)}]${node.external ? ":::external" : ""}`));
+    lines.push(...edges.map((edge) => `    ${edge.from} --> ${edge.to}`));
+    if (nodes.some((node) => node.external)) {
+        lines.push("    classDef external stroke-dasharray: 4 4");
+    }
+    return lines.join("\n") + "\n";
+}
+
+/** A Graphviz digraph, outside modules dashed and files drawn as notes. */
+export function formatDotGraph(graph: ModuleDependencyGraph, detail: ModuleGraphDetail): string {
+    const { nodes, edges } = diagramParts(graph, detail);
+    const quote = (text: string): string => `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+    const lines = ["digraph modules {", "    rankdir=LR;", "    node [shape=box];"];
+    for (const node of nodes) {
+        const attributes = [`label=${quote(node.label)}`];
+        if (node.external) {
+            attributes.push("style=dashed");
+        }
+        if (node.id.startsWith("f")) {
+            attributes.push("shape=note");
+        }
+        lines.push(`    ${node.id} [${attributes.join(", ")}];`);
+    }
+    lines.push(...edges.map((edge) => `    ${edge.from} -> ${edge.to};`));
+    lines.push("}");
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * The graph in the format asked for. JSON carries the whole graph - every
+ * file, import and resolution - whatever the detail, being meant for scripts
+ * rather than for drawing.
+ */
+export function formatModuleGraph(graph: ModuleDependencyGraph, format: ModuleGraphFormat, detail: ModuleGraphDetail = "modules"): string {
+    switch (format) {
+        case "mermaid":
+            return formatMermaidGraph(graph, detail);
+        case "dot":
+            return formatDotGraph(graph, detail);
+        case "json":
+            return JSON.stringify(graph, null, 2) + "\n";
+        default: {
+            const exhaustive: never = format;
+            return exhaustive;
+        }
+    }
+}
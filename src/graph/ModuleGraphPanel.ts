@@ -0,0 +1,307 @@
+import * as vscode from "vscode";
+import { randomBytes } from "crypto";
+import { logger } from "../utils";
+import { ModuleDependencyGraph } from "./ModuleDependencyGraph";
+import { MODULE_GRAPH_FORMATS, ModuleGraphDetail, ModuleGraphFormat, moduleGraphLabel } from "./ModuleGraphExport";
+
+/** A message the panel's export buttons post. */
+interface ExportMessage {
+    type: "export";
+    format: ModuleGraphFormat;
+    detail: ModuleGraphDetail;
+}
+
+const DETAILS: readonly ModuleGraphDetail[] = ["modules", "files"];
+
+/** A box to draw, in the column the layout gave it. */
+interface DrawnNode {
+    key: string;
+    label: string;
+    /** The hover text, giving what the label shortened. */
+    title: string;
+    external: boolean;
+    file: boolean;
+    column: number;
+}
+
+/** An arrow between two drawn boxes, by their keys. */
+interface DrawnEdge {
+    from: string;
+    to: string;
+    title: string;
+    /** Closes a cycle, and is drawn apart from the rest. */
+    back: boolean;
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 28;
+const COLUMN_GAP = 90;
+const ROW_GAP = 14;
+const MARGIN = 20;
+/** Longer labels keep their end, which is the part that tells siblings apart. */
+const LABEL_LIMIT = 26;
+
+/**
+ * Shows the module dependency graph in a webview: the modules drawn in
+ * columns, each importer to the left of what it imports, or each file to the
+ * left of the modules it imports, with the imports nothing could resolve
+ * listed beneath. Buttons export what is shown through the export command, so
+ * the panel and the palette write the same files.
+ *
+ * The drawing is SVG built here rather than by a diagram library in the page,
+ * which keeps the page free of anything fetched and its script down to the
+ * buttons.
+ *
+ * One panel at a time: showing another graph replaces the one on screen.
+ */
+export class ModuleGraphPanel implements vscode.Disposable {
+    static readonly VIEW_TYPE = "verseAutoImports.moduleGraph";
+
+    private panel: vscode.WebviewPanel | null = null;
+    private graph: ModuleDependencyGraph | null = null;
+
+    show(graph: ModuleDependencyGraph): void {
+        this.graph = graph;
+        if (this.panel) {
+            this.panel.reveal();
+        } else {
+            this.panel = vscode.window.createWebviewPanel(ModuleGraphPanel.VIEW_TYPE, "Module Dependencies", vscode.ViewColumn.Active, { enableScripts: true });
+            this.panel.onDidDispose(() => {
+                this.panel = null;
+            });
+            this.panel.webview.onDidReceiveMessage((message: unknown) => this.onMessage(message));
+        }
+        this.panel.webview.html = renderModuleGraphHtml(graph, randomBytes(16).toString("hex"), this.panel.webview.cspSource);
+    }
+
+    dispose(): void {
+        this.panel?.dispose();
+    }
+
+    private onMessage(message: unknown): void {
+        const exported = message as Partial<ExportMessage>;
+        if (exported?.type !== "export" || !this.graph) {
+            return;
+        }
+        // The page is ours, but what it posts is still only checked here.
+        if (!Object.keys(MODULE_GRAPH_FORMATS).includes(exported.format as string) || !DETAILS.includes(exported.detail as ModuleGraphDetail)) {
+            logger.warn("ModuleGraphPanel", `Ignoring an export as ${String(exported.format)}, ${String(exported.detail)}`);
+            return;
+        }
+        vscode.commands.executeCommand("verseAutoImports.exportModuleGraph", this.graph, exported.format, exported.detail).then(undefined, (error) => {
+            logger.error("ModuleGraphPanel", "Failed to export the module graph", error);
+        });
+    }
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * The column of each module drawn: a module importing nothing drawn sits in
+ * the last column, and each importer one column left of the deepest module it
+ * imports. An edge closing a cycle is not followed, so a cycle still lays out
+ * and its closing edge is the one that points back.
+ */
+function moduleColumns(nodes: string[], dependencies: ModuleDependencyGraph["dependencies"]): Map<string, number> {
+    const imports = new Map<string, string[]>();
+    for (const { from, to } of dependencies) {
+        imports.set(from, [...(imports.get(from) ?? []), to]);
+    }
+
+    const depths = new Map<string, number>();
+    const onPath = new Set<string>();
+    const depthOf = (modulePath: string): number => {
+        const known = depths.get(modulePath);
+        if (known !== undefined) {
+            return known;
+        }
+        onPath.add(modulePath);
+        let depth = 0;
+        for (const target of imports.get(modulePath) ?? []) {
+            if (!onPath.has(target)) {
+                depth = Math.max(depth, depthOf(target) + 1);
+            }
+        }
+        onPath.delete(modulePath);
+        depths.set(modulePath, depth);
+        return depth;
+    };
+
+    const deepest = Math.max(0, ...nodes.map(depthOf));
+    return new Map(nodes.map((modulePath) => [modulePath, deepest - depthOf(modulePath)]));
+}
+
+/** The modules and the imports between them, each importer left of what it imports. */
+function moduleDrawing(graph: ModuleDependencyGraph): { nodes: DrawnNode[]; edges: DrawnEdge[] } {
+    const connected = new Set(graph.dependencies.flatMap((edge) => [edge.from, edge.to]));
+    const drawn = graph.modules.filter((graphModule) => connected.has(graphModule.path) || !graphModule.external);
+    const columns = moduleColumns(
+        drawn.map((graphModule) => graphModule.path),
+        graph.dependencies,
+    );
+
+    const nodes = drawn.map((graphModule) => ({
+        key: graphModule.path,
+        label: moduleGraphLabel(graph, graphModule.path),
+        title: [graphModule.path, ...graphModule.files].join("\n"),
+        external: graphModule.external,
+        file: false,
+        column: columns.get(graphModule.path)!,
+    }));
+    const edges = graph.dependencies.map(({ from, to, files }) => ({
+        from,
+        to,
+        title: `${moduleGraphLabel(graph, from)} → ${moduleGraphLabel(graph, to)}\n${files.join("\n")}`,
+        // An edge that does not run rightward closes a cycle: the layout put
+        // every other import to the right of its importer.
+        back: columns.get(to)! <= columns.get(from)!,
+    }));
+    return { nodes, edges };
+}
+
+/** Each file and the modules its resolved imports name, the files in the first column. */
+function fileDrawing(graph: ModuleDependencyGraph): { nodes: DrawnNode[]; edges: DrawnEdge[] } {
+    // Keyed apart from the modules, since a file and a module can share a label.
+    const fileKey = (file: string): string => `file:${file}`;
+    const nodes: DrawnNode[] = [];
+    const edges: DrawnEdge[] = [];
+    const imported = new Set<string>();
+
+    for (const { file, module, imports } of graph.files) {
+        nodes.push({ key: fileKey(file), label: file, title: module ? `${file}\n${module}` : file, external: false, file: true, column: 0 });
+        for (const imp of imports.filter((candidate) => candidate.resolved.length === 1)) {
+            const to = imp.resolved[0];
+            if (!edges.some((edge) => edge.from === fileKey(file) && edge.to === to)) {
+                edges.push({ from: fileKey(file), to, title: `${file}:${imp.line} → ${moduleGraphLabel(graph, to)}`, back: false });
+            }
+            imported.add(to);
+        }
+    }
+    for (const graphModule of graph.modules.filter((candidate) => imported.has(candidate.path))) {
+        nodes.push({ key: graphModule.path, label: moduleGraphLabel(graph, graphModule.path), title: graphModule.path, external: graphModule.external, file: false, column: 1 });
+    }
+    return { nodes, edges };
+}
+
+/**
+ * A drawing as SVG, with a title on every node and edge giving what was
+ * shortened. `id` keeps each drawing's arrowhead its own: a page holds one
+ * drawing per detail, and the hidden one's marker would draw nothing.
+ */
+function renderGraphSvg(id: string, { nodes, edges }: { nodes: DrawnNode[]; edges: DrawnEdge[] }, empty: string): string {
+    if (nodes.length === 0) {
+        return `<p>${empty}</p>`;
+    }
+
+    const positions = new Map<string, { x: number; y: number }>();
+    const rows = new Map<number, number>();
+    for (const node of nodes) {
+        const row = rows.get(node.column) ?? 0;
+        rows.set(node.column, row + 1);
+        positions.set(node.key, { x: MARGIN + node.column * (NODE_WIDTH + COLUMN_GAP), y: MARGIN + row * (NODE_HEIGHT + ROW_GAP) });
+    }
+
+    const width = MARGIN * 2 + (Math.max(...nodes.map((node) => node.column)) + 1) * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+    const height = MARGIN * 2 + Math.max(...rows.values()) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+    const marker = `arrow-${id}`;
+
+    const paths = edges.map(({ from, to, title, back }) => {
+        const start = positions.get(from)!;
+        const end = positions.get(to)!;
+        const x1 = start.x + NODE_WIDTH;
+        const y1 = start.y + NODE_HEIGHT / 2;
+        const x2 = end.x;
+        const y2 = end.y + NODE_HEIGHT / 2;
+        const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+        return `<path class="edge${back ? " back" : ""}" d="M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}" marker-end="url(#${marker})"><title>${escapeHtml(title)}</title></path>`;
+    });
+
+    const boxes = nodes.map((node) => {
+        const { x, y } = positions.get(node.key)!;
+        const shown = node.label.length > LABEL_LIMIT ? `…${node.label.slice(-(LABEL_LIMIT - 1))}` : node.label;
+        return (
+            `<g class="node${node.external ? " external" : ""}${node.file ? " file" : ""}"><title>${escapeHtml(node.title)}</title>` +
+            `<rect x="${x}" y="${y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="4"/>` +
+            `<text x="${x + 8}" y="${y + NODE_HEIGHT / 2}">${escapeHtml(shown)}</text></g>`
+        );
+    });
+
+    return (
+        `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+        `<defs><marker id="${marker}" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z"/></marker></defs>` +
+        paths.join("") +
+        boxes.join("") +
+        `</svg>`
+    );
+}
+
+/** The imports with no single module to draw an edge to. */
+function renderUnresolved(graph: ModuleDependencyGraph): string {
+    const unresolved = graph.files.flatMap(({ file, imports }) =>
+        imports
+            .filter((imp) => imp.resolved.length !== 1)
+            .map((imp) => `<li><code>${escapeHtml(imp.path)}</code> in ${escapeHtml(file)}:${imp.line} - ${imp.resolved.length === 0 ? "not found" : `${imp.resolved.length} candidates`}</li>`),
+    );
+    return unresolved.length === 0 ? "" : `<h2>Unresolved imports (${unresolved.length})</h2><ul>${unresolved.join("")}</ul>`;
+}
+
+/**
+ * The panel's page. Its content security policy admits only the inline
+ * styles and the one script carrying `nonce`.
+ */
+export function renderModuleGraphHtml(graph: ModuleDependencyGraph, nonce: string, cspSource: string): string {
+    const summary =
+        `${graph.files.length} file(s), ${graph.modules.length} module(s), ${graph.dependencies.length} dependencies` +
+        (graph.projectPath ? ` in <code>${escapeHtml(graph.projectPath)}</code>` : "") +
+        (graph.complete ? "" : ". Cancelled before every file was read, so this is part of the project.");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<title>Module Dependencies</title>
+<style>
+body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+.toolbar { display: flex; gap: 8px; align-items: center; margin-bottom: 12px; }
+button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 10px; cursor: pointer; }
+button:hover { background: var(--vscode-button-hoverBackground); }
+.graph { overflow: auto; }
+.node rect { fill: var(--vscode-editor-background); stroke: var(--vscode-focusBorder); }
+.node.external rect { stroke: var(--vscode-descriptionForeground); stroke-dasharray: 4 3; }
+.node.file rect { stroke: var(--vscode-descriptionForeground); }
+.node text { fill: var(--vscode-foreground); font-size: 12px; dominant-baseline: middle; }
+.edge { fill: none; stroke: var(--vscode-descriptionForeground); stroke-width: 1.2; }
+.edge.back { stroke: var(--vscode-editorWarning-foreground); stroke-width: 2; }
+marker path { fill: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+<p>${summary}</p>
+<div class="toolbar">
+<label>Draw <select id="detail"><option value="modules">module to module</option><option value="files">file to module</option></select></label>
+<button data-format="mermaid">Export Mermaid</button>
+<button data-format="dot">Export DOT</button>
+<button data-format="json">Export JSON</button>
+</div>
+<div class="graph" data-detail="modules">${renderGraphSvg("modules", moduleDrawing(graph), "No modules to draw.")}</div>
+<div class="graph" data-detail="files" hidden>${renderGraphSvg("files", fileDrawing(graph), "No files to draw.")}</div>
+${renderUnresolved(graph)}
+<script nonce="${nonce}">
+const vscode = acquireVsCodeApi();
+const detail = document.getElementById("detail");
+detail.addEventListener("change", () => {
+    for (const graph of document.querySelectorAll(".graph")) {
+        graph.hidden = graph.dataset.detail !== detail.value;
+    }
+});
+for (const button of document.querySelectorAll("button[data-format]")) {
+    button.addEventListener("click", () => vscode.postMessage({ type: "export", format: button.dataset.format, detail: detail.value }));
+}
+</script>
+</body>
+</html>
+`;
+}
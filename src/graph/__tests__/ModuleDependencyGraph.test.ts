@@ -0,0 +1,82 @@
+import * as vscode from "vscode";
+import { FileDependencies, ModuleGraphBuilder, assembleModuleGraph } from "../ModuleDependencyGraph";
+import { ImportPathConverter } from "../../imports";
+import { ProjectPathHandler } from "../../project";
+
+const PROJECT = "/acct@fortnite.com/MyGame";
+
+const file = (path: string, modulePath: string | null, ...imports: Array<[string, string[]]>): FileDependencies => ({
+    file: path,
+    module: modulePath,
+    imports: imports.map(([written, resolved], index) => ({ path: written, line: index + 1, resolved })),
+});
+
+describe("assembleModuleGraph", () => {
+    it("draws an edge from a file's module to each module it imports unambiguously", () => {
+        const graph = assembleModuleGraph(PROJECT, [
+            file("Content/Gadgets/trap.verse", `${PROJECT}/Gadgets`, ["Core", [`${PROJECT}/Core`]], ["Shared", [`${PROJECT}/A/Shared`, `${PROJECT}/B/Shared`]], ["Missing", []]),
+            file("Content/Gadgets/alarm.verse", `${PROJECT}/Gadgets`, ["/Verse.org/Simulation", ["/Verse.org/Simulation"]], ["Core", [`${PROJECT}/Core`]]),
+        ]);
+
+        expect(graph.dependencies).toEqual([
+            { from: `${PROJECT}/Gadgets`, to: `${PROJECT}/Core`, files: ["Content/Gadgets/alarm.verse", "Content/Gadgets/trap.verse"] },
+            { from: `${PROJECT}/Gadgets`, to: "/Verse.org/Simulation", files: ["Content/Gadgets/alarm.verse"] },
+        ]);
+    });
+
+    it("marks the modules outside the project, and lists the files each module holds", () => {
+        const graph = assembleModuleGraph(PROJECT, [file("Content/Gadgets/trap.verse", `${PROJECT}/Gadgets`, ["/Verse.org/Simulation", ["/Verse.org/Simulation"]])]);
+
+        expect(graph.modules).toEqual([
+            { path: `${PROJECT}/Gadgets`, external: false, files: ["Content/Gadgets/trap.verse"] },
+            { path: "/Verse.org/Simulation", external: true, files: [] },
+        ]);
+    });
+
+    it("leaves out a file importing the module it sits in", () => {
+        const graph = assembleModuleGraph(PROJECT, [file("Content/Gadgets/trap.verse", `${PROJECT}/Gadgets`, ["/acct@fortnite.com/MyGame/Gadgets", [`${PROJECT}/Gadgets`]])]);
+
+        expect(graph.dependencies).toEqual([]);
+    });
+});
+
+describe("ModuleGraphBuilder", () => {
+    const folder = "C:/Project/Content/Gadgets";
+
+    function makeBuilder(): { builder: ModuleGraphBuilder; resolveModulePaths: jest.Mock } {
+        const resolveModulePaths = jest.fn().mockImplementation(async (path: string) => (path.startsWith("/") ? [path] : [`${PROJECT}/${path}`]));
+        const converter = { resolveModulePaths, fileModulePath: jest.fn().mockResolvedValue(`${PROJECT}/Gadgets`) } as unknown as ImportPathConverter;
+        const projectPathHandler = { getProjectVersePath: jest.fn().mockResolvedValue(PROJECT) } as unknown as ProjectPathHandler;
+        return { builder: new ModuleGraphBuilder(converter, projectPathHandler), resolveModulePaths };
+    }
+
+    function readsAs(...contents: string[]): void {
+        for (const content of contents) {
+            (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValueOnce(Buffer.from(content));
+        }
+    }
+
+    it("resolves a relative import once per folder it is written in", async () => {
+        readsAs("using { Core }\nusing { /Verse.org/Simulation }\n", "using { Core }\n");
+        const { builder, resolveModulePaths } = makeBuilder();
+
+        const graph = await builder.build([vscode.Uri.file(`${folder}/trap.verse`), vscode.Uri.file(`${folder}/alarm.verse`)]);
+
+        expect(resolveModulePaths.mock.calls.filter(([path]) => path === "Core")).toHaveLength(1);
+        expect(graph.files.find((entry) => entry.file.endsWith("trap.verse"))?.imports).toEqual([
+            { path: "Core", line: 1, resolved: [`${PROJECT}/Core`] },
+            { path: "/Verse.org/Simulation", line: 2, resolved: ["/Verse.org/Simulation"] },
+        ]);
+        expect(graph.projectPath).toBe(PROJECT);
+    });
+
+    it("stops at cancellation and says the graph is partial", async () => {
+        readsAs("using { Core }\n");
+        const { builder } = makeBuilder();
+
+        const graph = await builder.build([vscode.Uri.file(`${folder}/trap.verse`)], undefined, { isCancellationRequested: true } as vscode.CancellationToken);
+
+        expect(graph.files).toEqual([]);
+        expect(graph.complete).toBe(false);
+    });
+});
@@ -0,0 +1,46 @@
+import { assembleModuleGraph } from "../ModuleDependencyGraph";
+import { formatModuleGraph } from "../ModuleGraphExport";
+
+const PROJECT = "/acct@fortnite.com/MyGame";
+
+const GRAPH = assembleModuleGraph(PROJECT, [
+    {
+        file: "Content/Gadgets/trap.verse",
+        module: `${PROJECT}/Gadgets`,
+        imports: [
+            { path: "Core", line: 1, resolved: [`${PROJECT}/Core`] },
+            { path: "/Verse.org/Simulation", line: 2, resolved: ["/Verse.org/Simulation"] },
+        ],
+    },
+    { file: "Content/Core/core.verse", module: `${PROJECT}/Core`, imports: [] },
+]);
+
+describe("formatModuleGraph", () => {
+    it("writes a Mermaid flowchart labelled below the project, outside modules dashed", () => {
+        expect(formatModuleGraph(GRAPH, "mermaid")).toBe(
+            [
+                "flowchart LR",
+                '    m0["Core"]',
+                '    m1["Gadgets"]',
+                '    m2["/Verse.org/Simulation"]:::external',
+                "    m1 --> m0",
+                "    m1 --> m2",
+                "    classDef external stroke-dasharray: 4 4",
+                "",
+            ].join("\n"),
+        );
+    });
+
+    it("writes a Graphviz digraph from each file to the modules it imports", () => {
+        const dot = formatModuleGraph(GRAPH, "dot", "files");
+
+        expect(dot).toContain('f1 [label="Content/Gadgets/trap.verse", shape=note];');
+        expect(dot).toContain("f1 -> m0;");
+        expect(dot).toContain('m2 [label="/Verse.org/Simulation", style=dashed];');
+        expect(dot).not.toContain("f0 ->");
+    });
+
+    it("writes the whole graph as JSON", () => {
+        expect(JSON.parse(formatModuleGraph(GRAPH, "json"))).toEqual(GRAPH);
+    });
+});
@@ -0,0 +1,76 @@
+import * as vscode from "vscode";
+import { assembleModuleGraph } from "../ModuleDependencyGraph";
+import { ModuleGraphPanel } from "../ModuleGraphPanel";
+
+const PROJECT = "/acct@fortnite.com/MyGame";
+
+/** Gadgets and Core importing each other, and an import nothing resolved. */
+const GRAPH = assembleModuleGraph(PROJECT, [
+    {
+        file: "Content/Gadgets/trap.verse",
+        module: `${PROJECT}/Gadgets`,
+        imports: [
+            { path: "Core", line: 1, resolved: [`${PROJECT}/Core`] },
+            { path: "Missing", line: 2, resolved: [] },
+        ],
+    },
+    { file: "Content/Core/core.verse", module: `${PROJECT}/Core`, imports: [{ path: "Gadgets", line: 1, resolved: [`${PROJECT}/Gadgets`] }] },
+]);
+
+type MockPanel = { webview: { html: string; onDidReceiveMessage: jest.Mock }; reveal: jest.Mock };
+
+const createdPanel = (): MockPanel => (vscode.window.createWebviewPanel as jest.Mock).mock.results[0].value;
+
+describe("ModuleGraphPanel", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it("draws the modules, the edge closing a cycle apart from the rest, and the unresolved imports", () => {
+        new ModuleGraphPanel().show(GRAPH);
+
+        const { html } = createdPanel().webview;
+        expect(html).toContain(">Gadgets</text>");
+        expect(html.match(/class="edge back"/g)).toHaveLength(1);
+        expect(html).toContain("<code>Missing</code> in Content/Gadgets/trap.verse:2 - not found");
+    });
+
+    it("draws each file to the modules it imports as well, for the detail picker to show", () => {
+        new ModuleGraphPanel().show(GRAPH);
+
+        const files = createdPanel().webview.html.split('<div class="graph" data-detail="files" hidden>')[1];
+        expect(files).toContain(">Content/Gadgets/trap.verse</text>");
+        expect(files).toContain(">Core</text>");
+        expect(files).toContain('marker-end="url(#arrow-files)"');
+        expect(files).not.toContain('class="edge back"');
+    });
+
+    it("reuses the open panel for the next graph", () => {
+        const panel = new ModuleGraphPanel();
+
+        panel.show(GRAPH);
+        panel.show(GRAPH);
+
+        expect(vscode.window.createWebviewPanel).toHaveBeenCalledTimes(1);
+        expect(createdPanel().reveal).toHaveBeenCalled();
+    });
+
+    it("exports the graph it shows through the export command", () => {
+        new ModuleGraphPanel().show(GRAPH);
+
+        const post = createdPanel().webview.onDidReceiveMessage.mock.calls[0][0];
+        post({ type: "export", format: "dot", detail: "files" });
+
+        expect(vscode.commands.executeCommand).toHaveBeenCalledWith("verseAutoImports.exportModuleGraph", GRAPH, "dot", "files");
+    });
+
+    it("ignores an export of a format or detail it does not know", () => {
+        new ModuleGraphPanel().show(GRAPH);
+
+        const post = createdPanel().webview.onDidReceiveMessage.mock.calls[0][0];
+        post({ type: "export", format: "svg", detail: "modules" });
+        post({ type: "export", format: "dot", detail: "toString" });
+
+        expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,36 @@
+import { FileDependencies, assembleModuleGraph } from "../ModuleDependencyGraph";
+import { findCyclicImports } from "../moduleCycles";
+
+const PROJECT = "/acct@fortnite.com/MyGame";
+
+/** A file at the top of `moduleName`, importing each of `targets` on consecutive lines. */
+const file = (name: string, moduleName: string, ...targets: string[]): FileDependencies => ({
+    file: `Content/${moduleName}/${name}`,
+    module: `${PROJECT}/${moduleName}`,
+    imports: targets.map((target, index) => ({ path: target, line: index + 1, resolved: [target.startsWith("/") ? target : `${PROJECT}/${target}`] })),
+});
+
+describe("findCyclicImports", () => {
+    it("reports each import of a cycle with the cycle through it and where each step is imported", () => {
+        const graph = assembleModuleGraph(PROJECT, [file("a.verse", "Gadgets", "/Verse.org/Simulation", "Core"), file("b.verse", "Core", "Player"), file("c.verse", "Player", "Gadgets")]);
+
+        const cyclic = findCyclicImports(graph);
+
+        expect(cyclic.map(({ file: where, line }) => `${where}:${line}`)).toEqual(["Content/Core/b.verse:1", "Content/Gadgets/a.verse:2", "Content/Player/c.verse:1"]);
+        const fromGadgets = cyclic.find((entry) => entry.file === "Content/Gadgets/a.verse")!;
+        expect(fromGadgets.cycle).toEqual([`${PROJECT}/Gadgets`, `${PROJECT}/Core`, `${PROJECT}/Player`, `${PROJECT}/Gadgets`]);
+        expect(fromGadgets.steps.map((step) => step.file)).toEqual(["Content/Gadgets/a.verse", "Content/Core/b.verse", "Content/Player/c.verse"]);
+    });
+
+    it("leaves out the imports that lead into a cycle without being part of it", () => {
+        const graph = assembleModuleGraph(PROJECT, [file("a.verse", "Gadgets", "Core"), file("b.verse", "Core", "Player"), file("c.verse", "Player", "Core")]);
+
+        expect(findCyclicImports(graph).map((entry) => entry.file)).toEqual(["Content/Core/b.verse", "Content/Player/c.verse"]);
+    });
+
+    it("finds nothing in a graph without cycles, whatever the modules outside the project import", () => {
+        const graph = assembleModuleGraph(PROJECT, [file("a.verse", "Gadgets", "Core", "/Verse.org/Simulation"), file("b.verse", "Core", "/Verse.org/Simulation")]);
+
+        expect(findCyclicImports(graph)).toEqual([]);
+    });
+});
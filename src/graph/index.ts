@@ -0,0 +1,7 @@
+// From outside this module, take the builder, the panel, the formats and the
+// cycle search: activation creates the first two, the graph commands export
+// through the formats, and CircularImportDiagnostics reports the cycles.
+export { ModuleGraphBuilder, ModuleDependencyGraph, assembleModuleGraph } from "./ModuleDependencyGraph";
+export { ModuleGraphPanel } from "./ModuleGraphPanel";
+export { ModuleGraphDetail, ModuleGraphFormat, MODULE_GRAPH_FORMATS, formatModuleGraph, moduleGraphLabel } from "./ModuleGraphExport";
+export { CyclicImport, findCyclicImports } from "./moduleCycles";
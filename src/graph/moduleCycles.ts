@@ -0,0 +1,155 @@
+import { ModuleDependencyGraph } from "./ModuleDependencyGraph";
+
+/** Where one module imports the next: the first `using` of it, by file then line. */
+export interface ImportSite {
+    from: string;
+    to: string;
+    file: string;
+    /** 1-based, as GraphImport.line. */
+    line: number;
+}
+
+/**
+ * A `using` that is part of a cycle between project modules: the module its
+ * file sits in imports a module that, through the project's other imports,
+ * imports it back.
+ */
+export interface CyclicImport {
+    file: string;
+    line: number;
+    /** The modules round the cycle, starting and ending with the importing file's module. */
+    cycle: string[];
+    /** A site for each step of `cycle`, in order, this import's own first. */
+    steps: ImportSite[];
+}
+
+/**
+ * The modules of each cycle between project modules: the strongly connected
+ * components of more than one module, found with Tarjan's algorithm. A module
+ * outside the project cannot import a project module back, so leaving those
+ * out loses no cycle and keeps the API modules out of every message.
+ */
+function projectComponents(graph: ModuleDependencyGraph): Array<Set<string>> {
+    const external = new Set(graph.modules.filter((graphModule) => graphModule.external).map((graphModule) => graphModule.path));
+    const imports = new Map<string, string[]>();
+    for (const { from, to } of graph.dependencies) {
+        if (!external.has(from) && !external.has(to)) {
+            imports.set(from, [...(imports.get(from) ?? []), to]);
+        }
+    }
+
+    const indexes = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: Array<Set<string>> = [];
+
+    const visit = (modulePath: string): void => {
+        indexes.set(modulePath, indexes.size);
+        lowLinks.set(modulePath, indexes.get(modulePath)!);
+        stack.push(modulePath);
+        onStack.add(modulePath);
+
+        for (const target of imports.get(modulePath) ?? []) {
+            if (!indexes.has(target)) {
+                visit(target);
+                lowLinks.set(modulePath, Math.min(lowLinks.get(modulePath)!, lowLinks.get(target)!));
+            } else if (onStack.has(target)) {
+                lowLinks.set(modulePath, Math.min(lowLinks.get(modulePath)!, indexes.get(target)!));
+            }
+        }
+
+        if (lowLinks.get(modulePath) === indexes.get(modulePath)) {
+            const component = new Set<string>();
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.add(member);
+            } while (member !== modulePath);
+            if (component.size > 1) {
+                components.push(component);
+            }
+        }
+    };
+
+    for (const modulePath of imports.keys()) {
+        if (!indexes.has(modulePath)) {
+            visit(modulePath);
+        }
+    }
+    return components;
+}
+
+/** The shortest chain of imports from `start` to `goal` inside a component, both included. */
+function shortestPath(start: string, goal: string, component: Set<string>, imports: Map<string, string[]>): string[] {
+    const cameFrom = new Map<string, string | null>([[start, null]]);
+    const queue = [start];
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (current === goal) {
+            break;
+        }
+        for (const next of imports.get(current) ?? []) {
+            if (component.has(next) && !cameFrom.has(next)) {
+                cameFrom.set(next, current);
+                queue.push(next);
+            }
+        }
+    }
+
+    const path: string[] = [];
+    for (let step: string | null | undefined = goal; step; step = cameFrom.get(step)) {
+        path.unshift(step);
+    }
+    return path;
+}
+
+/**
+ * Every `using` that takes part in a cycle between project modules, each with
+ * the shortest cycle through it: the import's own step, then the shortest way
+ * back from the module it names. Only an import resolved to exactly one module
+ * counts, as for the graph's edges.
+ */
+export function findCyclicImports(graph: ModuleDependencyGraph): CyclicImport[] {
+    const components = projectComponents(graph);
+    if (components.length === 0) {
+        return [];
+    }
+
+    const imports = new Map<string, string[]>();
+    for (const { from, to } of graph.dependencies) {
+        imports.set(from, [...(imports.get(from) ?? []), to]);
+    }
+
+    // The first site of each step, for the related information.
+    const sites = new Map<string, ImportSite>();
+    for (const { file, module: from, imports: fileImports } of graph.files) {
+        for (const { line, resolved } of fileImports) {
+            const key = `${from}\0${resolved[0]}`;
+            if (from && resolved.length === 1 && !sites.has(key)) {
+                sites.set(key, { from, to: resolved[0], file, line });
+            }
+        }
+    }
+
+    const cyclic: CyclicImport[] = [];
+    for (const { file, module: from, imports: fileImports } of graph.files) {
+        const component = from ? components.find((candidate) => candidate.has(from)) : undefined;
+        if (!from || !component) {
+            continue;
+        }
+
+        for (const { line, resolved } of fileImports) {
+            const to = resolved.length === 1 ? resolved[0] : null;
+            if (!to || to === from || !component.has(to)) {
+                continue;
+            }
+
+            const cycle = [from, ...shortestPath(to, from, component, imports)];
+            const steps = cycle.slice(1).map((next, index) => (index === 0 ? { from, to, file, line } : sites.get(`${cycle[index]}\0${next}`)!));
+            cyclic.push({ file, line, cycle, steps });
+        }
+    }
+    return cyclic;
+}
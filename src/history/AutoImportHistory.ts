@@ -0,0 +1,147 @@
+import * as vscode from "vscode";
+import { logger } from "../utils";
+import { AUTO_IMPORT_HISTORY_VERSION, AutoImportedStatement, AutoImportHistoryEntry, SerializedAutoImportHistory } from "../types";
+import { ImportFormatter, ImportHandler } from "../imports";
+import { LINE_SPLIT, rewritableImports, scanModuleImports } from "../imports/ImportScanner";
+
+/** What a revert found in the file and did about it. */
+export interface AutoImportRevertResult {
+    /** The paths whose imports were removed. */
+    removed: string[];
+    /** The paths no longer imported in a form a revert may delete: gone, or pinned since. */
+    missing: string[];
+    /** False when VS Code rejected the edit, or the guard refused it. */
+    applied: boolean;
+}
+
+/**
+ * Every edit automatic imports made, newest first, persisted in workspace
+ * state so one made to a file nobody had open - the default `allFiles` scope
+ * allows that - can still be found after a reload.
+ *
+ * Only automatic edits are recorded. A quick fix or a command is an edit the
+ * user asked for and watched land.
+ *
+ * Disposable, and registered as one during activation: the change event's
+ * listeners are the tree view's.
+ */
+export class AutoImportHistory implements vscode.Disposable {
+    static readonly STORAGE_KEY = "verseAutoImports.autoImportHistory";
+
+    /**
+     * The oldest entries past this are dropped as new ones are recorded. The
+     * history answers "what did it just do", not "what has it ever done", and
+     * workspace state is read whole on every activation.
+     */
+    static readonly MAX_ENTRIES = 100;
+
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.changeEmitter.event;
+
+    private history: AutoImportHistoryEntry[];
+    private readonly formatter = new ImportFormatter();
+
+    constructor(
+        private readonly storage: vscode.Memento,
+        private readonly importHandler: ImportHandler,
+    ) {
+        this.history = this.load();
+    }
+
+    /** Newest first. */
+    entries(): readonly AutoImportHistoryEntry[] {
+        return this.history;
+    }
+
+    async record(uri: vscode.Uri, statements: AutoImportedStatement[]): Promise<AutoImportHistoryEntry> {
+        const timestamp = Date.now();
+        const entry: AutoImportHistoryEntry = {
+            id: `${timestamp.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            timestamp,
+            fsPath: uri.fsPath,
+            statements,
+        };
+
+        this.history = [entry, ...this.history].slice(0, AutoImportHistory.MAX_ENTRIES);
+        await this.save();
+        return entry;
+    }
+
+    async clear(): Promise<void> {
+        this.history = [];
+        await this.save();
+    }
+
+    /**
+     * Removes the entry's statements from its file, where they are still
+     * imported, and marks the entry reverted once the file no longer holds any
+     * of them.
+     *
+     * Matched on the path rather than the statement text: the writer formats a
+     * statement in the syntax configured when it wrote it, and a later
+     * Optimize Imports may have rewritten it in the other. A path imported
+     * before the automatic edit cannot be removed by mistake, because the
+     * automatic edit only ever writes paths the file did not import yet.
+     *
+     * A pinned import of a path is reported missing rather than removed:
+     * deleting its span deletes the code sharing its line (see
+     * rewritableImports).
+     */
+    async revert(entryId: string): Promise<AutoImportRevertResult> {
+        const entry = this.history.find((candidate) => candidate.id === entryId);
+        if (!entry) {
+            return { removed: [], missing: [], applied: false };
+        }
+
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(entry.fsPath));
+        const paths = entry.statements.map((statement) => this.formatter.extractPathFromImport(statement.statement)).filter((path): path is string => path !== null);
+        const imported = new Set(rewritableImports(scanModuleImports(document.getText().split(LINE_SPLIT))).map((imp) => imp.path));
+
+        const removed = paths.filter((path) => imported.has(path));
+        const missing = paths.filter((path) => !imported.has(path));
+
+        const applied = removed.length === 0 || (await this.importHandler.removeImports(document, removed));
+        if (applied) {
+            entry.reverted = true;
+            await this.save();
+        }
+
+        logger.info("AutoImportHistory", `Reverted auto-import in ${entry.fsPath}: removed ${removed.length}, missing ${missing.length}, applied ${applied}`);
+        return { removed, missing, applied };
+    }
+
+    /**
+     * The stored history, or an empty one when none was stored or the stored
+     * one is of another version.
+     */
+    private load(): AutoImportHistoryEntry[] {
+        const serialized = this.storage.get<SerializedAutoImportHistory>(AutoImportHistory.STORAGE_KEY);
+        if (!serialized) {
+            return [];
+        }
+        if (serialized.version !== AUTO_IMPORT_HISTORY_VERSION || !Array.isArray(serialized.entries)) {
+            logger.info("AutoImportHistory", "Stored history is of another version, starting a new one");
+            return [];
+        }
+        return serialized.entries;
+    }
+
+    /**
+     * Persists the history and tells the view. A failed write is logged and
+     * not raised: the entry is still shown for this session, and the edit it
+     * records has already happened either way.
+     */
+    private async save(): Promise<void> {
+        this.changeEmitter.fire();
+        try {
+            const serialized: SerializedAutoImportHistory = { version: AUTO_IMPORT_HISTORY_VERSION, entries: this.history };
+            await this.storage.update(AutoImportHistory.STORAGE_KEY, serialized);
+        } catch (error) {
+            logger.error("AutoImportHistory", "Failed to save auto-import history", error);
+        }
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
@@ -0,0 +1,62 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { AutoImportedStatement, AutoImportHistoryEntry } from "../types";
+import { AutoImportHistory } from "./AutoImportHistory";
+
+/** An edit, or one statement it wrote. */
+export type AutoImportHistoryNode = { kind: "entry"; entry: AutoImportHistoryEntry } | { kind: "statement"; entry: AutoImportHistoryEntry; statement: AutoImportedStatement };
+
+/**
+ * The tree behind the Auto-Import History view: one node per automatic edit,
+ * newest first, with the statements it wrote beneath it.
+ *
+ * The context values are what package.json's `view/item/context` entries match
+ * on: Revert is offered on an entry that has not been reverted yet, and on
+ * nothing else.
+ */
+export class AutoImportHistoryView implements vscode.TreeDataProvider<AutoImportHistoryNode>, vscode.Disposable {
+    static readonly VIEW_ID = "verseAutoImports.autoImportHistory";
+
+    private readonly changeEmitter = new vscode.EventEmitter<AutoImportHistoryNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+    private readonly historyListener: vscode.Disposable;
+
+    constructor(private readonly history: AutoImportHistory) {
+        this.historyListener = history.onDidChange(() => this.changeEmitter.fire(undefined));
+    }
+
+    getChildren(node?: AutoImportHistoryNode): AutoImportHistoryNode[] {
+        if (!node) {
+            return this.history.entries().map((entry) => ({ kind: "entry", entry }));
+        }
+        if (node.kind === "entry") {
+            return node.entry.statements.map((statement) => ({ kind: "statement", entry: node.entry, statement }));
+        }
+        return [];
+    }
+
+    getTreeItem(node: AutoImportHistoryNode): vscode.TreeItem {
+        if (node.kind === "statement") {
+            const item = new vscode.TreeItem(node.statement.statement, vscode.TreeItemCollapsibleState.None);
+            item.description = node.statement.strategy;
+            item.tooltip = node.statement.diagnosticMessage;
+            item.contextValue = "autoImportStatement";
+            return item;
+        }
+
+        const { entry } = node;
+        const uri = vscode.Uri.file(entry.fsPath);
+        const item = new vscode.TreeItem(path.basename(entry.fsPath), vscode.TreeItemCollapsibleState.Collapsed);
+        const when = new Date(entry.timestamp).toLocaleString();
+        item.description = entry.reverted ? `${when}, reverted` : when;
+        item.tooltip = `${vscode.workspace.asRelativePath(uri, false)}\n${entry.statements.length} import(s) added ${when}`;
+        item.contextValue = entry.reverted ? "autoImportEntryReverted" : "autoImportEntry";
+        item.command = { title: "Open File", command: "vscode.open", arguments: [uri] };
+        return item;
+    }
+
+    dispose(): void {
+        this.historyListener.dispose();
+        this.changeEmitter.dispose();
+    }
+}
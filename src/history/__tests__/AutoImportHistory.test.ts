@@ -0,0 +1,131 @@
+import * as vscode from "vscode";
+import { AutoImportHistory } from "../AutoImportHistory";
+import { AutoImportHistoryView } from "../AutoImportHistoryView";
+import { ImportHandler } from "../../imports";
+import { AUTO_IMPORT_HISTORY_VERSION, AutoImportedStatement } from "../../types";
+
+/** Workspace state backed by a plain map, as the real Memento behaves within a session. */
+function fakeMemento(initial: Record<string, unknown> = {}): vscode.Memento & { stored: Map<string, unknown> } {
+    const stored = new Map(Object.entries(initial));
+    return {
+        stored,
+        keys: () => Array.from(stored.keys()),
+        get: <T>(key: string) => stored.get(key) as T,
+        update: jest.fn(async (key: string, value: unknown) => {
+            stored.set(key, value);
+        }),
+    } as unknown as vscode.Memento & { stored: Map<string, unknown> };
+}
+
+function handlerRemoving(applied = true): ImportHandler {
+    return { removeImports: jest.fn().mockResolvedValue(applied) } as unknown as ImportHandler;
+}
+
+const statement = (path: string): AutoImportedStatement => ({ statement: `using { ${path} }`, diagnosticMessage: "Unknown identifier `x`.", strategy: "high_confidence" });
+const uri = vscode.Uri.file("/project/Content/device.verse");
+
+function openDocumentWith(text: string): void {
+    (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValueOnce({ uri, getText: () => text, version: 1 });
+}
+
+describe("AutoImportHistory", () => {
+    it("keeps entries newest first, and persists them", async () => {
+        const memento = fakeMemento();
+        const history = new AutoImportHistory(memento, handlerRemoving());
+
+        await history.record(uri, [statement("/Verse.org/Random")]);
+        await history.record(uri, [statement("/Fortnite.com/Devices")]);
+
+        expect(history.entries().map((entry) => entry.statements[0].statement)).toEqual(["using { /Fortnite.com/Devices }", "using { /Verse.org/Random }"]);
+        expect(new AutoImportHistory(memento, handlerRemoving()).entries()).toHaveLength(2);
+    });
+
+    it("drops the oldest entries past the cap", async () => {
+        const history = new AutoImportHistory(fakeMemento(), handlerRemoving());
+
+        for (let index = 0; index <= AutoImportHistory.MAX_ENTRIES; index++) {
+            await history.record(uri, [statement(`/Path${index}`)]);
+        }
+
+        expect(history.entries()).toHaveLength(AutoImportHistory.MAX_ENTRIES);
+        expect(history.entries()[AutoImportHistory.MAX_ENTRIES - 1].statements[0].statement).toBe("using { /Path1 }");
+    });
+
+    it("starts empty over a stored history of another version", () => {
+        const memento = fakeMemento({ [AutoImportHistory.STORAGE_KEY]: { version: "0", entries: [{ id: "old" }] } });
+
+        expect(new AutoImportHistory(memento, handlerRemoving()).entries()).toEqual([]);
+    });
+
+    it("tells listeners when it changes", async () => {
+        const history = new AutoImportHistory(fakeMemento(), handlerRemoving());
+        const listener = jest.fn();
+        history.onDidChange(listener);
+
+        await history.record(uri, [statement("/Verse.org/Random")]);
+        await history.clear();
+
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(history.entries()).toEqual([]);
+    });
+});
+
+describe("AutoImportHistory.revert", () => {
+    it("removes the paths still imported and reports the ones that are gone", async () => {
+        const importHandler = handlerRemoving();
+        const memento = fakeMemento();
+        const history = new AutoImportHistory(memento, importHandler);
+        const entry = await history.record(uri, [statement("/Verse.org/Random"), statement("/Fortnite.com/Devices")]);
+        openDocumentWith("using { /Verse.org/Random }\n\ncode()");
+
+        const result = await history.revert(entry.id);
+
+        expect(result).toEqual({ removed: ["/Verse.org/Random"], missing: ["/Fortnite.com/Devices"], applied: true });
+        expect((importHandler.removeImports as jest.Mock).mock.calls[0][1]).toEqual(["/Verse.org/Random"]);
+        expect(history.entries()[0].reverted).toBe(true);
+        expect((memento.stored.get(AutoImportHistory.STORAGE_KEY) as { version: string }).version).toBe(AUTO_IMPORT_HISTORY_VERSION);
+    });
+
+    it("leaves a pinned import alone", async () => {
+        const importHandler = handlerRemoving();
+        const history = new AutoImportHistory(fakeMemento(), importHandler);
+        const entry = await history.record(uri, [statement("/Verse.org/Random")]);
+        openDocumentWith("using { /Verse.org/Random }; X := 1\n");
+
+        const result = await history.revert(entry.id);
+
+        expect(result.missing).toEqual(["/Verse.org/Random"]);
+        expect(importHandler.removeImports).not.toHaveBeenCalled();
+    });
+
+    it("does not mark the entry reverted when the edit is rejected", async () => {
+        const history = new AutoImportHistory(fakeMemento(), handlerRemoving(false));
+        const entry = await history.record(uri, [statement("/Verse.org/Random")]);
+        openDocumentWith("using { /Verse.org/Random }\n");
+
+        const result = await history.revert(entry.id);
+
+        expect(result.applied).toBe(false);
+        expect(history.entries()[0].reverted).toBeUndefined();
+    });
+});
+
+describe("AutoImportHistoryView", () => {
+    it("lists the edits with their statements beneath them, and offers Revert until one is reverted", async () => {
+        const history = new AutoImportHistory(fakeMemento(), handlerRemoving());
+        const entry = await history.record(uri, [statement("/Verse.org/Random")]);
+        const view = new AutoImportHistoryView(history);
+
+        const [entryNode] = view.getChildren();
+        const [statementNode] = view.getChildren(entryNode);
+
+        expect(view.getTreeItem(entryNode).label).toBe("device.verse");
+        expect(view.getTreeItem(entryNode).contextValue).toBe("autoImportEntry");
+        expect(view.getTreeItem(statementNode).label).toBe("using { /Verse.org/Random }");
+        expect(view.getTreeItem(statementNode).tooltip).toBe("Unknown identifier `x`.");
+
+        entry.reverted = true;
+        expect(view.getTreeItem(entryNode).contextValue).toBe("autoImportEntryReverted");
+        view.dispose();
+    });
+});
@@ -0,0 +1,4 @@
+// From outside this module, take the history and its view: DiagnosticsHandler
+// records into the history, and the view and the revert command read it.
+export { AutoImportHistory, AutoImportRevertResult } from "./AutoImportHistory";
+export { AutoImportHistoryView, AutoImportHistoryNode } from "./AutoImportHistoryView";
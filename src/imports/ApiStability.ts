@@ -0,0 +1,124 @@
+import { DigestEntry } from "../services";
+import { UnstableApiUse } from "../types";
+import { ImportFormatter } from "./ImportFormatter";
+import { classifyLines, rewritableImports, scanModuleImports } from "./ImportScanner";
+
+const IDENTIFIER = /[A-Za-z_][A-Za-z0-9_]*/g;
+
+/** The digest declarations of a name, as DigestParser.lookupIdentifier answers them. */
+export type DigestDeclarationsOf = (identifier: string) => readonly DigestEntry[];
+
+/**
+ * How a quick fix title, a completion detail or a diagnostic names what the
+ * digest marked, or null when it marked nothing.
+ */
+export function apiStabilityLabel(marks: { experimental?: boolean; deprecated?: boolean }): string | null {
+    const labels = [marks.experimental ? "experimental" : null, marks.deprecated ? "deprecated" : null].filter((label): label is string => label !== null);
+    return labels.length > 0 ? labels.join(", ") : null;
+}
+
+/** The last segment of an absolute module path, the name its module entry is keyed by. */
+function moduleName(path: string): string {
+    return path.slice(path.lastIndexOf("/") + 1);
+}
+
+/**
+ * The digest's marks for importing `modulePath` to reach `identifier`: those
+ * of the module itself, and of the name's declaration in it.
+ */
+export function apiStabilityOf(modulePath: string, identifier: string | null, declarationsOf: DigestDeclarationsOf): { experimental: boolean; deprecated: boolean } {
+    const declarations = [
+        ...declarationsOf(moduleName(modulePath)).filter((entry) => entry.type === "module" && entry.modulePath === modulePath),
+        ...(identifier ? declarationsOf(identifier).filter((entry) => entry.type !== "module" && entry.modulePath === modulePath) : []),
+    ];
+    return { experimental: declarations.some((entry) => entry.experimental), deprecated: declarations.some((entry) => entry.deprecated) };
+}
+
+/**
+ * Every use the file makes of an API the digests mark experimental or
+ * deprecated: each absolute `using` of a marked module, and each name in code
+ * that the file's absolute digest imports can only resolve to marked
+ * declarations.
+ *
+ * Names, not resolutions, as referencedIdentifiers explains; a local sharing a
+ * name with a marked declaration is reported with it. Two narrowings keep that
+ * from flagging working code. A name also declared, unmarked, by another
+ * module the file imports is not reported, since it may resolve there. A name
+ * written after a `.` is a member access and never a module-scope declaration.
+ * Relative digest imports are not followed: what they name depends on the
+ * imports above them.
+ */
+export function findUnstableApiUses(lines: string[], declarationsOf: DigestDeclarationsOf, formatter: ImportFormatter): UnstableApiUse[] {
+    const scannedImports = scanModuleImports(lines);
+    const classifications = classifyLines(lines);
+    const uses: UnstableApiUse[] = [];
+
+    const importedPaths = new Set<string>();
+    for (const imp of scannedImports) {
+        if (formatter.resolvesAgainstScopeAbove(imp.path) || !formatter.isDigestImport(imp.path)) {
+            continue;
+        }
+        importedPaths.add(imp.path);
+
+        const marks = apiStabilityOf(imp.path, null, declarationsOf);
+        if (!marks.experimental && !marks.deprecated) {
+            continue;
+        }
+        let line = imp.startLine;
+        let character = classifications[line].masked.indexOf(imp.path);
+        for (let candidate = imp.startLine; character === -1 && candidate <= imp.endLine; candidate++) {
+            line = candidate;
+            character = classifications[candidate].masked.indexOf(imp.path);
+        }
+        if (character === -1) {
+            line = imp.startLine;
+            character = 0;
+        }
+        uses.push({ name: imp.path, modulePath: imp.path, line, character, length: imp.path.length, ...marks });
+    }
+    if (importedPaths.size === 0) {
+        return uses;
+    }
+
+    const skipped = new Set<number>();
+    for (const imp of rewritableImports(scannedImports)) {
+        for (let line = imp.startLine; line <= imp.endLine; line++) {
+            skipped.add(line);
+        }
+    }
+
+    const reachableByName = new Map<string, DigestEntry[]>();
+    for (let line = 0; line < lines.length; line++) {
+        if (skipped.has(line) || classifications[line].kind !== "code") {
+            continue;
+        }
+        const masked = classifications[line].masked;
+        for (const match of masked.matchAll(IDENTIFIER)) {
+            const character = match.index!;
+            if (masked.slice(0, character).trimEnd().endsWith(".")) {
+                continue;
+            }
+
+            const name = match[0];
+            let reachable = reachableByName.get(name);
+            if (!reachable) {
+                reachable = declarationsOf(name).filter((entry) => entry.type !== "module" && importedPaths.has(entry.modulePath));
+                reachableByName.set(name, reachable);
+            }
+            if (reachable.length === 0 || !reachable.every((entry) => entry.experimental || entry.deprecated)) {
+                continue;
+            }
+            uses.push({
+                name,
+                modulePath: reachable[0].modulePath,
+                line,
+                character,
+                length: name.length,
+                experimental: reachable.some((entry) => entry.experimental === true),
+                deprecated: reachable.some((entry) => entry.deprecated === true),
+            });
+        }
+    }
+
+    return uses;
+}
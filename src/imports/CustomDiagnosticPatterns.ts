@@ -0,0 +1,105 @@
+import * as vscode from "vscode";
+import { CompiledSettingList } from "../utils";
+import { CustomDiagnosticPattern, DiagnosticPatternKind } from "../types";
+
+/** A custom pattern that passed validation, ready to match. */
+export interface CompiledDiagnosticPattern {
+    kind: DiagnosticPatternKind;
+    regex: RegExp;
+    description?: string;
+}
+
+/** The named group each kind must capture. See DiagnosticPatternKind. */
+const REQUIRED_GROUP: Record<DiagnosticPatternKind, string> = {
+    singleImport: "path",
+    multiOption: "paths",
+    identifier: "identifier",
+};
+
+const ALLOWED_FLAGS = /^[imsu]*$/;
+
+/**
+ * The valid patterns of a configured list, in their order, and one line per
+ * entry that was dropped saying why. An entry is dropped whole: a pattern
+ * missing its group would match and then have nothing to import.
+ *
+ * @param origin Where the list came from, for the messages.
+ */
+export function compileDiagnosticPatterns(raw: unknown, origin: string): { patterns: CompiledDiagnosticPattern[]; errors: string[] } {
+    if (raw === undefined || raw === null) {
+        return { patterns: [], errors: [] };
+    }
+    if (!Array.isArray(raw)) {
+        return { patterns: [], errors: [`${origin}: expected a list of patterns`] };
+    }
+
+    const patterns: CompiledDiagnosticPattern[] = [];
+    const errors: string[] = [];
+    raw.forEach((entry: Partial<CustomDiagnosticPattern> | null, index) => {
+        const where = `${origin}, pattern ${index + 1}`;
+        if (typeof entry !== "object" || entry === null) {
+            errors.push(`${where}: expected an object`);
+            return;
+        }
+        if (typeof entry.pattern !== "string" || entry.pattern === "") {
+            errors.push(`${where}: "pattern" must be a non-empty string`);
+            return;
+        }
+        if (typeof entry.kind !== "string" || !(entry.kind in REQUIRED_GROUP)) {
+            errors.push(`${where}: "kind" must be one of ${Object.keys(REQUIRED_GROUP).join(", ")}`);
+            return;
+        }
+        const flags = entry.flags ?? "";
+        if (typeof flags !== "string" || !ALLOWED_FLAGS.test(flags)) {
+            errors.push(`${where}: "flags" may only hold i, m, s and u`);
+            return;
+        }
+        if (entry.description !== undefined && typeof entry.description !== "string") {
+            errors.push(`${where}: "description" must be a string`);
+            return;
+        }
+
+        let regex: RegExp;
+        try {
+            regex = new RegExp(entry.pattern, flags);
+        } catch (error) {
+            errors.push(`${where}: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+        // Asked of the compiled pattern, not its text, so an escaped or
+        // bracketed `(?<path>` does not pass for a group. The empty alternative
+        // makes the pattern match "", which lists every group it declares.
+        const group = REQUIRED_GROUP[entry.kind];
+        if (!(group in (new RegExp(`${entry.pattern}|`, flags).exec("")?.groups ?? {}))) {
+            errors.push(`${where}: a ${entry.kind} pattern needs a (?<${group}>...) group`);
+            return;
+        }
+
+        patterns.push({ kind: entry.kind, regex, description: entry.description });
+    });
+
+    return { patterns, errors };
+}
+
+/**
+ * The message patterns a team declares on top of the built-in ones, from the
+ * `diagnostics.customPatterns` setting and the `diagnosticPatterns` list of
+ * the project configuration file, the setting's first.
+ */
+export class CustomDiagnosticPatterns {
+    private readonly patterns = new CompiledSettingList<CompiledDiagnosticPattern>({
+        setting: "diagnostics.customPatterns",
+        projectKey: "diagnosticPatterns",
+        logSource: "CustomDiagnosticPatterns",
+        entries: "custom diagnostic pattern(s)",
+        compile: (raw, origin) => {
+            const { patterns, errors } = compileDiagnosticPatterns(raw, origin);
+            return { values: patterns, errors };
+        },
+    });
+
+    /** The patterns that apply to messages reported on `resource`, in precedence order. */
+    patternsFor(resource?: vscode.Uri): CompiledDiagnosticPattern[] {
+        return this.patterns.valuesFor(resource);
+    }
+}
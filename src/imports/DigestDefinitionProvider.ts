@@ -0,0 +1,65 @@
+import * as vscode from "vscode";
+import { settingsFor } from "../utils";
+import { endsInCode } from "../utils/verseText";
+import { DigestSourceProvider } from "../services/DigestSourceProvider";
+import { ImportHandler } from "./ImportHandler";
+import { ImportHoverProvider } from "./ImportHoverProvider";
+import { LINE_SPLIT, scanModuleImports } from "./ImportScanner";
+
+/**
+ * Go to Definition for Verse API names: opens the declaration in the bundled
+ * digest source, read-only, at the line the precompiled data recorded for it.
+ *
+ * Without the Verse language server this is the only way to read an API
+ * signature without leaving the editor. With it, VS Code lists both answers.
+ *
+ * A name several modules declare answers with the ones the file imports, when
+ * it imports any, and with all of them otherwise. Project names are left to
+ * the language server.
+ */
+export class DigestDefinitionProvider implements vscode.DefinitionProvider {
+    constructor(private importHandler: ImportHandler) {}
+
+    async provideDefinition(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Location[] | undefined> {
+        if (!settingsFor(document.uri).get<boolean>("definition.openDigestSource", true)) {
+            return undefined;
+        }
+
+        const wordRange = document.getWordRangeAtPosition(position);
+        if (!wordRange) {
+            return undefined;
+        }
+
+        const lines = document.getText().split(LINE_SPLIT);
+        const line = lines[wordRange.start.line] ?? "";
+        const scannedImports = scanModuleImports(lines);
+
+        // The hover's rules: not a member after a `.`, not a path segment of
+        // an import, and not text in a comment or a string.
+        if (wordRange.start.character > 0 && line[wordRange.start.character - 1] === ".") {
+            return undefined;
+        }
+        if (scannedImports.some((imp) => wordRange.start.line >= imp.startLine && wordRange.start.line <= imp.endLine)) {
+            return undefined;
+        }
+
+        const throughWord = [...lines.slice(0, wordRange.end.line), line.slice(0, wordRange.end.character)].join("\n");
+        if (!endsInCode(throughWord, wordRange.end.character - wordRange.start.character)) {
+            return undefined;
+        }
+
+        const identifier = line.slice(wordRange.start.character, wordRange.end.character);
+        const declarations = (await this.importHandler.lookupDeclarations(identifier, document.uri)).filter((declaration) => declaration.declaredAt);
+        if (declarations.length === 0 || token.isCancellationRequested) {
+            return undefined;
+        }
+
+        const importPaths = scannedImports.map((imp) => imp.path);
+        const imported = declarations.filter((declaration) => importPaths.some((path) => ImportHoverProvider.importProvides(path, declaration.modulePath)));
+
+        return (imported.length > 0 ? imported : declarations).map(({ declaredAt }) => {
+            const start = new vscode.Position(declaredAt!.line - 1, 0);
+            return new vscode.Location(DigestSourceProvider.uriFor(declaredAt!.sourceFile), new vscode.Range(start, start));
+        });
+    }
+}
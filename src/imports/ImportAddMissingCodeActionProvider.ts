@@ -0,0 +1,93 @@
+import * as vscode from "vscode";
+import { logger } from "../utils";
+import { ImportChoiceMemory } from "./ImportChoiceMemory";
+import { ImportHandler } from "./ImportHandler";
+
+/**
+ * Puts adding the missing imports, and nothing else, behind source actions:
+ * `source.addMissingImports.verse` and `source.fixAll.verse`, for
+ * `editor.codeActionsOnSave` in a team that wants import fixing on save
+ * without Organize Imports reordering the block, and without waiting on the
+ * debounce timer.
+ *
+ * Only what automatic import would write unasked goes in: a diagnostic's lone,
+ * high-confidence suggestion, unless the user undid that import for the name
+ * before or `behavior.restrictedImports` forbids it. A diagnostic offering
+ * several modules is left to the quick fixes.
+ *
+ * Unlike the organize action this carries its edit rather than a command. An
+ * edit is applied as part of the save that asked for it, where a command would
+ * leave the document dirty again the moment it was saved; and the edit comes
+ * from the same composition the writers use, so it places each import where
+ * `behavior.preserveImportLocations` says. The blank lines after the block are
+ * the save participant's, as they are for a completion's import.
+ */
+export class ImportAddMissingCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly SourceAddMissingImports = vscode.CodeActionKind.Source.append("addMissingImports").append("verse");
+    static readonly SourceFixAll = vscode.CodeActionKind.SourceFixAll.append("verse");
+
+    /** Declared to the registration, which is what routes both kinds here. */
+    static readonly providedCodeActionKinds: readonly vscode.CodeActionKind[] = [ImportAddMissingCodeActionProvider.SourceAddMissingImports, ImportAddMissingCodeActionProvider.SourceFixAll];
+
+    constructor(
+        private importHandler: ImportHandler,
+        private choiceMemory?: ImportChoiceMemory,
+    ) {}
+
+    /**
+     * One action of each kind with the same edit, or none when nothing is
+     * missing - an empty action would still be listed in the Source Action
+     * menu, and run on every save.
+     *
+     * The diagnostics are the document's, not the request's: a source action
+     * is asked for over the whole file, and the context only holds the ones
+     * under the cursor.
+     */
+    async provideCodeActions(document: vscode.TextDocument): Promise<vscode.CodeAction[]> {
+        const statements = await this.missingImports(document);
+        if (statements.length === 0) {
+            return [];
+        }
+
+        const edits = this.importHandler.computeAddImportEdits(document, statements);
+        if (!edits || edits.length === 0) {
+            return [];
+        }
+        logger.debug("ImportAddMissingCodeActionProvider", `Offering ${statements.length} missing import(s)`);
+
+        const action = (title: string, kind: vscode.CodeActionKind): vscode.CodeAction => {
+            const codeAction = new vscode.CodeAction(title, kind);
+            codeAction.edit = new vscode.WorkspaceEdit();
+            codeAction.edit.set(document.uri, edits);
+            return codeAction;
+        };
+        return [action("Add missing imports", ImportAddMissingCodeActionProvider.SourceAddMissingImports), action("Fix all: add missing imports", ImportAddMissingCodeActionProvider.SourceFixAll)];
+    }
+
+    /** The statements automatic import would write for the document's diagnostics, deduplicated. */
+    private async missingImports(document: vscode.TextDocument): Promise<string[]> {
+        const choiceMemory = this.choiceMemory && ImportChoiceMemory.enabledFor(document.uri) ? this.choiceMemory : undefined;
+        const statements = new Set<string>();
+
+        for (const diagnostic of vscode.languages.getDiagnostics(document.uri)) {
+            const suggestions = await this.importHandler.extractImportSuggestions(diagnostic.message, document.uri);
+            if (suggestions.length !== 1 || suggestions[0].confidence !== "high") {
+                continue;
+            }
+
+            const [suggestion] = suggestions;
+            if (suggestion.modulePath && this.importHandler.importRestrictionFor(suggestion.modulePath, document.uri)) {
+                continue;
+            }
+            if (choiceMemory && suggestion.modulePath) {
+                const identifier = this.importHandler.identifierInMessage(diagnostic.message, document.uri);
+                if (identifier && choiceMemory.isRejected(identifier, suggestion.modulePath)) {
+                    continue;
+                }
+            }
+            statements.add(suggestion.importStatement);
+        }
+
+        return Array.from(statements);
+    }
+}
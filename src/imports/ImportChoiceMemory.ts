@@ -0,0 +1,176 @@
+import * as vscode from "vscode";
+import { logger, settingsFor } from "../utils";
+import { IMPORT_CHOICES_VERSION, ImportChoice, RememberedImportChoice, SerializedImportChoices } from "../types";
+import { LINE_SPLIT, scanModuleImports } from "./ImportScanner";
+
+/** An automatic import still young enough for an undo to count against it. */
+interface RecentAutoImport {
+    timestamp: number;
+    choices: ImportChoice[];
+}
+
+/**
+ * What the user has already decided about ambiguous names, persisted in
+ * workspace state and keyed by identifier: the module they keep picking from
+ * the quick fixes, and the modules whose automatic import they undid.
+ *
+ * The quick-fix menu leads with the remembered pick, an `auto_*` strategy
+ * takes it over its own rule, and no automatic import writes a rejected
+ * module again. Only a pick made from several options is remembered; a lone
+ * suggestion is no choice.
+ *
+ * Rejections are read from the editor's undo, and only within
+ * {@link UNDO_WINDOW_MS} of the import landing. An undo much later is more
+ * likely unwinding other work past it than disagreeing with it.
+ */
+export class ImportChoiceMemory {
+    static readonly STORAGE_KEY = "verseAutoImports.importChoices";
+
+    /** Picks in a row after which the user is offered a `behavior.ambiguousImports` mapping. */
+    static readonly OFFER_MAPPING_AFTER = 3;
+
+    static readonly UNDO_WINDOW_MS = 10_000;
+
+    /**
+     * A Map rather than the stored object, so an identifier such as
+     * `constructor` finds nothing rather than what Object.prototype holds.
+     */
+    private choices: Map<string, RememberedImportChoice>;
+    /** Keyed by document URI string. In memory only: an undo does not survive a reload either. */
+    private readonly recentAutoImports = new Map<string, RecentAutoImport>();
+
+    constructor(private readonly storage: vscode.Memento) {
+        this.choices = this.load();
+    }
+
+    /** Whether choices are remembered and consulted for this file. */
+    static enabledFor(resource?: vscode.Uri): boolean {
+        return settingsFor(resource).get<boolean>("behavior.learnImportChoices", true);
+    }
+
+    /** The module picked for this name, unless it has been rejected since. */
+    preferredPath(identifier: string): string | undefined {
+        const choice = this.choices.get(identifier);
+        return choice?.picked && !choice.rejected.includes(choice.picked) ? choice.picked : undefined;
+    }
+
+    isRejected(identifier: string, modulePath: string): boolean {
+        return this.choices.get(identifier)?.rejected.includes(modulePath) ?? false;
+    }
+
+    /**
+     * A new array with the remembered pick moved to the front, the rest in
+     * their order. The input is not modified.
+     */
+    rank<T extends { modulePath?: string }>(identifier: string, suggestions: T[]): T[] {
+        const preferred = this.preferredPath(identifier);
+        if (!preferred) {
+            return [...suggestions];
+        }
+        return [...suggestions.filter((suggestion) => suggestion.modulePath === preferred), ...suggestions.filter((suggestion) => suggestion.modulePath !== preferred)];
+    }
+
+    /**
+     * Records a quick-fix pick and returns how many picks in a row have now
+     * chosen that module. Picking a module withdraws an earlier rejection of it.
+     */
+    async recordPick({ identifier, modulePath }: ImportChoice): Promise<number> {
+        const choice = this.choices.get(identifier) ?? { streak: 0, rejected: [] };
+        const streak = choice.picked === modulePath ? choice.streak + 1 : 1;
+
+        this.choices.set(identifier, { picked: modulePath, streak, rejected: choice.rejected.filter((rejected) => rejected !== modulePath) });
+        await this.save();
+        return streak;
+    }
+
+    async recordRejection({ identifier, modulePath }: ImportChoice): Promise<void> {
+        const choice = this.choices.get(identifier) ?? { streak: 0, rejected: [] };
+        if (choice.rejected.includes(modulePath)) {
+            return;
+        }
+
+        // A rejected pick no longer counts towards the mapping offer.
+        const streak = choice.picked === modulePath ? 0 : choice.streak;
+        this.choices.set(identifier, { ...choice, streak, rejected: [...choice.rejected, modulePath] });
+        logger.info("ImportChoiceMemory", `Will no longer auto-import ${modulePath} for ${identifier}: its automatic import was undone`);
+        await this.save();
+    }
+
+    /**
+     * Notes the choices an automatic import just wrote into a document, so an
+     * undo of it can be recognized. Replaces what was noted for the document
+     * before: only the latest edit is the one an undo reverses.
+     */
+    noteAutoImport(uri: vscode.Uri, choices: ImportChoice[]): void {
+        if (choices.length > 0) {
+            this.recentAutoImports.set(uri.toString(), { timestamp: Date.now(), choices });
+        }
+    }
+
+    /**
+     * Called on an undo in a document. Each choice of the document's recent
+     * automatic import whose path the document no longer imports is recorded
+     * as rejected.
+     *
+     * An undo that leaves every path imported undid something else, and the
+     * note stays until its window passes.
+     */
+    async handleUndo(document: vscode.TextDocument): Promise<void> {
+        const key = document.uri.toString();
+        const recent = this.recentAutoImports.get(key);
+        if (!recent) {
+            return;
+        }
+        if (Date.now() - recent.timestamp > ImportChoiceMemory.UNDO_WINDOW_MS) {
+            this.recentAutoImports.delete(key);
+            return;
+        }
+
+        const imported = new Set(scanModuleImports(document.getText().split(LINE_SPLIT)).map((imp) => imp.path));
+        const undone = recent.choices.filter((choice) => !imported.has(choice.modulePath));
+        if (undone.length === 0) {
+            return;
+        }
+
+        this.recentAutoImports.delete(key);
+        for (const choice of undone) {
+            await this.recordRejection(choice);
+        }
+    }
+
+    /** Forgets every pick and rejection. */
+    async clear(): Promise<void> {
+        this.choices.clear();
+        this.recentAutoImports.clear();
+        await this.save();
+    }
+
+    /**
+     * The stored choices, or none when none were stored or the stored ones are
+     * of another version.
+     */
+    private load(): Map<string, RememberedImportChoice> {
+        const serialized = this.storage.get<SerializedImportChoices>(ImportChoiceMemory.STORAGE_KEY);
+        if (!serialized) {
+            return new Map();
+        }
+        if (serialized.version !== IMPORT_CHOICES_VERSION || typeof serialized.choices !== "object" || serialized.choices === null) {
+            logger.info("ImportChoiceMemory", "Stored import choices are of another version, starting afresh");
+            return new Map();
+        }
+        return new Map(Object.entries(serialized.choices));
+    }
+
+    /**
+     * A failed write is logged and not raised: the choice still holds for this
+     * session.
+     */
+    private async save(): Promise<void> {
+        try {
+            const serialized: SerializedImportChoices = { version: IMPORT_CHOICES_VERSION, choices: Object.fromEntries(this.choices) };
+            await this.storage.update(ImportChoiceMemory.STORAGE_KEY, serialized);
+        } catch (error) {
+            logger.error("ImportChoiceMemory", "Failed to save import choices", error);
+        }
+    }
+}
@@ -1,7 +1,10 @@
 import * as vscode from "vscode";
 import { logger, settingsFor } from "../utils";
-import { ImportSuggestion } from "../types";
+import { ImportChoice, ImportSuggestion, RankedImportSuggestion } from "../types";
+import { ImportChoiceMemory } from "./ImportChoiceMemory";
 import { ImportHandler } from "./ImportHandler";
+import { ImportSuggestionRanker } from "./ImportSuggestionRanker";
+import { apiStabilityLabel } from "./ApiStability";
 
 /**
  * Turns the imports a Verse diagnostic suggests into quick fixes.
@@ -21,6 +24,13 @@ export class ImportCodeActionProvider implements vscode.CodeActionProvider {
     constructor(
         private outputChannel: vscode.OutputChannel,
         private importHandler: ImportHandler,
+        // Optional because only activation has workspace state to keep one
+        // in. Without it the menu keeps the extractor's order and no pick is
+        // remembered.
+        private choiceMemory?: ImportChoiceMemory,
+        // Optional for the same reason. Without it several options keep the
+        // extractor's order and carry no score.
+        private ranker?: ImportSuggestionRanker,
     ) {}
 
     /**
@@ -28,7 +38,10 @@ export class ImportCodeActionProvider implements vscode.CodeActionProvider {
      * undefined when they suggest none.
      *
      * The first action of each diagnostic is marked preferred, so which
-     * suggestion the editor offers first depends on the sort.
+     * suggestion the editor offers first depends on the sort: alphabetical
+     * when quickFix.sortAlphabetically is on, by the ranker's score otherwise.
+     * For a name with several options, the module the user has picked for it
+     * before leads whatever the sort.
      */
     async provideCodeActions(document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext, token: vscode.CancellationToken): Promise<vscode.CodeAction[] | undefined> {
         const codeActions: vscode.CodeAction[] = [];
@@ -38,6 +51,7 @@ export class ImportCodeActionProvider implements vscode.CodeActionProvider {
         // ever sees this fallback - config.get returns the registered default
         // otherwise, and package.json registers false.
         const showDescriptions = config.get<boolean>("quickFix.showDescriptions", false);
+        const choiceMemory = this.choiceMemory && ImportChoiceMemory.enabledFor(document.uri) ? this.choiceMemory : undefined;
 
         for (const diagnostic of context.diagnostics) {
             // Every cursor move near a diagnostic re-requests code actions, so
@@ -48,23 +62,39 @@ export class ImportCodeActionProvider implements vscode.CodeActionProvider {
                 return undefined;
             }
 
-            const suggestions = await this.importHandler.extractImportSuggestions(diagnostic.message, document.uri);
+            // A module behavior.restrictedImports forbids is not offered, so a
+            // diagnostic with another option offers only the others.
+            const suggestions = (await this.importHandler.extractImportSuggestions(diagnostic.message, document.uri)).filter(
+                (suggestion) => !suggestion.modulePath || !this.importHandler.importRestrictionFor(suggestion.modulePath, document.uri),
+            );
 
             if (suggestions.length === 0) {
                 continue;
             }
 
-            const sortedSuggestions = this.sortSuggestions(suggestions, sortAlphabetically);
+            // Only a pick out of several is a choice worth remembering, or
+            // worth ranking.
+            const rank = this.ranker && !sortAlphabetically && suggestions.length > 1;
+            const identifier = (choiceMemory || rank) && suggestions.length > 1 ? this.importHandler.identifierInMessage(diagnostic.message, document.uri) : null;
+
+            let sortedSuggestions: Array<ImportSuggestion | RankedImportSuggestion> = rank
+                ? await this.ranker!.rank(document, identifier, suggestions)
+                : this.sortSuggestions(suggestions, sortAlphabetically);
+            if (choiceMemory && identifier) {
+                sortedSuggestions = choiceMemory.rank(identifier, sortedSuggestions);
+            }
 
             logger.debug("ImportCodeActionProvider", `Creating ${sortedSuggestions.length} quick fix action(s) for diagnostic`);
 
             sortedSuggestions.forEach((suggestion, index) => {
+                const choice = choiceMemory && identifier && suggestion.modulePath ? { identifier, modulePath: suggestion.modulePath } : undefined;
                 const action = this.createQuickFixAction(
                     suggestion,
                     diagnostic,
                     document,
                     index === 0, // isPreferred
                     showDescriptions,
+                    choice,
                 );
                 codeActions.push(action);
             });
@@ -87,11 +117,32 @@ export class ImportCodeActionProvider implements vscode.CodeActionProvider {
         return sorted;
     }
 
-    private createQuickFixAction(suggestion: ImportSuggestion, diagnostic: vscode.Diagnostic, document: vscode.TextDocument, isPreferred: boolean, showDescriptions: boolean): vscode.CodeAction {
+    /**
+     * @param choice The pick this action makes, when it is one of several for
+     *   a name; the command records it.
+     */
+    private createQuickFixAction(
+        suggestion: ImportSuggestion | RankedImportSuggestion,
+        diagnostic: vscode.Diagnostic,
+        document: vscode.TextDocument,
+        isPreferred: boolean,
+        showDescriptions: boolean,
+        choice?: ImportChoice,
+    ): vscode.CodeAction {
         let title = `Add import: ${suggestion.importStatement}`;
         if (showDescriptions && suggestion.description) {
             title += ` (${suggestion.description})`;
         }
+        // Shown whatever quickFix.showDescriptions says: an island using an
+        // experimental API cannot be published, which is worth knowing before
+        // the import is written rather than after.
+        const stability = apiStabilityLabel(suggestion);
+        if (stability) {
+            title += ` (${stability})`;
+        }
+        if (showDescriptions && "score" in suggestion) {
+            title += ` [score ${suggestion.score.total}${suggestion.score.reasons.length > 0 ? `: ${suggestion.score.reasons.join(", ")}` : ""}]`;
+        }
 
         if (showDescriptions && suggestion.confidence !== "high") {
             const indicator = suggestion.confidence === "medium" ? "[medium confidence]" : "[low confidence]";
@@ -112,7 +163,7 @@ export class ImportCodeActionProvider implements vscode.CodeActionProvider {
         action.command = {
             title: "Add Import",
             command: "verseAutoImports.addSingleImport",
-            arguments: [document, suggestion.importStatement, { line: diagnostic.range.start.line, character: diagnostic.range.start.character }],
+            arguments: [document, suggestion.importStatement, { line: diagnostic.range.start.line, character: diagnostic.range.start.character }, ...(choice ? [choice] : [])],
         };
 
         return action;
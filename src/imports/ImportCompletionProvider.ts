@@ -0,0 +1,141 @@
+import * as vscode from "vscode";
+import { logger, settingsFor } from "../utils";
+import { endsInCode } from "../utils/verseText";
+import { ImportableIdentifier } from "../types";
+import { ImportHandler } from "./ImportHandler";
+import { LINE_SPLIT, ScannedImport, scanModuleImports } from "./ImportScanner";
+import { apiStabilityLabel } from "./ApiStability";
+
+/** The completion kind each declaration kind is shown with; anything unlisted is Text. */
+const KIND_BY_TYPE: Record<string, vscode.CompletionItemKind> = {
+    class: vscode.CompletionItemKind.Class,
+    struct: vscode.CompletionItemKind.Struct,
+    interface: vscode.CompletionItemKind.Interface,
+    enum: vscode.CompletionItemKind.Enum,
+    function: vscode.CompletionItemKind.Function,
+    variable: vscode.CompletionItemKind.Variable,
+};
+
+/** An item that remembers what it would import, and where, for resolveCompletionItem. */
+class ImportCompletionItem extends vscode.CompletionItem {
+    constructor(
+        readonly importable: ImportableIdentifier,
+        readonly document: vscode.TextDocument,
+        readonly wordStart: vscode.Position,
+    ) {
+        super(importable.identifier, KIND_BY_TYPE[importable.type] ?? vscode.CompletionItemKind.Text);
+        const stability = apiStabilityLabel(importable);
+        this.detail = stability ? `${importable.modulePath} (${stability})` : importable.modulePath;
+        if (importable.deprecated) {
+            this.tags = [vscode.CompletionItemTag.Deprecated];
+        }
+    }
+}
+
+/**
+ * Offers the names the digests and the project declare in modules the file
+ * does not import yet, and imports the module when one is accepted, so the
+ * `using` lands with the name instead of after a compiler error and the
+ * auto-import debounce.
+ *
+ * A name already reachable through one of the file's imports is not offered:
+ * the language server completes those itself.
+ *
+ * The import is computed in resolveCompletionItem rather than for the whole
+ * list. Placing it reads the document and, for a relative project import,
+ * searches the workspace; the list runs to thousands of names, and only the one
+ * the user settles on needs it.
+ */
+export class ImportCompletionProvider implements vscode.CompletionItemProvider<ImportCompletionItem> {
+    constructor(private importHandler: ImportHandler) {}
+
+    async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<ImportCompletionItem[] | undefined> {
+        if (!settingsFor(document.uri).get<boolean>("completion.suggestImports", true)) {
+            return undefined;
+        }
+
+        // Only once a name has been started. On an empty word every trigger
+        // character would open a list of the whole API.
+        const wordRange = document.getWordRangeAtPosition(position);
+        if (!wordRange || wordRange.start.character === position.character) {
+            return undefined;
+        }
+
+        const text = document.getText();
+        const lines = text.split(LINE_SPLIT);
+        const scannedImports = scanModuleImports(lines);
+
+        if (!this.isCompletingAName(lines, wordRange.start, position) || this.isInImport(lines[position.line] ?? "", position.line, scannedImports)) {
+            return undefined;
+        }
+
+        const importedPaths = new Set(scannedImports.map((imp) => imp.path));
+        const importables = await this.importHandler.listImportableIdentifiers(document.uri);
+        if (token.isCancellationRequested) {
+            return undefined;
+        }
+
+        // A name with any of its modules imported is in scope already, and
+        // offering it again from another module would add an import the
+        // reference does not need.
+        const inScope = new Set(importables.filter((importable) => importedPaths.has(importable.modulePath)).map((importable) => importable.identifier));
+
+        // A module behavior.restrictedImports forbids is not offered: accepting
+        // the item would write its import.
+        return importables
+            .filter((importable) => !inScope.has(importable.identifier) && !this.importHandler.importRestrictionFor(importable.modulePath, document.uri))
+            .map((importable) => new ImportCompletionItem(importable, document, wordRange.start));
+    }
+
+    /**
+     * Attaches the import the item stands for, as edits applied with the
+     * accepted name, placed the way addImportsToDocument places an import.
+     *
+     * An edit that reaches the word being completed is dropped, and the name is
+     * completed without its import: VS Code refuses additional edits that
+     * overlap the completion's own, and the auto-import still follows the
+     * compiler error.
+     */
+    async resolveCompletionItem(item: ImportCompletionItem): Promise<ImportCompletionItem> {
+        try {
+            const statement = await this.importHandler.importStatementFor(item.importable, item.document.uri);
+            const edits = this.importHandler.computeAddImportEdits(item.document, [statement]);
+
+            item.documentation = `Adds ${statement}`;
+            if (edits && edits.every((edit) => this.endsBefore(edit.range.end, item.wordStart))) {
+                item.additionalTextEdits = edits;
+            }
+        } catch (error) {
+            logger.error("ImportCompletionProvider", `Error resolving the import for ${item.importable.identifier}`, error);
+        }
+        return item;
+    }
+
+    /**
+     * Whether the word is a name in code rather than a member after a `.`, or
+     * text inside a comment or a string.
+     *
+     * Read from the top of the file. See endsInCode.
+     */
+    private isCompletingAName(lines: string[], wordStart: vscode.Position, position: vscode.Position): boolean {
+        const line = lines[position.line] ?? "";
+        if (wordStart.character > 0 && line[wordStart.character - 1] === ".") {
+            return false;
+        }
+
+        const throughCursor = [...lines.slice(0, position.line), line.slice(0, position.character)].join("\n");
+        return endsInCode(throughCursor, position.character - wordStart.character);
+    }
+
+    /**
+     * Whether the line belongs to an import: one the scanner reads, or one
+     * still being typed, which does not scan as an import until it is closed.
+     */
+    private isInImport(line: string, lineNumber: number, scannedImports: ScannedImport[]): boolean {
+        return /^\s*using\b/.test(line) || scannedImports.some((imp) => lineNumber >= imp.startLine && lineNumber <= imp.endLine);
+    }
+
+    private endsBefore(end: vscode.Position, wordStart: vscode.Position): boolean {
+        return end.line < wordStart.line || (end.line === wordStart.line && end.character <= wordStart.character);
+    }
+}
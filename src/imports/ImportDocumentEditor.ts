@@ -1,8 +1,11 @@
 import * as vscode from "vscode";
 import { logger, settingsFor } from "../utils";
-import { DiagnosticPosition, DiagnosticPositionsByPath, DiagnosticPositionsByStatement } from "../types";
+import { DiagnosticPosition, DiagnosticPositionsByPath, DiagnosticPositionsByStatement, DuplicateImportGroup, ImportAtLine, ImportReplacement, ImportRewriteOutcome } from "../types";
+import { ImportEditContext, applyImportEdit, previewEntry, previewImportEditsFor, previewedSplices } from "./ImportEditPreview";
 import { ImportFormatter } from "./ImportFormatter";
+import { CompiledImportGroup, ImportGroupRules } from "./ImportGroupRules";
 import { verifyOrganizedRewrite } from "./ImportRewriteGuard";
+import { findUnusedImports, ImportExports } from "./ImportUsageAnalyzer";
 import {
     allUsingPaths,
     classifyLines,
@@ -282,6 +285,44 @@ function attachedCommentStart(importStartLine: number, classifications: LineClas
     return start;
 }
 
+/**
+ * The header comments the `custom` grouping writes above its groups, which a
+ * rebuild recognises as its own and writes afresh rather than keeping. Empty
+ * under every other grouping, where a comment is always the author's.
+ */
+function groupHeaderLines(importGrouping: string, groups: readonly CompiledImportGroup[]): ReadonlySet<string> {
+    return new Set(importGrouping === "custom" ? groups.flatMap((group) => (group.header ? [group.header] : [])) : []);
+}
+
+/**
+ * The first line of the run of group headers directly above `line`, or `line`
+ * itself when there is none. A line inside a block comment opened above it is
+ * that comment's text, whatever it reads, and ends the run.
+ */
+function groupHeaderRunStart(line: number, lines: string[], classifications: LineClassification[], headers: ReadonlySet<string>): number {
+    let start = line;
+    while (start > 0 && classifications[start - 1].kind === "comment" && !classifications[start - 1].continuesCommentAbove && headers.has(lines[start - 1].trim())) {
+        start--;
+    }
+    return start;
+}
+
+/**
+ * headerLineCount, less the run of group headers it ends with where an import
+ * follows that run directly: the custom grouping writes its first group's
+ * header there in a file with no header of its own, and it belongs to the
+ * block rather than to the file. What is left is a header only while it still
+ * holds a comment, as in headerLineCount.
+ */
+function headerLineCountAboveGroupHeaders(lines: string[], classifications: LineClassification[], headers: ReadonlySet<string>, importStartLines: ReadonlySet<number>): number {
+    const end = headerLineCount(classifications);
+    if (!importStartLines.has(end)) {
+        return end;
+    }
+    const start = groupHeaderRunStart(end, lines, classifications, headers);
+    return start === end || classifications.slice(0, start).some((classification) => classification.kind === "comment") ? start : 0;
+}
+
 /**
  * The last line a pinned import owns: its own statement, plus the body of any
  * comment it opens below it.
@@ -383,11 +424,40 @@ interface PinnedBounds {
  */
 const NO_DIAGNOSTIC_POSITIONS: DiagnosticPositionsByPath = new Map();
 
+/**
+ * What an add wrote: the paths are empty unless the outcome is "applied".
+ * After a preview they are the paths offered, which the reviewer may have
+ * unticked.
+ */
+export interface AddedImports {
+    outcome: ImportRewriteOutcome;
+    addedPaths: string[];
+}
+
+/** The parts of ImportEditContext a writer knows; see applyRebuiltText. */
+type EditReasons = Partial<Pick<ImportEditContext, "diagnosticPositionsByPath" | "removedUnusedPaths">>;
+
+/** What applyRebuiltText logs for each way a rewrite can end. */
+type RewriteMessages = { unchanged: string; refuse: string; applied: string; failed: string; errored: string };
+
+/**
+ * How staging a rewrite into a shared edit ended: "staged" when its entries
+ * were added to the edit, which writes nothing until the edit is applied.
+ */
+export type StagedRewriteOutcome = "staged" | "unchanged" | "refused";
+
+/** Whether the document holds the rewritten text after an outcome, which it does when none was needed too. */
+function rewriteSucceeded(outcome: ImportRewriteOutcome): boolean {
+    return outcome === "applied" || outcome === "unchanged";
+}
+
 /** The options every rebuild takes, whichever placement policy runs it. */
 export interface RebuildOptions {
     preferDotSyntax: boolean;
     sortAlphabetically: boolean;
     importGrouping: string;
+    /** The `behavior.importGroups` rules, which only the `custom` grouping reads. */
+    importGroups?: readonly CompiledImportGroup[];
     /** Line ending to use when the text has no line break to detect one from. */
     fallbackEol?: LineEnding;
 }
@@ -405,6 +475,7 @@ export interface RebuildOptions {
  */
 export class ImportDocumentEditor {
     private readonly formatter: ImportFormatter;
+    private readonly groupRules = new ImportGroupRules();
 
     /**
      * The write queued last for each document, keyed on its URI, or no entry
@@ -807,6 +878,30 @@ export class ImportDocumentEditor {
         return { start, endExclusive: start, newLines };
     }
 
+    /**
+     * The block each new path joins under the `custom` grouping: the last block
+     * holding only imports of the path's own group, or -1 where none does, for
+     * buildPreservedContent to write it elsewhere. A block mixing groups is
+     * evidence of nothing, as it is for the built-in strategies.
+     *
+     * The last block rather than the first, for the relative group's sake: a
+     * relative path may resolve through anything above it, and an absolute
+     * group goes in one block either way once it has been organized.
+     */
+    private customGroupRoutes(importBlocks: ImportBlock[], newImportPaths: Iterable<string>, importGroups: readonly CompiledImportGroup[]): Array<[number, string[]]> {
+        const blockPositions = importBlocks.map((block) => {
+            const positions = new Set(block.imports.map((imp) => this.formatter.customGroupPosition(imp.path, importGroups)));
+            return positions.size === 1 ? [...positions][0] : -1;
+        });
+
+        const pathsByBlock = new Map<number, string[]>();
+        for (const path of newImportPaths) {
+            const blockIndex = blockPositions.lastIndexOf(this.formatter.customGroupPosition(path, importGroups));
+            pathsByBlock.set(blockIndex, [...(pathsByBlock.get(blockIndex) ?? []), path]);
+        }
+        return [...pathsByBlock];
+    }
+
     /**
      * A splice rebuilding a block's line range as `newLines`. Each spliced
      * line is written with an ending after it, so a block ending the document
@@ -871,13 +966,71 @@ export class ImportDocumentEditor {
      *   import that failed to resolve from one that merely looks like it could.
      */
     async addImportsToDocument(document: vscode.TextDocument, importStatements: string[], diagnosticPositionsByStatement?: DiagnosticPositionsByStatement): Promise<boolean> {
+        return rewriteSucceeded((await this.addImportsWithOutcome(document, importStatements, diagnosticPositionsByStatement)).outcome);
+    }
+
+    /**
+     * addImportsToDocument, answering how the rewrite ended and which paths it
+     * wrote. The paths are decided inside the write, against the text the
+     * write read, so a caller recording what was added cannot claim a path an
+     * earlier write in the queue had already imported.
+     */
+    async addImportsWithOutcome(document: vscode.TextDocument, importStatements: string[], diagnosticPositionsByStatement?: DiagnosticPositionsByStatement): Promise<AddedImports> {
         return this.serialize(document, () => this.applyImports(document, importStatements, diagnosticPositionsByStatement));
     }
 
     /** addImportsToDocument, without the wait for the writes ahead of it. */
-    private async applyImports(document: vscode.TextDocument, importStatements: string[], diagnosticPositionsByStatement?: DiagnosticPositionsByStatement): Promise<boolean> {
+    private async applyImports(document: vscode.TextDocument, importStatements: string[], diagnosticPositionsByStatement?: DiagnosticPositionsByStatement): Promise<AddedImports> {
         logger.info("ImportDocumentEditor", `Adding ${importStatements.length} import statements to document`);
 
+        const text = document.getText();
+        const addition = this.composeAddition(document, text, importStatements, diagnosticPositionsByStatement);
+
+        if (!addition) {
+            logger.debug("ImportDocumentEditor", "No new imports needed, skipping update");
+            return { outcome: "unchanged", addedPaths: [] };
+        }
+
+        const { target, requestedPaths, diagnosticPositionsByPath } = addition;
+
+        // Neither builder may answer null here: the paths are non-empty and
+        // none is imported yet, so a null is buildPreservedContent refusing
+        // colliding splices rather than "nothing to do".
+        if (target === null) {
+            logger.error("ImportDocumentEditor", "Refusing to update imports: the rebuilt text could not be composed");
+            return { outcome: "refused", addedPaths: [] };
+        }
+
+        const outcome = await this.applyRebuiltText(
+            document,
+            text,
+            target,
+            requestedPaths,
+            {
+                unchanged: "No import changes needed, skipping update",
+                refuse: "Refusing to update imports",
+                applied: "Successfully updated imports in document",
+                failed: "Failed to update imports in document",
+                errored: "Error updating imports",
+            },
+            [],
+            { diagnosticPositionsByPath },
+        );
+        return { outcome, addedPaths: outcome === "applied" ? requestedPaths : [] };
+    }
+
+    /**
+     * The text adding these statements to `text` would produce, under the
+     * document's settings, with the paths it adds; or null when every
+     * statement's path is already imported. A null `target` is a rebuild that
+     * could not be composed. See buildPreservedContent.
+     */
+    private composeAddition(
+        document: vscode.TextDocument,
+        text: string,
+        importStatements: string[],
+        diagnosticPositionsByStatement?: DiagnosticPositionsByStatement,
+    ): { target: string | null; requestedPaths: string[]; diagnosticPositionsByPath: DiagnosticPositionsByPath } | null {
         const config = settingsFor(document.uri);
         const preferDotSyntax = config.get<string>("behavior.importSyntax", "curly") === "dot";
         const preserveImportLocations = config.get<boolean>("behavior.preserveImportLocations", true);
@@ -889,8 +1042,6 @@ export class ImportDocumentEditor {
             logger.debug("ImportDocumentEditor", `- ${statement}`);
         });
 
-        const text = document.getText();
-
         // Existence is judged from every import, a pinned one included: it is
         // imported, so nothing needs adding for it.
         const existingPaths = new Set<string>(scanModuleImports(text.split(LINE_SPLIT)).map((imp) => imp.path));
@@ -915,80 +1066,143 @@ export class ImportDocumentEditor {
         });
 
         if (newImportPaths.size === 0) {
-            logger.debug("ImportDocumentEditor", "No new imports needed, skipping update");
-            return true;
+            return null;
         }
 
-        const options: RebuildOptions = { preferDotSyntax, sortAlphabetically, importGrouping, fallbackEol: documentEol(document) };
+        const options: RebuildOptions = { preferDotSyntax, sortAlphabetically, importGrouping, importGroups: this.importGroupsFor(document, importGrouping), fallbackEol: documentEol(document) };
         const requestedPaths = Array.from(newImportPaths);
         const target = preserveImportLocations
             ? this.buildPreservedContent(text, requestedPaths, options, diagnosticPositionsByPath)
             : this.buildOrganizedContent(text, requestedPaths, options, diagnosticPositionsByPath);
 
-        // Neither builder may answer null here: the paths are non-empty and
-        // none is imported yet, so a null is buildPreservedContent refusing
-        // colliding splices rather than "nothing to do".
-        if (target === null) {
-            logger.error("ImportDocumentEditor", "Refusing to update imports: the rebuilt text could not be composed");
-            return false;
+        return { target, requestedPaths, diagnosticPositionsByPath };
+    }
+
+    /**
+     * The edits addImportsToDocument would make, unapplied: empty when every
+     * path is already imported, and null where it would refuse. For a
+     * completion item, whose import has to arrive as edits VS Code applies
+     * together with the accepted text.
+     *
+     * Not serialized: nothing is written, and the edits are computed against
+     * the text as it is now, which is the text VS Code applies them to. The
+     * spacing pass after the block is left out; the save participant runs it.
+     */
+    computeAddImportEdits(document: vscode.TextDocument, importStatements: string[]): vscode.TextEdit[] | null {
+        const text = document.getText();
+        const addition = this.composeAddition(document, text, importStatements);
+        if (!addition || addition.target === text) {
+            return [];
+        }
+        if (addition.target === null) {
+            return null;
         }
 
-        return this.applyRebuiltText(document, text, target, requestedPaths, {
-            unchanged: "No import changes needed, skipping update",
-            refuse: "Refusing to update imports",
-            applied: "Successfully updated imports in document",
-            failed: "Failed to update imports in document",
-            errored: "Error updating imports",
-        });
+        const refusal = verifyOrganizedRewrite(text, addition.target, addition.requestedPaths, []);
+        if (refusal) {
+            logger.debug("ImportDocumentEditor", `Not offering an import edit: ${refusal}`);
+            return null;
+        }
+
+        const splice = minimalSplice(text, addition.target)!;
+        return [vscode.TextEdit.replace(new vscode.Range(positionAt(text, splice.start), positionAt(text, splice.end)), splice.newText)];
     }
 
     /**
      * Applies a rebuilt document text as one minimal, line-aligned edit, after
-     * the rewrite guard has read the whole text back. True when the target
-     * already matches the document.
+     * the rewrite guard has read the whole text back. "unchanged" when the
+     * target already matches the document.
      *
      * `text` must be the exact string the rebuild read: the splice's offsets
      * are coordinates in it, and reading the document again here would hand
      * them to a buffer an edit may have moved under us.
+     *
+     * With `general.previewImportEdits` on for the document, the edit goes
+     * through the refactor preview instead, one entry per changed run of
+     * lines (see previewedSplices), and the spacing pass is left to the save
+     * participant: run here it would be a second edit the reviewer never saw.
+     *
+     * @param removedPaths Paths the rewrite deletes on purpose.
+     * @param reasons What only the preview's labels read.
      */
     private async applyRebuiltText(
         document: vscode.TextDocument,
         text: string,
         target: string,
         requestedPaths: readonly string[],
-        messages: { unchanged: string; refuse: string; applied: string; failed: string; errored: string },
-    ): Promise<boolean> {
+        messages: RewriteMessages,
+        removedPaths: readonly string[] = [],
+        reasons: EditReasons = {},
+    ): Promise<ImportRewriteOutcome> {
         if (target === text) {
             logger.debug("ImportDocumentEditor", messages.unchanged);
-            return true;
+            return "unchanged";
         }
 
-        const refusal = verifyOrganizedRewrite(text, target, requestedPaths);
+        const refusal = verifyOrganizedRewrite(text, target, requestedPaths, removedPaths);
         if (refusal) {
             logger.error("ImportDocumentEditor", `${messages.refuse}: ${refusal}`);
-            return false;
+            return "refused";
         }
 
-        // Null only for equal texts, which the skip above already answered.
-        const splice = minimalSplice(text, target)!;
+        const previewed = previewImportEditsFor(document.uri);
         const edit = new vscode.WorkspaceEdit();
-        edit.replace(document.uri, new vscode.Range(positionAt(text, splice.start), positionAt(text, splice.end)), splice.newText);
+        this.addRebuiltText(edit, document, text, target, previewed ? this.editContext(document, reasons) : undefined);
 
         try {
-            const success = await vscode.workspace.applyEdit(edit);
+            const success = await applyImportEdit(edit, previewed);
             logger.info("ImportDocumentEditor", success ? messages.applied : messages.failed);
 
-            if (success) {
+            if (success && !previewed) {
                 await this.applyEmptyLinesAfterImports(document);
             }
 
-            return success;
+            return success ? "applied" : "failed";
         } catch (error) {
             logger.error("ImportDocumentEditor", `${messages.errored}: ${error}`, error);
-            return false;
+            return "failed";
         }
     }
 
+    /**
+     * Adds the entries that turn `text` into `target` to `edit`: the one
+     * minimal splice, or with a `context` the previewed runs labelled by it.
+     * The texts must differ.
+     */
+    private addRebuiltText(edit: vscode.WorkspaceEdit, document: vscode.TextDocument, text: string, target: string, context?: ImportEditContext): void {
+        const range = (start: number, end: number): vscode.Range => new vscode.Range(positionAt(text, start), positionAt(text, end));
+
+        if (!context) {
+            const splice = minimalSplice(text, target)!;
+            edit.replace(document.uri, range(splice.start, splice.end), splice.newText);
+            return;
+        }
+
+        for (const splice of previewedSplices(text, target, context)) {
+            edit.replace(document.uri, range(splice.start, splice.end), splice.newText, splice.metadata);
+        }
+    }
+
+    /** What the preview's labels read about a rewrite of this document. */
+    private editContext(document: vscode.TextDocument, { diagnosticPositionsByPath = NO_DIAGNOSTIC_POSITIONS, removedUnusedPaths = [] }: EditReasons): ImportEditContext {
+        const importGrouping = settingsFor(document.uri).get<string>("behavior.importGrouping", "none");
+        const importGroups = this.importGroupsFor(document, importGrouping);
+        return {
+            diagnosticPositionsByPath,
+            removedUnusedPaths,
+            groupOf: (path) => this.formatter.importGroupName(path, importGrouping, importGroups),
+        };
+    }
+
+    /**
+     * The document's `behavior.importGroups` rules where its grouping is
+     * `custom`, and none otherwise: the rules are not read, or warned about,
+     * while nothing uses them.
+     */
+    private importGroupsFor(document: vscode.TextDocument, importGrouping: string): readonly CompiledImportGroup[] {
+        return importGrouping === "custom" ? this.groupRules.groupsFor(document.uri) : [];
+    }
+
     /**
      * The document text with `additionalPaths` written in where the
      * preserve-locations policy puts them: merged into an existing block,
@@ -1003,7 +1217,7 @@ export class ImportDocumentEditor {
      * twice by colliding splices would pass it.
      */
     buildPreservedContent(text: string, additionalPaths: string[], options: RebuildOptions, diagnosticPositionsByPath: DiagnosticPositionsByPath = NO_DIAGNOSTIC_POSITIONS): string | null {
-        const { preferDotSyntax, sortAlphabetically, importGrouping } = options;
+        const { preferDotSyntax, sortAlphabetically, importGrouping, importGroups = [] } = options;
         const eol = detectEol(text) ?? options.fallbackEol ?? "\n";
         const lines = text.split(LINE_SPLIT);
         const scannedImports = scanModuleImports(lines);
@@ -1139,11 +1353,17 @@ export class ImportDocumentEditor {
             const takenByBlock = new Map<number, string[]>();
             const unhandledPaths: string[] = [];
 
-            for (const [blockIndex, paths] of [
-                [digestBlockIndex, newDigestPaths],
-                [firstLocalBlockIndex, newLocalAbsolutePaths],
-                [lastLocalBlockIndex, newLocalRelativePaths],
-            ] as Array<[number, string[]]>) {
+            // The custom grouping routes by its own rules, and reads none of
+            // the digest and local indices above.
+            const routes: Array<[number, string[]]> =
+                importGrouping === "custom"
+                    ? this.customGroupRoutes(importBlocks, newImportPaths, importGroups)
+                    : [
+                          [digestBlockIndex, newDigestPaths],
+                          [firstLocalBlockIndex, newLocalAbsolutePaths],
+                          [lastLocalBlockIndex, newLocalRelativePaths],
+                      ];
+            for (const [blockIndex, paths] of routes) {
                 const { taken, unhandled } = splitForBlock(blockIndex, paths);
                 if (taken.length > 0) {
                     takenByBlock.set(blockIndex, [...(takenByBlock.get(blockIndex) ?? []), ...taken]);
@@ -1162,7 +1382,14 @@ export class ImportDocumentEditor {
             if (unhandledPaths.length > 0) {
                 const desired = importBlocks.length > 0 ? importBlocks[importBlocks.length - 1].end + 1 : headerEnd;
                 for (const [line, paths] of this.groupByPlacementLine(unhandledPaths, desired, pinned, classifications, diagnosticPositionsByPath)) {
-                    splices.push(this.insertSplice(line, lines.length, this.formatter.groupAndFormatImports(paths, preferDotSyntax, sortAlphabetically, importGrouping), importBlocks.length === 0));
+                    splices.push(
+                        this.insertSplice(
+                            line,
+                            lines.length,
+                            this.formatter.groupAndFormatImports(paths, preferDotSyntax, sortAlphabetically, importGrouping, importGroups),
+                            importBlocks.length === 0,
+                        ),
+                    );
                 }
             }
         } else if (importGrouping !== "none" && existingPaths.size > 0) {
@@ -1183,7 +1410,7 @@ export class ImportDocumentEditor {
             const allPaths = new Set<string>([...relocatablePaths, ...newImportPaths].filter((path) => !displaced.has(path)));
             const allImportsArray = Array.from(allPaths);
             const groupedImports = this.withTrailingComments(
-                this.formatter.groupAndFormatImports(allImportsArray, preferDotSyntax, sortAlphabetically, importGrouping),
+                this.formatter.groupAndFormatImports(allImportsArray, preferDotSyntax, sortAlphabetically, importGrouping, importGroups),
                 this.trailingCommentsByStatement(rewritableImports(scannedImports), preferDotSyntax),
             );
 
@@ -1192,8 +1419,13 @@ export class ImportDocumentEditor {
                 // rather than moving to the top of the file. The loop
                 // over any further block is defensive: this branch sees
                 // only one, as above.
+                //
+                // The custom grouping's header above the block is its own,
+                // written afresh with the groups, so the splice takes it in
+                // rather than leaving it to stand above a second copy.
                 const firstBlock = importBlocks[0];
-                splices.push(this.blockSplice(firstBlock, groupedImports));
+                const headerStart = groupHeaderRunStart(firstBlock.start, lines, classifications, groupHeaderLines(importGrouping, importGroups));
+                splices.push({ ...this.blockSplice(firstBlock, groupedImports), start: headerStart });
 
                 for (let i = importBlocks.length - 1; i >= 1; i--) {
                     const block = importBlocks[i];
@@ -1201,7 +1433,7 @@ export class ImportDocumentEditor {
                 }
 
                 for (const [line, paths] of this.groupByPlacementLine(displacedPaths, firstBlock.end + 1, pinned, classifications, diagnosticPositionsByPath)) {
-                    splices.push(this.insertSplice(line, lines.length, this.formatter.groupAndFormatImports(paths, preferDotSyntax, sortAlphabetically, importGrouping), false));
+                    splices.push(this.insertSplice(line, lines.length, this.formatter.groupAndFormatImports(paths, preferDotSyntax, sortAlphabetically, importGrouping, importGroups), false));
                 }
             } else {
                 // No existing block - write the imports at the top, or
@@ -1218,7 +1450,7 @@ export class ImportDocumentEditor {
                 // block means none of them, which is also why the
                 // trailing comments here are always empty.
                 for (const [line, paths] of this.groupByPlacementLine(allImportsArray, headerEnd, pinned, classifications, diagnosticPositionsByPath)) {
-                    splices.push(this.insertSplice(line, lines.length, this.formatter.groupAndFormatImports(paths, preferDotSyntax, sortAlphabetically, importGrouping), true));
+                    splices.push(this.insertSplice(line, lines.length, this.formatter.groupAndFormatImports(paths, preferDotSyntax, sortAlphabetically, importGrouping, importGroups), true));
                 }
             }
         } else {
@@ -1306,7 +1538,7 @@ export class ImportDocumentEditor {
                 // eligible, so an unblocked one always has a floor or a
                 // ceiling, and both sit at or below the header's end.
                 for (const [line, paths] of this.groupByPlacementLine(unblockedPaths, headerEnd, pinned, classifications, diagnosticPositionsByPath)) {
-                    splices.push(this.insertSplice(line, lines.length, this.formatter.groupAndFormatImports(paths, preferDotSyntax, true, importGrouping), true));
+                    splices.push(this.insertSplice(line, lines.length, this.formatter.groupAndFormatImports(paths, preferDotSyntax, true, importGrouping, importGroups), true));
                 }
             } else {
                 // Sorting off, or no block to merge into: the new
@@ -1333,7 +1565,7 @@ export class ImportDocumentEditor {
                 const blankLineAfter = importBlocks.length === 0;
 
                 for (const [line, paths] of this.groupByPlacementLine(newImportPathsArray, desired, pinned, classifications, diagnosticPositionsByPath)) {
-                    splices.push(this.insertSplice(line, lines.length, this.formatter.groupAndFormatImports(paths, preferDotSyntax, sortAlphabetically, importGrouping), blankLineAfter));
+                    splices.push(this.insertSplice(line, lines.length, this.formatter.groupAndFormatImports(paths, preferDotSyntax, sortAlphabetically, importGrouping, importGroups), blankLineAfter));
                 }
             }
         }
@@ -1385,7 +1617,6 @@ export class ImportDocumentEditor {
         const eol = detectEol(text) ?? options.fallbackEol ?? "\n";
         const lines = text.split(LINE_SPLIT);
         const classifications = classifyLines(lines);
-        const headerEnd = headerLineCount(classifications);
         // A pinned import - one anchored by a comment marker, or one sharing its
         // span with another statement - is neither hoisted nor removed from the
         // body: its line stays exactly where it is, and the rest of the file is
@@ -1407,6 +1638,13 @@ export class ImportDocumentEditor {
         const grounded = this.groundedPaths(pinned, movableImports);
         const hoistableImports = movableImports.filter((imp) => !grounded.has(imp.path));
 
+        // The custom grouping's headers are rebuilt with the block, so the
+        // one above the first group is not the file's header, and none is an
+        // import's annotation to carry along.
+        const importGroups = options.importGroups ?? [];
+        const groupHeaders = groupHeaderLines(options.importGrouping, importGroups);
+        const headerEnd = headerLineCountAboveGroupHeaders(lines, classifications, groupHeaders, new Set(hoistableImports.map((imp) => imp.startLine)));
+
         // A path the file already imports is not written again, whichever
         // statement holds it - pinned, grounded, or hoisted into the block. The
         // block's own deduplication answers for none of them once a path can be
@@ -1522,11 +1760,11 @@ export class ImportDocumentEditor {
             // Deduplication keeps one statement for a repeated path, so its
             // comments are concatenated rather than replaced: writing only the
             // last one would delete text the author wrote.
-            commentsByPath.set(imp.path, [...(commentsByPath.get(imp.path) ?? []), ...lines.slice(commentStart, imp.startLine)]);
+            commentsByPath.set(imp.path, [...(commentsByPath.get(imp.path) ?? []), ...lines.slice(commentStart, imp.startLine).filter((line) => !groupHeaders.has(line.trim()))]);
         }
 
         const uniquePaths = Array.from(new Set([...paths, ...topExtraPaths]));
-        const formatted = this.formatter.groupAndFormatImports(uniquePaths, options.preferDotSyntax, options.sortAlphabetically, options.importGrouping);
+        const formatted = this.formatter.groupAndFormatImports(uniquePaths, options.preferDotSyntax, options.sortAlphabetically, options.importGrouping, importGroups);
 
         // Put each comment back above the statement it was written for,
         // wherever the sort has since placed that statement. Keying on the
@@ -1601,50 +1839,372 @@ export class ImportDocumentEditor {
         return spliceLines(text, splices, eol);
     }
 
+    /**
+     * The text with each of `imports` deleted, together with the comment run
+     * written against it, or null when the deletions collide.
+     *
+     * The comments go because they annotate a statement that no longer exists,
+     * which is the same call buildOrganizedContent makes for a withheld
+     * duplicate. A comment the file opens with is a header and stays; see
+     * headerLineCount.
+     *
+     * Give it rewritable imports only. A pinned import's span holds text the
+     * path does not, and deleting the span deletes that too.
+     */
+    withoutImports(text: string, imports: readonly ScannedImport[], eol: LineEnding): string | null {
+        const classifications = classifyLines(text.split(LINE_SPLIT));
+        const headerEnd = headerLineCount(classifications);
+        const splices = imports.map((imp) => ({ start: attachedCommentStart(imp.startLine, classifications, headerEnd), endExclusive: imp.endLine + 1, newLines: [] }));
+        return spliceLines(text, splices, eol);
+    }
+
     /**
      * Rebuilds the document's import block in a single atomic edit: existing
      * imports plus the given additional paths, deduplicated, grouped, sorted,
      * and written in the preferred syntax at the top of the file. Unlike
      * addImportsToDocument this reorganizes even when nothing new is added.
+     *
+     * @param unusedImportExports Pass these to delete the imports that bring
+     *   nothing the file refers to into scope (findUnusedImports) before the
+     *   block is rebuilt. An import the compiler is asking for in
+     *   `additionalPaths` is never deleted, whatever the analysis says.
+     */
+    async organizeImports(
+        document: vscode.TextDocument,
+        additionalPaths: string[],
+        diagnosticPositionsByPath: DiagnosticPositionsByPath = NO_DIAGNOSTIC_POSITIONS,
+        unusedImportExports?: ImportExports,
+    ): Promise<boolean> {
+        return rewriteSucceeded(await this.organizeImportsWithOutcome(document, additionalPaths, diagnosticPositionsByPath, unusedImportExports));
+    }
+
+    /**
+     * organizeImports, answering how it ended rather than only whether the
+     * document holds the organized text, for a caller that reports a guard
+     * refusal apart from a rejected edit.
+     */
+    async organizeImportsWithOutcome(
+        document: vscode.TextDocument,
+        additionalPaths: string[],
+        diagnosticPositionsByPath: DiagnosticPositionsByPath = NO_DIAGNOSTIC_POSITIONS,
+        unusedImportExports?: ImportExports,
+    ): Promise<ImportRewriteOutcome> {
+        return this.serialize(document, () => this.applyOrganizedImports(document, additionalPaths, diagnosticPositionsByPath, unusedImportExports));
+    }
+
+    /**
+     * organizeImports into a shared edit rather than the document: the entries
+     * go into `edit` as previewed ones, and nothing is written until the caller
+     * applies it. For a run over many files that the reviewer approves in one
+     * preview.
+     *
+     * Read in the document's write queue like any write, but the queue moves
+     * on before the edit is applied, so the caller must check the document has
+     * not changed since.
      */
-    async organizeImports(document: vscode.TextDocument, additionalPaths: string[], diagnosticPositionsByPath: DiagnosticPositionsByPath = NO_DIAGNOSTIC_POSITIONS): Promise<boolean> {
-        return this.serialize(document, () => this.applyOrganizedImports(document, additionalPaths, diagnosticPositionsByPath));
+    async stageOrganizedImports(
+        edit: vscode.WorkspaceEdit,
+        document: vscode.TextDocument,
+        additionalPaths: string[],
+        diagnosticPositionsByPath: DiagnosticPositionsByPath = NO_DIAGNOSTIC_POSITIONS,
+        unusedImportExports?: ImportExports,
+    ): Promise<StagedRewriteOutcome> {
+        return this.serialize(document, async () => {
+            const text = document.getText();
+            const organized = this.composeOrganized(document, text, additionalPaths, diagnosticPositionsByPath, unusedImportExports);
+            if (organized === null || organized.target === text) {
+                logger.debug("ImportDocumentEditor", "No import changes needed by organize");
+                return "unchanged";
+            }
+
+            const refusal = verifyOrganizedRewrite(text, organized.target, additionalPaths, organized.removedPaths);
+            if (refusal) {
+                logger.error("ImportDocumentEditor", `Refusing to organize imports: ${refusal}`);
+                return "refused";
+            }
+
+            this.addRebuiltText(edit, document, text, organized.target, this.editContext(document, { diagnosticPositionsByPath, removedUnusedPaths: organized.removedPaths }));
+            return "staged";
+        });
     }
 
     /** organizeImports, without the wait for the writes ahead of it. */
-    private async applyOrganizedImports(document: vscode.TextDocument, additionalPaths: string[], diagnosticPositionsByPath: DiagnosticPositionsByPath): Promise<boolean> {
+    private async applyOrganizedImports(
+        document: vscode.TextDocument,
+        additionalPaths: string[],
+        diagnosticPositionsByPath: DiagnosticPositionsByPath,
+        unusedImportExports: ImportExports | undefined,
+    ): Promise<ImportRewriteOutcome> {
+        const text = document.getText();
+        const organized = this.composeOrganized(document, text, additionalPaths, diagnosticPositionsByPath, unusedImportExports);
+
+        if (organized === null) {
+            logger.debug("ImportDocumentEditor", "No import changes needed by organize");
+            return "unchanged";
+        }
+
+        return this.applyRebuiltText(
+            document,
+            text,
+            organized.target,
+            additionalPaths,
+            {
+                unchanged: "No import changes needed by organize",
+                refuse: "Refusing to organize imports",
+                applied: "Organized imports in document",
+                failed: "Failed to organize imports",
+                errored: "Error organizing imports",
+            },
+            organized.removedPaths,
+            { diagnosticPositionsByPath, removedUnusedPaths: organized.removedPaths },
+        );
+    }
+
+    /**
+     * The text organizing `text` would produce, with the unused imports it
+     * deletes on the way; or null when there is nothing to organize.
+     */
+    private composeOrganized(
+        document: vscode.TextDocument,
+        text: string,
+        additionalPaths: string[],
+        diagnosticPositionsByPath: DiagnosticPositionsByPath,
+        unusedImportExports: ImportExports | undefined,
+    ): { target: string; removedPaths: string[] } | null {
         const config = settingsFor(document.uri);
         const preferDotSyntax = config.get<string>("behavior.importSyntax", "curly") === "dot";
         const sortAlphabetically = config.get<boolean>("behavior.sortImportsAlphabetically", true);
         const importGrouping = config.get<string>("behavior.importGrouping", "none");
 
+        // Deleted first and organized after, so the rebuild never sees the
+        // unused imports at all: left in, they would still rank, group and
+        // ground the imports around them.
+        let source = text;
+        let removedPaths: string[] = [];
+        if (unusedImportExports) {
+            const requested = new Set(additionalPaths.map((path) => path.trim()));
+            const unused = findUnusedImports(text.split(LINE_SPLIT), unusedImportExports, this.formatter).filter((imp) => !requested.has(imp.path));
+            const removed = unused.length > 0 ? this.withoutImports(text, unused, resolveEol(document, text)) : null;
+            if (removed !== null) {
+                source = removed;
+                removedPaths = unused.map((imp) => imp.path);
+                logger.info("ImportDocumentEditor", `Removing ${unused.length} unused import(s): ${removedPaths.join(", ")}`);
+            }
+        }
+
+        const organized =
+            this.buildOrganizedContent(
+                source,
+                additionalPaths,
+                {
+                    preferDotSyntax,
+                    sortAlphabetically,
+                    importGrouping,
+                    importGroups: this.importGroupsFor(document, importGrouping),
+                    fallbackEol: documentEol(document),
+                },
+                diagnosticPositionsByPath,
+            ) ?? (source !== text ? source : null);
+
+        return organized === null ? null : { target: organized, removedPaths };
+    }
+
+    /**
+     * Deletes every rewritable import of the given paths, each with the comment
+     * written against it, and touches nothing else.
+     *
+     * A pinned import of one of the paths is left where it is: deleting its
+     * span deletes the text sharing it (see rewritableImports). True when
+     * nothing was left to delete as well, which is what a second click on a
+     * stale quick fix finds.
+     */
+    async removeImports(document: vscode.TextDocument, paths: readonly string[]): Promise<boolean> {
+        return this.serialize(document, () => this.applyRemovedImports(document, paths));
+    }
+
+    /** removeImports, without the wait for the writes ahead of it. */
+    private async applyRemovedImports(document: vscode.TextDocument, paths: readonly string[]): Promise<boolean> {
         const text = document.getText();
-        const organized = this.buildOrganizedContent(
+        const requested = new Set(paths);
+        const removable = rewritableImports(scanModuleImports(text.split(LINE_SPLIT))).filter((imp) => requested.has(imp.path));
+        if (removable.length === 0) {
+            logger.debug("ImportDocumentEditor", "No imports left to remove");
+            return true;
+        }
+
+        const target = this.withoutImports(text, removable, resolveEol(document, text));
+        if (target === null) {
+            logger.error("ImportDocumentEditor", "Refusing to remove imports: the deletions collide");
+            return false;
+        }
+
+        const outcome = await this.applyRebuiltText(
+            document,
             text,
-            additionalPaths,
+            target,
+            [],
             {
-                preferDotSyntax,
-                sortAlphabetically,
-                importGrouping,
-                fallbackEol: documentEol(document),
+                unchanged: "No imports left to remove",
+                refuse: "Refusing to remove imports",
+                applied: `Removed ${removable.length} import(s)`,
+                failed: "Failed to remove imports",
+                errored: "Error removing imports",
             },
-            diagnosticPositionsByPath,
+            removable.map((imp) => imp.path),
         );
+        return rewriteSucceeded(outcome);
+    }
 
-        if (organized === null) {
-            logger.debug("ImportDocumentEditor", "No import changes needed by organize");
-            return true;
-        }
+    /**
+     * Collapses each group of imports naming one module into one statement:
+     * the group's preferred path written over the first of them, in the
+     * configured syntax and with that line's trailing comment, and every other
+     * one deleted with the comment written against it.
+     *
+     * The first keeps the place because it is the earliest point the module is
+     * in scope, so no import below it loses what it resolves through.
+     *
+     * Refused, and false, when an import a group names is no longer on its
+     * line: the groups were read from the text a diagnostic was published
+     * against, and the document has moved since.
+     */
+    async collapseDuplicateImports(document: vscode.TextDocument, groups: readonly DuplicateImportGroup[]): Promise<boolean> {
+        return this.serialize(document, () =>
+            this.applyRewrittenImports(document, groups, {
+                unchanged: "No duplicate imports left to collapse",
+                refuse: "Refusing to collapse duplicate imports",
+                applied: `Collapsed ${groups.length} group(s) of duplicate imports`,
+                failed: "Failed to collapse duplicate imports",
+                errored: "Error collapsing duplicate imports",
+            }),
+        );
+    }
+
+    /**
+     * Writes `replacement` over one import, in the configured syntax and with
+     * the line's trailing comment, or deletes the import when the file already
+     * imports `replacement` elsewhere. For the restricted-import quick fix.
+     *
+     * Refused, and false, when the import is no longer on its line, as
+     * collapseDuplicateImports is.
+     */
+    async replaceImport(document: vscode.TextDocument, target: ImportAtLine, replacement: string): Promise<boolean> {
+        return this.serialize(document, () =>
+            this.applyRewrittenImports(document, [{ imports: [target], preferredPath: replacement }], {
+                unchanged: "No import left to replace",
+                refuse: "Refusing to replace the import",
+                applied: `Replaced ${target.path} with ${replacement}`,
+                failed: "Failed to replace the import",
+                errored: "Error replacing the import",
+            }),
+        );
+    }
 
-        return this.applyRebuiltText(document, text, organized, additionalPaths, {
-            unchanged: "No import changes needed by organize",
-            refuse: "Refusing to organize imports",
-            applied: "Organized imports in document",
-            failed: "Failed to organize imports",
-            errored: "Error organizing imports",
+    /**
+     * replaceImport for several imports at once, into a shared edit as a
+     * previewed entry labelled `reason`, as stageOrganizedImports stages a
+     * rebuild. For the superseded-module migration, which the reviewer
+     * approves file by file in one preview.
+     */
+    async stageImportReplacements(edit: vscode.WorkspaceEdit, document: vscode.TextDocument, replacements: readonly ImportReplacement[], reason: string): Promise<StagedRewriteOutcome> {
+        return this.serialize(document, async () => {
+            const text = document.getText();
+            const groups = replacements.map(({ path, line, replacement }) => ({ imports: [{ path, line }], preferredPath: replacement }));
+            const rewritten = this.composeRewrittenImports(document, text, groups, "Refusing to stage import replacements");
+            if (rewritten === null) {
+                return "refused";
+            }
+            if (rewritten.target === text) {
+                return "unchanged";
+            }
+
+            const refusal = verifyOrganizedRewrite(text, rewritten.target, rewritten.requestedPaths, rewritten.removedPaths);
+            if (refusal) {
+                logger.error("ImportDocumentEditor", `Refusing to stage import replacements: ${refusal}`);
+                return "refused";
+            }
+
+            const splice = minimalSplice(text, rewritten.target)!;
+            edit.replace(
+                document.uri,
+                new vscode.Range(positionAt(text, splice.start), positionAt(text, splice.end)),
+                splice.newText,
+                previewEntry(reason, replacements.map(({ path, replacement }) => `${path} → ${replacement}`).join(", ")),
+            );
+            return "staged";
         });
     }
 
+    /**
+     * collapseDuplicateImports and replaceImport, without the wait for the
+     * writes ahead of them.
+     */
+    private async applyRewrittenImports(document: vscode.TextDocument, groups: readonly DuplicateImportGroup[], messages: RewriteMessages): Promise<boolean> {
+        const text = document.getText();
+        const rewritten = this.composeRewrittenImports(document, text, groups, messages.refuse);
+        if (rewritten === null) {
+            return false;
+        }
+
+        const outcome = await this.applyRebuiltText(document, text, rewritten.target, rewritten.requestedPaths, messages, rewritten.removedPaths);
+        return rewriteSucceeded(outcome);
+    }
+
+    /**
+     * The text with each group's imports made one import of its preferred
+     * path, written over the first of them; or null, logged with `refuse`,
+     * when an import a group names is no longer on its line.
+     *
+     * A preferred path the file imports on a line outside the group is not
+     * written a second time; the first import is deleted with the rest.
+     */
+    private composeRewrittenImports(
+        document: vscode.TextDocument,
+        text: string,
+        groups: readonly DuplicateImportGroup[],
+        refuse: string,
+    ): { target: string; requestedPaths: string[]; removedPaths: string[] } | null {
+        const lines = text.split(LINE_SPLIT);
+        const classifications = classifyLines(lines);
+        const headerEnd = headerLineCount(classifications);
+        const scanned = rewritableImports(scanModuleImports(lines));
+        const importsByLine = new Map(scanned.map((imp) => [imp.startLine, imp]));
+        const preferDotSyntax = settingsFor(document.uri).get<string>("behavior.importSyntax", "curly") === "dot";
+
+        const splices: LineSplice[] = [];
+        const removedPaths: string[] = [];
+        for (const group of groups) {
+            const members = group.imports.map(({ path, line }) => {
+                const imp = importsByLine.get(line);
+                return imp?.path === path ? imp : undefined;
+            });
+            if (members.some((imp) => imp === undefined)) {
+                logger.debug("ImportDocumentEditor", `${refuse} for ${group.preferredPath}: the document has changed`);
+                return null;
+            }
+
+            const [first, ...rest] = members as ScannedImport[];
+            const importedElsewhere = scanned.some((imp) => imp.path === group.preferredPath && !group.imports.some(({ line }) => line === imp.startLine));
+            if (importedElsewhere) {
+                rest.unshift(first);
+            } else {
+                const statement = this.formatter.formatImportStatement(group.preferredPath, preferDotSyntax);
+                splices.push({ start: first.startLine, endExclusive: first.endLine + 1, newLines: [first.trailingComment ? `${statement} ${first.trailingComment}` : statement] });
+            }
+            for (const imp of rest) {
+                splices.push({ start: attachedCommentStart(imp.startLine, classifications, headerEnd), endExclusive: imp.endLine + 1, newLines: [] });
+            }
+            removedPaths.push(...group.imports.map((imp) => imp.path).filter((path) => path !== group.preferredPath));
+        }
+
+        const target = spliceLines(text, splices, resolveEol(document, text));
+        if (target === null) {
+            logger.error("ImportDocumentEditor", `${refuse}: the edits collide`);
+            return null;
+        }
+        return { target, requestedPaths: groups.map((group) => group.preferredPath), removedPaths };
+    }
+
     /**
      * The edits that would give the file the configured number of empty lines
      * after its import block, or an empty array when it already has them.
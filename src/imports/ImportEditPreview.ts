@@ -0,0 +1,188 @@
+import * as vscode from "vscode";
+import { settingsFor } from "../utils";
+import { DiagnosticPositionsByPath } from "../types";
+import { LINE_SPLIT, scanModuleImports } from "./ImportScanner";
+
+/**
+ * Routing import edits through the refactor preview, the way
+ * ModuleVisibilityWriter's edits always go, for a team that wants a lead to
+ * approve what a bulk rewrite does before it lands.
+ *
+ * needsConfirmation on an entry is what opens the preview, and the entry's
+ * label is what the preview groups by, so a rewrite is cut into one entry per
+ * changed run of lines and each entry is labelled with why it changed. Every
+ * entry of a previewed edit carries it: one without it would be applied
+ * unseen.
+ *
+ * The preview lets the reviewer untick entries, and applyEdit answers true
+ * whatever was ticked, so a writer that previewed knows what it offered and
+ * never what it wrote.
+ */
+
+/** Whether import edits into `resource` go through the refactor preview. */
+export function previewImportEditsFor(resource?: vscode.Uri): boolean {
+    return settingsFor(resource).get<boolean>("general.previewImportEdits", false);
+}
+
+/**
+ * Applies an import edit, through the preview when `previewed`. isRefactoring
+ * does not open the preview - the entries' metadata does - but it is what
+ * makes `files.refactoring.autoSave` apply to the files the reviewer accepted.
+ */
+export function applyImportEdit(edit: vscode.WorkspaceEdit, previewed: boolean): Thenable<boolean> {
+    return previewed ? vscode.workspace.applyEdit(edit, { isRefactoring: true }) : vscode.workspace.applyEdit(edit);
+}
+
+/** The metadata of a previewed entry: `reason` groups it, `description` says what it touches. */
+export function previewEntry(reason: string, description?: string): vscode.WorkspaceEditEntryMetadata {
+    return { needsConfirmation: true, label: reason, description };
+}
+
+/** What a rewrite of the import block knows about why it changes what it does. */
+export interface ImportEditContext {
+    /** Where the diagnostics that asked for each added path were reported. */
+    diagnosticPositionsByPath: DiagnosticPositionsByPath;
+    /** Paths deleted because nothing in the file refers to them. */
+    removedUnusedPaths: readonly string[];
+    /** The group the document's `behavior.importGrouping` writes a path in, or null where it writes none. */
+    groupOf: (path: string) => string | null;
+}
+
+/**
+ * One changed run of lines: characters [start, end) of the text the rewrite
+ * read, replaced by `newText`, with the entry metadata naming its reason.
+ */
+export interface PreviewedSplice {
+    start: number;
+    end: number;
+    newText: string;
+    metadata: vscode.WorkspaceEditEntryMetadata;
+}
+
+/**
+ * Past this many cells the line diff is not attempted, and the change is one
+ * entry. An import block is tens of lines; a rewrite this large is a file
+ * whose imports sit far apart, and one entry still previews it correctly.
+ */
+const MAX_DIFF_CELLS = 250_000;
+
+/** The lines of a text, each with its own line break, so joining them gives the text back. */
+function linesWithBreaks(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * The runs of lines that differ between `before` and `after`, as character
+ * splices of `before`: the common lines are a longest common subsequence, and
+ * everything between two of them is one run.
+ */
+function changedRuns(before: string, after: string): Array<{ start: number; end: number; newText: string }> {
+    const a = linesWithBreaks(before);
+    const b = linesWithBreaks(after);
+
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const aMid = a.slice(prefix, a.length - suffix);
+    const bMid = b.slice(prefix, b.length - suffix);
+    const offsetOf = (lines: string[], count: number): number => lines.slice(0, count).reduce((sum, line) => sum + line.length, 0);
+    const base = offsetOf(a, prefix);
+
+    if (aMid.length === 0 && bMid.length === 0) {
+        return [];
+    }
+    if ((aMid.length + 1) * (bMid.length + 1) > MAX_DIFF_CELLS) {
+        return [{ start: base, end: base + aMid.join("").length, newText: bMid.join("") }];
+    }
+
+    // lcs[i][j]: the longest common subsequence of aMid[i..] and bMid[j..].
+    const lcs: number[][] = Array.from({ length: aMid.length + 1 }, () => new Array<number>(bMid.length + 1).fill(0));
+    for (let i = aMid.length - 1; i >= 0; i--) {
+        for (let j = bMid.length - 1; j >= 0; j--) {
+            lcs[i][j] = aMid[i] === bMid[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const runs: Array<{ start: number; end: number; newText: string }> = [];
+    let offset = base;
+    let run: { start: number; end: number; newText: string } | null = null;
+    let i = 0;
+    let j = 0;
+    while (i < aMid.length || j < bMid.length) {
+        if (i < aMid.length && j < bMid.length && aMid[i] === bMid[j]) {
+            if (run) runs.push(run);
+            run = null;
+            offset += aMid[i].length;
+            i++;
+            j++;
+            continue;
+        }
+        run ??= { start: offset, end: offset, newText: "" };
+        if (j < bMid.length && (i === aMid.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+            run.newText += bMid[j];
+            j++;
+        } else {
+            offset += aMid[i].length;
+            run.end = offset;
+            i++;
+        }
+    }
+    if (run) runs.push(run);
+    return runs;
+}
+
+/**
+ * A rewrite of `before` into `after` as previewed splices, one per changed run
+ * of lines, each labelled with the first of these that holds:
+ *
+ * - it writes a path `before` did not import: "Added for the diagnostic at
+ *   line N", or "Added import" where no diagnostic is known;
+ * - it deletes a path `after` does not import: "Removed unused import" or
+ *   "Removed import";
+ * - it moves an import: into the group it now belongs to where the document
+ *   groups them, "Reordered imports" otherwise;
+ * - "Reformatted imports", for blank lines, syntax, and a path rewritten
+ *   where it stood.
+ *
+ * A moved import is deleted by one entry and written by another. Unticking
+ * only one of the pair loses it or writes it twice, which is the reviewer's
+ * call; the shared label keeps the pair side by side.
+ */
+export function previewedSplices(before: string, after: string, context: ImportEditContext): PreviewedSplice[] {
+    const pathsIn = (text: string): string[] => scanModuleImports(text.split(LINE_SPLIT)).map((imp) => imp.path);
+    const beforePaths = new Set(pathsIn(before));
+    const afterPaths = new Set(pathsIn(after));
+    const unused = new Set(context.removedUnusedPaths);
+
+    return changedRuns(before, after).map(({ start, end, newText }) => {
+        const written = pathsIn(newText);
+        const deleted = pathsIn(before.slice(start, end));
+
+        const added = written.filter((path) => !beforePaths.has(path));
+        if (added.length > 0) {
+            const line = added.map((path) => context.diagnosticPositionsByPath.get(path)?.[0]?.line).find((line) => line !== undefined);
+            return { start, end, newText, metadata: previewEntry(line === undefined ? "Added import" : `Added for the diagnostic at line ${line + 1}`, added.join(", ")) };
+        }
+
+        const removed = deleted.filter((path) => !afterPaths.has(path));
+        if (removed.length > 0) {
+            return { start, end, newText, metadata: previewEntry(removed.every((path) => unused.has(path)) ? "Removed unused import" : "Removed import", removed.join(", ")) };
+        }
+
+        // A path both deleted and written by one run was rewritten in place,
+        // which is reformatting rather than a move.
+        const moved = [...written.filter((path) => !deleted.includes(path)), ...deleted.filter((path) => !written.includes(path))];
+        if (moved.length > 0) {
+            const group = context.groupOf(moved[0]);
+            return { start, end, newText, metadata: previewEntry(group ? `Moved into the ${group} group` : "Reordered imports", Array.from(new Set(moved)).join(", ")) };
+        }
+
+        return { start, end, newText, metadata: previewEntry("Reformatted imports") };
+    });
+}
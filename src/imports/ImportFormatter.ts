@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
 import { settingsFor } from "../utils";
 import { lexVerseLine } from "../utils/verseLexer";
+import { CompiledImportGroup } from "./ImportGroupRules";
 
 /** Options controlling `ImportFormatter.isModuleImport`'s classification. */
 export interface IsModuleImportOptions {
@@ -379,6 +380,47 @@ export class ImportFormatter {
         });
     }
 
+    /**
+     * Where `path` is written among the `custom` grouping's groups: the index of
+     * the first absolute rule it matches, then one slot for the absolute paths
+     * no rule matches, then one for every relative path.
+     *
+     * The relative slot is last whatever the rules say, for the reason
+     * localFirst splits its local group: a relative path resolves its first
+     * segment against the imports above it, and any absolute group could be
+     * the one providing it. The unmatched absolutes sit above it for the same
+     * reason.
+     */
+    customGroupPosition(path: string, groups: readonly CompiledImportGroup[]): number {
+        const absoluteGroups = groups.filter((group) => !group.relative);
+        if (this.resolvesAgainstScopeAbove(path)) {
+            return absoluteGroups.length + 1;
+        }
+        const index = absoluteGroups.findIndex((group) => group.matches(path));
+        return index === -1 ? absoluteGroups.length : index;
+    }
+
+    /**
+     * The name of the group `importGrouping` writes `path` in, or null when it
+     * writes no groups: "digest" or "local" for the two built-in strategies,
+     * and the rule's name under `custom`.
+     */
+    importGroupName(path: string, importGrouping: string, groups: readonly CompiledImportGroup[] = []): string | null {
+        if (importGrouping === "digestFirst" || importGrouping === "localFirst") {
+            return this.isDigestImport(path) ? "digest" : "local";
+        }
+        if (importGrouping !== "custom") {
+            return null;
+        }
+
+        const absoluteGroups = groups.filter((group) => !group.relative);
+        const position = this.customGroupPosition(path, groups);
+        if (position < absoluteGroups.length) {
+            return absoluteGroups[position].name;
+        }
+        return position === absoluteGroups.length ? "ungrouped" : (groups.find((group) => group.relative)?.name ?? "relative");
+    }
+
     /**
      * The formatted `using` statements for a set of paths, with an empty string
      * between each pair of groups a grouping strategy puts imports in.
@@ -397,14 +439,22 @@ export class ImportFormatter {
      * digest ones, and it moves them up. Whatever order the local imports were
      * written in survives, so nothing it does crosses a provider.
      *
+     * `custom` writes the groups `groups` lists, in its order, each under its
+     * header comment when it has one (customGroupPosition). It takes the same
+     * care by construction: every relative path is in the last group.
+     *
      * @param sortAlphabetically Enables the rank sort, which is not alphabetical
      *   order - see sortImportsByRank for why plain alphabetical order breaks
      *   local imports.
-     * @param importGrouping 'none', 'digestFirst' or 'localFirst'. Any other
-     *   value falls back to 'none', so a setting typo or a renamed enum member
-     *   degrades to ungrouped output rather than dropping imports.
+     * @param importGrouping 'none', 'digestFirst', 'localFirst' or 'custom'.
+     *   Any other value falls back to 'none', so a setting typo or a renamed
+     *   enum member degrades to ungrouped output rather than dropping imports.
+     * @param groups The compiled `behavior.importGroups` rules `custom` writes.
      */
-    groupAndFormatImports(importPaths: string[], preferDotSyntax: boolean, sortAlphabetically: boolean, importGrouping: string): string[] {
+    groupAndFormatImports(importPaths: string[], preferDotSyntax: boolean, sortAlphabetically: boolean, importGrouping: string, groups: readonly CompiledImportGroup[] = []): string[] {
+        if (importGrouping === "custom") {
+            return this.formatCustomGroups(importPaths, preferDotSyntax, sortAlphabetically, groups);
+        }
         if (importGrouping !== "digestFirst" && importGrouping !== "localFirst") {
             const sortedPaths = sortAlphabetically ? this.sortImportsByRank(importPaths) : importPaths;
             return sortedPaths.map((path) => this.formatImportStatement(path, preferDotSyntax));
@@ -456,6 +506,29 @@ export class ImportFormatter {
         return this.joinGroups([format(localAbsolute), format(digestImports), format(localRelative)]);
     }
 
+    /**
+     * groupAndFormatImports for the `custom` strategy. The rank sort is applied
+     * per group like the built-in strategies apply it; in the relative group it
+     * keeps the written order, which is what that group needs.
+     */
+    private formatCustomGroups(importPaths: string[], preferDotSyntax: boolean, sortAlphabetically: boolean, groups: readonly CompiledImportGroup[]): string[] {
+        const absoluteGroups = groups.filter((group) => !group.relative);
+        const headers = [...absoluteGroups.map((group) => group.header), undefined, groups.find((group) => group.relative)?.header];
+
+        const buckets: string[][] = headers.map(() => []);
+        for (const path of importPaths) {
+            buckets[this.customGroupPosition(path, groups)].push(path);
+        }
+
+        return this.joinGroups(
+            buckets.map((paths, position) => {
+                const statements = (sortAlphabetically ? this.sortImportsByRank(paths) : paths).map((path) => this.formatImportStatement(path, preferDotSyntax));
+                const header = headers[position];
+                return header && statements.length > 0 ? [header, ...statements] : statements;
+            }),
+        );
+    }
+
     /**
      * The groups run together with one empty string between each adjacent pair.
      *
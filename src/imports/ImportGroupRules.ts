@@ -0,0 +1,131 @@
+import * as vscode from "vscode";
+import { CompiledSettingList } from "../utils";
+import { ImportGroupRule } from "../types";
+
+/** A group rule that passed validation, ready to match. */
+export interface CompiledImportGroup {
+    name: string;
+    /** The comment line written above the group, `#` included. */
+    header?: string;
+    /** Whether this is the group every relative import goes in. Only ever the last one. */
+    relative: boolean;
+    /** Whether an absolute path belongs here. Never asked of the relative group. */
+    matches: (path: string) => boolean;
+}
+
+/**
+ * A glob as a whole-path regular expression: `**` crosses `/`, `*` and `?` do
+ * not, and everything else is literal.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = "";
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === "*" && glob[i + 1] === "*") {
+            source += ".*";
+            i++;
+        } else if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * The valid groups of a configured list, in their order, and one line per
+ * entry that was dropped saying why. An entry is dropped whole, so a rule
+ * that cannot match never takes a place in the order either.
+ *
+ * @param origin Where the list came from, for the messages.
+ */
+export function compileImportGroupRules(raw: unknown, origin: string): { groups: CompiledImportGroup[]; errors: string[] } {
+    if (raw === undefined || raw === null) {
+        return { groups: [], errors: [] };
+    }
+    if (!Array.isArray(raw)) {
+        return { groups: [], errors: [`${origin}: expected a list of group rules`] };
+    }
+
+    const groups: CompiledImportGroup[] = [];
+    const errors: string[] = [];
+    raw.forEach((entry: Partial<ImportGroupRule> | null, index) => {
+        const where = `${origin}, group ${index + 1}`;
+        if (typeof entry !== "object" || entry === null) {
+            errors.push(`${where}: expected an object`);
+            return;
+        }
+        if (typeof entry.name !== "string" || entry.name.trim() === "") {
+            errors.push(`${where}: "name" must be a non-empty string`);
+            return;
+        }
+        const matchers = [entry.prefix !== undefined, entry.glob !== undefined, entry.relative !== undefined].filter(Boolean).length;
+        if (matchers !== 1) {
+            errors.push(`${where}: give exactly one of "prefix", "glob" and "relative"`);
+            return;
+        }
+        if (entry.prefix !== undefined && (typeof entry.prefix !== "string" || entry.prefix === "")) {
+            errors.push(`${where}: "prefix" must be a non-empty string`);
+            return;
+        }
+        if (entry.glob !== undefined && (typeof entry.glob !== "string" || entry.glob === "")) {
+            errors.push(`${where}: "glob" must be a non-empty string`);
+            return;
+        }
+        if (entry.relative !== undefined && entry.relative !== true) {
+            errors.push(`${where}: "relative" can only be true`);
+            return;
+        }
+        // Relative imports resolve through everything above them, so their
+        // group is written last whatever the list says. A rule placed earlier
+        // would not be honoured, and is refused rather than silently moved.
+        if (entry.relative && index !== raw.length - 1) {
+            errors.push(`${where}: the relative group must be the last rule, since relative imports have to stay below what they resolve through`);
+            return;
+        }
+        if (entry.header !== undefined && (typeof entry.header !== "string" || /[\r\n]/.test(entry.header))) {
+            errors.push(`${where}: "header" must be a single line of text`);
+            return;
+        }
+
+        // A header written as the comment it becomes, "# Devices", would
+        // otherwise be written "# # Devices".
+        const text = entry.header?.trim().replace(/^#+\s*/, "");
+        const header = text ? `# ${text}` : undefined;
+        const { prefix, glob } = entry;
+        let matches: (path: string) => boolean = () => false;
+        if (prefix !== undefined) {
+            matches = (path) => path.startsWith(prefix);
+        } else if (glob !== undefined) {
+            const regex = globToRegExp(glob);
+            matches = (path) => regex.test(path);
+        }
+        groups.push({ name: entry.name.trim(), header, relative: entry.relative === true, matches });
+    });
+
+    return { groups, errors };
+}
+
+/**
+ * The groups of the `behavior.importGroups` setting, which the `custom` import
+ * grouping writes.
+ */
+export class ImportGroupRules {
+    private readonly groups = new CompiledSettingList<CompiledImportGroup>({
+        setting: "behavior.importGroups",
+        logSource: "ImportGroupRules",
+        entries: "import group rule(s)",
+        compile: (raw, origin) => {
+            const { groups, errors } = compileImportGroupRules(raw, origin);
+            return { values: groups, errors };
+        },
+    });
+
+    /** The groups that apply to imports written into `resource`, in the order they are written. */
+    groupsFor(resource?: vscode.Uri): CompiledImportGroup[] {
+        return this.groups.valuesFor(resource);
+    }
+}
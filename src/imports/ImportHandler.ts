@@ -1,9 +1,29 @@
 import * as vscode from "vscode";
-import { DiagnosticPositionsByPath, DiagnosticPositionsByStatement, ImportSuggestion, MissingImports } from "../types";
-import { AssetsDigestParser } from "../services";
+import {
+    DiagnosticPositionsByPath,
+    DiagnosticPositionsByStatement,
+    DuplicateImportGroup,
+    ImportableIdentifier,
+    ImportAtLine,
+    ImportReplacement,
+    ImportRestriction,
+    ImportRewriteOutcome,
+    ImportSuggestion,
+    MissingImports,
+    ModuleMigrationPlan,
+    RestrictedImport,
+    UnstableApiUse,
+} from "../types";
+import { AssetsDigestParser, DigestParser, ProjectPathCache } from "../services";
+import { logger, settingsFor } from "../utils";
 import { ImportFormatter } from "./ImportFormatter";
 import { ImportSuggestionExtractor } from "./ImportSuggestionExtractor";
-import { ImportDocumentEditor } from "./ImportDocumentEditor";
+import { AddedImports, ImportDocumentEditor, StagedRewriteOutcome } from "./ImportDocumentEditor";
+import { findUnusedImports, ImportUsageAnalyzer } from "./ImportUsageAnalyzer";
+import { planModuleMigration, SupersededModuleTable } from "./SupersededModuleMigrator";
+import { findUnstableApiUses } from "./ApiStability";
+import { ImportRestrictions } from "./ImportRestrictions";
+import { LINE_SPLIT, rewritableImports, ScannedImport, scanModuleImports } from "./ImportScanner";
 
 /**
  * The way in to import handling: suggestion extraction, document editing and
@@ -12,21 +32,35 @@ import { ImportDocumentEditor } from "./ImportDocumentEditor";
  * Go through this rather than around it. It is the only place the extension
  * context and the assets digest parser are threaded into
  * ImportSuggestionExtractor, so an extractor built directly gets whichever of
- * the two the caller remembered to pass.
+ * the two the caller remembered to pass. The digest index is shared the same
+ * way between the extractor and the unused-import analysis, so it is loaded
+ * once rather than once per reader.
  */
 export class ImportHandler {
     private formatter: ImportFormatter;
     private suggestionExtractor: ImportSuggestionExtractor;
     private documentEditor: ImportDocumentEditor;
+    private usageAnalyzer: ImportUsageAnalyzer;
+    private digestParser: DigestParser;
+    private restrictions = new ImportRestrictions();
+    private supersededModules = new SupersededModuleTable();
 
+    /**
+     * @param projectPathCache Absent when the cache is disabled. The unused-import
+     *   analysis then knows no project module, and keeps every import of one;
+     *   and no declaration of the project is suggested as an import.
+     */
     constructor(
         private outputChannel: vscode.OutputChannel,
         assetsDigestParser?: AssetsDigestParser,
         extensionContext?: vscode.ExtensionContext,
+        projectPathCache?: ProjectPathCache,
     ) {
         this.formatter = new ImportFormatter();
-        this.suggestionExtractor = new ImportSuggestionExtractor(outputChannel, this.formatter, assetsDigestParser, extensionContext);
+        this.digestParser = new DigestParser(outputChannel, extensionContext, assetsDigestParser);
+        this.suggestionExtractor = new ImportSuggestionExtractor(outputChannel, this.formatter, assetsDigestParser, extensionContext, this.digestParser, projectPathCache);
         this.documentEditor = new ImportDocumentEditor(outputChannel, this.formatter);
+        this.usageAnalyzer = new ImportUsageAnalyzer(this.digestParser, this.formatter, projectPathCache);
     }
 
     /**
@@ -38,14 +72,57 @@ export class ImportHandler {
         return this.suggestionExtractor.extractImportSuggestions(errorMessage, resource);
     }
 
+    /** The name a compiler message is about, or null. See ImportSuggestionExtractor.identifierInMessage. */
+    identifierInMessage(errorMessage: string, resource?: vscode.Uri): string | null {
+        return this.suggestionExtractor.identifierInMessage(errorMessage, resource);
+    }
+
+    /** Every name a module is known to declare, for completion. See ImportSuggestionExtractor.listImportableIdentifiers. */
+    async listImportableIdentifiers(resource?: vscode.Uri): Promise<ImportableIdentifier[]> {
+        return this.suggestionExtractor.listImportableIdentifiers(resource);
+    }
+
+    /** Every module known to declare this identifier. See ImportSuggestionExtractor.lookupDeclarations. */
+    async lookupDeclarations(identifier: string, resource?: vscode.Uri): Promise<ImportableIdentifier[]> {
+        return this.suggestionExtractor.lookupDeclarations(identifier, resource);
+    }
+
+    /** Every module the digests declare, with the names it declares. See ImportSuggestionExtractor.listDigestModules. */
+    async listDigestModules(): Promise<Map<string, ImportableIdentifier[]>> {
+        return this.suggestionExtractor.listDigestModules();
+    }
+
+    /** The statement importing an identifier's module, formatted for the document it goes into. */
+    async importStatementFor(importable: ImportableIdentifier, resource?: vscode.Uri): Promise<string> {
+        return this.suggestionExtractor.importStatementFor(importable, resource);
+    }
+
+    /** The statement importing a module by its absolute path. See ImportSuggestionExtractor.absoluteImportStatement. */
+    absoluteImportStatement(modulePath: string, resource?: vscode.Uri): string {
+        return this.suggestionExtractor.absoluteImportStatement(modulePath, resource);
+    }
+
+    /** The edits adding these imports would make, unapplied. See ImportDocumentEditor.computeAddImportEdits. */
+    computeAddImportEdits(document: vscode.TextDocument, importStatements: string[]): vscode.TextEdit[] | null {
+        return this.documentEditor.computeAddImportEdits(document, importStatements);
+    }
+
     async addImportsToDocument(document: vscode.TextDocument, importStatements: string[], diagnosticPositionsByStatement?: DiagnosticPositionsByStatement): Promise<boolean> {
         return this.documentEditor.addImportsToDocument(document, importStatements, diagnosticPositionsByStatement);
     }
 
+    /** addImportsToDocument, answering how the rewrite ended and which paths it wrote. */
+    async addImportsWithOutcome(document: vscode.TextDocument, importStatements: string[], diagnosticPositionsByStatement?: DiagnosticPositionsByStatement): Promise<AddedImports> {
+        return this.documentEditor.addImportsWithOutcome(document, importStatements, diagnosticPositionsByStatement);
+    }
+
     /**
      * Rebuilds the document's import block in one atomic edit: existing
      * imports plus the given additional paths, deduplicated, grouped,
-     * sorted, and formatted per settings.
+     * sorted, and formatted per settings. With
+     * `behavior.removeUnusedImports` on for the document, the imports that
+     * bring nothing it refers to into scope are deleted as part of the same
+     * edit.
      *
      * @param diagnosticPositionsByPath Pass whatever produced `additionalPaths`
      *   reported, where it came from diagnostics. Without it a pinned import
@@ -54,11 +131,119 @@ export class ImportHandler {
      *   for.
      */
     async organizeImports(document: vscode.TextDocument, additionalPaths: string[], diagnosticPositionsByPath?: DiagnosticPositionsByPath): Promise<boolean> {
-        return this.documentEditor.organizeImports(document, additionalPaths, diagnosticPositionsByPath);
+        const outcome = await this.organizeImportsWithOutcome(document, additionalPaths, diagnosticPositionsByPath);
+        return outcome === "applied" || outcome === "unchanged";
+    }
+
+    /** organizeImports, answering how the rewrite ended. See ImportRewriteOutcome. */
+    async organizeImportsWithOutcome(document: vscode.TextDocument, additionalPaths: string[], diagnosticPositionsByPath?: DiagnosticPositionsByPath): Promise<ImportRewriteOutcome> {
+        // Loaded before the write is queued rather than inside it: the digest
+        // index may have to be read from disk first, and every write behind this
+        // one would wait on that read.
+        const removeUnused = settingsFor(document.uri).get<boolean>("behavior.removeUnusedImports", false);
+        const unusedImportExports = removeUnused ? await this.usageAnalyzer.loadExports() : undefined;
+        return this.documentEditor.organizeImportsWithOutcome(document, additionalPaths, diagnosticPositionsByPath, unusedImportExports);
+    }
+
+    /** organizeImports into a shared, previewed edit. See ImportDocumentEditor.stageOrganizedImports. */
+    async stageOrganizedImports(
+        edit: vscode.WorkspaceEdit,
+        document: vscode.TextDocument,
+        additionalPaths: string[],
+        diagnosticPositionsByPath?: DiagnosticPositionsByPath,
+    ): Promise<StagedRewriteOutcome> {
+        const removeUnused = settingsFor(document.uri).get<boolean>("behavior.removeUnusedImports", false);
+        const unusedImportExports = removeUnused ? await this.usageAnalyzer.loadExports() : undefined;
+        return this.documentEditor.stageOrganizedImports(edit, document, additionalPaths, diagnosticPositionsByPath, unusedImportExports);
+    }
+
+    /**
+     * The rewritable imports in the document that bring nothing it refers to
+     * into scope. See findUnusedImports for what counts as a reference and
+     * why an import of an unknown module is never reported.
+     */
+    async findUnusedImports(document: vscode.TextDocument): Promise<ScannedImport[]> {
+        const exports = await this.usageAnalyzer.loadExports();
+        return findUnusedImports(document.getText().split(LINE_SPLIT), exports, this.formatter);
     }
 
-    extractImportsFromDiagnostics(diagnostics: vscode.Diagnostic[]): MissingImports {
-        return this.suggestionExtractor.extractImportsFromDiagnostics(diagnostics);
+    /** Deletes the document's rewritable imports of these paths, with their comments. */
+    async removeImports(document: vscode.TextDocument, paths: readonly string[]): Promise<boolean> {
+        return this.documentEditor.removeImports(document, paths);
+    }
+
+    /** See ImportDocumentEditor.collapseDuplicateImports. */
+    async collapseDuplicateImports(document: vscode.TextDocument, groups: readonly DuplicateImportGroup[]): Promise<boolean> {
+        return this.documentEditor.collapseDuplicateImports(document, groups);
+    }
+
+    /**
+     * Why `behavior.restrictedImports` forbids importing a path into a
+     * document, or null when it does not. Every route writing an import asks
+     * this before offering or writing one.
+     */
+    importRestrictionFor(path: string, resource?: vscode.Uri): ImportRestriction | null {
+        return this.restrictions.restrictionFor(path, resource);
+    }
+
+    /** The document's rewritable imports that `behavior.restrictedImports` forbids, in document order. */
+    findRestrictedImports(document: vscode.TextDocument): RestrictedImport[] {
+        return rewritableImports(scanModuleImports(document.getText().split(LINE_SPLIT))).flatMap((imp) => {
+            const restriction = this.restrictions.restrictionFor(imp.path, document.uri);
+            return restriction ? [{ path: imp.path, line: imp.startLine, ...restriction }] : [];
+        });
+    }
+
+    /** See ImportDocumentEditor.replaceImport. */
+    async replaceImport(document: vscode.TextDocument, target: ImportAtLine, replacement: string): Promise<boolean> {
+        return this.documentEditor.replaceImport(document, target, replacement);
+    }
+
+    /**
+     * Drops the loaded digest index, so the next lookup reads the digests
+     * again - from the UEFN install or the bundled data, whichever the
+     * settings now say.
+     */
+    reloadDigests(): void {
+        this.digestParser.clearCache();
+    }
+
+    /** Where the document uses an API the digests mark experimental or deprecated. See findUnstableApiUses. */
+    async findUnstableApiUses(document: vscode.TextDocument): Promise<UnstableApiUse[]> {
+        const index = await this.digestParser.getDigestIndex();
+        return findUnstableApiUses(document.getText().split(LINE_SPLIT), (identifier) => index.get(identifier) ?? [], this.formatter);
+    }
+
+    /** The document's imports of superseded modules, and the names to check once they move. See planModuleMigration. */
+    async planModuleMigration(document: vscode.TextDocument): Promise<ModuleMigrationPlan> {
+        const exports = await this.usageAnalyzer.loadExports();
+        const index = await this.digestParser.getDigestIndex();
+        return planModuleMigration(document.getText().split(LINE_SPLIT), exports, (identifier) => index.get(identifier) ?? [], this.formatter, this.supersededModules.modulesFor(document.uri));
+    }
+
+    /** See ImportDocumentEditor.stageImportReplacements. */
+    async stageImportReplacements(edit: vscode.WorkspaceEdit, document: vscode.TextDocument, replacements: readonly ImportReplacement[], reason: string): Promise<StagedRewriteOutcome> {
+        return this.documentEditor.stageImportReplacements(edit, document, replacements, reason);
+    }
+
+    /**
+     * See ImportSuggestionExtractor.extractImportsFromDiagnostics, less every
+     * path `behavior.restrictedImports` forbids in `resource`. Optimize
+     * Imports, Organize Imports and the workspace optimizer all read their
+     * paths here, so none of them writes a restricted import. Pass the
+     * document the diagnostics belong to.
+     */
+    extractImportsFromDiagnostics(diagnostics: vscode.Diagnostic[], resource?: vscode.Uri): MissingImports {
+        const missing = this.suggestionExtractor.extractImportsFromDiagnostics(diagnostics, resource);
+        const restricted = missing.paths.filter((path) => this.restrictions.restrictionFor(path, resource));
+        if (restricted.length === 0) {
+            return missing;
+        }
+
+        logger.debug("ImportHandler", `Not adding restricted import(s): ${restricted.join(", ")}`);
+        const diagnosticPositionsByPath = new Map(missing.diagnosticPositionsByPath);
+        restricted.forEach((path) => diagnosticPositionsByPath.delete(path));
+        return { ...missing, paths: missing.paths.filter((path) => !restricted.includes(path)), diagnosticPositionsByPath };
     }
 
     /**
@@ -0,0 +1,125 @@
+import * as vscode from "vscode";
+import { settingsFor } from "../utils";
+import { endsInCode } from "../utils/verseText";
+import { ImportableIdentifier } from "../types";
+import { ImportCodeLensProvider } from "./ImportCodeLensProvider";
+import { ImportFormatter } from "./ImportFormatter";
+import { ImportHandler } from "./ImportHandler";
+import { LINE_SPLIT, scanModuleImports } from "./ImportScanner";
+
+/** How a declaration's source is named in the hover. */
+const SOURCE_LABELS: Record<ImportableIdentifier["source"], string> = {
+    digest_lookup: "Verse API",
+    project_lookup: "project",
+};
+
+/**
+ * Answers "which module does this name come from here": for the identifier
+ * under the cursor, the modules the digests and the project declare it in,
+ * narrowed to the ones the file imports, and whether more than one of those
+ * could be supplying it.
+ *
+ * A relative import is matched on the tail of a module's absolute path, so
+ * `using { Gadgets }` counts as importing `/account@fortnite.com/Game/Gadgets`.
+ * That can claim a second module of the same name in another folder too; the
+ * hover errs towards listing a candidate rather than hiding the one the
+ * compiler picked.
+ *
+ * It also drives the path-conversion CodeLens in its hover visibility mode:
+ * every hover reports to the CodeLens provider whether it landed on an import,
+ * whatever this provider then answers.
+ */
+export class ImportHoverProvider implements vscode.HoverProvider {
+    constructor(
+        private importHandler: ImportHandler,
+        // Optional so the hover works without lenses to drive. Without it no
+        // hover state is reported.
+        private codeLensProvider?: ImportCodeLensProvider,
+    ) {}
+
+    async provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Hover | undefined> {
+        this.reportCodeLensHover(document, position);
+
+        if (!settingsFor(document.uri).get<boolean>("hover.showDeclaringModule", true)) {
+            return undefined;
+        }
+
+        const wordRange = document.getWordRangeAtPosition(position);
+        if (!wordRange) {
+            return undefined;
+        }
+
+        const lines = document.getText().split(LINE_SPLIT);
+        const line = lines[wordRange.start.line] ?? "";
+        const scannedImports = scanModuleImports(lines);
+
+        // A member after a `.` belongs to whatever is left of it, not to an
+        // import, and an import line's words are path segments.
+        if (wordRange.start.character > 0 && line[wordRange.start.character - 1] === ".") {
+            return undefined;
+        }
+        if (scannedImports.some((imp) => wordRange.start.line >= imp.startLine && wordRange.start.line <= imp.endLine)) {
+            return undefined;
+        }
+
+        const throughWord = [...lines.slice(0, wordRange.end.line), line.slice(0, wordRange.end.character)].join("\n");
+        if (!endsInCode(throughWord, wordRange.end.character - wordRange.start.character)) {
+            return undefined;
+        }
+
+        const identifier = line.slice(wordRange.start.character, wordRange.end.character);
+        const declarations = await this.importHandler.lookupDeclarations(identifier, document.uri);
+        if (declarations.length === 0 || token.isCancellationRequested) {
+            return undefined;
+        }
+
+        const importPaths = scannedImports.map((imp) => imp.path);
+        const imported = declarations.filter((declaration) => importPaths.some((path) => ImportHoverProvider.importProvides(path, declaration.modulePath)));
+
+        return new vscode.Hover(ImportHoverProvider.describe(identifier, declarations, imported), wordRange);
+    }
+
+    /** Tells the CodeLens provider whether the pointer is over an import, which shows or hides its lenses. */
+    private reportCodeLensHover(document: vscode.TextDocument, position: vscode.Position): void {
+        if (!this.codeLensProvider || !settingsFor(document.uri).get<boolean>("pathConversion.enableCodeLens", true)) {
+            return;
+        }
+
+        const text = document.lineAt(position.line).text.trim();
+        const nextLineText = position.line + 1 < document.lineCount ? document.lineAt(position.line + 1).text : undefined;
+
+        if (ImportFormatter.isModuleImport(text, nextLineText)) {
+            this.codeLensProvider.setHoverState(document.uri.toString(), true, position.line);
+        } else {
+            this.codeLensProvider.setHoverState(document.uri.toString(), false);
+        }
+    }
+
+    /**
+     * Whether an import path names a module: equal when absolute, a tail of it
+     * when relative.
+     */
+    static importProvides(importPath: string, modulePath: string): boolean {
+        if (importPath.startsWith("/")) {
+            return importPath === modulePath;
+        }
+        return modulePath.endsWith("/" + importPath.split(".").join("/"));
+    }
+
+    private static describe(identifier: string, declarations: ImportableIdentifier[], imported: ImportableIdentifier[]): vscode.MarkdownString {
+        const entry = (declaration: ImportableIdentifier): string => `${declaration.type} from \`${declaration.modulePath}\` (${SOURCE_LABELS[declaration.source]})`;
+        const markdown = new vscode.MarkdownString();
+
+        if (imported.length === 1) {
+            return markdown.appendMarkdown(`\`${identifier}\`: ${entry(imported[0])}`);
+        }
+
+        if (imported.length > 1) {
+            markdown.appendMarkdown(`\`${identifier}\` is **ambiguous** here: ${imported.length} of this file's imports declare it.\n\n`);
+            return markdown.appendMarkdown(imported.map((declaration) => `- ${entry(declaration)}`).join("\n"));
+        }
+
+        markdown.appendMarkdown(`\`${identifier}\` is not imported in this file. Declared by:\n\n`);
+        return markdown.appendMarkdown(declarations.map((declaration) => `- ${entry(declaration)}`).join("\n"));
+    }
+}
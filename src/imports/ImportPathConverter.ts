@@ -1,15 +1,16 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { logger } from "../utils";
+import { logger, settingsFor } from "../utils";
 import { ProjectPathHandler } from "../project";
 import { ProjectPathCache } from "../services";
 import { findContentRoot } from "../services/contentRoot";
 import { sameFsSegment } from "../services/pathCasing";
 import { buildProjectIndexes, resolveFolderModuleLocations, resolveModuleLocations, toContentRelativeDir } from "../services/moduleLocationLookup";
-import { ProjectPathNode } from "../types";
+import { DuplicateImportGroup, ProjectPathNode } from "../types";
 import { findExplicitModuleDeclarations } from "../visibility/moduleDeclarations";
+import { applyImportEdit, previewEntry, previewImportEditsFor } from "./ImportEditPreview";
 import { ImportFormatter } from "./ImportFormatter";
-import { LINE_SPLIT, scanConvertibleImports } from "./ImportScanner";
+import { LINE_SPLIT, rewritableImports, ScannedImport, scanConvertibleImports, scanModuleImports } from "./ImportScanner";
 
 /** A conversion resolved but not yet written, ready for applyConversion. */
 interface ImportConversionResult {
@@ -263,6 +264,11 @@ export class ImportPathConverter {
         const pathStr = this.extractPathFromImport(importStatement);
         if (!pathStr) return null;
 
+        return ImportPathConverter.splitModuleReference(pathStr);
+    }
+
+    /** extractModuleFromImport's body, for a path already read off its statement. */
+    private static splitModuleReference(pathStr: string): { fullPath: string; moduleName: string } | null {
         if (pathStr.startsWith("/")) {
             const segments = pathStr.split("/").filter((s) => s);
             const lastSegment = segments[segments.length - 1];
@@ -1041,6 +1047,94 @@ export class ImportPathConverter {
         return results;
     }
 
+    /**
+     * The groups of imports in a document that name the same module, each
+     * with the spelling to collapse it to. Empty when there are none.
+     *
+     * Two absolute paths are one module when they are the same text, or, inside
+     * the project, when they differ only in the casing of the project prefix -
+     * the one part of a path the compiler does not resolve (sharedSegmentCount).
+     * A relative import joins an absolute one only when it is the relative form
+     * convertFromFullPath gives for that path, which is resolved back through
+     * findModuleLocations before it is trusted. Nothing is guessed the other
+     * way: placing a relative import is a workspace search that can come back
+     * with several modules, and a wrong answer here deletes an import the file
+     * needs.
+     *
+     * Pinned imports take no part, since nothing rewrites their lines.
+     */
+    async findDuplicateImports(document: vscode.TextDocument): Promise<DuplicateImportGroup[]> {
+        const imports = rewritableImports(scanModuleImports(document.getText().split(LINE_SPLIT)));
+        if (imports.length < 2) {
+            return [];
+        }
+
+        const projectVersePath = await this.projectPathHandler.getProjectVersePath(document.uri);
+        const projectSegments = projectVersePath ? ImportPathConverter.splitPath(projectVersePath) : [];
+        const inProject = (fullPath: string): boolean =>
+            projectSegments.length > 0 && ImportPathConverter.sharedSegmentCount(ImportPathConverter.splitPath(fullPath), projectSegments, projectSegments.length) === projectSegments.length;
+        const sameModule = (a: string, b: string): boolean => a === b || (inProject(a) && inProject(b) && ImportPathConverter.namesSameModule(a, b, projectSegments.length));
+
+        const absoluteGroups: ScannedImport[][] = [];
+        const relativeGroups = new Map<string, ScannedImport[]>();
+        for (const imp of imports) {
+            if (!imp.path.startsWith("/")) {
+                relativeGroups.set(imp.path, [...(relativeGroups.get(imp.path) ?? []), imp]);
+                continue;
+            }
+            const group = absoluteGroups.find((candidate) => sameModule(candidate[0].path, imp.path));
+            if (group) {
+                group.push(imp);
+            } else {
+                absoluteGroups.push([imp]);
+            }
+        }
+
+        const preferRelative = settingsFor(document.uri).get<string>("pathConversion.projectImportPathStyle", "absolute") === "relative";
+        const groups: DuplicateImportGroup[] = [];
+
+        for (const absolute of absoluteGroups) {
+            const fullPath = absolute[0].path;
+            const moduleName = fullPath.substring(fullPath.lastIndexOf("/") + 1);
+
+            // The conversion is a workspace search, so it is asked only where
+            // its answer could matter: a relative import ending in the same
+            // module name, or a group that collapses to the relative form.
+            const mayMatch = [...relativeGroups.keys()].some((reference) => reference === moduleName || reference.endsWith(`.${moduleName}`));
+            let relativeForm: string | null = null;
+            if (inProject(fullPath) && (mayMatch || (preferRelative && absolute.length > 1))) {
+                const conversion = await this.convertFromFullPath(`using { ${fullPath} }`, document.uri);
+                relativeForm = conversion ? this.extractPathFromImport(conversion.convertedImport) : null;
+            }
+
+            const relatives = relativeForm ? (relativeGroups.get(relativeForm) ?? []) : [];
+            if (relativeForm) {
+                relativeGroups.delete(relativeForm);
+            }
+
+            const members = [...absolute, ...relatives];
+            if (members.length > 1) {
+                groups.push(ImportPathConverter.duplicateGroup(members, preferRelative && relativeForm ? relativeForm : fullPath));
+            }
+        }
+
+        for (const [reference, relatives] of relativeGroups) {
+            if (relatives.length > 1) {
+                groups.push(ImportPathConverter.duplicateGroup(relatives, reference));
+            }
+        }
+
+        return groups.sort((a, b) => a.imports[0].line - b.imports[0].line);
+    }
+
+    /** A group of imports naming one module, in document order. */
+    private static duplicateGroup(imports: ScannedImport[], preferredPath: string): DuplicateImportGroup {
+        return {
+            imports: imports.map((imp) => ({ path: imp.path, line: imp.startLine })).sort((a, b) => a.line - b.line),
+            preferredPath,
+        };
+    }
+
     /**
      * The absolute form of a relative import, in the style the author wrote,
      * or null when there is none to give: an import that is already absolute,
@@ -1060,6 +1154,50 @@ export class ImportPathConverter {
         return this.resolveToFullPath(importStatement, documentUri, { pending: true }, line);
     }
 
+    /**
+     * Every absolute path a `using` of `modulePath`, written in the file at
+     * `documentUri`, may name - for a caller that reads imports rather than
+     * rewriting them, as the dependency graph does. An absolute path is its
+     * own answer. A relative one is looked up as convertToFullPath looks it
+     * up, through the same search and lexical gate, and answers with every
+     * candidate left, so more than one means the search could not tell them
+     * apart.
+     *
+     * Quiet where convertToFullPath warns: no `.uefnproject`, a search that
+     * stopped at its file cap and a module found nowhere all answer an empty
+     * list, since a caller reading a whole workspace would otherwise raise the
+     * same notice once per import.
+     */
+    async resolveModulePaths(modulePath: string, documentUri: vscode.Uri): Promise<string[]> {
+        if (modulePath.startsWith("/")) return [modulePath];
+
+        const moduleInfo = ImportPathConverter.splitModuleReference(modulePath);
+        if (!moduleInfo) return [];
+
+        const projectVersePath = await this.projectPathHandler.getProjectVersePath(documentUri);
+        if (!projectVersePath) return [];
+
+        const { locations, truncated } = await this.findModuleLocations(moduleInfo.fullPath, documentUri);
+        if (truncated) {
+            logger.debug("ImportPathConverter", `Not resolving ${modulePath}: a project-wide scan read part of the project`);
+            return [];
+        }
+
+        return locations
+            .map((location) => ImportPathConverter.buildFullVersePath(projectVersePath, location, moduleInfo.fullPath))
+            .filter((candidate) => ImportPathConverter.firstUnlexableSegment(candidate) === null);
+    }
+
+    /**
+     * The module the top level of the file at `documentUri` sits in - its
+     * folder's, under the project's Content root - or null for a file outside
+     * that root or a workspace with no `.uefnproject`.
+     */
+    async fileModulePath(documentUri: vscode.Uri): Promise<string | null> {
+        const projectVersePath = await this.projectPathHandler.getProjectVersePath(documentUri);
+        return projectVersePath ? this.enclosingModulePath(documentUri, projectVersePath) : null;
+    }
+
     /**
      * convertToFullPath's body, with the truncation notice hoisted so a caller
      * converting a whole document reports the condition once.
@@ -1232,17 +1370,70 @@ export class ImportPathConverter {
      * indentation and trailing comment. False when the line is no longer
      * findable or the edit is refused.
      *
+     * With `general.previewImportEdits` on for the document, the edit goes
+     * through the refactor preview, labelled with the path form it converts
+     * to, and true means the preview was accepted.
+     *
      * @param selectedPath The path chosen for an ambiguous conversion. Without
      *   it such a conversion writes its empty statement, erasing the import.
      */
     async applyConversion(document: vscode.TextDocument, conversion: ImportConversionResult, selectedPath?: string): Promise<boolean> {
-        const text = document.getText();
-        const lines = text.split(LINE_SPLIT);
+        return (await this.applyConversions(document, [{ conversion, selectedPath }])) === 1;
+    }
+
+    /**
+     * applyConversion for several conversions of one document, as one edit:
+     * one preview for all of them when previewing. Answers how many were
+     * written, which is none when the edit is refused, and leaves out a
+     * conversion whose line is no longer findable.
+     */
+    async applyConversions(document: vscode.TextDocument, conversions: ReadonlyArray<{ conversion: ImportConversionResult; selectedPath?: string }>): Promise<number> {
+        const lines = document.getText().split(LINE_SPLIT);
+        const previewed = previewImportEditsFor(document.uri);
+        const edit = new vscode.WorkspaceEdit();
+        const written: string[] = [];
+
+        for (const { conversion, selectedPath } of conversions) {
+            const finalImport = this.addConversion(edit, document, lines, conversion, selectedPath, previewed);
+            if (finalImport !== null) {
+                written.push(`${conversion.originalImport} -> ${finalImport}`);
+            }
+        }
+        if (written.length === 0) {
+            return 0;
+        }
+
+        try {
+            const success = await applyImportEdit(edit, previewed);
+            if (success) {
+                logger.debug("ImportPathConverter", `Converted: ${written.join(", ")}`);
+            } else {
+                logger.debug("ImportPathConverter", `Failed to apply conversion for: ${written.join(", ")}`);
+            }
+            return success ? written.length : 0;
+        } catch (error) {
+            logger.debug("ImportPathConverter", `Error applying conversion: ${error}`);
+            return 0;
+        }
+    }
+
+    /**
+     * Adds the replacement of a conversion's line to `edit` and returns the
+     * statement written, or null when the line is no longer findable.
+     */
+    private addConversion(
+        edit: vscode.WorkspaceEdit,
+        document: vscode.TextDocument,
+        lines: string[],
+        conversion: ImportConversionResult,
+        selectedPath: string | undefined,
+        previewed: boolean,
+    ): string | null {
         const lineIndex = ImportPathConverter.findConversionLine(lines, conversion);
 
         if (lineIndex === -1) {
             logger.debug("ImportPathConverter", `Could not find import line: ${conversion.originalImport}`);
-            return false;
+            return null;
         }
 
         let finalImport = conversion.convertedImport;
@@ -1251,7 +1442,6 @@ export class ImportPathConverter {
             finalImport = usesCurlyBraces ? `using { ${selectedPath} }` : `using. ${selectedPath}`;
         }
 
-        const edit = new vscode.WorkspaceEdit();
         const range = new vscode.Range(new vscode.Position(lineIndex, 0), new vscode.Position(lineIndex, lines[lineIndex].length));
 
         // The replacement is built from the statement alone, so everything else
@@ -1268,19 +1458,18 @@ export class ImportPathConverter {
         const originalIndent = lines[lineIndex].match(/^\s*/)?.[0] || "";
         const trailingComment = ImportFormatter.extractTrailingComment(lines[lineIndex]);
         const rebuiltLine = trailingComment ? `${finalImport} ${trailingComment}` : finalImport;
-        edit.replace(document.uri, range, originalIndent + rebuiltLine);
 
-        try {
-            const success = await vscode.workspace.applyEdit(edit);
-            if (success) {
-                logger.debug("ImportPathConverter", `Converted: ${conversion.originalImport} -> ${finalImport}`);
-            } else {
-                logger.debug("ImportPathConverter", `Failed to apply conversion for: ${conversion.originalImport}`);
-            }
-            return success;
-        } catch (error) {
-            logger.debug("ImportPathConverter", `Error applying conversion: ${error}`);
-            return false;
+        if (previewed) {
+            const toAbsolute = this.extractPathFromImport(finalImport).startsWith("/");
+            edit.replace(
+                document.uri,
+                range,
+                originalIndent + rebuiltLine,
+                previewEntry(toAbsolute ? "Converted to absolute path" : "Converted to relative path", `${conversion.originalImport} -> ${finalImport}`),
+            );
+        } else {
+            edit.replace(document.uri, range, originalIndent + rebuiltLine);
         }
+        return finalImport;
     }
 }
@@ -0,0 +1,134 @@
+import * as vscode from "vscode";
+import { CompiledSettingList } from "../utils";
+import { ImportRestriction, ImportRestrictionRule } from "../types";
+import { globToRegExp } from "./ImportGroupRules";
+
+/** A restriction rule that passed validation, ready to judge. */
+export interface CompiledImportRestriction {
+    /** Whether the rule covers a file, by its path relative to the workspace folder. */
+    appliesTo: (relativeFile: string) => boolean;
+    /** Whether the rule bans an absolute path. */
+    bans: (path: string) => boolean;
+    restriction: (path: string) => ImportRestriction;
+}
+
+/**
+ * The valid rules of a configured list and one line per entry that was
+ * dropped saying why, as compileImportGroupRules answers for its list.
+ *
+ * @param origin Where the list came from, for the messages.
+ */
+export function compileImportRestrictions(raw: unknown, origin: string): { rules: CompiledImportRestriction[]; errors: string[] } {
+    if (raw === undefined || raw === null) {
+        return { rules: [], errors: [] };
+    }
+    if (!Array.isArray(raw)) {
+        return { rules: [], errors: [`${origin}: expected a list of restriction rules`] };
+    }
+
+    const rules: CompiledImportRestriction[] = [];
+    const errors: string[] = [];
+    raw.forEach((entry: Partial<ImportRestrictionRule> | null, index) => {
+        const where = `${origin}, rule ${index + 1}`;
+        if (typeof entry !== "object" || entry === null) {
+            errors.push(`${where}: expected an object`);
+            return;
+        }
+        const matchers = [entry.prefix !== undefined, entry.glob !== undefined, entry.allow !== undefined].filter(Boolean).length;
+        if (matchers !== 1) {
+            errors.push(`${where}: give exactly one of "prefix", "glob" and "allow"`);
+            return;
+        }
+        if (entry.prefix !== undefined && (typeof entry.prefix !== "string" || entry.prefix === "")) {
+            errors.push(`${where}: "prefix" must be a non-empty string`);
+            return;
+        }
+        if (entry.glob !== undefined && (typeof entry.glob !== "string" || entry.glob === "")) {
+            errors.push(`${where}: "glob" must be a non-empty string`);
+            return;
+        }
+        if (entry.allow !== undefined && (!Array.isArray(entry.allow) || entry.allow.some((glob) => typeof glob !== "string" || glob === ""))) {
+            errors.push(`${where}: "allow" must be a list of non-empty strings`);
+            return;
+        }
+        if (entry.files !== undefined && (typeof entry.files !== "string" || entry.files === "")) {
+            errors.push(`${where}: "files" must be a non-empty string`);
+            return;
+        }
+        if (entry.message !== undefined && typeof entry.message !== "string") {
+            errors.push(`${where}: "message" must be a string`);
+            return;
+        }
+        if (entry.replacement !== undefined && (typeof entry.replacement !== "string" || !entry.replacement.startsWith("/"))) {
+            errors.push(`${where}: "replacement" must be an absolute path`);
+            return;
+        }
+
+        const { prefix, glob, allow, files, replacement } = entry;
+        let bans: (path: string) => boolean;
+        let reason: string;
+        if (prefix !== undefined) {
+            bans = (path) => path.startsWith(prefix);
+            reason = `paths starting with ${prefix} are restricted`;
+        } else if (glob !== undefined) {
+            const regex = globToRegExp(glob);
+            bans = (path) => regex.test(path);
+            reason = `paths matching ${glob} are restricted`;
+        } else {
+            const allowed = allow!.map(globToRegExp);
+            bans = (path) => !allowed.some((regex) => regex.test(path));
+            reason = "it is not in the allow-list";
+        }
+        if (files !== undefined) {
+            reason += ` for ${files}`;
+        }
+
+        const filesRegex = files !== undefined ? globToRegExp(files) : undefined;
+        // A replacement the rule itself bans would trade one warning for the
+        // same warning, so it is not offered.
+        const usableReplacement = replacement !== undefined && !bans(replacement) ? replacement : undefined;
+        const message = entry.message?.trim();
+        rules.push({
+            appliesTo: (relativeFile) => filesRegex === undefined || filesRegex.test(relativeFile),
+            bans,
+            restriction: (path) => ({ message: message ? `${path}: ${message}` : `${path} is restricted: ${reason}`, replacement: usableReplacement }),
+        });
+    });
+
+    return { rules, errors };
+}
+
+/**
+ * The rules of the `behavior.restrictedImports` setting, which the diagnostics
+ * flag existing imports by and every route that writes an import consults
+ * before writing one.
+ */
+export class ImportRestrictions {
+    private readonly rules = new CompiledSettingList<CompiledImportRestriction>({
+        setting: "behavior.restrictedImports",
+        logSource: "ImportRestrictions",
+        entries: "import restriction rule(s)",
+        compile: (raw, origin) => {
+            const { rules, errors } = compileImportRestrictions(raw, origin);
+            return { values: rules, errors };
+        },
+    });
+
+    /**
+     * Why importing `path` into `resource` is restricted, by the first rule
+     * that bans it, or null when nothing does - always for a relative path.
+     */
+    restrictionFor(path: string, resource?: vscode.Uri): ImportRestriction | null {
+        if (!path.startsWith("/")) {
+            return null;
+        }
+        const rules = this.rules.valuesFor(resource);
+        if (rules.length === 0) {
+            return null;
+        }
+
+        const relativeFile = resource ? vscode.workspace.asRelativePath(resource, false).replace(/\\/g, "/") : "";
+        const rule = rules.find((candidate) => candidate.appliesTo(relativeFile) && candidate.bans(path));
+        return rule ? rule.restriction(path) : null;
+    }
+}
@@ -84,15 +84,18 @@ function firstBodyDifference(before: BodyLine[], after: BodyLine[]): string | nu
  *
  * @param requestedPaths The additional paths the caller asked for. Only these
  *   may appear in `after` without appearing in `before`.
+ * @param removedPaths The paths the caller asked to have removed. Only these
+ *   may appear in `before` without appearing in `after`.
  */
-export function verifyOrganizedRewrite(before: string, after: string, requestedPaths: readonly string[]): string | null {
+export function verifyOrganizedRewrite(before: string, after: string, requestedPaths: readonly string[], removedPaths: readonly string[] = []): string | null {
     const beforeLines = before.split(LINE_SPLIT);
     const afterLines = after.split(LINE_SPLIT);
 
     const beforePaths = new Set(scanModuleImports(beforeLines).map((imp) => imp.path));
     const afterPaths = new Set(scanModuleImports(afterLines).map((imp) => imp.path));
 
-    const lost = [...beforePaths].filter((path) => !afterPaths.has(path));
+    const removable = new Set(removedPaths);
+    const lost = [...beforePaths].filter((path) => !afterPaths.has(path) && !removable.has(path));
     if (lost.length > 0) {
         return `the rebuilt document no longer imports ${lost.join(", ")}`;
     }
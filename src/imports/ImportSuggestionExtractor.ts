@@ -1,12 +1,16 @@
 import * as vscode from "vscode";
 import { logger, settingsFor } from "../utils";
-import { DiagnosticPosition, ImportSuggestion, ImportSuggestionSource, ImportConfidence, MissingImports } from "../types";
-import { DigestParser, AssetsDigestParser } from "../services";
+import { DiagnosticPosition, ImportableIdentifier, ImportSuggestion, ImportSuggestionSource, ImportConfidence, MissingImports } from "../types";
+import { DigestParser, AssetsDigestParser, ProjectPathCache } from "../services";
 import { ImportFormatter } from "./ImportFormatter";
+import { ImportPathConverter } from "./ImportPathConverter";
+import { CustomDiagnosticPatterns } from "./CustomDiagnosticPatterns";
+import { apiStabilityOf } from "./ApiStability";
 
 // Each entry is documented by the compiler text it matches, since the message
 // wording is the contract these depend on. Precedence between them lives in
-// classifyMessage, not here.
+// classifyMessage, not here. A team can add patterns of its own without waiting
+// for a release: see CustomDiagnosticPatterns.
 const PATTERNS = {
     /** "Did you mean any of:\n<options>" */
     DID_YOU_MEAN_ANY: /Did you mean any of:\s*\n(.+)/s,
@@ -14,6 +18,8 @@ const PATTERNS = {
     FORGET_ONE_OF: /Did you forget to specify one of:\s*\n((?:using \{[^}]+\}\s*\n?)+)/s,
     /** "Identifier X could be one of many types: (/Path1:)X or (/Path2:)X" */
     IDENTIFIER_MANY_TYPES: /Identifier \w+ could be one of many types:\s*(.+)/,
+    /** The name in "Identifier X could be one of many types" */
+    MANY_TYPES_IDENTIFIER: /Identifier (\w+) could be one of many types/,
     /** "Did you forget to specify using { /Path }" */
     FORGET_SINGLE: /Did you forget to specify using \{ (\/[^}]+) \}/,
     /** "Unknown identifier `x`. Did you forget to specify using { /Path }" */
@@ -77,11 +83,30 @@ export class ImportSuggestionExtractor {
     private readonly digestParser: DigestParser;
     private readonly formatter: ImportFormatter;
     private readonly assetsDigestParser: AssetsDigestParser | null;
+    private readonly projectPathCache: ProjectPathCache | null;
+    private readonly pathConverter: ImportPathConverter | null;
+    private readonly customPatterns = new CustomDiagnosticPatterns();
 
-    constructor(outputChannel: vscode.OutputChannel, formatter: ImportFormatter, assetsDigestParser?: AssetsDigestParser, extensionContext?: vscode.ExtensionContext) {
-        this.digestParser = new DigestParser(outputChannel, extensionContext);
+    /**
+     * @param digestParser The parser to share with the caller's other digest
+     *   readers, so the index is loaded once. One is built from
+     *   `extensionContext` when it is not given.
+     * @param projectPathCache Absent when the cache is disabled. Declarations
+     *   in the project are then never suggested.
+     */
+    constructor(
+        outputChannel: vscode.OutputChannel,
+        formatter: ImportFormatter,
+        assetsDigestParser?: AssetsDigestParser,
+        extensionContext?: vscode.ExtensionContext,
+        digestParser?: DigestParser,
+        projectPathCache?: ProjectPathCache,
+    ) {
+        this.digestParser = digestParser ?? new DigestParser(outputChannel, extensionContext);
         this.formatter = formatter;
         this.assetsDigestParser = assetsDigestParser || null;
+        this.projectPathCache = projectPathCache || null;
+        this.pathConverter = projectPathCache ? new ImportPathConverter(outputChannel, projectPathCache) : null;
     }
 
     /** Every path written as `using { /Path }` in the text. */
@@ -277,12 +302,71 @@ export class ImportSuggestionExtractor {
         return null;
     }
 
+    /**
+     * The classification the first matching custom pattern gives a message, or
+     * null when none matches. A multi-option match listing no absolute path
+     * counts as no match, so the built-in patterns still get their turn.
+     */
+    private classifyCustom(errorMessage: string, resource?: vscode.Uri): DiagnosticClassification | null {
+        for (const { kind, regex, description } of this.customPatterns.patternsFor(resource)) {
+            const groups = regex.exec(errorMessage)?.groups;
+            if (!groups) {
+                continue;
+            }
+            logger.debug("ImportSuggestionExtractor", `Custom ${kind} pattern matched: ${regex.source}`);
+
+            switch (kind) {
+                case "singleImport":
+                    if (groups.path) {
+                        return { kind: "singleImport", candidate: { path: groups.path.trim(), description: description ?? `Import from ${groups.path.trim()}` } };
+                    }
+                    break;
+
+                case "multiOption": {
+                    const block = groups.paths ?? "";
+                    let paths = this.extractUsingPaths(block);
+                    if (paths.length === 0) paths = this.extractParenPaths(block);
+                    if (paths.length === 0) paths = block.split(/[\s,]+/).filter((path) => path.startsWith("/"));
+                    const candidates = Array.from(new Set(paths)).map((path) => ({ path, description: description ?? `Import from ${path}` }));
+                    if (candidates.length > 1) {
+                        return { kind: "multiOption", candidates };
+                    }
+                    if (candidates.length === 1) {
+                        return { kind: "singleImport", candidate: candidates[0] };
+                    }
+                    break;
+                }
+
+                case "identifier":
+                    if (groups.identifier) {
+                        const inferred = groups.path ? { path: groups.path.trim(), description: description ?? `Inferred import for ${groups.identifier}` } : undefined;
+                        return { kind: "identifier", identifier: groups.identifier, inferred };
+                    }
+                    break;
+            }
+        }
+        return null;
+    }
+
     /**
      * Classifies a compiler message into exactly one import-relevant category.
      * Pattern precedence is load-bearing: multi-option patterns are checked
      * before single-option ones so a new pattern must not shadow an existing one.
+     *
+     * The team's custom patterns come before all of it, the `set` filter
+     * included: one is declared for a message the built-ins read wrongly or
+     * not at all, and losing to them would leave it nothing to do.
+     *
+     * @param resource The document the message was reported on, which picks
+     *   the custom patterns: the setting is resource-scoped, and the project
+     *   configuration file is the one of its workspace folder.
      */
-    private classifyMessage(errorMessage: string): DiagnosticClassification {
+    private classifyMessage(errorMessage: string, resource?: vscode.Uri): DiagnosticClassification {
+        const custom = this.classifyCustom(errorMessage, resource);
+        if (custom) {
+            return custom;
+        }
+
         // Assignment hints ("Did you mean to write 'set ...'") are never import problems
         if (errorMessage.includes("Did you mean to write 'set")) {
             logger.debug("ImportSuggestionExtractor", `Ignoring 'set' suggestion error`);
@@ -397,13 +481,210 @@ export class ImportSuggestionExtractor {
         }
     }
 
+    /**
+     * The import suggestions the project path cache offers for an identifier:
+     * one per module of the project that publicly declares it. Empty without a
+     * cache, and empty rather than throwing when the lookup fails.
+     *
+     * Written relative when `pathConversion.projectImportPathStyle` asks for
+     * it and the converter can shorten the path from the importing file.
+     * Where it cannot - no importing file, or a shortened form that does not
+     * resolve back to the module - the absolute form is offered instead of
+     * nothing: it is the longer spelling of the same import, not a guess.
+     *
+     * Always high confidence, for the digest lookup's reason: the name matched
+     * exactly. The cache may be stale, but a declaration it still holds was in
+     * the project at the last scan or watcher update.
+     */
+    private async lookupIdentifierInProject(identifier: string, resource?: vscode.Uri): Promise<ImportSuggestion[]> {
+        if (!this.projectPathCache) {
+            return [];
+        }
+
+        try {
+            const declarations = await this.projectPathCache.lookupDeclarationImports(identifier, resource);
+            const suggestions: ImportSuggestion[] = [];
+
+            for (const { node, modulePath } of declarations) {
+                const importStatement = await this.projectImportStatement(modulePath, resource);
+                const description = `${node.type} from ${node.sourceFile}`;
+                suggestions.push(this.createImportSuggestion(importStatement, "project_lookup", "high", description));
+            }
+
+            if (suggestions.length > 0) {
+                logger.debug("ImportSuggestionExtractor", `Found ${suggestions.length} project-based suggestions for: ${identifier}`);
+            }
+
+            return suggestions;
+        } catch (error) {
+            logger.error("ImportSuggestionExtractor", `Error looking up identifier in project`, error);
+            return [];
+        }
+    }
+
+    /**
+     * The statement importing a project module, relative where
+     * `pathConversion.projectImportPathStyle` asks for it and the converter
+     * can shorten the path from `resource`, absolute otherwise.
+     */
+    private async projectImportStatement(modulePath: string, resource?: vscode.Uri): Promise<string> {
+        const config = settingsFor(resource);
+        const preferDotSyntax = config.get<string>("behavior.importSyntax", "curly") === "dot";
+        const preferRelative = config.get<string>("pathConversion.projectImportPathStyle", "absolute") === "relative";
+
+        const importStatement = this.formatter.formatImportStatement(modulePath, preferDotSyntax);
+        if (!preferRelative || !resource || !this.pathConverter) {
+            return importStatement;
+        }
+
+        const relative = await this.pathConverter.convertFromFullPath(importStatement, resource);
+        return relative?.convertedImport || importStatement;
+    }
+
+    /**
+     * Every name the digests and the project cache know a module for, one
+     * entry per module that declares it, for the completion list. Unlike the
+     * message-driven digest lookup this does not wait on
+     * `experimental.useDigestFiles`: completion has a setting of its own.
+     *
+     * Empty rather than throwing when either source fails; the other's names
+     * are still offered.
+     */
+    async listImportableIdentifiers(resource?: vscode.Uri): Promise<ImportableIdentifier[]> {
+        const identifiers: ImportableIdentifier[] = [];
+
+        try {
+            for (const entries of (await this.digestParser.getDigestIndex()).values()) {
+                for (const entry of entries) {
+                    if (entry.modulePath && entry.type !== "module") {
+                        identifiers.push({
+                            identifier: entry.identifier,
+                            modulePath: entry.modulePath,
+                            type: entry.type,
+                            source: "digest_lookup",
+                            deprecated: entry.deprecated,
+                            experimental: entry.experimental,
+                        });
+                    }
+                }
+            }
+        } catch (error) {
+            logger.error("ImportSuggestionExtractor", "Error listing digest identifiers", error);
+        }
+
+        if (this.projectPathCache) {
+            try {
+                for (const { node, modulePath } of await this.projectPathCache.listDeclarationImports(resource)) {
+                    identifiers.push({ identifier: node.name, modulePath, type: node.type, source: "project_lookup" });
+                }
+            } catch (error) {
+                logger.error("ImportSuggestionExtractor", "Error listing project identifiers", error);
+            }
+        }
+
+        return identifiers;
+    }
+
+    /**
+     * Every module the digests and the project cache know to declare exactly
+     * this identifier, for the hover and Go to Definition. Like listImportableIdentifiers, it does
+     * not wait on `experimental.useDigestFiles`, and a failing source yields
+     * nothing rather than throwing.
+     */
+    async lookupDeclarations(identifier: string, resource?: vscode.Uri): Promise<ImportableIdentifier[]> {
+        const declarations: ImportableIdentifier[] = [];
+
+        try {
+            for (const entry of await this.digestParser.lookupIdentifier(identifier)) {
+                if (entry.modulePath && entry.type !== "module") {
+                    const declaredAt = entry.sourceFile && entry.sourceLine ? { sourceFile: entry.sourceFile, line: entry.sourceLine } : undefined;
+                    declarations.push({
+                        identifier,
+                        modulePath: entry.modulePath,
+                        type: entry.type,
+                        source: "digest_lookup",
+                        declaredAt,
+                        deprecated: entry.deprecated,
+                        experimental: entry.experimental,
+                    });
+                }
+            }
+        } catch (error) {
+            logger.error("ImportSuggestionExtractor", `Error looking up declarations of ${identifier} in the digests`, error);
+        }
+
+        if (this.projectPathCache) {
+            try {
+                for (const { node, modulePath } of await this.projectPathCache.lookupDeclarationImports(identifier, resource)) {
+                    declarations.push({ identifier, modulePath, type: node.type, source: "project_lookup" });
+                }
+            } catch (error) {
+                logger.error("ImportSuggestionExtractor", `Error looking up declarations of ${identifier} in the project`, error);
+            }
+        }
+
+        return declarations;
+    }
+
+    /**
+     * Every module the digests declare, with the names each declares, for the
+     * Verse API explorer. A module is listed even where it declares no name a
+     * suggestion would offer - its public members can all be extension
+     * methods, which a `using` of it still brings into scope. Empty when the
+     * digests cannot be read.
+     */
+    async listDigestModules(): Promise<Map<string, ImportableIdentifier[]>> {
+        const modules = new Map<string, ImportableIdentifier[]>();
+
+        try {
+            for (const modulePath of (await this.digestParser.getModuleIndex()).keys()) {
+                modules.set(modulePath, []);
+            }
+            for (const entries of (await this.digestParser.getDigestIndex()).values()) {
+                for (const entry of entries) {
+                    if (entry.modulePath && entry.type !== "module") {
+                        const declarations = modules.get(entry.modulePath) ?? [];
+                        declarations.push({
+                            identifier: entry.identifier,
+                            modulePath: entry.modulePath,
+                            type: entry.type,
+                            source: "digest_lookup",
+                            deprecated: entry.deprecated,
+                            experimental: entry.experimental,
+                        });
+                        modules.set(entry.modulePath, declarations);
+                    }
+                }
+            }
+        } catch (error) {
+            logger.error("ImportSuggestionExtractor", "Error listing digest modules", error);
+        }
+
+        return modules;
+    }
+
+    /** The statement that imports an identifier's module into `resource`, in the syntax and path style configured for it. */
+    async importStatementFor(importable: ImportableIdentifier, resource?: vscode.Uri): Promise<string> {
+        if (importable.source === "project_lookup") {
+            return this.projectImportStatement(importable.modulePath, resource);
+        }
+        return this.absoluteImportStatement(importable.modulePath, resource);
+    }
+
+    /** The statement importing `modulePath` as written, absolute, in the syntax configured for `resource`. */
+    absoluteImportStatement(modulePath: string, resource?: vscode.Uri): string {
+        const preferDotSyntax = settingsFor(resource).get<string>("behavior.importSyntax", "curly") === "dot";
+        return this.formatter.formatImportStatement(modulePath, preferDotSyntax);
+    }
+
     /**
      * Every import suggestion a single compiler message supports, ambiguous
      * ones included - the quick-fix menu is where the user picks between them.
      *
      * An unknown identifier is resolved in a fixed order: a configured
-     * ambiguous mapping first, then the digest lookup, then the path inferred
-     * from a "Did you mean". The order is the precedence, most specific first.
+     * ambiguous mapping first, then the digest and project lookups together,
+     * then the path inferred from a "Did you mean". The order is the
+     * precedence, most specific first.
      *
      * @param resource The document the message was reported on. Pass it
      *   wherever one exists: `behavior.importSyntax` is resource-scoped, and a
@@ -414,11 +695,42 @@ export class ImportSuggestionExtractor {
     async extractImportSuggestions(errorMessage: string, resource?: vscode.Uri): Promise<ImportSuggestion[]> {
         logger.debug("ImportSuggestionExtractor", `Extracting import suggestions from error: ${errorMessage}`);
 
+        const suggestions = await this.suggestionsForMessage(errorMessage, resource);
+        return this.markApiStability(suggestions, this.identifierInMessage(errorMessage, resource));
+    }
+
+    /**
+     * Marks each suggestion whose module, or whose declaration of the name in
+     * it, the digest marks experimental or deprecated, for the quick fix
+     * titles. Left unmarked when the digest cannot be read.
+     */
+    private async markApiStability(suggestions: ImportSuggestion[], identifier: string | null): Promise<ImportSuggestion[]> {
+        if (suggestions.length === 0) {
+            return suggestions;
+        }
+
+        try {
+            const index = await this.digestParser.getDigestIndex();
+            return suggestions.map((suggestion) => {
+                if (!suggestion.modulePath) {
+                    return suggestion;
+                }
+                const { experimental, deprecated } = apiStabilityOf(suggestion.modulePath, identifier, (name) => index.get(name) ?? []);
+                return experimental || deprecated ? { ...suggestion, ...(experimental ? { experimental } : {}), ...(deprecated ? { deprecated } : {}) } : suggestion;
+            });
+        } catch (error) {
+            logger.error("ImportSuggestionExtractor", "Error reading API stability from the digests", error);
+            return suggestions;
+        }
+    }
+
+    /** extractImportSuggestions before the stability marks. */
+    private async suggestionsForMessage(errorMessage: string, resource?: vscode.Uri): Promise<ImportSuggestion[]> {
         const config = settingsFor(resource);
         const preferDotSyntax = config.get<string>("behavior.importSyntax", "curly") === "dot";
         const ambiguousImportMappings = config.get<Record<string, string>>("behavior.ambiguousImports", DEFAULT_AMBIGUOUS_IMPORTS);
 
-        const classification = this.classifyMessage(errorMessage);
+        const classification = this.classifyMessage(errorMessage, resource);
 
         switch (classification.kind) {
             case "ignored":
@@ -446,10 +758,16 @@ export class ImportSuggestionExtractor {
                     return [this.createImportSuggestion(importStatement, "error_message", "high", `Configured import for ${classification.identifier}`)];
                 }
 
-                const digestSuggestions = await this.lookupIdentifierInDigest(classification.identifier, resource);
-                if (digestSuggestions.length > 0) {
-                    logger.debug("ImportSuggestionExtractor", `Found digest-based suggestions for unknown identifier: ${classification.identifier}`);
-                    return digestSuggestions;
+                // Both lookups, and every answer of either offered together: a
+                // project class may share its name with an API one, and which
+                // was meant is the user's pick, or the multi-option strategy's.
+                const lookupSuggestions = [
+                    ...(await this.lookupIdentifierInDigest(classification.identifier, resource)),
+                    ...(await this.lookupIdentifierInProject(classification.identifier, resource)),
+                ];
+                if (lookupSuggestions.length > 0) {
+                    logger.debug("ImportSuggestionExtractor", `Found lookup-based suggestions for unknown identifier: ${classification.identifier}`);
+                    return lookupSuggestions;
                 }
 
                 if (classification.inferred) {
@@ -469,6 +787,22 @@ export class ImportSuggestionExtractor {
         }
     }
 
+    /**
+     * The name a compiler message is about, where it names one: the subject of
+     * a custom identifier pattern, or of an unknown-identifier or a many-types
+     * message. What a remembered import choice is keyed by.
+     */
+    identifierInMessage(errorMessage: string, resource?: vscode.Uri): string | null {
+        for (const { kind, regex } of this.customPatterns.patternsFor(resource)) {
+            const identifier = kind === "identifier" ? regex.exec(errorMessage)?.groups?.identifier : undefined;
+            if (identifier) {
+                return identifier;
+            }
+        }
+        const match = errorMessage.match(PATTERNS.UNKNOWN_IDENTIFIER) ?? errorMessage.match(PATTERNS.MANY_TYPES_IDENTIFIER);
+        return match ? match[1] : null;
+    }
+
     /**
      * The unambiguous import paths across a set of diagnostics, deduplicated,
      * with the line each diagnostic was reported on, for the Optimize Imports
@@ -483,8 +817,12 @@ export class ImportSuggestionExtractor {
      * Ambiguous messages are left out rather than resolved: they need a user
      * choice, which belongs to the quick-fix menu. A command that adds imports
      * in bulk has nobody to ask.
+     *
+     * @param resource The document the diagnostics were reported on, which
+     *   picks the custom patterns. Without it only the setting's window value
+     *   applies, and no project configuration file.
      */
-    extractImportsFromDiagnostics(diagnostics: vscode.Diagnostic[]): MissingImports {
+    extractImportsFromDiagnostics(diagnostics: vscode.Diagnostic[], resource?: vscode.Uri): MissingImports {
         logger.debug("ImportSuggestionExtractor", `Extracting imports from ${diagnostics.length} diagnostics`);
 
         // One collection, so the paths and their evidence cannot disagree about
@@ -499,8 +837,10 @@ export class ImportSuggestionExtractor {
             diagnosticPositionsByPath.set(path, [...(diagnosticPositionsByPath.get(path) ?? []), start]);
         };
 
+        const ambiguousPositions: DiagnosticPosition[] = [];
+
         for (const diagnostic of diagnostics) {
-            const classification = this.classifyMessage(diagnostic.message);
+            const classification = this.classifyMessage(diagnostic.message, resource);
 
             switch (classification.kind) {
                 case "singleImport":
@@ -518,6 +858,7 @@ export class ImportSuggestionExtractor {
                 case "multiOption":
                     // Ambiguous candidates need a user choice; never bulk-add them
                     logger.debug("ImportSuggestionExtractor", `Skipping ambiguous diagnostic with ${classification.candidates.length} candidates`);
+                    ambiguousPositions.push({ line: diagnostic.range.start.line, character: diagnostic.range.start.character });
                     break;
 
                 case "ignored":
@@ -533,6 +874,6 @@ export class ImportSuggestionExtractor {
 
         const paths = Array.from(diagnosticPositionsByPath.keys());
         logger.debug("ImportSuggestionExtractor", `Extracted ${paths.length} unique import paths from diagnostics`);
-        return { paths, diagnosticPositionsByPath };
+        return { paths, diagnosticPositionsByPath, ambiguousPositions };
     }
 }
@@ -0,0 +1,171 @@
+import * as vscode from "vscode";
+import { logger } from "../utils";
+import { BUNDLED_DIGEST_NAMES, digestSourceFile } from "../services/digestManifest";
+import { rootDomainForDigestFile } from "../services/digestParsing";
+import { ImportScore, ImportSuggestion, RankedImportSuggestion } from "../types";
+import { ImportHandler } from "./ImportHandler";
+import { ImportHoverProvider } from "./ImportHoverProvider";
+import { LINE_SPLIT, scanModuleImports } from "./ImportScanner";
+
+/** Points per project file that already imports the candidate. */
+const PROJECT_USAGE_POINTS = 2;
+
+/**
+ * Files counted towards project usage at most, so that a module the whole
+ * project imports still cannot outweigh a deprecation.
+ */
+const PROJECT_USAGE_CAP = 5;
+
+/** Points for a candidate whose parent module the file already imports another child of. */
+const SIBLING_POINTS = 3;
+
+/** Points per place a candidate's digest stands ahead of the last one in BUNDLED_DIGEST_NAMES. */
+const DIGEST_PRECEDENCE_POINTS = 1;
+
+/** Larger than every other factor together, so a deprecated candidate only leads when all of them are. */
+const DEPRECATED_PENALTY = 20;
+
+/** How many `.verse` files the project usage scan reads. The rest of a larger project goes uncounted. */
+const PROJECT_USAGE_FILE_LIMIT = 1000;
+
+/**
+ * How long counted project imports are reused. Ranking runs on every quick-fix
+ * request, and a count this old is close enough to order a menu by.
+ */
+const PROJECT_USAGE_MAX_AGE_MS = 60_000;
+
+/**
+ * Scores the suggestions for a name that several modules declare, from what
+ * the project and the file already say about them:
+ *
+ * - how many of the project's files import the candidate already;
+ * - whether the file imports a sibling of it, a module with the same parent,
+ *   as `/Verse.org/Simulation` is to `/Verse.org/SpatialMath`;
+ * - where its digest stands in BUNDLED_DIGEST_NAMES, which puts the current
+ *   homes of the shared names ahead of their superseded ones;
+ * - whether the digest marks it deprecated, which outweighs the rest.
+ *
+ * The score orders the quick fixes and decides the `auto_ranked` strategy. A
+ * tie keeps the extractor's order.
+ *
+ * The project's imports are read from disk per workspace folder and reused
+ * for {@link PROJECT_USAGE_MAX_AGE_MS}, so an edit not yet saved is not
+ * counted and a saved one can take that long to be.
+ */
+export class ImportSuggestionRanker {
+    /** Files importing each path, keyed by workspace folder URI, with when they were counted. */
+    private readonly projectUsage = new Map<string, { countedAt: number; counts: Promise<Map<string, number>> }>();
+
+    constructor(private importHandler: ImportHandler) {}
+
+    /**
+     * A new array of the suggestions, each with its score, highest first. The
+     * input is not modified.
+     *
+     * @param identifier The name the suggestions are for. Without it no
+     *   declaration can be looked up, and deprecation is not weighed.
+     */
+    async rank(document: vscode.TextDocument, identifier: string | null, suggestions: ImportSuggestion[]): Promise<RankedImportSuggestion[]> {
+        const usage = await this.projectUsageFor(document.uri);
+        const fileImports = scanModuleImports(document.getText().split(LINE_SPLIT)).map((imp) => imp.path);
+        const deprecatedPaths = new Set<string>();
+        if (identifier) {
+            for (const declaration of await this.importHandler.lookupDeclarations(identifier, document.uri)) {
+                if (declaration.deprecated) {
+                    deprecatedPaths.add(declaration.modulePath);
+                }
+            }
+        }
+
+        const ranked = suggestions.map((suggestion) => ({ ...suggestion, score: ImportSuggestionRanker.score(suggestion.modulePath, usage, fileImports, deprecatedPaths) }));
+        // Array.prototype.sort is stable, which is what keeps a tie in the
+        // extractor's order.
+        return ranked.sort((a, b) => b.score.total - a.score.total);
+    }
+
+    private static score(modulePath: string | undefined, usage: Map<string, number>, fileImports: string[], deprecatedPaths: Set<string>): ImportScore {
+        const score: ImportScore = { total: 0, reasons: [] };
+        if (!modulePath) {
+            return score;
+        }
+
+        let importingFiles = 0;
+        for (const [importPath, files] of usage) {
+            if (importPath === modulePath || ImportHoverProvider.importProvides(importPath, modulePath)) {
+                importingFiles += files;
+            }
+        }
+        if (importingFiles > 0) {
+            score.total += Math.min(importingFiles, PROJECT_USAGE_CAP) * PROJECT_USAGE_POINTS;
+            score.reasons.push(`imported by ${importingFiles} project file${importingFiles === 1 ? "" : "s"}`);
+        }
+
+        const parent = modulePath.startsWith("/") ? modulePath.slice(0, modulePath.lastIndexOf("/")) : "";
+        if (parent && fileImports.some((path) => path !== modulePath && path.startsWith("/") && path.slice(0, path.lastIndexOf("/")) === parent)) {
+            score.total += SIBLING_POINTS;
+            score.reasons.push("a sibling module is imported");
+        }
+
+        const digestIndex = BUNDLED_DIGEST_NAMES.findIndex((digestName) => {
+            const domain = rootDomainForDigestFile(digestSourceFile(digestName));
+            return modulePath === domain || modulePath.startsWith(`${domain}/`);
+        });
+        if (digestIndex >= 0 && digestIndex < BUNDLED_DIGEST_NAMES.length - 1) {
+            score.total += (BUNDLED_DIGEST_NAMES.length - 1 - digestIndex) * DIGEST_PRECEDENCE_POINTS;
+            score.reasons.push(`${BUNDLED_DIGEST_NAMES[digestIndex]} digest`);
+        }
+
+        if (deprecatedPaths.has(modulePath)) {
+            score.total -= DEPRECATED_PENALTY;
+            score.reasons.push("deprecated");
+        }
+
+        return score;
+    }
+
+    /**
+     * How many of the project's files import each path, as written. A file
+     * outside every workspace folder answers with no counts.
+     */
+    private projectUsageFor(uri: vscode.Uri): Promise<Map<string, number>> {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!folder) {
+            return Promise.resolve(new Map());
+        }
+
+        const key = folder.uri.toString();
+        const usage = this.projectUsage.get(key);
+        if (usage && Date.now() - usage.countedAt <= PROJECT_USAGE_MAX_AGE_MS) {
+            return usage.counts;
+        }
+
+        const counts = this.countProjectImports(folder).catch((error) => {
+            logger.error("ImportSuggestionRanker", `Failed to count the imports of ${folder.name}`, error);
+            // Not kept, so the next ranking tries again.
+            this.projectUsage.delete(key);
+            return new Map<string, number>();
+        });
+        this.projectUsage.set(key, { countedAt: Date.now(), counts });
+        return counts;
+    }
+
+    private async countProjectImports(folder: vscode.WorkspaceFolder): Promise<Map<string, number>> {
+        const counts = new Map<string, number>();
+        const files = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, "**/*.verse"), "**/*.digest.verse", PROJECT_USAGE_FILE_LIMIT);
+
+        for (const file of files) {
+            const content = await vscode.workspace.fs.readFile(file).then(
+                (buffer) => Buffer.from(buffer).toString("utf8"),
+                () => null,
+            );
+            if (!content) continue;
+
+            for (const path of new Set(scanModuleImports(content.split(LINE_SPLIT)).map((imp) => imp.path))) {
+                counts.set(path, (counts.get(path) ?? 0) + 1);
+            }
+        }
+
+        logger.debug("ImportSuggestionRanker", `Counted the imports of ${files.length} files in ${folder.name}`);
+        return counts;
+    }
+}
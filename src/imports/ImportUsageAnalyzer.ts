@@ -0,0 +1,183 @@
+import { DigestParser, ProjectPathCache } from "../services";
+import { ImportFormatter } from "./ImportFormatter";
+import { classifyLines, rewritableImports, ScannedImport, scanModuleImports } from "./ImportScanner";
+
+/** An identifier as Verse's `Ident` production spells one, before any quoted suffix. */
+const IDENTIFIER = /[A-Za-z_][A-Za-z0-9_]*/g;
+
+/**
+ * What a `using` of a path brings into scope, answered from whatever indexes
+ * were loaded when it was built.
+ */
+export interface ImportExports {
+    /**
+     * The names importing `path` makes available, or null when no index knows
+     * the path. Null is the answer that keeps an import: an unknown module may
+     * provide anything.
+     */
+    membersOf(path: string): ReadonlySet<string> | null;
+}
+
+/**
+ * Every identifier the file refers to outside the import statements that could
+ * be removed, with comments and literal contents left out.
+ *
+ * Names, not resolutions: `Player.GetFortCharacter[]` counts both halves, and a
+ * local variable that happens to share a name with an imported class counts as
+ * a use of that class. Over-counting only ever keeps an import, and that is the
+ * direction this has to err in. Nothing here can tell a local from an imported
+ * name without resolving scopes, which is the compiler's job.
+ *
+ * Lines inside a rewritable import's span are skipped, since the path written
+ * there is what is being judged. A pinned import's line is read whole, because
+ * the code sharing it is live: its path is over-counted with it, which is the
+ * safe side again.
+ *
+ * The first segment of every relative import counts as referenced too. A
+ * relative path resolves that segment against what the imports above it
+ * brought into scope, so an import can be providing for nothing but another
+ * `using`.
+ */
+export function referencedIdentifiers(lines: string[], scannedImports: ScannedImport[], formatter: ImportFormatter): Set<string> {
+    const skipped = new Set<number>();
+    for (const imp of rewritableImports(scannedImports)) {
+        for (let line = imp.startLine; line <= imp.endLine; line++) {
+            skipped.add(line);
+        }
+    }
+
+    const referenced = new Set<string>();
+    const classifications = classifyLines(lines);
+    for (let line = 0; line < lines.length; line++) {
+        if (skipped.has(line) || classifications[line].kind !== "code") {
+            continue;
+        }
+        for (const match of classifications[line].codeOutsideLiterals.matchAll(IDENTIFIER)) {
+            referenced.add(match[0]);
+        }
+    }
+
+    for (const imp of scannedImports) {
+        if (formatter.resolvesAgainstScopeAbove(imp.path)) {
+            const firstSegment = imp.path.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+            if (firstSegment) {
+                referenced.add(firstSegment[0]);
+            }
+        }
+    }
+
+    return referenced;
+}
+
+/**
+ * The rewritable imports that bring nothing the file refers to into scope.
+ *
+ * Pinned imports are never reported. A writer may not rebuild their lines (see
+ * rewritableImports), and removing one is a rebuild of its line with the
+ * statement left out - which deletes whatever else the author wrote there.
+ *
+ * An import counts as unused only when an index knows what its path exports and
+ * none of those names is referenced. A path no index knows is kept, whatever the
+ * file refers to.
+ */
+export function findUnusedImports(lines: string[], exports: ImportExports, formatter: ImportFormatter): ScannedImport[] {
+    const scannedImports = scanModuleImports(lines);
+    const referenced = referencedIdentifiers(lines, scannedImports, formatter);
+
+    return rewritableImports(scannedImports).filter((imp) => {
+        const members = exports.membersOf(imp.path);
+        if (members === null) {
+            return false;
+        }
+        for (const member of members) {
+            if (referenced.has(member)) {
+                return false;
+            }
+        }
+        return true;
+    });
+}
+
+/** The last segment of a module path, `Shop` for both `/a@b.com/Economy/Shop` and `Economy.Shop`. */
+function lastSegment(path: string): string {
+    const segments = path.split(/[/.]/).filter((segment) => segment.length > 0);
+    return segments.length > 0 ? segments[segments.length - 1] : path;
+}
+
+/**
+ * Builds the exports an unused-import analysis reads, from the bundled digest
+ * module index and the project path cache.
+ *
+ * A digest path answers from the digests alone: its members are the names its
+ * module index records, plus the last segment of every module nested directly
+ * under it. A project path answers from the cache (ProjectPathCache
+ * .getModuleMembers). A relative path could be either - `using { Devices }`
+ * below `using { /Fortnite.com }` names a digest module - so it is answered
+ * from both, and is known when either knows it.
+ *
+ * The indexes are read once, when the exports are built, so the answers they
+ * give cannot move under a writer halfway through one rebuild.
+ */
+export class ImportUsageAnalyzer {
+    constructor(
+        private readonly digestParser: DigestParser,
+        private readonly formatter: ImportFormatter,
+        private readonly projectPathCache?: ProjectPathCache,
+    ) {}
+
+    async loadExports(): Promise<ImportExports> {
+        const moduleIndex = await this.digestParser.getModuleIndex();
+
+        const digestMembers = new Map<string, Set<string>>();
+        const withMembers = (modulePath: string): Set<string> => {
+            let members = digestMembers.get(modulePath);
+            if (!members) {
+                members = new Set<string>();
+                digestMembers.set(modulePath, members);
+            }
+            return members;
+        };
+        for (const [modulePath, identifiers] of moduleIndex) {
+            const members = withMembers(modulePath);
+            identifiers.forEach((identifier) => members.add(identifier));
+
+            const parentEnd = modulePath.lastIndexOf("/");
+            if (parentEnd > 0) {
+                withMembers(modulePath.slice(0, parentEnd)).add(modulePath.slice(parentEnd + 1));
+            }
+        }
+
+        const digestPathsByName = new Map<string, string[]>();
+        for (const modulePath of digestMembers.keys()) {
+            const name = lastSegment(modulePath);
+            digestPathsByName.set(name, [...(digestPathsByName.get(name) ?? []), modulePath]);
+        }
+
+        const projectPathCache = this.projectPathCache;
+        const formatter = this.formatter;
+
+        return {
+            membersOf(path: string): ReadonlySet<string> | null {
+                if (!formatter.resolvesAgainstScopeAbove(path)) {
+                    if (formatter.isDigestImport(path)) {
+                        return digestMembers.get(path) ?? null;
+                    }
+                    return projectPathCache?.getModuleMembers(lastSegment(path)) ?? null;
+                }
+
+                const name = lastSegment(path);
+                const projectMembers = projectPathCache?.getModuleMembers(name) ?? null;
+                const digestPaths = digestPathsByName.get(name) ?? [];
+                if (projectMembers === null && digestPaths.length === 0) {
+                    return null;
+                }
+
+                const members = new Set(projectMembers ?? []);
+                for (const digestPath of digestPaths) {
+                    digestMembers.get(digestPath)!.forEach((member) => members.add(member));
+                }
+                return members;
+            },
+        };
+    }
+}
@@ -0,0 +1,313 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { logger, settingsFor } from "../utils";
+import { ProjectPathHandler } from "../project";
+import { findContentRoot } from "../services/contentRoot";
+import { toContentRelativeDir } from "../services/moduleLocationLookup";
+import { ModuleRename, RenamedImport } from "../types";
+import { ImportFormatter } from "./ImportFormatter";
+import { applyImportEdit, previewEntry } from "./ImportEditPreview";
+import { LINE_SPLIT, scanConvertibleImports, scanModuleImports } from "./ImportScanner";
+
+/** A name a folder must have for an import to name the module it is. */
+const VERSE_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** The label every entry is grouped under in the preview. */
+const PREVIEW_LABEL = "Follow the renamed module";
+
+/** `modulePath` with the `from` prefix swapped for `to`, or null when it is neither `from` nor below it. */
+function movedPath(modulePath: string, from: string, to: string): string | null {
+    if (modulePath === from) {
+        return to;
+    }
+    return modulePath.startsWith(`${from}/`) ? to + modulePath.slice(from.length) : null;
+}
+
+/** The module a `using` at `scope` resolves through, then each parent out to the project's root module. */
+function scopeChain(scope: string, projectVersePath: string): string[] {
+    const chain = [scope];
+    for (let current = scope; current !== projectVersePath && current.includes("/", 1);) {
+        current = current.slice(0, current.lastIndexOf("/"));
+        chain.push(current);
+    }
+    return chain;
+}
+
+/**
+ * The module a relative reference names from `scope`: the first segment taken
+ * from the nearest level of the scope chain holding a module of that name, the
+ * rest below it, as ImportPathConverter.referenceResolvesTo reads the
+ * compiler's rule. Null when no level holds one.
+ */
+function resolveReference(reference: string, scope: string, projectVersePath: string, exists: (modulePath: string) => boolean): string | null {
+    const segments = reference.split(".");
+    const level = scopeChain(scope, projectVersePath).find((candidate) => exists(`${candidate}/${segments[0]}`));
+    return level === undefined ? null : `${level}/${segments.join("/")}`;
+}
+
+/**
+ * The relative reference naming `target` from `scope`, or null when a nearer
+ * module of its first segment would take the reference instead. Shortened
+ * against the scope as ImportPathConverter.convertFromFullPath shortens, a
+ * target enclosing the scope named by its own last segment.
+ */
+function referenceFrom(target: string, scope: string, projectVersePath: string, modules: ReadonlySet<string>): string | null {
+    const chain = scopeChain(scope, projectVersePath);
+    const encloses = chain.includes(target);
+    const level = encloses ? target.slice(0, target.lastIndexOf("/")) : chain.find((candidate) => target.startsWith(`${candidate}/`));
+    if (level === undefined) {
+        return null;
+    }
+
+    const reference = target.slice(level.length + 1).replace(/\//g, ".");
+    const first = reference.split(".")[0];
+    const nearer = chain.slice(0, chain.indexOf(level) === -1 ? chain.length : chain.indexOf(level));
+    return nearer.some((candidate) => modules.has(`${candidate}/${first}`)) ? null : reference;
+}
+
+/**
+ * The imports of one file that the rename leaves naming the wrong module, each
+ * with the path to write instead, in the form it was written: an absolute
+ * import stays absolute, and a relative one is shortened again from where the
+ * file now sits - which is how a file moved along with the folder keeps the
+ * relative imports of its old neighbours. Where a nearer namesake would take
+ * the new relative reference, the absolute path is written instead, since no
+ * relative spelling reaches past it.
+ *
+ * What each relative import named is worked out against the project as it was
+ * before the rename: `modules` with the renamed folder put back. Folders are
+ * the whole of the evidence, so a module only an explicit `X := module`
+ * declaration makes is invisible here, and an import resolving through one is
+ * left alone. Pinned imports, the indented style and alias references are left
+ * alone too, as every path conversion leaves them (scanConvertibleImports).
+ *
+ * @param fileModule the module the file sits in now, after the rename
+ * @param modules every folder module of the project after the rename
+ */
+export function planRenamedImports(lines: string[], fileModule: string, rename: ModuleRename, projectVersePath: string, modules: ReadonlySet<string>): RenamedImport[] {
+    const { from, to } = rename;
+    const scopeBefore = movedPath(fileModule, to, from) ?? fileModule;
+    const existedBefore = (modulePath: string): boolean => {
+        const now = movedPath(modulePath, from, to);
+        return now !== null ? modules.has(now) : movedPath(modulePath, to, from) === null && modules.has(modulePath);
+    };
+
+    const pathsByLine = new Map(scanModuleImports(lines).map((imp) => [imp.startLine, imp.path]));
+    const renamed: RenamedImport[] = [];
+    for (const { line } of scanConvertibleImports(lines)) {
+        const importPath = pathsByLine.get(line);
+        if (!importPath) {
+            continue;
+        }
+
+        if (importPath.startsWith("/")) {
+            const replacement = movedPath(importPath, from, to);
+            if (replacement) {
+                renamed.push({ path: importPath, line, replacement });
+            }
+            continue;
+        }
+
+        const named = resolveReference(importPath, scopeBefore, projectVersePath, existedBefore);
+        if (!named) {
+            continue;
+        }
+        const target = movedPath(named, from, to) ?? named;
+        const replacement = referenceFrom(target, fileModule, projectVersePath, modules) ?? target;
+        if (replacement !== importPath) {
+            renamed.push({ path: importPath, line, replacement });
+        }
+    }
+    return renamed;
+}
+
+/**
+ * Every folder module the files sit in, and each folder above one up to the
+ * project's root module: the modules a relative reference can land on.
+ */
+export function folderModules(fileModules: Iterable<string>, projectVersePath: string): Set<string> {
+    const modules = new Set<string>();
+    for (const fileModule of fileModules) {
+        scopeChain(fileModule, projectVersePath).forEach((modulePath) => modules.add(modulePath));
+    }
+    return modules;
+}
+
+/** A file the rename breaks imports in, as it read when they were found. */
+interface AffectedFile {
+    document: vscode.TextDocument;
+    version: number;
+    lines: string[];
+    imports: RenamedImport[];
+}
+
+/**
+ * Offers to rewrite the imports a folder rename under Content breaks. A folder
+ * is an implicit module, so renaming or moving one renames the module, and
+ * every `using` naming it - or a module inside it - names nothing once it has
+ * moved.
+ *
+ * Runs on each renamed folder VS Code reports, reads the project for the
+ * imports it breaks, asks before writing any, and always goes through the
+ * refactor preview, whatever `general.previewImportEdits` says: the rewrite
+ * reaches into files nobody has open, so each is offered to the reviewer, who
+ * can untick any of them. One entry per import, rebuilt the way a path
+ * conversion rebuilds its line, so the statement keeps its syntax, its
+ * indentation and its trailing comment. Off with
+ * `behavior.updateImportsOnModuleRename`.
+ */
+export class ModuleRenameRewriter {
+    private readonly formatter = new ImportFormatter();
+
+    constructor(private projectPathHandler: ProjectPathHandler) {}
+
+    async handleRename(event: vscode.FileRenameEvent): Promise<void> {
+        if (!settingsFor().get<boolean>("behavior.updateImportsOnModuleRename", true)) {
+            return;
+        }
+
+        for (const { oldUri, newUri } of event.files) {
+            try {
+                await this.followRename(oldUri, newUri);
+            } catch (error) {
+                logger.error("ModuleRenameRewriter", `Error following the rename of ${oldUri.fsPath}`, error);
+            }
+        }
+    }
+
+    private async followRename(oldUri: vscode.Uri, newUri: vscode.Uri): Promise<void> {
+        const isFolder = await vscode.workspace.fs.stat(newUri).then(
+            (stat) => (stat.type & vscode.FileType.Directory) !== 0,
+            () => false,
+        );
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(newUri);
+        if (!isFolder || !workspaceFolder) {
+            return;
+        }
+
+        const contentRoot = await findContentRoot(workspaceFolder, await this.projectPathHandler.getRootPluginName(newUri), await this.projectPathHandler.getProjectFileDirectory(newUri));
+        const projectVersePath = await this.projectPathHandler.getProjectVersePath(newUri);
+        if (!contentRoot || !projectVersePath) {
+            return;
+        }
+
+        // A folder moved into Content was no module anything imported, and one
+        // moved out of it is no module any import can name.
+        const from = ModuleRenameRewriter.folderModulePath(oldUri.fsPath, contentRoot.fsPath, projectVersePath);
+        const to = ModuleRenameRewriter.folderModulePath(newUri.fsPath, contentRoot.fsPath, projectVersePath);
+        if (!from || !to || from === to) {
+            return;
+        }
+        const name = path.basename(newUri.fsPath);
+        if (!VERSE_IDENTIFIER.test(name)) {
+            logger.warn("ModuleRenameRewriter", `Not following ${from} to ${to}: '${name}' is not a name an import can write`);
+            return;
+        }
+
+        const affected = await this.findAffectedFiles({ from, to }, contentRoot.fsPath, projectVersePath);
+        const count = affected.reduce((sum, file) => sum + file.imports.length, 0);
+        logger.info("ModuleRenameRewriter", `${from} is now ${to}: ${count} import(s) to rewrite in ${affected.length} file(s)`);
+        if (count === 0) {
+            return;
+        }
+
+        const label = (modulePath: string): string => modulePath.slice(projectVersePath.length + 1);
+        const choice = await vscode.window.showInformationMessage(
+            `${label(from)} is now ${label(to)}: ${count} import(s) in ${affected.length} file(s) no longer reach it. Rewrite them?`,
+            "Preview Rewrite",
+        );
+        if (choice === "Preview Rewrite") {
+            await this.rewrite(affected);
+        }
+    }
+
+    /**
+     * The absolute Verse path of the module a folder is: the project's path
+     * and the folder's own below the Content root. Null for the root itself,
+     * which is the project's module and is renamed in the project file, and
+     * for a folder outside it.
+     */
+    static folderModulePath(folderPath: string, contentRootPath: string, projectVersePath: string): string | null {
+        const parent = toContentRelativeDir(folderPath, contentRootPath);
+        if (parent === null || path.relative(contentRootPath, folderPath) === "") {
+            return null;
+        }
+        return [projectVersePath, parent, path.basename(folderPath)].filter(Boolean).join("/");
+    }
+
+    private async findAffectedFiles(rename: ModuleRename, contentRootPath: string, projectVersePath: string): Promise<AffectedFile[]> {
+        const found = await vscode.workspace.findFiles("**/*.verse", "{**/node_modules/**,**/.git/**}");
+        const files = found.flatMap((uri) => {
+            const dir = toContentRelativeDir(uri.fsPath, contentRootPath);
+            return dir === null ? [] : [{ uri, fileModule: dir ? `${projectVersePath}/${dir}` : projectVersePath }];
+        });
+        const modules = folderModules(
+            files.map(({ fileModule }) => fileModule),
+            projectVersePath,
+        );
+
+        // Read from disk, so the scan opens no document for the many files
+        // it leaves alone. A file it would rewrite is opened and planned
+        // again from the document, whose lines the edit is written against
+        // and which may hold changes not yet saved.
+        const affected: AffectedFile[] = [];
+        for (const { uri, fileModule } of files) {
+            try {
+                const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8");
+                if (planRenamedImports(content.split(LINE_SPLIT), fileModule, rename, projectVersePath, modules).length === 0) {
+                    continue;
+                }
+
+                const document = await vscode.workspace.openTextDocument(uri);
+                const lines = document.getText().split(LINE_SPLIT);
+                const imports = planRenamedImports(lines, fileModule, rename, projectVersePath, modules);
+                if (imports.length > 0) {
+                    affected.push({ document, version: document.version, lines, imports });
+                }
+            } catch (error) {
+                logger.warn("ModuleRenameRewriter", `Could not read ${uri.fsPath}: ${error}`);
+            }
+        }
+        return affected;
+    }
+
+    /**
+     * Offers the rewrite in the preview, and saves each file that had no
+     * unsaved changes before, as SupersededModuleMigrator does. Not offered at
+     * all when a file changed while the prompt was up, since its lines were
+     * read from text it no longer holds.
+     */
+    private async rewrite(affected: AffectedFile[]): Promise<void> {
+        const drifted = affected.find(({ document, version }) => document.version !== version);
+        if (drifted) {
+            logger.warn("ModuleRenameRewriter", `Not previewing: ${drifted.document.uri.toString()} changed after it was read`);
+            vscode.window.showWarningMessage(`${vscode.workspace.asRelativePath(drifted.document.uri, false)} changed while the rewrite waited, so nothing was rewritten.`);
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        const wasDirty = new Map(affected.map(({ document }) => [document.uri.toString(), document.isDirty]));
+        for (const { document, lines, imports } of affected) {
+            for (const imp of imports) {
+                const text = lines[imp.line];
+                const useDotSyntax = !ImportFormatter.stripTrailingComment(text.trim()).includes("{");
+                const trailingComment = ImportFormatter.extractTrailingComment(text);
+                const statement = this.formatter.formatImportStatement(imp.replacement, useDotSyntax);
+                const indent = text.match(/^\s*/)?.[0] ?? "";
+                const range = new vscode.Range(new vscode.Position(imp.line, 0), new vscode.Position(imp.line, text.length));
+                edit.replace(document.uri, range, indent + (trailingComment ? `${statement} ${trailingComment}` : statement), previewEntry(PREVIEW_LABEL, `${imp.path} → ${imp.replacement}`));
+            }
+        }
+
+        const applied = await applyImportEdit(edit, true);
+        if (!applied) {
+            logger.info("ModuleRenameRewriter", "The rewrite was not applied");
+            return;
+        }
+        for (const { document } of affected) {
+            if (!wasDirty.get(document.uri.toString())) {
+                await document.save();
+            }
+        }
+    }
+}
@@ -0,0 +1,287 @@
+import * as vscode from "vscode";
+import { CompiledSettingList, logger } from "../utils";
+import { MigratedIdentifier, ModuleMigrationPlan, SupersededModuleRule } from "../types";
+import { DigestEntry } from "../services";
+import { SUPERSEDED_MODULES, SupersededModule } from "../services/digestManifest";
+import { DigestDeclarationsOf } from "./ApiStability";
+import { ImportFormatter } from "./ImportFormatter";
+import { applyImportEdit } from "./ImportEditPreview";
+import { ImportHandler } from "./ImportHandler";
+import { rewritableImports, scanModuleImports } from "./ImportScanner";
+import { ImportExports, referencedIdentifiers } from "./ImportUsageAnalyzer";
+
+/**
+ * What migrating a file's imports of superseded modules would change: each
+ * import rewritten to the live module, and the names the file uses from the
+ * old one that need a look - those the live module declares differently, and
+ * those it does not declare at all.
+ *
+ * Names, not resolutions, as referencedIdentifiers counts them: a local that
+ * shares a name with a declaration of the old module is reported too. A report
+ * that over-lists costs a look; one that under-lists costs a broken build.
+ * Pinned imports are left alone, as every writer leaves them.
+ */
+export function planModuleMigration(
+    lines: string[],
+    exports: ImportExports,
+    declarationsOf: DigestDeclarationsOf,
+    formatter: ImportFormatter,
+    table: readonly SupersededModule[] = SUPERSEDED_MODULES,
+): ModuleMigrationPlan {
+    const scannedImports = scanModuleImports(lines);
+    const plan: ModuleMigrationPlan = { imports: [], retyped: [], undeclared: [] };
+
+    const migrated = new Map<string, SupersededModule>();
+    for (const imp of rewritableImports(scannedImports)) {
+        const superseded = table.find((entry) => entry.from === imp.path);
+        if (superseded) {
+            plan.imports.push({ path: imp.path, line: imp.startLine, replacement: superseded.to, note: superseded.note });
+            migrated.set(superseded.from, superseded);
+        }
+    }
+    if (migrated.size === 0) {
+        return plan;
+    }
+
+    const referenced = referencedIdentifiers(lines, scannedImports, formatter);
+    for (const { from, to } of migrated.values()) {
+        const live = exports.membersOf(to);
+        for (const identifier of [...(exports.membersOf(from) ?? [])].sort()) {
+            if (!referenced.has(identifier)) {
+                continue;
+            }
+            const entry: MigratedIdentifier = { identifier, from, to };
+            if (!live?.has(identifier)) {
+                plan.undeclared.push(entry);
+            } else if (isRetyped(declarationsOf(identifier), from, to)) {
+                plan.retyped.push(entry);
+            }
+        }
+    }
+    return plan;
+}
+
+/**
+ * Whether a name both modules declare binds something different once it moves:
+ * the old declaration is deprecated - marked `@deprecated`, or bound to a
+ * `_Deprecated` native - or the live one is a different kind of declaration.
+ */
+function isRetyped(declarations: readonly DigestEntry[], from: string, to: string): boolean {
+    const old = declarations.find((entry) => entry.modulePath === from);
+    const live = declarations.find((entry) => entry.modulePath === to);
+    return old?.deprecated === true || (old !== undefined && live !== undefined && old.type !== live.type);
+}
+
+/**
+ * The valid entries of a configured list of superseded modules, in their
+ * order, and one line per entry that was dropped saying why.
+ *
+ * @param origin Where the list came from, for the messages and for the note of
+ * an entry that gives none.
+ */
+export function compileSupersededModules(raw: unknown, origin: string): { modules: SupersededModule[]; errors: string[] } {
+    if (raw === undefined || raw === null) {
+        return { modules: [], errors: [] };
+    }
+    if (!Array.isArray(raw)) {
+        return { modules: [], errors: [`${origin}: expected a list of superseded modules`] };
+    }
+
+    const modules: SupersededModule[] = [];
+    const errors: string[] = [];
+    raw.forEach((entry: Partial<SupersededModuleRule> | null, index) => {
+        const where = `${origin}, entry ${index + 1}`;
+        if (typeof entry !== "object" || entry === null) {
+            errors.push(`${where}: expected an object`);
+            return;
+        }
+        if (typeof entry.from !== "string" || !entry.from.startsWith("/")) {
+            errors.push(`${where}: "from" must be an absolute path`);
+            return;
+        }
+        if (typeof entry.to !== "string" || !entry.to.startsWith("/")) {
+            errors.push(`${where}: "to" must be an absolute path`);
+            return;
+        }
+        if (entry.from === entry.to) {
+            errors.push(`${where}: "from" and "to" are the same module`);
+            return;
+        }
+        if (entry.note !== undefined && typeof entry.note !== "string") {
+            errors.push(`${where}: "note" must be a string`);
+            return;
+        }
+
+        modules.push({ from: entry.from, to: entry.to, note: entry.note?.trim() || `listed in ${origin}` });
+    });
+
+    return { modules, errors };
+}
+
+/**
+ * The superseded modules the migration moves imports of in a file: the
+ * `behavior.supersededModules` setting's, then the project configuration
+ * file's, then SUPERSEDED_MODULES. The first entry for a module wins, so a
+ * team can redirect a bundled one.
+ */
+export class SupersededModuleTable {
+    private readonly configured = new CompiledSettingList<SupersededModule>({
+        setting: "behavior.supersededModules",
+        projectKey: "supersededModules",
+        logSource: "SupersededModuleTable",
+        entries: "superseded module(s)",
+        compile: (raw, origin) => {
+            const { modules, errors } = compileSupersededModules(raw, origin);
+            return { values: modules, errors };
+        },
+    });
+
+    modulesFor(resource?: vscode.Uri): SupersededModule[] {
+        return [...this.configured.valuesFor(resource), ...SUPERSEDED_MODULES];
+    }
+}
+
+/** What one run of the migration did to each file it read. */
+export interface MigrationReport {
+    /** Files whose imports were migrated, with what the plan found in them. */
+    migrated: Array<{ uri: vscode.Uri; plan: ModuleMigrationPlan; saved: boolean }>;
+    /** Files the rewrite guard would not touch. */
+    refused: vscode.Uri[];
+    /** Files that could not be opened. */
+    failed: vscode.Uri[];
+    /** Files previewed and not written: the preview was cancelled, or a file changed before it opened. */
+    notApplied: vscode.Uri[];
+    /** Files with no import of a superseded module. */
+    unaffectedCount: number;
+    /** Files never reached because the run was cancelled. */
+    skippedByCancellation: number;
+}
+
+/**
+ * Moves the imports of superseded modules (SupersededModuleTable) to the
+ * modules that replaced them, over a list of files.
+ *
+ * Always through the refactor preview, whatever `general.previewImportEdits`
+ * says: unlike an organize, this changes which declarations the file binds,
+ * so every file is offered to the reviewer, who can untick any of them. One
+ * entry per file, read the way WorkspaceImportOptimizer stages its run.
+ */
+export class SupersededModuleMigrator {
+    /** The label every entry is grouped under in the preview. */
+    static readonly PREVIEW_LABEL = "Migrate superseded imports";
+
+    constructor(private importHandler: ImportHandler) {}
+
+    async migrateFiles(uris: readonly vscode.Uri[], progress?: vscode.Progress<{ message?: string; increment?: number }>, token?: vscode.CancellationToken): Promise<MigrationReport> {
+        const report: MigrationReport = { migrated: [], refused: [], failed: [], notApplied: [], unaffectedCount: 0, skippedByCancellation: 0 };
+        const edit = new vscode.WorkspaceEdit();
+        const staged: Array<{ document: vscode.TextDocument; version: number; wasDirty: boolean; plan: ModuleMigrationPlan }> = [];
+
+        for (let index = 0; index < uris.length; index++) {
+            if (token?.isCancellationRequested) {
+                report.skippedByCancellation = uris.length - index;
+                logger.info("SupersededModuleMigrator", `Cancelled with ${report.skippedByCancellation} file(s) left`);
+                break;
+            }
+
+            const uri = uris[index];
+            progress?.report({ message: vscode.workspace.asRelativePath(uri, false), increment: 100 / uris.length });
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                const plan = await this.importHandler.planModuleMigration(document);
+                if (plan.imports.length === 0) {
+                    report.unaffectedCount++;
+                    continue;
+                }
+
+                const outcome = await this.importHandler.stageImportReplacements(edit, document, plan.imports, SupersededModuleMigrator.PREVIEW_LABEL);
+                if (outcome === "staged") {
+                    staged.push({ document, version: document.version, wasDirty: document.isDirty, plan });
+                } else if (outcome === "unchanged") {
+                    report.unaffectedCount++;
+                } else {
+                    report.refused.push(uri);
+                }
+            } catch (error) {
+                logger.error("SupersededModuleMigrator", `Error reading ${uri.fsPath}`, error);
+                report.failed.push(uri);
+            }
+        }
+
+        if (staged.length === 0) {
+            return report;
+        }
+
+        // See WorkspaceImportOptimizer.applyStaged: an entry computed against
+        // text a file no longer holds is not offered.
+        const drifted = staged.find(({ document, version }) => document.version !== version);
+        let applied = false;
+        if (drifted) {
+            logger.warn("SupersededModuleMigrator", `Not previewing: ${drifted.document.uri.toString()} changed after it was read`);
+        } else {
+            try {
+                applied = await applyImportEdit(edit, true);
+            } catch (error) {
+                logger.error("SupersededModuleMigrator", "Error applying the migration", error);
+            }
+        }
+        if (!applied) {
+            report.notApplied.push(...staged.map(({ document }) => document.uri));
+            return report;
+        }
+
+        for (const { document, wasDirty, plan } of staged) {
+            if (!wasDirty) {
+                await document.save();
+            }
+            report.migrated.push({ uri: document.uri, plan, saved: !wasDirty });
+        }
+        return report;
+    }
+}
+
+/**
+ * The report as a Markdown document: the files migrated, and in each the
+ * names to check, with what the superseded module's entry says changed.
+ */
+export function formatMigrationReport(report: MigrationReport): string {
+    const relative = (uri: vscode.Uri): string => vscode.workspace.asRelativePath(uri, false);
+    const lines = ["# Migrate Superseded Imports", ""];
+
+    lines.push(
+        `${report.migrated.length} file(s) migrated, ${report.unaffectedCount} without superseded imports, ${report.refused.length} skipped, ${report.failed.length} failed` +
+            (report.notApplied.length > 0 ? `, ${report.notApplied.length} not applied.` : "."),
+    );
+    if (report.skippedByCancellation > 0) {
+        lines.push("", `Cancelled before ${report.skippedByCancellation} file(s) were reached.`);
+    }
+
+    const notes = new Map(report.migrated.flatMap(({ plan }) => plan.imports.map((imp) => [`${imp.path} → ${imp.replacement}`, imp.note])));
+    if (notes.size > 0) {
+        lines.push("", "## What changed", "", ...[...notes].map(([move, note]) => `- ${move}: ${note}`));
+    }
+
+    for (const { uri, plan, saved } of report.migrated) {
+        lines.push("", `## ${relative(uri)}${saved ? "" : " (not saved: it had unsaved changes)"}`, "");
+        lines.push(...plan.imports.map((imp) => `- line ${imp.line + 1}: ${imp.path} → ${imp.replacement}`));
+        if (plan.retyped.length > 0) {
+            lines.push("", "Now bound to the live module's declaration, a distinct type - check how each is used:", "");
+            lines.push(...plan.retyped.map(({ identifier, to }) => `- \`${identifier}\` (now ${to})`));
+        }
+        if (plan.undeclared.length > 0) {
+            lines.push("", "Not declared by the live module, so these no longer resolve:", "");
+            lines.push(...plan.undeclared.map(({ identifier, from }) => `- \`${identifier}\` (from ${from})`));
+        }
+    }
+
+    const section = (title: string, uris: vscode.Uri[]): void => {
+        if (uris.length > 0) {
+            lines.push("", `## ${title}`, "", ...uris.map((uri) => `- ${relative(uri)}`));
+        }
+    };
+    section("Skipped: the rewrite would have changed code outside the imports", report.refused);
+    section("Failed: the file could not be opened", report.failed);
+    section("Not applied: the preview was cancelled, or a file changed before it opened", report.notApplied);
+
+    return lines.join("\n") + "\n";
+}
@@ -0,0 +1,211 @@
+import * as vscode from "vscode";
+import { logger } from "../utils";
+import { applyImportEdit, previewImportEditsFor } from "./ImportEditPreview";
+import { ImportHandler } from "./ImportHandler";
+
+/** A file left with diagnostics that name several candidate imports. */
+export interface AmbiguousFile {
+    uri: vscode.Uri;
+    /** 1-based, as the report prints them. */
+    lines: number[];
+}
+
+/** What one run of Optimize Imports over many files did to each of them. */
+export interface WorkspaceOptimizeReport {
+    /** Files whose imports were rewritten. `saved` is false for one that had unsaved changes before. */
+    changed: Array<{ uri: vscode.Uri; saved: boolean }>;
+    /**
+     * Files the rewrite guard would not touch. A file with nothing to organize
+     * is counted in `unchangedCount` instead.
+     */
+    refused: vscode.Uri[];
+    /** Files that could not be opened, or whose edit VS Code rejected. */
+    failed: vscode.Uri[];
+    /**
+     * Files whose changes were previewed and not written: the preview was
+     * cancelled or left empty, or a file changed before it opened.
+     */
+    notApplied: vscode.Uri[];
+    ambiguous: AmbiguousFile[];
+    unchangedCount: number;
+    /** Files never reached because the run was cancelled. */
+    skippedByCancellation: number;
+}
+
+/**
+ * Runs Optimize Imports over a list of files, one at a time, the way the
+ * single-file command runs it over the active editor: the missing imports
+ * the compiler currently reports are added and the block is rebuilt.
+ *
+ * One file at a time rather than in batches, because each write goes through
+ * applyEdit and opens the document it edits; a batch would hold that many
+ * documents open at once for nothing.
+ *
+ * A file that had unsaved changes is edited but not saved. Saving it would
+ * write the user's half-finished work along with the imports.
+ *
+ * The files whose folder turns on `general.previewImportEdits` are staged
+ * instead, into one edit applied through the refactor preview once every file
+ * has been read, so the reviewer approves the whole run at once rather than
+ * file by file. A staged file counts as changed when the preview is accepted,
+ * whatever was unticked in it.
+ */
+export class WorkspaceImportOptimizer {
+    constructor(private importHandler: ImportHandler) {}
+
+    async optimizeFiles(uris: readonly vscode.Uri[], progress?: vscode.Progress<{ message?: string; increment?: number }>, token?: vscode.CancellationToken): Promise<WorkspaceOptimizeReport> {
+        const report: WorkspaceOptimizeReport = { changed: [], refused: [], failed: [], notApplied: [], ambiguous: [], unchangedCount: 0, skippedByCancellation: 0 };
+        const staging: Staging = { edit: new vscode.WorkspaceEdit(), files: [] };
+
+        for (let index = 0; index < uris.length; index++) {
+            if (token?.isCancellationRequested) {
+                report.skippedByCancellation = uris.length - index;
+                logger.info("WorkspaceImportOptimizer", `Cancelled with ${report.skippedByCancellation} file(s) left`);
+                break;
+            }
+
+            const uri = uris[index];
+            progress?.report({ message: vscode.workspace.asRelativePath(uri, false), increment: 100 / uris.length });
+            await this.optimizeFile(uri, report, staging);
+        }
+
+        if (staging.files.length > 0) {
+            await this.applyStaged(staging, report);
+        }
+
+        return report;
+    }
+
+    private async optimizeFile(uri: vscode.Uri, report: WorkspaceOptimizeReport, staging: Staging): Promise<void> {
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const wasDirty = document.isDirty;
+
+            const { paths, diagnosticPositionsByPath, ambiguousPositions } = this.importHandler.extractImportsFromDiagnostics(vscode.languages.getDiagnostics(uri), uri);
+            if (ambiguousPositions.length > 0) {
+                report.ambiguous.push({ uri, lines: Array.from(new Set(ambiguousPositions.map((position) => position.line + 1))) });
+            }
+
+            if (previewImportEditsFor(uri)) {
+                const staged = await this.importHandler.stageOrganizedImports(staging.edit, document, paths, diagnosticPositionsByPath);
+                if (staged === "staged") {
+                    staging.files.push({ document, version: document.version, wasDirty });
+                } else if (staged === "unchanged") {
+                    report.unchangedCount++;
+                } else {
+                    report.refused.push(uri);
+                }
+                return;
+            }
+
+            const outcome = await this.importHandler.organizeImportsWithOutcome(document, paths, diagnosticPositionsByPath);
+            switch (outcome) {
+                case "applied":
+                    if (!wasDirty) {
+                        await document.save();
+                    }
+                    report.changed.push({ uri, saved: !wasDirty });
+                    break;
+                case "unchanged":
+                    report.unchangedCount++;
+                    break;
+                case "refused":
+                    report.refused.push(uri);
+                    break;
+                case "failed":
+                    report.failed.push(uri);
+                    break;
+                default: {
+                    const exhaustive: never = outcome;
+                    return exhaustive;
+                }
+            }
+        } catch (error) {
+            logger.error("WorkspaceImportOptimizer", `Error optimizing imports in ${uri.fsPath}`, error);
+            report.failed.push(uri);
+        }
+    }
+
+    /**
+     * Applies the staged edit through the preview. Nothing is written when a
+     * staged file changed while the rest were read: its entries were computed
+     * against text it no longer holds.
+     */
+    private async applyStaged({ edit, files }: Staging, report: WorkspaceOptimizeReport): Promise<void> {
+        const drifted = files.find(({ document, version }) => document.version !== version);
+        if (drifted) {
+            logger.warn("WorkspaceImportOptimizer", `Not previewing: ${drifted.document.uri.toString()} changed after it was read`);
+            report.notApplied.push(...files.map(({ document }) => document.uri));
+            return;
+        }
+
+        let applied = false;
+        try {
+            applied = await applyImportEdit(edit, true);
+        } catch (error) {
+            logger.error("WorkspaceImportOptimizer", "Error applying the previewed imports", error);
+        }
+        if (!applied) {
+            logger.info("WorkspaceImportOptimizer", `Nothing written for ${files.length} previewed file(s): the preview was cancelled or empty, or the edit failed`);
+            report.notApplied.push(...files.map(({ document }) => document.uri));
+            return;
+        }
+
+        for (const { document, wasDirty } of files) {
+            if (!wasDirty) {
+                await document.save();
+            }
+            report.changed.push({ uri: document.uri, saved: !wasDirty });
+        }
+    }
+}
+
+/** The previewed edit a run builds up, and the files it holds entries for. */
+interface Staging {
+    edit: vscode.WorkspaceEdit;
+    files: Array<{ document: vscode.TextDocument; version: number; wasDirty: boolean }>;
+}
+
+/** The report as a Markdown document, one section per kind of result that has any files. */
+export function formatOptimizeReport(report: WorkspaceOptimizeReport, scope: string): string {
+    const relative = (uri: vscode.Uri): string => vscode.workspace.asRelativePath(uri, false);
+    const lines = [`# Optimize Imports: ${scope}`, ""];
+
+    const total = report.changed.length + report.refused.length + report.failed.length + report.notApplied.length + report.unchangedCount;
+    const notApplied = report.notApplied.length > 0 ? `, ${report.notApplied.length} not applied` : "";
+    lines.push(
+        `${total} file(s) processed: ${report.changed.length} changed, ${report.unchangedCount} already optimized, ${report.refused.length} skipped, ${report.failed.length} failed${notApplied}.`,
+    );
+    if (report.skippedByCancellation > 0) {
+        lines.push("", `Cancelled before ${report.skippedByCancellation} file(s) were reached.`);
+    }
+
+    const section = (title: string, entries: string[]): void => {
+        if (entries.length > 0) {
+            lines.push("", `## ${title}`, "", ...entries.map((entry) => `- ${entry}`));
+        }
+    };
+
+    section(
+        "Changed",
+        report.changed.map(({ uri, saved }) => (saved ? relative(uri) : `${relative(uri)} (not saved: it had unsaved changes)`)),
+    );
+    section(
+        "Skipped: the rewrite would have changed code outside the imports",
+        report.refused.map((uri) => relative(uri)),
+    );
+    section(
+        "Failed: the file could not be opened or edited",
+        report.failed.map((uri) => relative(uri)),
+    );
+    section(
+        "Not applied: the preview was cancelled, or a file changed before it opened",
+        report.notApplied.map((uri) => relative(uri)),
+    );
+    section(
+        "Ambiguous imports left for you to choose",
+        report.ambiguous.map(({ uri, lines: ambiguousLines }) => `${relative(uri)}: line ${ambiguousLines.join(", ")}`),
+    );
+
+    return lines.join("\n") + "\n";
+}
@@ -0,0 +1,72 @@
+import { ImportFormatter } from "../ImportFormatter";
+import { apiStabilityLabel, apiStabilityOf, DigestDeclarationsOf, findUnstableApiUses } from "../ApiStability";
+import { DigestEntry } from "../../services";
+
+const formatter = new ImportFormatter();
+
+const entry = (identifier: string, modulePath: string, marks: Pick<DigestEntry, "experimental" | "deprecated"> = {}, type: DigestEntry["type"] = "class"): DigestEntry => ({
+    identifier,
+    modulePath,
+    type,
+    isPublic: true,
+    ...marks,
+});
+
+/** Declarations answered from a fixed list, keyed by identifier. */
+function declarationsFrom(entries: DigestEntry[]): DigestDeclarationsOf {
+    return (identifier) => entries.filter((declaration) => declaration.identifier === identifier);
+}
+
+const declarationsOf = declarationsFrom([
+    entry("camera_component", "/Verse.org/SceneGraph", { experimental: true }),
+    entry("entity", "/Verse.org/SceneGraph"),
+    entry("vector3", "/UnrealEngine.com/Temporary/SpatialMath", { deprecated: true }),
+    entry("vector3", "/Verse.org/SpatialMath"),
+    entry("Quests", "/UnrealEngine.com/Quests", { experimental: true }, "module"),
+]);
+
+const uses = (text: string) => findUnstableApiUses(text.split("\n"), declarationsOf, formatter);
+
+describe("findUnstableApiUses", () => {
+    it("reports each use of a name the imports only resolve to a marked declaration", () => {
+        const found = uses("using { /Verse.org/SceneGraph }\n\nCamera:camera_component = camera_component{}\nThing:entity = entity{}");
+
+        expect(found.map(({ name, line, character }) => [name, line, character])).toEqual([
+            ["camera_component", 2, 7],
+            ["camera_component", 2, 26],
+        ]);
+        expect(found[0]).toMatchObject({ modulePath: "/Verse.org/SceneGraph", experimental: true, deprecated: false });
+    });
+
+    it("reports a using of a marked module at its path", () => {
+        const [use] = uses("using { /UnrealEngine.com/Quests }\ncode()");
+
+        expect(use).toMatchObject({ name: "/UnrealEngine.com/Quests", line: 0, character: 8, length: "/UnrealEngine.com/Quests".length, experimental: true });
+    });
+
+    it("does not report a name another imported module declares unmarked", () => {
+        expect(uses("using { /UnrealEngine.com/Temporary/SpatialMath }\nusing { /Verse.org/SpatialMath }\nP:vector3 = vector3{}")).toEqual([]);
+        expect(uses("using { /UnrealEngine.com/Temporary/SpatialMath }\nP:vector3 = vector3{}").map((use) => use.deprecated)).toEqual([true, true]);
+    });
+
+    it("ignores names the file does not import, member accesses, comments and literals", () => {
+        expect(uses("using { /Verse.org/Simulation }\nCamera:camera_component = camera_component{}")).toEqual([]);
+        expect(uses('using { /Verse.org/SceneGraph }\nX.camera_component()\n# camera_component\nPrint("camera_component")')).toEqual([]);
+    });
+});
+
+describe("apiStabilityOf", () => {
+    it("reads the marks of the module and of the name's declaration in it", () => {
+        expect(apiStabilityOf("/UnrealEngine.com/Quests", null, declarationsOf)).toEqual({ experimental: true, deprecated: false });
+        expect(apiStabilityOf("/UnrealEngine.com/Temporary/SpatialMath", "vector3", declarationsOf)).toEqual({ experimental: false, deprecated: true });
+        expect(apiStabilityOf("/Verse.org/SpatialMath", "vector3", declarationsOf)).toEqual({ experimental: false, deprecated: false });
+    });
+});
+
+describe("apiStabilityLabel", () => {
+    it("names every mark, or nothing", () => {
+        expect(apiStabilityLabel({ experimental: true, deprecated: true })).toBe("experimental, deprecated");
+        expect(apiStabilityLabel({ deprecated: true })).toBe("deprecated");
+        expect(apiStabilityLabel({})).toBeNull();
+    });
+});
@@ -0,0 +1,107 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { compileDiagnosticPatterns, CustomDiagnosticPatterns } from "../CustomDiagnosticPatterns";
+
+describe("compileDiagnosticPatterns", () => {
+    it("keeps the valid patterns in their order", () => {
+        const { patterns, errors } = compileDiagnosticPatterns(
+            [
+                { pattern: "Add (?<path>/\\S+)", kind: "singleImport" },
+                { pattern: "unknown name (?<identifier>\\w+)", flags: "i", kind: "identifier", description: "Unknown name" },
+            ],
+            "settings",
+        );
+
+        expect(errors).toEqual([]);
+        expect(patterns.map((pattern) => pattern.kind)).toEqual(["singleImport", "identifier"]);
+        expect(patterns[1].regex.flags).toBe("i");
+        expect(patterns[1].description).toBe("Unknown name");
+    });
+
+    it("drops a pattern without the group its kind reads, and keeps the rest", () => {
+        const { patterns, errors } = compileDiagnosticPatterns(
+            [
+                { pattern: "Candidates: (?<path>.+)", kind: "multiOption" },
+                { pattern: "Add (?<path>/\\S+)", kind: "singleImport" },
+            ],
+            "settings",
+        );
+
+        expect(patterns.map((pattern) => pattern.kind)).toEqual(["singleImport"]);
+        expect(errors).toEqual(["settings, pattern 1: a multiOption pattern needs a (?<paths>...) group"]);
+    });
+
+    it("drops a pattern whose group is only escaped or bracketed text", () => {
+        const { patterns, errors } = compileDiagnosticPatterns(
+            [
+                { pattern: "Unknown \\(?<identifier>\\w+\\)", kind: "identifier" },
+                { pattern: "Unknown [(?<identifier>]+", kind: "identifier" },
+            ],
+            "settings",
+        );
+
+        expect(patterns).toEqual([]);
+        expect(errors).toEqual(["settings, pattern 1: a identifier pattern needs a (?<identifier>...) group", "settings, pattern 2: a identifier pattern needs a (?<identifier>...) group"]);
+    });
+
+    it.each([
+        ["an unknown kind", { pattern: "(?<path>.+)", kind: "import" }, '"kind" must be one of'],
+        ["an empty pattern", { pattern: "", kind: "singleImport" }, '"pattern" must be a non-empty string'],
+        ["a global flag", { pattern: "(?<path>.+)", flags: "g", kind: "singleImport" }, '"flags" may only hold'],
+        ["a pattern that does not compile", { pattern: "(?<path>[/", kind: "singleImport" }, "Invalid regular expression"],
+        ["a non-object", "(?<path>.+)", "expected an object"],
+    ])("drops %s", (_case, entry, message) => {
+        const { patterns, errors } = compileDiagnosticPatterns([entry], "settings");
+
+        expect(patterns).toEqual([]);
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toContain(message);
+    });
+
+    it("rejects a value that is not a list", () => {
+        expect(compileDiagnosticPatterns({ pattern: "(?<path>.+)", kind: "singleImport" }, "settings")).toEqual({ patterns: [], errors: ["settings: expected a list of patterns"] });
+    });
+});
+
+describe("CustomDiagnosticPatterns", () => {
+    let projectRoot: string;
+
+    beforeEach(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "custom-patterns-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+        jest.clearAllMocks();
+    });
+
+    const settingPatterns = (patterns: unknown): void => {
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+            get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "diagnostics.customPatterns" ? patterns : defaultValue)),
+        });
+    };
+
+    it("puts the setting's patterns ahead of the project configuration file's", () => {
+        fs.writeFileSync(path.join(projectRoot, "verse-auto-imports.json"), JSON.stringify({ diagnosticPatterns: [{ pattern: "file (?<identifier>\\w+)", kind: "identifier" }] }));
+        (vscode.workspace.getWorkspaceFolder as jest.Mock).mockReturnValueOnce({ uri: vscode.Uri.file(projectRoot), name: "project", index: 0 });
+        settingPatterns([{ pattern: "setting (?<path>/\\S+)", kind: "singleImport" }]);
+
+        const patterns = new CustomDiagnosticPatterns().patternsFor(vscode.Uri.file(path.join(projectRoot, "main.verse")));
+
+        expect(patterns.map((pattern) => pattern.regex.source)).toEqual(["setting (?<path>\\/\\S+)", "file (?<identifier>\\w+)"]);
+    });
+
+    it("warns once about a list, however often it is read", () => {
+        const invalid = [{ pattern: "(?<path>.+)", kind: "import" }];
+        const patterns = new CustomDiagnosticPatterns();
+
+        settingPatterns(invalid);
+        patterns.patternsFor();
+        settingPatterns(invalid);
+        patterns.patternsFor();
+
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledTimes(1);
+    });
+});
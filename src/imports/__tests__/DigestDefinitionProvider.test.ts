@@ -0,0 +1,85 @@
+import * as vscode from "vscode";
+import { DigestDefinitionProvider } from "../DigestDefinitionProvider";
+import { ImportHandler } from "../ImportHandler";
+import { ImportableIdentifier } from "../../types";
+
+describe("DigestDefinitionProvider", () => {
+    const token = { isCancellationRequested: false } as vscode.CancellationToken;
+
+    const declarations: Record<string, ImportableIdentifier[]> = {
+        vector3: [
+            {
+                identifier: "vector3",
+                modulePath: "/Verse.org/SpatialMath",
+                type: "class",
+                source: "digest_lookup",
+                declaredAt: { sourceFile: "Verse.digest.verse", line: 3204 },
+            },
+            {
+                identifier: "vector3",
+                modulePath: "/UnrealEngine.com/Temporary/SpatialMath",
+                type: "class",
+                source: "digest_lookup",
+                declaredAt: { sourceFile: "UnrealEngine.digest.verse", line: 1500 },
+            },
+        ],
+        trap_device: [{ identifier: "trap_device", modulePath: "/acct@fortnite.com/MyGame/Gadgets", type: "class", source: "project_lookup" }],
+    };
+
+    let importHandler: { lookupDeclarations: jest.Mock };
+    let provider: DigestDefinitionProvider;
+
+    const fakeDocument = (text: string): vscode.TextDocument => {
+        const lines = text.split("\n");
+        return {
+            uri: vscode.Uri.file("/project/Content/game.verse"),
+            getText: () => text,
+            getWordRangeAtPosition: (position: vscode.Position) => {
+                const line = lines[position.line];
+                let start = position.character;
+                while (start > 0 && /\w/.test(line[start - 1])) start--;
+                let end = position.character;
+                while (end < line.length && /\w/.test(line[end])) end++;
+                return start === end ? undefined : new vscode.Range(new vscode.Position(position.line, start), new vscode.Position(position.line, end));
+            },
+        } as unknown as vscode.TextDocument;
+    };
+
+    /** The definitions with the cursor inside the first occurrence of `word` on the last line, as "uri:line". */
+    const definitions = async (text: string, word: string): Promise<string[] | undefined> => {
+        const lines = text.split("\n");
+        const line = lines.length - 1;
+        const locations = await provider.provideDefinition(fakeDocument(text), new vscode.Position(line, lines[line].indexOf(word) + 1), token);
+        return locations?.map((location) => `${location.uri.toString()}:${location.range.start.line}`);
+    };
+
+    beforeEach(() => {
+        importHandler = { lookupDeclarations: jest.fn().mockImplementation(async (identifier: string) => declarations[identifier] ?? []) };
+        provider = new DigestDefinitionProvider(importHandler as unknown as ImportHandler);
+    });
+
+    it("opens the declaration in the digest source of the module the file imports", async () => {
+        expect(await definitions("using { /Verse.org/SpatialMath }\n\nP : vector3 = vector3{}", "vector3")).toEqual(["verse-digest:/Verse.digest.verse:3203"]);
+    });
+
+    it("offers every declaring module when the file imports none of them", async () => {
+        expect(await definitions("P : vector3 = vector3{}", "vector3")).toEqual(["verse-digest:/Verse.digest.verse:3203", "verse-digest:/UnrealEngine.digest.verse:1499"]);
+    });
+
+    it("leaves project names, members, import lines and comments alone", async () => {
+        expect(await definitions("T : trap_device = trap_device{}", "trap_device")).toBeUndefined();
+        expect(await definitions("X := Thing.vector3", "vector3")).toBeUndefined();
+        expect(await definitions("using { /Verse.org/vector3 }", "vector3")).toBeUndefined();
+        expect(await definitions("# a vector3", "vector3")).toBeUndefined();
+    });
+
+    it("answers nothing when the setting is off", async () => {
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+            get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "definition.openDigestSource" ? false : defaultValue)),
+            update: jest.fn().mockResolvedValue(undefined),
+        });
+
+        expect(await definitions("P : vector3 = vector3{}", "vector3")).toBeUndefined();
+        expect(importHandler.lookupDeclarations).not.toHaveBeenCalled();
+    });
+});
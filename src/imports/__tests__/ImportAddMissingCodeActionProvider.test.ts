@@ -0,0 +1,80 @@
+import * as vscode from "vscode";
+import { ImportAddMissingCodeActionProvider } from "../ImportAddMissingCodeActionProvider";
+import { ImportChoiceMemory } from "../ImportChoiceMemory";
+import { ImportHandler } from "../ImportHandler";
+import { ImportSuggestion } from "../../types";
+
+const document = { uri: vscode.Uri.file("/project/Content/device.verse"), languageId: "verse" } as unknown as vscode.TextDocument;
+
+const suggestion = (modulePath: string, confidence: ImportSuggestion["confidence"] = "high"): ImportSuggestion => ({
+    importStatement: `using { ${modulePath} }`,
+    source: "error_message",
+    confidence,
+    modulePath,
+});
+
+const diagnostic = (message: string): vscode.Diagnostic => new vscode.Diagnostic(new vscode.Range(new vscode.Position(3, 0), new vscode.Position(3, 5)), message);
+
+/** An import handler answering each diagnostic message with the suggestions given for it. */
+function handlerSuggesting(byMessage: Record<string, ImportSuggestion[]>): ImportHandler & { computeAddImportEdits: jest.Mock } {
+    return {
+        extractImportSuggestions: jest.fn(async (message: string) => byMessage[message] ?? []),
+        importRestrictionFor: jest.fn().mockReturnValue(null),
+        identifierInMessage: jest.fn((message: string) => message.match(/`(\w+)`/)?.[1] ?? null),
+        computeAddImportEdits: jest.fn((_document: vscode.TextDocument, statements: string[]) => [vscode.TextEdit.insert(new vscode.Position(0, 0), statements.join("\n") + "\n")]),
+    } as unknown as ImportHandler & { computeAddImportEdits: jest.Mock };
+}
+
+describe("ImportAddMissingCodeActionProvider", () => {
+    afterEach(() => {
+        (vscode.languages.getDiagnostics as jest.Mock).mockReturnValue([]);
+    });
+
+    it("offers both source kinds with one edit adding each lone high-confidence import once", async () => {
+        (vscode.languages.getDiagnostics as jest.Mock).mockReturnValue([
+            diagnostic("Unknown identifier `button_device`"),
+            diagnostic("Unknown identifier `trigger_device`"),
+            diagnostic("Unknown identifier `vector3`"),
+            diagnostic("Unknown identifier `image2`"),
+        ]);
+        const importHandler = handlerSuggesting({
+            "Unknown identifier `button_device`": [suggestion("/Fortnite.com/Devices")],
+            "Unknown identifier `trigger_device`": [suggestion("/Fortnite.com/Devices")],
+            "Unknown identifier `vector3`": [suggestion("/Verse.org/SpatialMath"), suggestion("/UnrealEngine.com/Temporary/SpatialMath")],
+            "Unknown identifier `image2`": [suggestion("Folder1", "medium")],
+        });
+
+        const actions = await new ImportAddMissingCodeActionProvider(importHandler).provideCodeActions(document);
+
+        expect(actions.map((action) => action.kind?.value)).toEqual(["source.addMissingImports.verse", "source.fixAll.verse"]);
+        expect(importHandler.computeAddImportEdits).toHaveBeenCalledWith(document, ["using { /Fortnite.com/Devices }"]);
+        expect(actions.every((action) => action.command === undefined && action.edit !== undefined)).toBe(true);
+    });
+
+    it("offers nothing when no import is missing", async () => {
+        (vscode.languages.getDiagnostics as jest.Mock).mockReturnValue([diagnostic("Expected expression after operator")]);
+        const importHandler = handlerSuggesting({});
+
+        expect(await new ImportAddMissingCodeActionProvider(importHandler).provideCodeActions(document)).toEqual([]);
+        expect(importHandler.computeAddImportEdits).not.toHaveBeenCalled();
+    });
+
+    it("offers nothing when the writer would refuse the edit", async () => {
+        (vscode.languages.getDiagnostics as jest.Mock).mockReturnValue([diagnostic("Unknown identifier `button_device`")]);
+        const importHandler = handlerSuggesting({ "Unknown identifier `button_device`": [suggestion("/Fortnite.com/Devices")] });
+        importHandler.computeAddImportEdits.mockReturnValue(null);
+
+        expect(await new ImportAddMissingCodeActionProvider(importHandler).provideCodeActions(document)).toEqual([]);
+    });
+
+    it("leaves out an import the user undid for that name", async () => {
+        (vscode.languages.getDiagnostics as jest.Mock).mockReturnValue([diagnostic("Unknown identifier `rotation`")]);
+        const importHandler = handlerSuggesting({ "Unknown identifier `rotation`": [suggestion("/Verse.org/SpatialMath")] });
+        const choiceMemory = { isRejected: jest.fn().mockReturnValue(true) } as unknown as ImportChoiceMemory;
+
+        const actions = await new ImportAddMissingCodeActionProvider(importHandler, choiceMemory).provideCodeActions(document);
+
+        expect(actions).toEqual([]);
+        expect(choiceMemory.isRejected).toHaveBeenCalledWith("rotation", "/Verse.org/SpatialMath");
+    });
+});
@@ -0,0 +1,116 @@
+import * as vscode from "vscode";
+import { ImportChoiceMemory } from "../ImportChoiceMemory";
+
+/** Workspace state backed by a plain map, as the real Memento behaves within a session. */
+function fakeMemento(initial: Record<string, unknown> = {}): vscode.Memento {
+    const stored = new Map(Object.entries(initial));
+    return {
+        keys: () => Array.from(stored.keys()),
+        get: <T>(key: string) => stored.get(key) as T,
+        update: jest.fn(async (key: string, value: unknown) => {
+            stored.set(key, value);
+        }),
+    } as unknown as vscode.Memento;
+}
+
+const uri = vscode.Uri.file("/project/Content/device.verse");
+const documentWith = (text: string): vscode.TextDocument => ({ uri, getText: () => text }) as unknown as vscode.TextDocument;
+
+const SPATIAL = "/Verse.org/SpatialMath";
+const TEMPORARY = "/UnrealEngine.com/Temporary/SpatialMath";
+
+describe("ImportChoiceMemory", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("counts picks of the same module in a row, and starts over on another", async () => {
+        const memory = new ImportChoiceMemory(fakeMemento());
+
+        expect(await memory.recordPick({ identifier: "vector3", modulePath: SPATIAL })).toBe(1);
+        expect(await memory.recordPick({ identifier: "vector3", modulePath: SPATIAL })).toBe(2);
+        expect(await memory.recordPick({ identifier: "vector3", modulePath: TEMPORARY })).toBe(1);
+        expect(memory.preferredPath("vector3")).toBe(TEMPORARY);
+    });
+
+    it("ranks the remembered pick first and leaves the rest in order", async () => {
+        const memory = new ImportChoiceMemory(fakeMemento());
+        const suggestions = [{ modulePath: SPATIAL }, { modulePath: "/Other" }, { modulePath: TEMPORARY }];
+
+        expect(memory.rank("vector3", suggestions)).toEqual(suggestions);
+
+        await memory.recordPick({ identifier: "vector3", modulePath: TEMPORARY });
+
+        expect(memory.rank("vector3", suggestions).map((suggestion) => suggestion.modulePath)).toEqual([TEMPORARY, SPATIAL, "/Other"]);
+    });
+
+    it("keeps its choices across sessions, and drops stored ones of another version", async () => {
+        const memento = fakeMemento();
+        await new ImportChoiceMemory(memento).recordPick({ identifier: "vector3", modulePath: SPATIAL });
+
+        expect(new ImportChoiceMemory(memento).preferredPath("vector3")).toBe(SPATIAL);
+
+        const stale = fakeMemento({ [ImportChoiceMemory.STORAGE_KEY]: { version: "0", choices: { vector3: { picked: SPATIAL, streak: 5, rejected: [] } } } });
+        expect(new ImportChoiceMemory(stale).preferredPath("vector3")).toBeUndefined();
+    });
+
+    it("records an undo that removes a just-written import as a rejection", async () => {
+        const memory = new ImportChoiceMemory(fakeMemento());
+        await memory.recordPick({ identifier: "vector3", modulePath: SPATIAL });
+        memory.noteAutoImport(uri, [{ identifier: "vector3", modulePath: SPATIAL }]);
+
+        await memory.handleUndo(documentWith("P : vector3 = vector3{}"));
+
+        expect(memory.isRejected("vector3", SPATIAL)).toBe(true);
+        expect(memory.preferredPath("vector3")).toBeUndefined();
+    });
+
+    it("ignores an undo that leaves the import in place, or comes after the window", async () => {
+        const memory = new ImportChoiceMemory(fakeMemento());
+        const now = jest.spyOn(Date, "now").mockReturnValue(1_000);
+        memory.noteAutoImport(uri, [{ identifier: "vector3", modulePath: SPATIAL }]);
+
+        await memory.handleUndo(documentWith(`using { ${SPATIAL} }\n\nP : vector3 = vector3{}`));
+        expect(memory.isRejected("vector3", SPATIAL)).toBe(false);
+
+        now.mockReturnValue(1_000 + ImportChoiceMemory.UNDO_WINDOW_MS + 1);
+        await memory.handleUndo(documentWith("P : vector3 = vector3{}"));
+        expect(memory.isRejected("vector3", SPATIAL)).toBe(false);
+    });
+
+    it("withdraws a rejection when the module is picked again", async () => {
+        const memory = new ImportChoiceMemory(fakeMemento());
+        await memory.recordRejection({ identifier: "vector3", modulePath: SPATIAL });
+
+        await memory.recordPick({ identifier: "vector3", modulePath: SPATIAL });
+
+        expect(memory.isRejected("vector3", SPATIAL)).toBe(false);
+        expect(memory.preferredPath("vector3")).toBe(SPATIAL);
+    });
+
+    it("remembers a name Object.prototype also has, and keeps it across sessions", async () => {
+        const memento = fakeMemento();
+        const memory = new ImportChoiceMemory(memento);
+
+        expect(memory.isRejected("constructor", SPATIAL)).toBe(false);
+        expect(memory.preferredPath("toString")).toBeUndefined();
+
+        await memory.recordPick({ identifier: "constructor", modulePath: SPATIAL });
+        await memory.recordRejection({ identifier: "hasOwnProperty", modulePath: TEMPORARY });
+
+        const reloaded = new ImportChoiceMemory(memento);
+        expect(reloaded.preferredPath("constructor")).toBe(SPATIAL);
+        expect(reloaded.isRejected("hasOwnProperty", TEMPORARY)).toBe(true);
+    });
+
+    it("forgets everything when cleared", async () => {
+        const memory = new ImportChoiceMemory(fakeMemento());
+        await memory.recordPick({ identifier: "vector3", modulePath: SPATIAL });
+        await memory.recordRejection({ identifier: "vector3", modulePath: TEMPORARY });
+
+        await memory.clear();
+
+        expect(memory.preferredPath("vector3")).toBeUndefined();
+        expect(memory.isRejected("vector3", TEMPORARY)).toBe(false);
+    });
+});
@@ -1,6 +1,8 @@
 import * as vscode from "vscode";
 import { ImportCodeActionProvider } from "../ImportCodeActionProvider";
 import { ImportHandler } from "../ImportHandler";
+import { ImportChoiceMemory } from "../ImportChoiceMemory";
+import { ImportSuggestionRanker } from "../ImportSuggestionRanker";
 import { ImportSuggestion } from "../../types";
 
 /**
@@ -11,7 +13,7 @@ import { ImportSuggestion } from "../../types";
  *   identifier - the stubbed handler, not the message, supplies the suggestions.
  */
 const provideFor = async (suggestions: ImportSuggestion[], message = "Unknown identifier `button_device`"): Promise<vscode.CodeAction[]> => {
-    const importHandler = { extractImportSuggestions: jest.fn().mockResolvedValue(suggestions) } as unknown as ImportHandler;
+    const importHandler = { extractImportSuggestions: jest.fn().mockResolvedValue(suggestions), importRestrictionFor: jest.fn().mockReturnValue(null) } as unknown as ImportHandler;
     const provider = new ImportCodeActionProvider({ appendLine: jest.fn() } as unknown as vscode.OutputChannel, importHandler);
 
     const actions = await provider.provideCodeActions(
@@ -50,6 +52,10 @@ describe("ImportCodeActionProvider quick fix titles", () => {
         expect(await titlesFor([suggestion({ confidence: "low" })])).toEqual(["Add import: using { /Fortnite.com/Devices }"]);
     });
 
+    it("names an experimental or deprecated API even without descriptions", async () => {
+        expect(await titlesFor([suggestion({ experimental: true })])).toEqual(["Add import: using { /Fortnite.com/Devices } (experimental)"]);
+    });
+
     // The writer reads behavior.importSyntax scoped to the document's folder,
     // so a labeller reading it window-scoped offers a title in one syntax and
     // inserts the other. The extractor must not be stubbed here: a stub would
@@ -74,7 +80,7 @@ describe("ImportCodeActionProvider quick fix titles", () => {
             const provider = new ImportCodeActionProvider({ appendLine: jest.fn() } as unknown as vscode.OutputChannel, importHandler);
 
             const actions = await provider.provideCodeActions(
-                { uri: { toString: () => `${folder}device.verse` } } as unknown as vscode.TextDocument,
+                { uri: { toString: () => `${folder}device.verse`, fsPath: "/Project/Content/Scripts/device.verse" } } as unknown as vscode.TextDocument,
                 {} as unknown as vscode.Range,
                 {
                     diagnostics: [{ message: "Unknown identifier `player`. Did you forget to specify using { /Verse.org/Simulation }", range: { start: { line: 7, character: 3 } } }],
@@ -178,3 +184,121 @@ describe("ImportCodeActionProvider cancellation", () => {
         expect(extractImportSuggestions).toHaveBeenCalledTimes(3);
     });
 });
+
+describe("ImportCodeActionProvider remembered choices", () => {
+    const suggestion = (modulePath: string): ImportSuggestion => ({
+        importStatement: `using { ${modulePath} }`,
+        source: "digest_lookup",
+        confidence: "high",
+        modulePath,
+    });
+
+    const provideWithMemory = async (suggestions: ImportSuggestion[], memory: ImportChoiceMemory): Promise<vscode.CodeAction[]> => {
+        const importHandler = {
+            extractImportSuggestions: jest.fn().mockResolvedValue(suggestions),
+            importRestrictionFor: jest.fn().mockReturnValue(null),
+            identifierInMessage: jest.fn().mockReturnValue("vector3"),
+        } as unknown as ImportHandler;
+        const provider = new ImportCodeActionProvider({ appendLine: jest.fn() } as unknown as vscode.OutputChannel, importHandler, memory);
+
+        const actions = await provider.provideCodeActions(
+            { uri: { toString: () => "file:///Project/Content/Scripts/device.verse" } } as unknown as vscode.TextDocument,
+            {} as unknown as vscode.Range,
+            { diagnostics: [{ message: "Unknown identifier `vector3`", range: { start: { line: 7, character: 3 } } }] } as unknown as vscode.CodeActionContext,
+            {} as unknown as vscode.CancellationToken,
+        );
+        return actions ?? [];
+    };
+
+    const memento = (): vscode.Memento => ({ get: () => undefined, update: jest.fn().mockResolvedValue(undefined) }) as unknown as vscode.Memento;
+
+    it("leads with, and prefers, the module picked for the name before", async () => {
+        const memory = new ImportChoiceMemory(memento());
+        await memory.recordPick({ identifier: "vector3", modulePath: "/UnrealEngine.com/Temporary/SpatialMath" });
+
+        const actions = await provideWithMemory([suggestion("/Verse.org/SpatialMath"), suggestion("/UnrealEngine.com/Temporary/SpatialMath")], memory);
+
+        expect(actions.map((action) => action.title)).toEqual(["Add import: using { /UnrealEngine.com/Temporary/SpatialMath }", "Add import: using { /Verse.org/SpatialMath }"]);
+        expect(actions[0].isPreferred).toBe(true);
+    });
+
+    it("hands each option's choice to the command, but not a lone suggestion's", async () => {
+        const memory = new ImportChoiceMemory(memento());
+
+        const several = await provideWithMemory([suggestion("/Verse.org/SpatialMath"), suggestion("/UnrealEngine.com/Temporary/SpatialMath")], memory);
+        const lone = await provideWithMemory([suggestion("/Verse.org/SpatialMath")], memory);
+
+        expect(several[0].command?.arguments?.[3]).toEqual({ identifier: "vector3", modulePath: "/Verse.org/SpatialMath" });
+        expect(lone[0].command?.arguments).toHaveLength(3);
+    });
+});
+
+describe("ImportCodeActionProvider ranked options", () => {
+    const SPATIAL = "/Verse.org/SpatialMath";
+    const TEMPORARY = "/UnrealEngine.com/Temporary/SpatialMath";
+    const suggestion = (modulePath: string): ImportSuggestion => ({ importStatement: `using { ${modulePath} }`, source: "digest_lookup", confidence: "high", modulePath });
+
+    const provideRanked = async (showDescriptions: boolean): Promise<vscode.CodeAction[]> => {
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+            get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "quickFix.showDescriptions" ? showDescriptions : defaultValue)),
+            inspect: jest.fn().mockReturnValue(undefined),
+            update: jest.fn().mockResolvedValue(undefined),
+        });
+        const importHandler = {
+            extractImportSuggestions: jest.fn().mockResolvedValue([suggestion(SPATIAL), suggestion(TEMPORARY)]),
+            importRestrictionFor: jest.fn().mockReturnValue(null),
+            identifierInMessage: jest.fn().mockReturnValue("vector3"),
+        } as unknown as ImportHandler;
+        const ranker = {
+            rank: jest.fn().mockResolvedValue([
+                { ...suggestion(TEMPORARY), score: { total: 4, reasons: ["imported by 2 project files"] } },
+                { ...suggestion(SPATIAL), score: { total: 1, reasons: ["Verse digest"] } },
+            ]),
+        } as unknown as ImportSuggestionRanker;
+        const provider = new ImportCodeActionProvider({ appendLine: jest.fn() } as unknown as vscode.OutputChannel, importHandler, undefined, ranker);
+
+        const actions = await provider.provideCodeActions(
+            { uri: { toString: () => "file:///Project/Content/Scripts/device.verse" } } as unknown as vscode.TextDocument,
+            {} as unknown as vscode.Range,
+            { diagnostics: [{ message: "Unknown identifier `vector3`", range: { start: { line: 7, character: 3 } } }] } as unknown as vscode.CodeActionContext,
+            {} as unknown as vscode.CancellationToken,
+        );
+        return actions ?? [];
+    };
+
+    it("orders several options by their score, and prefers the best", async () => {
+        const actions = await provideRanked(false);
+
+        expect(actions.map((action) => action.title)).toEqual([`Add import: using { ${TEMPORARY} }`, `Add import: using { ${SPATIAL} }`]);
+        expect(actions[0].isPreferred).toBe(true);
+    });
+
+    it("shows each option's score with the descriptions", async () => {
+        const actions = await provideRanked(true);
+
+        expect(actions.map((action) => action.title)).toEqual([
+            `Add import: using { ${TEMPORARY} } [score 4: imported by 2 project files]`,
+            `Add import: using { ${SPATIAL} } [score 1: Verse digest]`,
+        ]);
+    });
+});
+
+describe("ImportCodeActionProvider restricted imports", () => {
+    it("offers no module behavior.restrictedImports forbids, leaving the other options", async () => {
+        const suggestion = (modulePath: string): ImportSuggestion => ({ importStatement: `using { ${modulePath} }`, source: "digest_lookup", confidence: "medium", modulePath });
+        const importHandler = {
+            extractImportSuggestions: jest.fn().mockResolvedValue([suggestion("/UnrealEngine.com/Temporary/SpatialMath"), suggestion("/Verse.org/SpatialMath")]),
+            importRestrictionFor: jest.fn().mockImplementation((path: string) => (path.startsWith("/UnrealEngine.com/Temporary/") ? { message: `${path} is restricted` } : null)),
+        } as unknown as ImportHandler;
+        const provider = new ImportCodeActionProvider({ appendLine: jest.fn() } as unknown as vscode.OutputChannel, importHandler);
+
+        const actions = await provider.provideCodeActions(
+            { uri: vscode.Uri.file("/Project/Content/device.verse") } as unknown as vscode.TextDocument,
+            {} as unknown as vscode.Range,
+            { diagnostics: [{ message: "Unknown identifier `vector3`", range: { start: { line: 7 } } }] } as unknown as vscode.CodeActionContext,
+            {} as unknown as vscode.CancellationToken,
+        );
+
+        expect(actions?.map((action) => action.title)).toEqual(["Add import: using { /Verse.org/SpatialMath }"]);
+    });
+});
@@ -0,0 +1,129 @@
+import * as vscode from "vscode";
+import { ImportCompletionProvider } from "../ImportCompletionProvider";
+import { ImportHandler } from "../ImportHandler";
+import { ImportableIdentifier } from "../../types";
+
+describe("ImportCompletionProvider", () => {
+    const token = { isCancellationRequested: false } as vscode.CancellationToken;
+
+    const importables: ImportableIdentifier[] = [
+        { identifier: "button_device", modulePath: "/Fortnite.com/Devices", type: "class", source: "digest_lookup" },
+        { identifier: "GetRandomInt", modulePath: "/Verse.org/Random", type: "function", source: "digest_lookup" },
+        { identifier: "trap_device", modulePath: "/acct@fortnite.com/MyGame/Gadgets", type: "class", source: "project_lookup" },
+    ];
+
+    let importHandler: {
+        listImportableIdentifiers: jest.Mock;
+        importRestrictionFor: jest.Mock;
+        importStatementFor: jest.Mock;
+        computeAddImportEdits: jest.Mock;
+    };
+    let provider: ImportCompletionProvider;
+
+    /** A document whose word at any position is the identifier run ending there. */
+    const fakeDocument = (text: string): vscode.TextDocument => {
+        const lines = text.split("\n");
+        return {
+            uri: vscode.Uri.file("/project/Content/game.verse"),
+            getText: () => text,
+            getWordRangeAtPosition: (position: vscode.Position) => {
+                const line = lines[position.line];
+                let start = position.character;
+                while (start > 0 && /\w/.test(line[start - 1])) start--;
+                let end = position.character;
+                while (end < line.length && /\w/.test(line[end])) end++;
+                return start === end ? undefined : new vscode.Range(new vscode.Position(position.line, start), new vscode.Position(position.line, end));
+            },
+        } as unknown as vscode.TextDocument;
+    };
+
+    /** The items offered with the cursor at the end of the given line. */
+    const complete = async (text: string, line: number) => {
+        const document = fakeDocument(text);
+        const position = new vscode.Position(line, text.split("\n")[line].length);
+        return provider.provideCompletionItems(document, position, token);
+    };
+
+    beforeEach(() => {
+        importHandler = {
+            listImportableIdentifiers: jest.fn().mockResolvedValue(importables),
+            importRestrictionFor: jest.fn().mockReturnValue(null),
+            importStatementFor: jest.fn().mockImplementation(async (importable: ImportableIdentifier) => `using { ${importable.modulePath} }`),
+            computeAddImportEdits: jest.fn().mockReturnValue([vscode.TextEdit.insert(new vscode.Position(0, 0), "using { /Fortnite.com/Devices }\n")]),
+        };
+        provider = new ImportCompletionProvider(importHandler as unknown as ImportHandler);
+    });
+
+    it("offers the names of modules the file does not import, with the module as detail", async () => {
+        const items = await complete("using { /Verse.org/Simulation }\n\nX := but", 2);
+
+        expect(items?.map((item) => [item.label, item.detail, item.kind])).toEqual([
+            ["button_device", "/Fortnite.com/Devices", vscode.CompletionItemKind.Class],
+            ["GetRandomInt", "/Verse.org/Random", vscode.CompletionItemKind.Function],
+            ["trap_device", "/acct@fortnite.com/MyGame/Gadgets", vscode.CompletionItemKind.Class],
+        ]);
+    });
+
+    it("names an experimental or deprecated declaration in the detail, and tags a deprecated one", async () => {
+        importHandler.listImportableIdentifiers.mockResolvedValue([
+            { identifier: "camera_component", modulePath: "/Verse.org/SceneGraph", type: "class", source: "digest_lookup", experimental: true },
+            { identifier: "camera_rotation", modulePath: "/UnrealEngine.com/Temporary/SpatialMath", type: "class", source: "digest_lookup", deprecated: true },
+        ]);
+
+        const items = await complete("X := camera", 0);
+
+        expect(items?.map((item) => [item.detail, item.tags])).toEqual([
+            ["/Verse.org/SceneGraph (experimental)", undefined],
+            ["/UnrealEngine.com/Temporary/SpatialMath (deprecated)", [vscode.CompletionItemTag.Deprecated]],
+        ]);
+    });
+
+    it("leaves out a name whose module the file already imports", async () => {
+        const items = await complete("using { /Verse.org/Random }\n\nX := Get", 2);
+
+        expect(items?.map((item) => item.label)).toEqual(["button_device", "trap_device"]);
+    });
+
+    it("offers nothing before a name is started, after a dot, or on an import line", async () => {
+        expect(await complete("X := ", 0)).toBeUndefined();
+        expect(await complete("X := Thing.but", 0)).toBeUndefined();
+        expect(await complete("using { /Verse.org/Ran", 0)).toBeUndefined();
+    });
+
+    it("offers nothing inside a comment or a string", async () => {
+        expect(await complete("# a button", 0)).toBeUndefined();
+        expect(await complete('X := "a button', 0)).toBeUndefined();
+        expect(await complete("<# a block\ncomment with a butt", 1)).toBeUndefined();
+    });
+
+    it("offers nothing when the setting is off", async () => {
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+            get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "completion.suggestImports" ? false : defaultValue)),
+            update: jest.fn().mockResolvedValue(undefined),
+        });
+
+        expect(await complete("X := but", 0)).toBeUndefined();
+        expect(importHandler.listImportableIdentifiers).not.toHaveBeenCalled();
+    });
+
+    it("attaches the import as additional edits when an item is resolved", async () => {
+        const [item] = (await complete("X := but", 0))!;
+
+        const resolved = await provider.resolveCompletionItem(item);
+
+        expect(importHandler.importStatementFor).toHaveBeenCalledWith(importables[0], expect.anything());
+        expect(importHandler.computeAddImportEdits).toHaveBeenCalledWith(expect.anything(), ["using { /Fortnite.com/Devices }"]);
+        expect(resolved.additionalTextEdits).toHaveLength(1);
+        expect(resolved.documentation).toBe("Adds using { /Fortnite.com/Devices }");
+    });
+
+    it("attaches no edits the import writer refuses, or that would reach the completed word", async () => {
+        const [refused] = (await complete("X := but", 0))!;
+        importHandler.computeAddImportEdits.mockReturnValueOnce(null);
+        expect((await provider.resolveCompletionItem(refused)).additionalTextEdits).toBeUndefined();
+
+        const [overlapping] = (await complete("X := but", 0))!;
+        importHandler.computeAddImportEdits.mockReturnValueOnce([vscode.TextEdit.replace(new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 8)), "using { /Fortnite.com/Devices }\n")]);
+        expect((await provider.resolveCompletionItem(overlapping)).additionalTextEdits).toBeUndefined();
+    });
+});
@@ -2,6 +2,7 @@ import * as fs from "fs";
 import * as path from "path";
 import { detectEol, ImportDocumentEditor, minimalSplice, spliceLines } from "../ImportDocumentEditor";
 import { ImportFormatter } from "../ImportFormatter";
+import { compileImportGroupRules } from "../ImportGroupRules";
 import * as vscode from "vscode";
 
 describe("detectEol", () => {
@@ -1213,6 +1214,7 @@ interface RecordedOperation {
     position?: { line: number; character: number };
     range?: { start: { line: number; character: number }; end: { line: number; character: number } };
     text?: string;
+    metadata?: vscode.WorkspaceEditEntryMetadata;
 }
 
 function fakeDocument(text: string, eol: number = vscode.EndOfLine.LF): vscode.TextDocument {
@@ -2861,6 +2863,71 @@ describe("ImportDocumentEditor.buildPreservedContent", () => {
     });
 });
 
+describe("ImportDocumentEditor custom import groups", () => {
+    let editor: ImportDocumentEditor;
+
+    const { groups } = compileImportGroupRules(
+        [
+            { name: "Verse", prefix: "/Verse.org/", header: "Verse" },
+            { name: "Fortnite", prefix: "/Fortnite.com/", header: "Fortnite" },
+            { name: "Plugin", glob: "/MyStudio@fortnite.com/**" },
+            { name: "Relative", relative: true, header: "Project" },
+        ],
+        "test",
+    );
+    const options = { preferDotSyntax: false, sortAlphabetically: true, importGrouping: "custom", importGroups: groups };
+
+    beforeEach(() => {
+        const outputChannel = vscode.window.createOutputChannel("test");
+        editor = new ImportDocumentEditor(outputChannel, new ImportFormatter());
+    });
+
+    it("organizes into the listed groups under their headers, and reproduces its own output", () => {
+        const input = "using { Features }\nusing { /Fortnite.com/Devices }\nusing { /MyStudio@fortnite.com/Core/Utils }\nusing { Economy.Shop }\nusing { /Verse.org/Simulation }\n\ncode()";
+
+        const organized = editor.buildOrganizedContent(input, [], options);
+
+        expect(organized).toBe(
+            [
+                "# Verse",
+                "using { /Verse.org/Simulation }",
+                "",
+                "# Fortnite",
+                "using { /Fortnite.com/Devices }",
+                "",
+                "using { /MyStudio@fortnite.com/Core/Utils }",
+                "",
+                "# Project",
+                "using { Features }",
+                "using { Economy.Shop }",
+                "",
+                "code()",
+            ].join("\n"),
+        );
+        expect(editor.buildOrganizedContent(organized!, [], options)).toBe(organized);
+    });
+
+    it("keeps the file's own header above the first group's, and writes neither twice", () => {
+        const input = "# Copyright Studio\n\n# Verse\nusing { /Verse.org/Simulation }\n\ncode()";
+
+        expect(editor.buildOrganizedContent(input, ["/Verse.org/Random"], options)).toBe("# Copyright Studio\n\n# Verse\nusing { /Verse.org/Random }\nusing { /Verse.org/Simulation }\n\ncode()");
+    });
+
+    it("adds a path to the block of its own group where the file is grouped", () => {
+        const input = "# Verse\nusing { /Verse.org/Simulation }\n\n# Fortnite\nusing { /Fortnite.com/Devices }\n\ncode()";
+
+        expect(editor.buildPreservedContent(input, ["/Fortnite.com/Characters"], options)).toBe(
+            "# Verse\nusing { /Verse.org/Simulation }\n\n# Fortnite\nusing { /Fortnite.com/Characters }\nusing { /Fortnite.com/Devices }\n\ncode()",
+        );
+    });
+
+    it("regroups a single block in place without repeating the header above it", () => {
+        const input = "# Verse\nusing { /Verse.org/Simulation }\n\ncode()";
+
+        expect(editor.buildPreservedContent(input, ["/Fortnite.com/Devices"], options)).toBe("# Verse\nusing { /Verse.org/Simulation }\n\n# Fortnite\nusing { /Fortnite.com/Devices }\n\ncode()");
+    });
+});
+
 /**
  * Regression for #385: the diagnostic evidence has to survive every hop from
  * the command to the rebuild. Dropped at any one of them, Optimize Imports
@@ -3212,3 +3279,251 @@ describe("ImportDocumentEditor write serialization", () => {
         expect(await second).toBe(true);
     });
 });
+
+describe("ImportDocumentEditor unused-import removal", () => {
+    let editor: ImportDocumentEditor;
+    const applyEditMock = () => vscode.workspace.applyEdit as unknown as jest.Mock;
+    const exports = {
+        membersOf: (path: string) => (path === "/Verse.org/Random" ? new Set(["GetRandomInt"]) : path === "/Fortnite.com/Devices" ? new Set(["creative_device"]) : null),
+    };
+
+    beforeEach(() => {
+        editor = new ImportDocumentEditor(vscode.window.createOutputChannel("test"), new ImportFormatter());
+        applyEditMock().mockClear();
+    });
+
+    it("removes an unused import, with the comment written against it, as part of organizing", async () => {
+        const input = "using { /Fortnite.com/Devices }\n# dice\nusing { /Verse.org/Random }\n\nmy_device := class(creative_device):";
+
+        const success = await editor.organizeImports(fakeDocument(input), [], new Map(), exports);
+
+        expect(success).toBe(true);
+        expect(appliedText(input)).toBe("using { /Fortnite.com/Devices }\n\nmy_device := class(creative_device):");
+    });
+
+    it("keeps an unused import the caller is asking to add", async () => {
+        const input = "using { /Verse.org/Random }\n\ncode()";
+
+        const success = await editor.organizeImports(fakeDocument(input), ["/Verse.org/Random"], new Map(), exports);
+
+        expect(success).toBe(true);
+        expect(applyEditMock()).not.toHaveBeenCalled();
+    });
+
+    it("keeps every import when no exports are given", async () => {
+        const input = "using { /Verse.org/Random }\n\ncode()";
+
+        const success = await editor.organizeImports(fakeDocument(input), []);
+
+        expect(success).toBe(true);
+        expect(applyEditMock()).not.toHaveBeenCalled();
+    });
+
+    it("removes only the named imports, leaving the block's order as written", async () => {
+        const input = "using { /Verse.org/Simulation }\nusing { /Verse.org/Random }\nusing { /Fortnite.com/Devices }\n\ncode()";
+
+        const success = await editor.removeImports(fakeDocument(input), ["/Verse.org/Random"]);
+
+        expect(success).toBe(true);
+        expect(appliedText(input)).toBe("using { /Verse.org/Simulation }\nusing { /Fortnite.com/Devices }\n\ncode()");
+    });
+
+    it("leaves the document alone when none of the named imports is in it", async () => {
+        const input = "using { /Verse.org/Random }\n\ncode()";
+
+        const success = await editor.removeImports(fakeDocument(input), ["/Fortnite.com/Devices"]);
+
+        expect(success).toBe(true);
+        expect(applyEditMock()).not.toHaveBeenCalled();
+    });
+
+    it("does not remove a pinned import", async () => {
+        const input = "using { /Verse.org/Random }; X := 1\n\ncode()";
+
+        const success = await editor.removeImports(fakeDocument(input), ["/Verse.org/Random"]);
+
+        expect(success).toBe(true);
+        expect(applyEditMock()).not.toHaveBeenCalled();
+    });
+});
+
+describe("ImportDocumentEditor duplicate-import collapse", () => {
+    let editor: ImportDocumentEditor;
+    const applyEditMock = () => vscode.workspace.applyEdit as unknown as jest.Mock;
+
+    beforeEach(() => {
+        editor = new ImportDocumentEditor(vscode.window.createOutputChannel("test"), new ImportFormatter());
+        applyEditMock().mockClear();
+    });
+
+    it("writes the preferred path where the group's first import stood and drops the rest with their comments", async () => {
+        const input = "using { /me@fortnite.com/Game/Gadgets } # tools\nusing { /Verse.org/Random }\n# again\nusing { Gadgets }\n\ncode()";
+        const group = {
+            imports: [
+                { path: "/me@fortnite.com/Game/Gadgets", line: 0 },
+                { path: "Gadgets", line: 3 },
+            ],
+            preferredPath: "Gadgets",
+        };
+
+        const success = await editor.collapseDuplicateImports(fakeDocument(input), [group]);
+
+        expect(success).toBe(true);
+        expect(appliedText(input)).toBe("using { Gadgets } # tools\nusing { /Verse.org/Random }\n\ncode()");
+    });
+
+    it("collapses two spellings of one project path into the first", async () => {
+        const input = "using { /me@fortnite.com/Game/Tools }\nusing { /Verse.org/Simulation }\nusing { /Me@Fortnite.com/game/Tools }\n\ncode()";
+        const group = {
+            imports: [
+                { path: "/me@fortnite.com/Game/Tools", line: 0 },
+                { path: "/Me@Fortnite.com/game/Tools", line: 2 },
+            ],
+            preferredPath: "/me@fortnite.com/Game/Tools",
+        };
+
+        const success = await editor.collapseDuplicateImports(fakeDocument(input), [group]);
+
+        expect(success).toBe(true);
+        expect(appliedText(input)).toBe("using { /me@fortnite.com/Game/Tools }\nusing { /Verse.org/Simulation }\n\ncode()");
+    });
+
+    it("refuses a group whose imports are no longer where they were found", async () => {
+        const input = "using { /Verse.org/Random }\nusing { /Verse.org/Simulation }\n\ncode()";
+        const group = {
+            imports: [
+                { path: "/Verse.org/Random", line: 0 },
+                { path: "/verse.org/random", line: 1 },
+            ],
+            preferredPath: "/Verse.org/Random",
+        };
+
+        const success = await editor.collapseDuplicateImports(fakeDocument(input), [group]);
+
+        expect(success).toBe(false);
+        expect(applyEditMock()).not.toHaveBeenCalled();
+    });
+});
+
+describe("ImportDocumentEditor.replaceImport", () => {
+    let editor: ImportDocumentEditor;
+    const applyEditMock = () => vscode.workspace.applyEdit as unknown as jest.Mock;
+
+    beforeEach(() => {
+        editor = new ImportDocumentEditor(vscode.window.createOutputChannel("test"), new ImportFormatter());
+        applyEditMock().mockClear();
+    });
+
+    it("writes the replacement where the import stood, keeping its comment", async () => {
+        const input = "using { /Verse.org/Simulation }\nusing { /UnrealEngine.com/Temporary/SpatialMath } # vectors\n\ncode()";
+
+        const success = await editor.replaceImport(fakeDocument(input), { path: "/UnrealEngine.com/Temporary/SpatialMath", line: 1 }, "/Verse.org/SpatialMath");
+
+        expect(success).toBe(true);
+        expect(appliedText(input)).toBe("using { /Verse.org/Simulation }\nusing { /Verse.org/SpatialMath } # vectors\n\ncode()");
+    });
+
+    it("only deletes the import when the file already imports the replacement", async () => {
+        const input = "using { /Verse.org/SpatialMath }\nusing { /UnrealEngine.com/Temporary/SpatialMath }\n\ncode()";
+
+        const success = await editor.replaceImport(fakeDocument(input), { path: "/UnrealEngine.com/Temporary/SpatialMath", line: 1 }, "/Verse.org/SpatialMath");
+
+        expect(success).toBe(true);
+        expect(appliedText(input)).toBe("using { /Verse.org/SpatialMath }\n\ncode()");
+    });
+});
+
+describe("ImportDocumentEditor.stageImportReplacements", () => {
+    let editor: ImportDocumentEditor;
+
+    beforeEach(() => {
+        editor = new ImportDocumentEditor(vscode.window.createOutputChannel("test"), new ImportFormatter());
+    });
+
+    it("stages every replacement as one previewed entry, without applying it", async () => {
+        const input = "using { /UnrealEngine.com/Temporary/SpatialMath }\nusing { /Verse.org/Simulation }\n\ncode()";
+        const edit = new vscode.WorkspaceEdit();
+
+        const outcome = await editor.stageImportReplacements(
+            edit,
+            fakeDocument(input),
+            [{ path: "/UnrealEngine.com/Temporary/SpatialMath", line: 0, replacement: "/Verse.org/SpatialMath" }],
+            "Migrate superseded imports",
+        );
+
+        expect(outcome).toBe("staged");
+        const [operation] = (edit as unknown as { operations: Array<{ metadata: vscode.WorkspaceEditEntryMetadata }> }).operations;
+        expect(operation.metadata).toEqual({ needsConfirmation: true, label: "Migrate superseded imports", description: "/UnrealEngine.com/Temporary/SpatialMath → /Verse.org/SpatialMath" });
+    });
+});
+
+describe("ImportDocumentEditor.computeAddImportEdits", () => {
+    let editor: ImportDocumentEditor;
+    const applyEditMock = () => vscode.workspace.applyEdit as unknown as jest.Mock;
+
+    beforeEach(() => {
+        editor = new ImportDocumentEditor(vscode.window.createOutputChannel("test"), new ImportFormatter());
+        applyEditMock().mockClear();
+    });
+
+    it("answers the edit addImportsToDocument applies, without applying it", async () => {
+        const input = "using { /Verse.org/Simulation }\n\ncode()";
+        const document = fakeDocument(input);
+
+        const edits = editor.computeAddImportEdits(document, ["using { /Fortnite.com/Devices }"]);
+        expect(applyEditMock()).not.toHaveBeenCalled();
+
+        await editor.addImportsToDocument(document, ["using { /Fortnite.com/Devices }"]);
+        const [applied] = appliedOperations(0);
+        expect(edits).toEqual([{ range: applied.range, newText: applied.text }]);
+    });
+
+    it("answers no edits when the path is already imported", () => {
+        const edits = editor.computeAddImportEdits(fakeDocument("using { /Verse.org/Simulation }\n\ncode()"), ["using. /Verse.org/Simulation"]);
+
+        expect(edits).toEqual([]);
+    });
+});
+
+describe("ImportDocumentEditor previewed edits", () => {
+    let editor: ImportDocumentEditor;
+    let defaultConfiguration: unknown;
+    const applyEditMock = () => vscode.workspace.applyEdit as unknown as jest.Mock;
+
+    beforeEach(() => {
+        editor = new ImportDocumentEditor(vscode.window.createOutputChannel("test"), new ImportFormatter());
+        applyEditMock().mockClear();
+        defaultConfiguration = vscode.workspace.getConfiguration();
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+            get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "general.previewImportEdits" ? true : defaultValue)),
+            update: jest.fn().mockResolvedValue(undefined),
+        });
+    });
+
+    afterEach(() => {
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue(defaultConfiguration);
+    });
+
+    it("routes an add through the refactor preview, labelled by the diagnostic, and leaves the spacing to the save", async () => {
+        const input = "using { /Verse.org/Simulation }\ncode()";
+
+        await editor.addImportsToDocument(fakeDocument(input), ["using { /Fortnite.com/Devices }"], new Map([["using { /Fortnite.com/Devices }", [{ line: 1, character: 0 }]]]));
+
+        expect(applyEditMock()).toHaveBeenCalledTimes(1);
+        expect(applyEditMock().mock.calls[0][1]).toEqual({ isRefactoring: true });
+        expect(appliedOperations(0).map((operation) => operation.metadata)).toEqual([{ needsConfirmation: true, label: "Added for the diagnostic at line 2", description: "/Fortnite.com/Devices" }]);
+        expect(appliedText(input)).toBe("using { /Fortnite.com/Devices }\nusing { /Verse.org/Simulation }\ncode()");
+    });
+
+    it("stages an organize into a shared edit without writing it", async () => {
+        const input = "using { /Verse.org/Simulation }\n# dice\nusing { /Verse.org/Random }\n\ncode()";
+        const edit = new vscode.WorkspaceEdit() as vscode.WorkspaceEdit & { operations: RecordedOperation[] };
+        const exports = { membersOf: (path: string) => (path === "/Verse.org/Random" ? new Set(["GetRandomInt"]) : null) };
+
+        const outcome = await editor.stageOrganizedImports(edit, fakeDocument(input), [], new Map(), exports);
+
+        expect(outcome).toBe("staged");
+        expect(applyEditMock()).not.toHaveBeenCalled();
+        expect(edit.operations.map((operation) => operation.metadata?.label)).toEqual(["Removed unused import"]);
+    });
+});
@@ -0,0 +1,86 @@
+import * as vscode from "vscode";
+import { applyImportEdit, ImportEditContext, previewedSplices } from "../ImportEditPreview";
+
+describe("previewedSplices", () => {
+    const context = (overrides: Partial<ImportEditContext> = {}): ImportEditContext => ({
+        diagnosticPositionsByPath: new Map(),
+        removedUnusedPaths: [],
+        groupOf: () => null,
+        ...overrides,
+    });
+
+    /** `before` with every splice applied, back to front. */
+    const replay = (before: string, splices: Array<{ start: number; end: number; newText: string }>): string =>
+        [...splices].reverse().reduce((text, splice) => text.slice(0, splice.start) + splice.newText + text.slice(splice.end), before);
+
+    it("cuts a rewrite into one entry per changed run of lines, which together give the target", () => {
+        const before = "using { /Verse.org/Simulation }\nusing { /Verse.org/Random }\n\ncode()";
+        const after = "using { /Fortnite.com/Devices }\nusing { /Verse.org/Simulation }\n\ncode()";
+
+        const splices = previewedSplices(before, after, context());
+
+        expect(splices).toHaveLength(2);
+        expect(replay(before, splices)).toBe(after);
+        expect(splices.every((splice) => splice.metadata.needsConfirmation)).toBe(true);
+    });
+
+    it("labels an added path with the line of the diagnostic that asked for it", () => {
+        const before = "using { /Verse.org/Simulation }\n\ncode()";
+        const after = "using { /Fortnite.com/Devices }\nusing { /Verse.org/Simulation }\n\ncode()";
+
+        const [splice] = previewedSplices(before, after, context({ diagnosticPositionsByPath: new Map([["/Fortnite.com/Devices", [{ line: 11, character: 4 }]]]) }));
+
+        expect(splice.metadata).toEqual({ needsConfirmation: true, label: "Added for the diagnostic at line 12", description: "/Fortnite.com/Devices" });
+    });
+
+    it("labels an added path no diagnostic asked for as a plain addition", () => {
+        const [splice] = previewedSplices("code()", "using { /Verse.org/Random }\ncode()", context());
+
+        expect(splice.metadata.label).toBe("Added import");
+    });
+
+    it("tells a removed unused import from another removal", () => {
+        const before = "using { /Verse.org/Random }\nusing { /Verse.org/Simulation }\ncode()";
+
+        expect(previewedSplices(before, "using { /Verse.org/Simulation }\ncode()", context({ removedUnusedPaths: ["/Verse.org/Random"] }))[0].metadata.label).toBe("Removed unused import");
+        expect(previewedSplices(before, "using { /Verse.org/Simulation }\ncode()", context())[0].metadata.label).toBe("Removed import");
+    });
+
+    it("names the group a moved import went into where the document groups them", () => {
+        const before = "using { MyModule }\nusing { /Verse.org/Simulation }\ncode()";
+        const after = "using { /Verse.org/Simulation }\nusing { MyModule }\ncode()";
+
+        const labels = previewedSplices(before, after, context({ groupOf: (path) => (path.startsWith("/Verse.org/") ? "digest" : "local") })).map((splice) => splice.metadata.label);
+
+        expect(labels.length).toBeGreaterThan(0);
+        expect(labels.every((label) => label === "Moved into the digest group" || label === "Moved into the local group")).toBe(true);
+    });
+
+    it("calls a path rewritten where it stood a reformat", () => {
+        const [splice] = previewedSplices("using { /Verse.org/Random }\ncode()", "using. /Verse.org/Random\ncode()", context());
+
+        expect(splice.metadata.label).toBe("Reformatted imports");
+    });
+
+    it("keeps a last line without a line break intact", () => {
+        const before = "using { /Verse.org/Random }";
+        const after = "using { /Fortnite.com/Devices }\nusing { /Verse.org/Random }";
+
+        expect(replay(before, previewedSplices(before, after, context()))).toBe(after);
+    });
+});
+
+describe("applyImportEdit", () => {
+    beforeEach(() => {
+        (vscode.workspace.applyEdit as jest.Mock).mockClear();
+    });
+
+    it("applies a previewed edit as a refactoring, and any other edit as it is", async () => {
+        const edit = new vscode.WorkspaceEdit();
+
+        await applyImportEdit(edit, true);
+        await applyImportEdit(edit, false);
+
+        expect((vscode.workspace.applyEdit as jest.Mock).mock.calls).toEqual([[edit, { isRefactoring: true }], [edit]]);
+    });
+});
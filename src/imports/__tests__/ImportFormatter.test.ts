@@ -1,4 +1,5 @@
 import { ImportFormatter } from "../ImportFormatter";
+import { compileImportGroupRules } from "../ImportGroupRules";
 
 describe("ImportFormatter.isModuleImport", () => {
     it("default mode: a bare identifier is not a module import", () => {
@@ -361,3 +362,56 @@ describe("ImportFormatter.groupAndFormatImports", () => {
         expect(result).toEqual(["using { /Verse.org/Simulation }", "using { Economy.Shop }", "using { Features }"]);
     });
 });
+
+describe("ImportFormatter custom groups", () => {
+    let formatter: ImportFormatter;
+
+    const { groups } = compileImportGroupRules(
+        [
+            { name: "Verse", prefix: "/Verse.org/", header: "Verse" },
+            { name: "Fortnite", prefix: "/Fortnite.com/" },
+            { name: "Relative", relative: true, header: "Project" },
+        ],
+        "test",
+    );
+
+    beforeEach(() => {
+        formatter = new ImportFormatter();
+    });
+
+    it("writes the groups in rule order under their headers, unmatched absolutes after them and relatives last", () => {
+        const result = formatter.groupAndFormatImports(["Features", "/Fortnite.com/Devices", "/mygame@fortnite.com/Utils", "Economy.Shop", "/Verse.org/Simulation"], false, true, "custom", groups);
+        expect(result).toEqual([
+            "# Verse",
+            "using { /Verse.org/Simulation }",
+            "",
+            "using { /Fortnite.com/Devices }",
+            "",
+            "using { /mygame@fortnite.com/Utils }",
+            "",
+            "# Project",
+            "using { Features }",
+            "using { Economy.Shop }",
+        ]);
+    });
+
+    // However the rules are written, a relative path may be resolving through
+    // any absolute import, so none may be written below it.
+    it("keeps every relative import below the absolute groups, in written order", () => {
+        const { groups: prefixOnly } = compileImportGroupRules([{ name: "Verse", prefix: "/Verse.org/" }], "test");
+        const result = formatter.groupAndFormatImports(["Zeta", "/Verse.org/Simulation", "Alpha", "/Fortnite.com/Devices"], false, true, "custom", prefixOnly);
+        expect(result).toEqual(["using { /Verse.org/Simulation }", "", "using { /Fortnite.com/Devices }", "", "using { Zeta }", "using { Alpha }"]);
+    });
+
+    it("writes no header for a group without imports", () => {
+        expect(formatter.groupAndFormatImports(["/Fortnite.com/Devices"], false, true, "custom", groups)).toEqual(["using { /Fortnite.com/Devices }"]);
+    });
+
+    it("names the group a path goes in under each grouping", () => {
+        expect(formatter.importGroupName("/Fortnite.com/Devices", "custom", groups)).toBe("Fortnite");
+        expect(formatter.importGroupName("/mygame@fortnite.com/Utils", "custom", groups)).toBe("ungrouped");
+        expect(formatter.importGroupName("Economy.Shop", "custom", groups)).toBe("Relative");
+        expect(formatter.importGroupName("/Verse.org/Simulation", "digestFirst")).toBe("digest");
+        expect(formatter.importGroupName("/Verse.org/Simulation", "none")).toBeNull();
+    });
+});
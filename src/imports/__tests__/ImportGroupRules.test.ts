@@ -0,0 +1,102 @@
+import * as vscode from "vscode";
+import { compileImportGroupRules, ImportGroupRules } from "../ImportGroupRules";
+
+describe("compileImportGroupRules", () => {
+    it("keeps the valid rules in their order, with each header as a comment line", () => {
+        const { groups, errors } = compileImportGroupRules(
+            [
+                { name: "Verse", prefix: "/Verse.org/", header: "Verse APIs" },
+                { name: "Plugin", glob: "/MyStudio@fortnite.com/**" },
+                { name: "Relative", relative: true },
+            ],
+            "settings",
+        );
+
+        expect(errors).toEqual([]);
+        expect(groups.map((group) => [group.name, group.header, group.relative])).toEqual([
+            ["Verse", "# Verse APIs", false],
+            ["Plugin", undefined, false],
+            ["Relative", undefined, true],
+        ]);
+    });
+
+    it("writes a header given with its own # once", () => {
+        const { groups } = compileImportGroupRules(
+            [
+                { name: "Devices", prefix: "/Fortnite.com/Devices", header: "# Devices" },
+                { name: "Verse", prefix: "/Verse.org/", header: "##Verse" },
+                { name: "Bare", prefix: "/UnrealEngine.com/", header: "#" },
+            ],
+            "settings",
+        );
+
+        expect(groups.map((group) => group.header)).toEqual(["# Devices", "# Verse", undefined]);
+    });
+
+    it("matches a glob against the whole path, with * inside one segment and ** across them", () => {
+        const { groups } = compileImportGroupRules(
+            [
+                { name: "Shallow", glob: "/Fortnite.com/*" },
+                { name: "Deep", glob: "/MyStudio@fortnite.com/**" },
+            ],
+            "settings",
+        );
+        const [shallow, deep] = groups;
+
+        expect(shallow.matches("/Fortnite.com/Devices")).toBe(true);
+        expect(shallow.matches("/Fortnite.com/Devices/CreativeAnimation")).toBe(false);
+        expect(deep.matches("/MyStudio@fortnite.com/Core/Utils")).toBe(true);
+        expect(deep.matches("/MyStudioXfortnite.com/Core")).toBe(false);
+    });
+
+    it.each([
+        ["a missing name", { prefix: "/Verse.org/" }, '"name" must be a non-empty string'],
+        ["two matchers", { name: "Both", prefix: "/Verse.org/", glob: "/Verse.org/**" }, 'exactly one of "prefix", "glob" and "relative"'],
+        ["no matcher", { name: "None" }, 'exactly one of "prefix", "glob" and "relative"'],
+        ["a multi-line header", { name: "Verse", prefix: "/Verse.org/", header: "one\ntwo" }, '"header" must be a single line'],
+        ["a non-object", "/Verse.org/", "expected an object"],
+    ])("drops %s", (_case, entry, message) => {
+        const { groups, errors } = compileImportGroupRules([entry], "settings");
+
+        expect(groups).toEqual([]);
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toContain(message);
+    });
+
+    it("drops a relative rule that is not the last, since relative imports are always written last", () => {
+        const { groups, errors } = compileImportGroupRules(
+            [
+                { name: "Relative", relative: true },
+                { name: "Verse", prefix: "/Verse.org/" },
+            ],
+            "settings",
+        );
+
+        expect(groups.map((group) => group.name)).toEqual(["Verse"]);
+        expect(errors).toEqual(["settings, group 1: the relative group must be the last rule, since relative imports have to stay below what they resolve through"]);
+    });
+});
+
+describe("ImportGroupRules", () => {
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const settingRules = (rules: unknown): void => {
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+            get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "behavior.importGroups" ? rules : defaultValue)),
+        });
+    };
+
+    it("warns once about a list, however often it is read", () => {
+        const invalid = [{ name: "Verse" }];
+        const rules = new ImportGroupRules();
+
+        settingRules(invalid);
+        rules.groupsFor();
+        settingRules(invalid);
+        rules.groupsFor();
+
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,109 @@
+import * as vscode from "vscode";
+import { ImportHoverProvider } from "../ImportHoverProvider";
+import { ImportHandler } from "../ImportHandler";
+import { ImportCodeLensProvider } from "../ImportCodeLensProvider";
+import { ImportableIdentifier } from "../../types";
+
+describe("ImportHoverProvider", () => {
+    const token = { isCancellationRequested: false } as vscode.CancellationToken;
+
+    const declarations: Record<string, ImportableIdentifier[]> = {
+        vector3: [
+            { identifier: "vector3", modulePath: "/UnrealEngine.com/Temporary/SpatialMath", type: "struct", source: "digest_lookup" },
+            { identifier: "vector3", modulePath: "/Verse.org/SpatialMath", type: "struct", source: "digest_lookup" },
+        ],
+        trap_device: [{ identifier: "trap_device", modulePath: "/acct@fortnite.com/MyGame/Gadgets", type: "class", source: "project_lookup" }],
+    };
+
+    let importHandler: { lookupDeclarations: jest.Mock };
+    let provider: ImportHoverProvider;
+
+    const fakeDocument = (text: string): vscode.TextDocument => {
+        const lines = text.split("\n");
+        return {
+            uri: vscode.Uri.file("/project/Content/game.verse"),
+            getText: () => text,
+            lineCount: lines.length,
+            lineAt: (line: number) => ({ text: lines[line] }),
+            getWordRangeAtPosition: (position: vscode.Position) => {
+                const line = lines[position.line];
+                let start = position.character;
+                while (start > 0 && /\w/.test(line[start - 1])) start--;
+                let end = position.character;
+                while (end < line.length && /\w/.test(line[end])) end++;
+                return start === end ? undefined : new vscode.Range(new vscode.Position(position.line, start), new vscode.Position(position.line, end));
+            },
+        } as unknown as vscode.TextDocument;
+    };
+
+    /** The hover's text with the cursor inside the first occurrence of `word` on the last line. */
+    const hoverText = async (text: string, word: string): Promise<string | undefined> => {
+        const lines = text.split("\n");
+        const line = lines.length - 1;
+        const hover = await provider.provideHover(fakeDocument(text), new vscode.Position(line, lines[line].indexOf(word) + 1), token);
+        return (hover?.contents as unknown as vscode.MarkdownString | undefined)?.value;
+    };
+
+    beforeEach(() => {
+        importHandler = { lookupDeclarations: jest.fn().mockImplementation(async (identifier: string) => declarations[identifier] ?? []) };
+        provider = new ImportHoverProvider(importHandler as unknown as ImportHandler);
+    });
+
+    it("names the one imported module that declares the identifier", async () => {
+        const text = await hoverText("using { /UnrealEngine.com/Temporary/SpatialMath }\n\nP : vector3 = vector3{}", "vector3");
+
+        expect(text).toBe("`vector3`: struct from `/UnrealEngine.com/Temporary/SpatialMath` (Verse API)");
+    });
+
+    it("reports an identifier two imports declare as ambiguous, listing both", async () => {
+        const text = await hoverText("using { /UnrealEngine.com/Temporary/SpatialMath }\nusing { /Verse.org/SpatialMath }\n\nP : vector3 = vector3{}", "vector3");
+
+        expect(text).toContain("**ambiguous** here: 2 of this file's imports");
+        expect(text).toContain("- struct from `/UnrealEngine.com/Temporary/SpatialMath` (Verse API)");
+        expect(text).toContain("- struct from `/Verse.org/SpatialMath` (Verse API)");
+    });
+
+    it("matches a relative import on the tail of a project module's path", async () => {
+        const text = await hoverText("using { Gadgets }\n\nT : trap_device = trap_device{}", "trap_device");
+
+        expect(text).toBe("`trap_device`: class from `/acct@fortnite.com/MyGame/Gadgets` (project)");
+    });
+
+    it("lists every declaring module when none is imported", async () => {
+        const text = await hoverText("P : vector3 = vector3{}", "vector3");
+
+        expect(text).toContain("`vector3` is not imported in this file");
+        expect(text).toContain("/Verse.org/SpatialMath");
+    });
+
+    it("shows nothing for an unknown name, a member, an import line, or a comment", async () => {
+        expect(await hoverText("X := unknown_thing", "unknown_thing")).toBeUndefined();
+        expect(await hoverText("X := Thing.vector3", "vector3")).toBeUndefined();
+        expect(await hoverText("using { /Verse.org/vector3 }", "vector3")).toBeUndefined();
+        expect(await hoverText("# a vector3", "vector3")).toBeUndefined();
+    });
+
+    it("tells the CodeLens provider whether the pointer is over an import", async () => {
+        const codeLensProvider = { setHoverState: jest.fn() };
+        provider = new ImportHoverProvider(importHandler as unknown as ImportHandler, codeLensProvider as unknown as ImportCodeLensProvider);
+        const document = fakeDocument("using { /Verse.org/SpatialMath }\n\nP : vector3 = vector3{}");
+
+        await provider.provideHover(document, new vscode.Position(0, 10), token);
+        await provider.provideHover(document, new vscode.Position(2, 5), token);
+
+        expect(codeLensProvider.setHoverState.mock.calls).toEqual([
+            [document.uri.toString(), true, 0],
+            [document.uri.toString(), false],
+        ]);
+    });
+
+    it("shows nothing when the setting is off", async () => {
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+            get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "hover.showDeclaringModule" ? false : defaultValue)),
+            update: jest.fn().mockResolvedValue(undefined),
+        });
+
+        expect(await hoverText("P : vector3 = vector3{}", "vector3")).toBeUndefined();
+        expect(importHandler.lookupDeclarations).not.toHaveBeenCalled();
+    });
+});
@@ -1456,6 +1456,40 @@ describe("ImportPathConverter.convertToFullPath lexical gate", () => {
     });
 });
 
+describe("ImportPathConverter.resolveModulePaths", () => {
+    const projectVersePath = "/mygame@fortnite.com/mygame";
+    const documentUri = vscode.Uri.file("C:/project/test.verse");
+
+    function converterWithSearch(locations: string[], truncated = false): ImportPathConverter {
+        const converter = converterWithProjectPath(projectVersePath);
+        converter.findModuleLocations = async () => ({ locations, truncated });
+        return converter;
+    }
+
+    beforeEach(() => {
+        (vscode.window.showWarningMessage as jest.Mock).mockClear();
+        (vscode.window.showErrorMessage as jest.Mock).mockClear();
+    });
+
+    it("answers an absolute path with itself", async () => {
+        expect(await converterWithSearch([]).resolveModulePaths("/Verse.org/Simulation", documentUri)).toEqual(["/Verse.org/Simulation"]);
+    });
+
+    it("answers every writable candidate of a relative path", async () => {
+        expect(await converterWithSearch(["/Systems", "/My Mods", "/Economy"]).resolveModulePaths("HUD.Textures", documentUri)).toEqual([
+            "/mygame@fortnite.com/mygame/Systems/HUD/Textures",
+            "/mygame@fortnite.com/mygame/Economy/HUD/Textures",
+        ]);
+    });
+
+    it("answers nothing, without a notice, for a module found nowhere or a search cut short", async () => {
+        expect(await converterWithSearch([]).resolveModulePaths("Shop", documentUri)).toEqual([]);
+        expect(await converterWithSearch(["/Economy"], true).resolveModulePaths("Shop", documentUri)).toEqual([]);
+        expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+        expect(vscode.window.showErrorMessage).not.toHaveBeenCalled();
+    });
+});
+
 // The project-wide phases used to scan workspaceFolders[0] whatever document
 // asked, so in a multi-root workspace - which the UEFN-generated workspace is -
 // they answered from a tree the importing file is nowhere in.
@@ -1573,3 +1607,76 @@ describe("ImportPathConverter.convertFromFullPath under an on-disk `content` roo
         expect(await converter.convertFromFullPath(`using. ${projectVersePath}/Systems/Economy/Shop`, documentUri, 0)).toBeNull();
     });
 });
+
+describe("ImportPathConverter.findDuplicateImports", () => {
+    const projectVersePath = "/me@fortnite.com/Game";
+
+    function converterConverting(relativeForms: Record<string, string>): ImportPathConverter & { convertFromFullPath: jest.Mock } {
+        const converter = converterWithProjectPath(projectVersePath) as ImportPathConverter & { convertFromFullPath: jest.Mock };
+        converter.convertFromFullPath = jest.fn(async (statement: string): ReturnType<ImportPathConverter["convertFromFullPath"]> => {
+            const relative = relativeForms[statement.replace(/^using \{ (.*) \}$/, "$1")];
+            return relative ? { originalImport: statement, convertedImport: `using { ${relative} }`, moduleName: relative, isAmbiguous: false } : null;
+        });
+        return converter;
+    }
+
+    it("groups two spellings of a project path, folding case in the project prefix only", async () => {
+        const converter = converterConverting({});
+        const document = fakeDocument(["using { /me@fortnite.com/Game/Tools }", "using { /Me@Fortnite.com/game/Tools }", "using { /me@fortnite.com/Game/tools }", "", "code()"]);
+
+        expect(await converter.findDuplicateImports(document)).toEqual([
+            {
+                imports: [
+                    { path: "/me@fortnite.com/Game/Tools", line: 0 },
+                    { path: "/Me@Fortnite.com/game/Tools", line: 1 },
+                ],
+                preferredPath: "/me@fortnite.com/Game/Tools",
+            },
+        ]);
+        expect(converter.convertFromFullPath).not.toHaveBeenCalled();
+    });
+
+    it("joins a relative import to the full path it converts from, never to a module only sharing its name", async () => {
+        const converter = converterConverting({ "/me@fortnite.com/Game/Gadgets": "Gadgets" });
+        const document = fakeDocument(["using { /me@fortnite.com/Game/Gadgets }", "using { /Verse.org/Gadgets }", "using { Gadgets }", "", "code()"]);
+
+        expect(await converter.findDuplicateImports(document)).toEqual([
+            {
+                imports: [
+                    { path: "/me@fortnite.com/Game/Gadgets", line: 0 },
+                    { path: "Gadgets", line: 2 },
+                ],
+                preferredPath: "/me@fortnite.com/Game/Gadgets",
+            },
+        ]);
+    });
+
+    it("prefers the relative form where the project imports relatively", async () => {
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+            get: (key: string, defaultValue?: unknown) => (key === "pathConversion.projectImportPathStyle" ? "relative" : defaultValue),
+        });
+        const converter = converterConverting({ "/me@fortnite.com/Game/Gadgets": "Gadgets" });
+        const document = fakeDocument(["using { Gadgets }", "using { /me@fortnite.com/Game/Gadgets }", "", "code()"]);
+
+        const [group] = await converter.findDuplicateImports(document);
+
+        expect(group.preferredPath).toBe("Gadgets");
+        expect(group.imports.map((imp) => imp.line)).toEqual([0, 1]);
+    });
+
+    it("groups a relative import written twice without converting anything", async () => {
+        const converter = converterConverting({});
+        const document = fakeDocument(["using { /Verse.org/Random }", "using { Gadgets }", "using { Gadgets }", "", "code()"]);
+
+        expect(await converter.findDuplicateImports(document)).toEqual([
+            {
+                imports: [
+                    { path: "Gadgets", line: 1 },
+                    { path: "Gadgets", line: 2 },
+                ],
+                preferredPath: "Gadgets",
+            },
+        ]);
+        expect(converter.convertFromFullPath).not.toHaveBeenCalled();
+    });
+});
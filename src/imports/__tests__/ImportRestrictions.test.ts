@@ -0,0 +1,106 @@
+import * as vscode from "vscode";
+import { compileImportRestrictions, ImportRestrictions } from "../ImportRestrictions";
+
+describe("compileImportRestrictions", () => {
+    it("bans by prefix and by glob, and everything outside an allow-list", () => {
+        const { rules, errors } = compileImportRestrictions(
+            [{ prefix: "/UnrealEngine.com/Temporary/" }, { glob: "/Fortnite.com/Experimental/*" }, { allow: ["/Verse.org/**", "/Fortnite.com/UI"] }],
+            "settings",
+        );
+        const [byPrefix, byGlob, byAllowList] = rules;
+
+        expect(errors).toEqual([]);
+        expect(byPrefix.bans("/UnrealEngine.com/Temporary/SpatialMath")).toBe(true);
+        expect(byPrefix.bans("/UnrealEngine.com/Assets")).toBe(false);
+        expect(byGlob.bans("/Fortnite.com/Experimental/Teams")).toBe(true);
+        expect(byGlob.bans("/Fortnite.com/Experimental/Teams/Deep")).toBe(false);
+        expect(byAllowList.bans("/Verse.org/Simulation/Tags")).toBe(false);
+        expect(byAllowList.bans("/Fortnite.com/UI")).toBe(false);
+        expect(byAllowList.bans("/Fortnite.com/Devices")).toBe(true);
+    });
+
+    it("says why in the rule's words where it has some, and in its own otherwise", () => {
+        const { rules } = compileImportRestrictions(
+            [{ prefix: "/UnrealEngine.com/Temporary/", message: "Use /Verse.org/SpatialMath.", files: "Content/UI/**" }, { glob: "/Fortnite.com/*" }],
+            "settings",
+        );
+
+        expect(rules[0].restriction("/UnrealEngine.com/Temporary/SpatialMath").message).toBe("/UnrealEngine.com/Temporary/SpatialMath: Use /Verse.org/SpatialMath.");
+        expect(rules[1].restriction("/Fortnite.com/Devices").message).toBe("/Fortnite.com/Devices is restricted: paths matching /Fortnite.com/* are restricted");
+    });
+
+    it("offers no replacement the rule itself bans", () => {
+        const { rules } = compileImportRestrictions(
+            [
+                { prefix: "/UnrealEngine.com/Temporary/", replacement: "/UnrealEngine.com/Temporary/Curves" },
+                { prefix: "/UnrealEngine.com/Temporary/", replacement: "/Verse.org/SpatialMath" },
+            ],
+            "settings",
+        );
+
+        expect(rules.map((rule) => rule.restriction("/UnrealEngine.com/Temporary/SpatialMath").replacement)).toEqual([undefined, "/Verse.org/SpatialMath"]);
+    });
+
+    it.each([
+        ["two matchers", { prefix: "/Verse.org/", glob: "/Verse.org/**" }, 'exactly one of "prefix", "glob" and "allow"'],
+        ["no matcher", { message: "nope" }, 'exactly one of "prefix", "glob" and "allow"'],
+        ["an allow-list that is not strings", { allow: ["/Verse.org/**", 3] }, '"allow" must be a list of non-empty strings'],
+        ["a relative replacement", { prefix: "/UnrealEngine.com/", replacement: "SpatialMath" }, '"replacement" must be an absolute path'],
+        ["a non-object", "/Verse.org/", "expected an object"],
+    ])("drops %s", (_case, entry, message) => {
+        const { rules, errors } = compileImportRestrictions([entry], "settings");
+
+        expect(rules).toEqual([]);
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toContain(message);
+    });
+});
+
+describe("ImportRestrictions", () => {
+    const workspaceRoot = "/project";
+
+    beforeEach(() => {
+        (vscode.workspace as unknown as { workspaceFolders: unknown }).workspaceFolders = [{ uri: { fsPath: workspaceRoot }, name: "Project", index: 0 }];
+    });
+
+    afterEach(() => {
+        (vscode.workspace as unknown as { workspaceFolders: unknown }).workspaceFolders = undefined;
+        jest.clearAllMocks();
+    });
+
+    const settingRules = (rules: unknown): void => {
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+            get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "behavior.restrictedImports" ? rules : defaultValue)),
+        });
+    };
+
+    it("applies a rule only to the files it names", () => {
+        const rules = [{ allow: ["/Verse.org/**"], files: "Content/Core/**" }];
+        const restrictions = new ImportRestrictions();
+
+        settingRules(rules);
+        expect(restrictions.restrictionFor("/Fortnite.com/Devices", vscode.Uri.file(`${workspaceRoot}/Content/Core/math.verse`))).not.toBeNull();
+        settingRules(rules);
+        expect(restrictions.restrictionFor("/Fortnite.com/Devices", vscode.Uri.file(`${workspaceRoot}/Content/UI/hud.verse`))).toBeNull();
+    });
+
+    it("never restricts a relative import", () => {
+        const restrictions = new ImportRestrictions();
+
+        settingRules([{ allow: ["/Verse.org/**"] }]);
+
+        expect(restrictions.restrictionFor("Gadgets", vscode.Uri.file(`${workspaceRoot}/Content/game.verse`))).toBeNull();
+    });
+
+    it("warns once about a list, however often it is read", () => {
+        const invalid = [{ message: "no matcher" }];
+        const restrictions = new ImportRestrictions();
+
+        settingRules(invalid);
+        restrictions.restrictionFor("/Verse.org/Random");
+        settingRules(invalid);
+        restrictions.restrictionFor("/Verse.org/Random");
+
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledTimes(1);
+    });
+});
@@ -22,6 +22,14 @@ describe("verifyOrganizedRewrite", () => {
         expect(verifyOrganizedRewrite(before, after, [])).toBe("the rebuilt document imports /C, which nothing asked for");
     });
 
+    it("accepts the loss of an import the caller asked to remove", () => {
+        const before = "using { /A }\nusing { /B }\ncode()";
+        const after = "using { /A }\n\ncode()";
+
+        expect(verifyOrganizedRewrite(before, after, [], ["/B"])).toBeNull();
+        expect(verifyOrganizedRewrite(before, after, [], ["/A"])).toBe("the rebuilt document no longer imports /B");
+    });
+
     it("accepts an import the caller asked to add", () => {
         const before = "using { /A }\ncode()";
         const after = "using { /A }\nusing { /C }\n\ncode()";
@@ -1,5 +1,7 @@
 import { ImportSuggestionExtractor } from "../ImportSuggestionExtractor";
 import { ImportFormatter } from "../ImportFormatter";
+import { ImportPathConverter } from "../ImportPathConverter";
+import { DigestParser, ProjectPathCache } from "../../services";
 import * as vscode from "vscode";
 
 describe("ImportSuggestionExtractor", () => {
@@ -257,6 +259,160 @@ describe("ImportSuggestionExtractor", () => {
         });
     });
 
+    describe("project lookup", () => {
+        const GADGETS = "/acct@fortnite.com/MyGame/Gadgets";
+        const documentUri = vscode.Uri.file("/Project/Content/Game/game.verse");
+
+        /** A cache that knows one public class, `trap_device`, in the Gadgets folder. */
+        const trapDevice = { node: { name: "trap_device", fullPath: "trap_device", type: "class", isPublic: true, sourceFile: "Content/Gadgets/trap.verse" }, modulePath: GADGETS };
+        const lookupDeclarationImports = jest.fn();
+        const listDeclarationImports = jest.fn().mockResolvedValue([trapDevice]);
+        const projectCache = { lookupDeclarationImports, listDeclarationImports } as unknown as ProjectPathCache;
+
+        let defaultConfiguration: unknown;
+
+        const settings = (values: Record<string, unknown>): void => {
+            (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+                get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key in values ? values[key] : defaultValue)),
+                update: jest.fn().mockResolvedValue(undefined),
+            });
+        };
+
+        beforeEach(() => {
+            defaultConfiguration = vscode.workspace.getConfiguration();
+            lookupDeclarationImports.mockReset();
+            lookupDeclarationImports.mockImplementation(async (identifier: string) => (identifier === "trap_device" ? [trapDevice] : []));
+            extractor = new ImportSuggestionExtractor(outputChannel, formatter, undefined, undefined, undefined, projectCache);
+        });
+
+        afterEach(() => {
+            (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue(defaultConfiguration);
+            jest.restoreAllMocks();
+        });
+
+        it("should suggest the absolute path of the module declaring an unknown identifier", async () => {
+            settings({});
+
+            const suggestions = await extractor.extractImportSuggestions("Unknown identifier `trap_device`", documentUri);
+
+            expect(suggestions).toEqual([
+                { importStatement: `using { ${GADGETS} }`, source: "project_lookup", confidence: "high", description: "class from Content/Gadgets/trap.verse", modulePath: GADGETS },
+            ]);
+            expect(lookupDeclarationImports).toHaveBeenCalledWith("trap_device", documentUri);
+        });
+
+        it("should write the relative form when the path style asks for it", async () => {
+            settings({ "pathConversion.projectImportPathStyle": "relative" });
+            jest.spyOn(ImportPathConverter.prototype, "convertFromFullPath").mockResolvedValue({
+                originalImport: `using { ${GADGETS} }`,
+                convertedImport: "using { Gadgets }",
+                moduleName: "Gadgets",
+                isAmbiguous: false,
+            });
+
+            const suggestions = await extractor.extractImportSuggestions("Unknown identifier `trap_device`", documentUri);
+
+            expect(suggestions.map((s) => s.importStatement)).toEqual(["using { Gadgets }"]);
+        });
+
+        it("should fall back to the absolute form when no relative one resolves", async () => {
+            settings({ "pathConversion.projectImportPathStyle": "relative" });
+            jest.spyOn(ImportPathConverter.prototype, "convertFromFullPath").mockResolvedValue(null);
+
+            const suggestions = await extractor.extractImportSuggestions("Unknown identifier `trap_device`", documentUri);
+
+            expect(suggestions.map((s) => s.importStatement)).toEqual([`using { ${GADGETS} }`]);
+        });
+
+        it("should follow the configured import syntax", async () => {
+            settings({ "behavior.importSyntax": "dot" });
+
+            const suggestions = await extractor.extractImportSuggestions("Unknown identifier `trap_device`", documentUri);
+
+            expect(suggestions.map((s) => s.importStatement)).toEqual([`using. ${GADGETS}`]);
+        });
+
+        it("should prefer a project declaration over the path inferred from a 'Did you mean'", async () => {
+            settings({});
+
+            const suggestions = await extractor.extractImportSuggestions("Unknown identifier `trap_device`. Did you mean Other.trap_device", documentUri);
+
+            expect(suggestions.map((s) => s.source)).toEqual(["project_lookup"]);
+        });
+
+        it("should list every project declaration as importable, for completion", async () => {
+            const importables = await extractor.listImportableIdentifiers(documentUri);
+
+            expect(importables).toEqual([{ identifier: "trap_device", modulePath: GADGETS, type: "class", source: "project_lookup" }]);
+            expect(listDeclarationImports).toHaveBeenCalledWith(documentUri);
+        });
+
+        it("should format an importable's statement in the configured path style", async () => {
+            settings({ "pathConversion.projectImportPathStyle": "relative" });
+            jest.spyOn(ImportPathConverter.prototype, "convertFromFullPath").mockResolvedValue({
+                originalImport: `using { ${GADGETS} }`,
+                convertedImport: "using { Gadgets }",
+                moduleName: "Gadgets",
+                isAmbiguous: false,
+            });
+
+            const project = await extractor.importStatementFor({ identifier: "trap_device", modulePath: GADGETS, type: "class", source: "project_lookup" }, documentUri);
+            const digest = await extractor.importStatementFor({ identifier: "button_device", modulePath: "/Fortnite.com/Devices", type: "class", source: "digest_lookup" }, documentUri);
+
+            expect([project, digest]).toEqual(["using { Gadgets }", "using { /Fortnite.com/Devices }"]);
+        });
+
+        it("should look up declarations in both sources, with where a digest declares its own", async () => {
+            const digestParser = {
+                lookupIdentifier: jest
+                    .fn()
+                    .mockResolvedValue([{ identifier: "trap_device", modulePath: "/Fortnite.com/Devices", type: "class", isPublic: true, sourceLine: 42, sourceFile: "Fortnite.digest.verse" }]),
+            } as unknown as DigestParser;
+            extractor = new ImportSuggestionExtractor(outputChannel, formatter, undefined, undefined, digestParser, projectCache);
+
+            const declarations = await extractor.lookupDeclarations("trap_device", documentUri);
+
+            expect(declarations).toEqual([
+                { identifier: "trap_device", modulePath: "/Fortnite.com/Devices", type: "class", source: "digest_lookup", declaredAt: { sourceFile: "Fortnite.digest.verse", line: 42 } },
+                { identifier: "trap_device", modulePath: GADGETS, type: "class", source: "project_lookup" },
+            ]);
+        });
+
+        it("should list every digest module with its names, including a module declaring none", async () => {
+            const digestParser = {
+                getModuleIndex: jest.fn().mockResolvedValue(
+                    new Map([
+                        ["/Verse.org/Simulation", ["agent"]],
+                        ["/Verse.org/Concurrency", ["Await"]],
+                    ]),
+                ),
+                getDigestIndex: jest.fn().mockResolvedValue(
+                    new Map([
+                        ["agent", [{ identifier: "agent", modulePath: "/Verse.org/Simulation", type: "class", isPublic: true, experimental: true }]],
+                        ["Concurrency", [{ identifier: "Concurrency", modulePath: "/Verse.org", type: "module", isPublic: true }]],
+                    ]),
+                ),
+            } as unknown as DigestParser;
+            extractor = new ImportSuggestionExtractor(outputChannel, formatter, undefined, undefined, digestParser, projectCache);
+
+            const modules = await extractor.listDigestModules();
+
+            expect([...modules]).toEqual([
+                ["/Verse.org/Simulation", [{ identifier: "agent", modulePath: "/Verse.org/Simulation", type: "class", source: "digest_lookup", deprecated: undefined, experimental: true }]],
+                ["/Verse.org/Concurrency", []],
+            ]);
+        });
+
+        it("should return nothing when the lookup throws", async () => {
+            settings({});
+            lookupDeclarationImports.mockRejectedValue(new Error("boom"));
+
+            const suggestions = await extractor.extractImportSuggestions("Unknown identifier `trap_device`", documentUri);
+
+            expect(suggestions).toHaveLength(0);
+        });
+    });
+
     describe("extractImportsFromDiagnostics", () => {
         it("should ignore 'set' assignment suggestions instead of extracting garbage paths", () => {
             // Regression: the greedy "Did you mean" fallback used to extract
@@ -286,6 +442,15 @@ describe("ImportSuggestionExtractor", () => {
             expect(paths).toEqual([]);
         });
 
+        it("records where each ambiguous diagnostic was reported, for a caller to leave to the user", () => {
+            const { ambiguousPositions } = extractor.extractImportsFromDiagnostics([
+                diag("Unknown identifier `thing`. Did you forget to specify one of:\nusing { /GameA/Combat }\nusing { /GameB/Combat }", 7, 4),
+                diag("This identifier is unknown. Did you forget to specify using { /Verse.org/Simulation }", 9, 0),
+            ]);
+
+            expect(ambiguousPositions).toEqual([{ line: 7, character: 4 }]);
+        });
+
         it("should not bulk-add the candidates of a 'could be one of many types' message", () => {
             const { paths } = extractor.extractImportsFromDiagnostics([
                 diag("Identifier vector3 could be one of many types: (/Verse.org/SpatialMath:)vector3 or (/UnrealEngine.com/Temporary/SpatialMath:)vector3"),
@@ -381,4 +546,54 @@ describe("ImportSuggestionExtractor", () => {
             expect(diagnosticPositionsByPath.size).toBe(0);
         });
     });
+
+    describe("custom patterns", () => {
+        let defaultConfiguration: unknown;
+
+        beforeEach(() => {
+            defaultConfiguration = vscode.workspace.getConfiguration();
+        });
+
+        afterEach(() => {
+            (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue(defaultConfiguration);
+        });
+
+        /** Extraction reads configuration more than once, so this answers every read until the test ends. */
+        const withPatterns = (patterns: unknown[]): void => {
+            (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+                get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "diagnostics.customPatterns" ? patterns : defaultValue)),
+            });
+        };
+
+        it("reads a message the built-in patterns do not know", () => {
+            withPatterns([{ pattern: "Add the module (?<path>/\\S+) to your using list", kind: "singleImport" }]);
+
+            const { paths } = extractor.extractImportsFromDiagnostics([diag("Unknown identifier `button_device`. Add the module /Fortnite.com/Devices to your using list.")]);
+
+            expect(paths).toEqual(["/Fortnite.com/Devices"]);
+        });
+
+        it("takes precedence over a built-in pattern that matches the same message", async () => {
+            withPatterns([{ pattern: "specify using \\{ (?<paths>[^}]+) \\}", kind: "multiOption", description: "Team rule" }]);
+
+            const suggestions = await extractor.extractImportSuggestions("Did you forget to specify using { /GameA/Combat /GameB/Combat }");
+
+            expect(suggestions.map((suggestion) => suggestion.modulePath)).toEqual(["/GameA/Combat", "/GameB/Combat"]);
+            expect(suggestions[0].description).toBe("Team rule");
+        });
+
+        it("falls through to the built-in patterns when a multi-option match lists no path", () => {
+            withPatterns([{ pattern: "Did you forget to specify (?<paths>nothing)?", kind: "multiOption" }]);
+
+            const { paths } = extractor.extractImportsFromDiagnostics([diag("This identifier is unknown. Did you forget to specify using { /Verse.org/Simulation }")]);
+
+            expect(paths).toEqual(["/Verse.org/Simulation"]);
+        });
+
+        it("names the identifier of a custom identifier pattern", () => {
+            withPatterns([{ pattern: "The name '(?<identifier>\\w+)' is not defined", kind: "identifier" }]);
+
+            expect(extractor.identifierInMessage("The name 'vector3' is not defined here")).toBe("vector3");
+        });
+    });
 });
@@ -0,0 +1,87 @@
+import * as vscode from "vscode";
+import { ImportSuggestionRanker } from "../ImportSuggestionRanker";
+import { ImportHandler } from "../ImportHandler";
+import { ImportableIdentifier, ImportSuggestion } from "../../types";
+
+describe("ImportSuggestionRanker", () => {
+    const SPATIAL = "/Verse.org/SpatialMath";
+    const TEMPORARY = "/UnrealEngine.com/Temporary/SpatialMath";
+    const folder = { uri: vscode.Uri.file("/project"), name: "project", index: 0 };
+
+    const suggestion = (modulePath: string): ImportSuggestion => ({ importStatement: `using { ${modulePath} }`, source: "digest_lookup", confidence: "high", modulePath });
+
+    const fakeDocument = (text: string): vscode.TextDocument => ({ uri: vscode.Uri.file("/project/Content/game.verse"), getText: () => text }) as unknown as vscode.TextDocument;
+
+    /** Puts the document in the workspace folder, whose files hold these texts. */
+    const projectFiles = (...texts: string[]): void => {
+        (vscode.workspace.getWorkspaceFolder as jest.Mock).mockReturnValueOnce(folder);
+        (vscode.workspace.findFiles as jest.Mock).mockResolvedValueOnce(texts.map((_text, index) => vscode.Uri.file(`/project/Content/file${index}.verse`)));
+        for (const text of texts) {
+            (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValueOnce(Buffer.from(text));
+        }
+    };
+
+    const rankerDeclaring = (declarations: ImportableIdentifier[] = []): ImportSuggestionRanker =>
+        new ImportSuggestionRanker({ lookupDeclarations: jest.fn().mockResolvedValue(declarations) } as unknown as ImportHandler);
+
+    const order = (ranked: ImportSuggestion[]): Array<string | undefined> => ranked.map((ranked) => ranked.modulePath);
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it("puts a module the project already imports ahead of digest precedence", async () => {
+        projectFiles(`using { ${TEMPORARY} }\n`, `using { ${TEMPORARY} }\nusing { /Fortnite.com/Devices }\n`);
+
+        const ranked = await rankerDeclaring().rank(fakeDocument(""), "vector3", [suggestion(SPATIAL), suggestion(TEMPORARY)]);
+
+        expect(order(ranked)).toEqual([TEMPORARY, SPATIAL]);
+        expect(ranked[0].score).toEqual({ total: 4, reasons: ["imported by 2 project files"] });
+        expect(ranked[1].score).toEqual({ total: 1, reasons: ["Verse digest"] });
+    });
+
+    it("favours a module whose sibling the file imports", async () => {
+        const ranked = await rankerDeclaring().rank(fakeDocument("using { /UnrealEngine.com/Temporary/Diagnostics }\n"), "vector3", [suggestion(SPATIAL), suggestion(TEMPORARY)]);
+
+        expect(order(ranked)).toEqual([TEMPORARY, SPATIAL]);
+        expect(ranked[0].score.reasons).toEqual(["a sibling module is imported"]);
+    });
+
+    it("keeps the extractor's order on a tie", async () => {
+        const ranked = await rankerDeclaring().rank(fakeDocument(""), "trap_device", [suggestion("/acct@fortnite.com/Game/B"), suggestion("/acct@fortnite.com/Other/A")]);
+
+        expect(order(ranked)).toEqual(["/acct@fortnite.com/Game/B", "/acct@fortnite.com/Other/A"]);
+    });
+
+    it("puts a deprecated declaration last, whatever else favours it", async () => {
+        projectFiles(`using { ${TEMPORARY} }\n`);
+        const ranker = rankerDeclaring([
+            { identifier: "rotation", modulePath: SPATIAL, type: "class", source: "digest_lookup" },
+            { identifier: "rotation", modulePath: TEMPORARY, type: "class", source: "digest_lookup", deprecated: true },
+        ]);
+
+        const ranked = await ranker.rank(fakeDocument("using { /UnrealEngine.com/Temporary/Diagnostics }\n"), "rotation", [suggestion(TEMPORARY), suggestion(SPATIAL)]);
+
+        expect(order(ranked)).toEqual([SPATIAL, TEMPORARY]);
+        expect(ranked[1].score.reasons).toContain("deprecated");
+    });
+
+    it("reuses the project's counted imports for a minute, and counts them again after", async () => {
+        const now = jest.spyOn(Date, "now").mockReturnValue(1_000_000);
+        const ranker = rankerDeclaring();
+        projectFiles(`using { ${TEMPORARY} }\n`);
+        await ranker.rank(fakeDocument(""), "vector3", [suggestion(SPATIAL), suggestion(TEMPORARY)]);
+
+        now.mockReturnValue(1_000_000 + 60_000);
+        (vscode.workspace.getWorkspaceFolder as jest.Mock).mockReturnValueOnce(folder);
+        await ranker.rank(fakeDocument(""), "vector3", [suggestion(SPATIAL), suggestion(TEMPORARY)]);
+        expect(vscode.workspace.findFiles).toHaveBeenCalledTimes(1);
+
+        now.mockReturnValue(1_000_000 + 60_001);
+        projectFiles();
+        const ranked = await ranker.rank(fakeDocument(""), "vector3", [suggestion(SPATIAL), suggestion(TEMPORARY)]);
+        expect(vscode.workspace.findFiles).toHaveBeenCalledTimes(2);
+        expect(order(ranked)).toEqual([SPATIAL, TEMPORARY]);
+        now.mockRestore();
+    });
+});
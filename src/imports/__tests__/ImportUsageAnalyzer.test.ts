@@ -0,0 +1,133 @@
+import { ImportFormatter } from "../ImportFormatter";
+import { findUnusedImports, ImportExports, ImportUsageAnalyzer, referencedIdentifiers } from "../ImportUsageAnalyzer";
+import { scanModuleImports } from "../ImportScanner";
+import { DigestParser, ProjectPathCache } from "../../services";
+
+const formatter = new ImportFormatter();
+
+/** Exports answered from a fixed table; a path missing from it is unknown. */
+function exportsFrom(table: Record<string, string[]>): ImportExports {
+    return {
+        membersOf: (path: string) => (path in table ? new Set(table[path]) : null),
+    };
+}
+
+function unusedPaths(text: string, exports: ImportExports): string[] {
+    return findUnusedImports(text.split("\n"), exports, formatter).map((imp) => imp.path);
+}
+
+describe("referencedIdentifiers", () => {
+    const referenced = (text: string): Set<string> => {
+        const lines = text.split("\n");
+        return referencedIdentifiers(lines, scanModuleImports(lines), formatter);
+    };
+
+    it("collects every identifier written in code", () => {
+        const names = referenced("using { /Fortnite.com/Devices }\nmy_device := class(creative_device):\n    Button:button_device = button_device{}");
+
+        for (const name of ["my_device", "class", "creative_device", "Button", "button_device"]) {
+            expect(names.has(name)).toBe(true);
+        }
+    });
+
+    it("does not read the path of a rewritable import as a reference", () => {
+        const names = referenced("using { /Fortnite.com/Devices }\ncode()");
+
+        expect(names.has("Devices")).toBe(false);
+    });
+
+    it("ignores identifiers written in comments and string literals", () => {
+        const names = referenced('# button_device here\nPrint("trigger_device")\n<# vfx_spawner_device #>');
+
+        expect(names.has("button_device")).toBe(false);
+        expect(names.has("trigger_device")).toBe(false);
+        expect(names.has("vfx_spawner_device")).toBe(false);
+        expect(names.has("Print")).toBe(true);
+    });
+
+    it("counts the first segment of a relative import, which resolves through the imports above it", () => {
+        const names = referenced("using { /Game }\nusing { Economy.Shop }\ncode()");
+
+        expect(names.has("Economy")).toBe(true);
+    });
+});
+
+describe("findUnusedImports", () => {
+    const exports = exportsFrom({
+        "/Fortnite.com/Devices": ["Devices", "button_device", "creative_device"],
+        "/Verse.org/Simulation": ["Simulation", "agent"],
+        "/Verse.org/Random": ["Random", "GetRandomInt"],
+    });
+
+    it("reports an import none of whose members the file refers to", () => {
+        const text = "using { /Fortnite.com/Devices }\nusing { /Verse.org/Random }\nmy_device := class(creative_device):";
+
+        expect(unusedPaths(text, exports)).toEqual(["/Verse.org/Random"]);
+    });
+
+    it("keeps an import whose member is referenced only as an extension method", () => {
+        const text = "using { /Verse.org/Random }\nX := Player.GetRandomInt()";
+
+        expect(unusedPaths(text, exports)).toEqual([]);
+    });
+
+    it("keeps an import of a path no index knows", () => {
+        const text = "using { /Unknown.com/Things }\ncode()";
+
+        expect(unusedPaths(text, exports)).toEqual([]);
+    });
+
+    it("keeps an import whose only use is bringing a relative import's first segment into scope", () => {
+        const text = "using { /Game }\nusing { Economy.Shop }\ncode()";
+
+        expect(unusedPaths(text, exportsFrom({ "/Game": ["Economy"], "Economy.Shop": ["price"] }))).toEqual(["Economy.Shop"]);
+    });
+
+    it("never reports a pinned import", () => {
+        // The `;` puts a second statement on the line, which a rebuild of the
+        // line from the path alone would delete.
+        const text = "using { /Verse.org/Random }; X := 1\ncode()";
+
+        expect(unusedPaths(text, exports)).toEqual([]);
+    });
+});
+
+describe("ImportUsageAnalyzer.loadExports", () => {
+    const digestParser = (moduleIndex: Record<string, string[]>): DigestParser => ({ getModuleIndex: jest.fn().mockResolvedValue(new Map(Object.entries(moduleIndex))) }) as unknown as DigestParser;
+
+    it("answers a digest path from its members and the modules nested directly under it", async () => {
+        const analyzer = new ImportUsageAnalyzer(digestParser({ "/Fortnite.com/UI": ["UI", "button_loud"], "/Fortnite.com/UI/Widgets": ["Widgets", "slider"] }), formatter);
+
+        const exports = await analyzer.loadExports();
+
+        expect(exports.membersOf("/Fortnite.com/UI")).toEqual(new Set(["UI", "button_loud", "Widgets"]));
+        expect(exports.membersOf("/Fortnite.com/Missing")).toBeNull();
+    });
+
+    it("answers a project path from the path cache", async () => {
+        const projectPathCache = { getModuleMembers: jest.fn((name: string) => (name === "Gadgets" ? new Set(["gadget_device"]) : null)) } as unknown as ProjectPathCache;
+        const analyzer = new ImportUsageAnalyzer(digestParser({}), formatter, projectPathCache);
+
+        const exports = await analyzer.loadExports();
+
+        expect(exports.membersOf("/me@fortnite.com/Project/Gadgets")).toEqual(new Set(["gadget_device"]));
+        expect(exports.membersOf("/me@fortnite.com/Project/Other")).toBeNull();
+    });
+
+    it("answers a relative path from both indexes, since it may name either", async () => {
+        const projectPathCache = { getModuleMembers: jest.fn(() => new Set(["local_thing"])) } as unknown as ProjectPathCache;
+        const analyzer = new ImportUsageAnalyzer(digestParser({ "/Fortnite.com/Devices": ["button_device"] }), formatter, projectPathCache);
+
+        const exports = await analyzer.loadExports();
+
+        expect(exports.membersOf("Devices")).toEqual(new Set(["local_thing", "button_device"]));
+    });
+
+    it("knows no project path without a path cache", async () => {
+        const analyzer = new ImportUsageAnalyzer(digestParser({}), formatter);
+
+        const exports = await analyzer.loadExports();
+
+        expect(exports.membersOf("/me@fortnite.com/Project/Gadgets")).toBeNull();
+    });
+});
@@ -0,0 +1,136 @@
+import * as vscode from "vscode";
+import { folderModules, ModuleRenameRewriter, planRenamedImports } from "../ModuleRenameRewriter";
+import { ProjectPathHandler } from "../../project";
+
+const PROJECT = "/acct@fortnite.com/MyGame";
+
+/** The folder modules of a project after a rename, from the folders below Content that hold a file. */
+function modulesOf(...folders: string[]): Set<string> {
+    return folderModules(
+        folders.map((folder) => `${PROJECT}/${folder}`),
+        PROJECT,
+    );
+}
+
+describe("planRenamedImports", () => {
+    const plan = (text: string, fileModule: string, from: string, to: string, modules: Set<string>) =>
+        planRenamedImports(text.split("\n"), `${PROJECT}/${fileModule}`, { from: `${PROJECT}/${from}`, to: `${PROJECT}/${to}` }, PROJECT, modules);
+
+    it("moves the absolute imports of the module and of the modules inside it, and nothing else", () => {
+        const text = [`using { ${PROJECT}/Gadgets }`, `using. ${PROJECT}/Gadgets/Tools`, `using { ${PROJECT}/GadgetsOld }`, "using { /Verse.org/Simulation }"].join("\n");
+
+        expect(plan(text, "Core", "Gadgets", "Devices", modulesOf("Core", "Devices/Tools", "GadgetsOld"))).toEqual([
+            { path: `${PROJECT}/Gadgets`, line: 0, replacement: `${PROJECT}/Devices` },
+            { path: `${PROJECT}/Gadgets/Tools`, line: 1, replacement: `${PROJECT}/Devices/Tools` },
+        ]);
+    });
+
+    it("renames a relative reference through the module it named", () => {
+        const text = ["using { Gadgets }", "using { Gadgets.Tools }", "using { Core }"].join("\n");
+
+        expect(plan(text, "Core", "Gadgets", "Devices", modulesOf("Core", "Devices/Tools"))).toEqual([
+            { path: "Gadgets", line: 0, replacement: "Devices" },
+            { path: "Gadgets.Tools", line: 1, replacement: "Devices.Tools" },
+        ]);
+    });
+
+    it("keeps a moved file's relative import of its old neighbour reaching it from the new place", () => {
+        const modules = modulesOf("A/Sibling", "B/Gadgets");
+
+        expect(plan("using { Sibling }", "B/Gadgets", "A/Gadgets", "B/Gadgets", modules)).toEqual([{ path: "Sibling", line: 0, replacement: "A.Sibling" }]);
+    });
+
+    it("writes the absolute path where a nearer namesake would take the relative one", () => {
+        // From Core, `Util.Gadgets` would start at Core/Util.
+        const modules = modulesOf("Core/Util", "Util/Gadgets");
+
+        expect(plan("using { Gadgets }", "Core", "Gadgets", "Util/Gadgets", modules)).toEqual([{ path: "Gadgets", line: 0, replacement: `${PROJECT}/Util/Gadgets` }]);
+    });
+
+    it("leaves a relative reference a nearer module of the old name answered", () => {
+        const modules = modulesOf("Core/Gadgets", "Devices");
+
+        expect(plan("using { Gadgets }", "Core", "Gadgets", "Devices", modules)).toEqual([]);
+    });
+});
+
+describe("ModuleRenameRewriter.folderModulePath", () => {
+    it("is the project's path and the folder's below Content, and null for Content itself", () => {
+        expect(ModuleRenameRewriter.folderModulePath("/project/Content/Gadgets/Tools", "/project/Content", PROJECT)).toBe(`${PROJECT}/Gadgets/Tools`);
+        expect(ModuleRenameRewriter.folderModulePath("/project/Content", "/project/Content", PROJECT)).toBeNull();
+        expect(ModuleRenameRewriter.folderModulePath("/project/Notes/Gadgets", "/project/Content", PROJECT)).toBeNull();
+    });
+});
+
+describe("ModuleRenameRewriter.handleRename", () => {
+    const OLD = vscode.Uri.file("/project/Content/Gadgets");
+    const NEW = vscode.Uri.file("/project/Content/Devices");
+    const CORE = vscode.Uri.file("/project/Content/Core/core.verse");
+    const DEVICE = vscode.Uri.file("/project/Content/Devices/trap.verse");
+    const event = { files: [{ oldUri: OLD, newUri: NEW }] } as unknown as vscode.FileRenameEvent;
+
+    let core: { getText: () => string; version: number; isDirty: boolean; uri: vscode.Uri; save: jest.Mock };
+
+    const projectPathHandler = {
+        getProjectVersePath: jest.fn().mockResolvedValue(PROJECT),
+        getRootPluginName: jest.fn().mockResolvedValue(null),
+        getProjectFileDirectory: jest.fn().mockResolvedValue(null),
+    } as unknown as ProjectPathHandler;
+
+    beforeEach(() => {
+        core = { getText: () => "using. Gadgets # the traps\nMain():void = {}", version: 1, isDirty: false, uri: CORE, save: jest.fn().mockResolvedValue(true) };
+        (vscode.workspace as unknown as { workspaceFolders: unknown }).workspaceFolders = [{ uri: vscode.Uri.file("/project"), name: "project", index: 0 }];
+        (vscode.workspace.fs.stat as jest.Mock).mockResolvedValue({ type: vscode.FileType.Directory });
+        (vscode.workspace.findFiles as jest.Mock).mockResolvedValue([CORE, DEVICE]);
+        (vscode.workspace.fs.readFile as jest.Mock).mockImplementation(async (uri: vscode.Uri) => Buffer.from(uri.fsPath === CORE.fsPath ? core.getText() : ""));
+        (vscode.workspace.openTextDocument as jest.Mock).mockImplementation(async (uri: vscode.Uri) =>
+            uri.fsPath === CORE.fsPath ? core : { getText: () => "", version: 1, isDirty: false, uri, save: jest.fn() },
+        );
+        (vscode.window.showInformationMessage as jest.Mock).mockResolvedValue("Preview Rewrite");
+        (vscode.workspace.applyEdit as jest.Mock).mockClear();
+        (vscode.workspace.openTextDocument as jest.Mock).mockClear();
+    });
+
+    afterEach(() => {
+        (vscode.workspace as unknown as { workspaceFolders: unknown }).workspaceFolders = undefined;
+        (vscode.workspace.fs.stat as jest.Mock).mockRejectedValue(new Error("ENOENT"));
+        (vscode.workspace.findFiles as jest.Mock).mockResolvedValue([]);
+        (vscode.workspace.fs.readFile as jest.Mock).mockRejectedValue(new Error("ENOENT"));
+        (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValue({ getText: () => "", version: 1 });
+        (vscode.window.showInformationMessage as jest.Mock).mockReset();
+    });
+
+    it("previews each broken import rewritten in its own syntax and with its comment, and saves the file", async () => {
+        await new ModuleRenameRewriter(projectPathHandler).handleRename(event);
+
+        expect(vscode.window.showInformationMessage).toHaveBeenCalledWith("Gadgets is now Devices: 1 import(s) in 1 file(s) no longer reach it. Rewrite them?", "Preview Rewrite");
+        const [[edit, options]] = (vscode.workspace.applyEdit as jest.Mock).mock.calls;
+        expect(options).toEqual({ isRefactoring: true });
+        expect(edit.operations.map((operation: { text: string; metadata: { needsConfirmation: boolean } }) => [operation.text, operation.metadata.needsConfirmation])).toEqual([
+            ["using. Devices # the traps", true],
+        ]);
+        expect(core.save).toHaveBeenCalled();
+    });
+
+    it("opens only the files it would rewrite", async () => {
+        await new ModuleRenameRewriter(projectPathHandler).handleRename(event);
+
+        expect((vscode.workspace.openTextDocument as jest.Mock).mock.calls.map(([uri]) => uri.fsPath)).toEqual([CORE.fsPath]);
+    });
+
+    it("writes nothing when the offer is turned down", async () => {
+        (vscode.window.showInformationMessage as jest.Mock).mockResolvedValue(undefined);
+
+        await new ModuleRenameRewriter(projectPathHandler).handleRename(event);
+
+        expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+    });
+
+    it("offers nothing for a folder renamed to a name no import can write", async () => {
+        const spaced = { files: [{ oldUri: OLD, newUri: vscode.Uri.file("/project/Content/Old Gadgets") }] } as unknown as vscode.FileRenameEvent;
+
+        await new ModuleRenameRewriter(projectPathHandler).handleRename(spaced);
+
+        expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+    });
+});
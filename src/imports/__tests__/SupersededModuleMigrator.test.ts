@@ -0,0 +1,190 @@
+import * as vscode from "vscode";
+import { ImportFormatter } from "../ImportFormatter";
+import { ImportHandler } from "../ImportHandler";
+import { ImportExports } from "../ImportUsageAnalyzer";
+import { compileSupersededModules, formatMigrationReport, planModuleMigration, SupersededModuleMigrator, SupersededModuleTable } from "../SupersededModuleMigrator";
+import { StagedRewriteOutcome } from "../ImportDocumentEditor";
+import { ModuleMigrationPlan } from "../../types";
+import { DigestEntry } from "../../services";
+import { SUPERSEDED_MODULES } from "../../services/digestManifest";
+
+const formatter = new ImportFormatter();
+
+const TEMPORARY = "/UnrealEngine.com/Temporary/SpatialMath";
+const LIVE = "/Verse.org/SpatialMath";
+
+/** Exports answered from a fixed table; a path missing from it is unknown. */
+function exportsFrom(table: Record<string, string[]>): ImportExports {
+    return {
+        membersOf: (path: string) => (path in table ? new Set(table[path]) : null),
+    };
+}
+
+const spatialMath = exportsFrom({ [TEMPORARY]: ["vector3", "rotation", "MakeRotation", "Distance"], [LIVE]: ["vector3", "rotation", "Distance"] });
+
+/** The digest declarations behind spatialMath: the old vector3 is the deprecated native, Distance is the same function in both. */
+const DECLARATIONS: Record<string, Array<Partial<DigestEntry>>> = {
+    vector3: [
+        { modulePath: TEMPORARY, type: "class", deprecated: true },
+        { modulePath: LIVE, type: "class" },
+    ],
+    rotation: [
+        { modulePath: TEMPORARY, type: "variable" },
+        { modulePath: LIVE, type: "class" },
+    ],
+    Distance: [
+        { modulePath: TEMPORARY, type: "function" },
+        { modulePath: LIVE, type: "function" },
+    ],
+};
+const declarationsOf = (identifier: string): DigestEntry[] => (DECLARATIONS[identifier] ?? []) as DigestEntry[];
+const NOTE = SUPERSEDED_MODULES[0].note;
+
+describe("planModuleMigration", () => {
+    const plan = (text: string): ModuleMigrationPlan => planModuleMigration(text.split("\n"), spatialMath, declarationsOf, formatter);
+
+    it("maps each import of a superseded module to its replacement", () => {
+        const result = plan(`using { /Verse.org/Simulation }\nusing { ${TEMPORARY} }\ncode()`);
+
+        expect(result.imports).toEqual([{ path: TEMPORARY, line: 1, replacement: LIVE, note: NOTE }]);
+    });
+
+    it("splits the names used from the old module by whether the live one declares them", () => {
+        const result = plan(`using { ${TEMPORARY} }\nPosition:vector3 = vector3{}\nR := MakeRotation()`);
+
+        expect(result.retyped.map((entry) => entry.identifier)).toEqual(["vector3"]);
+        expect(result.undeclared).toEqual([{ identifier: "MakeRotation", from: TEMPORARY, to: LIVE }]);
+    });
+
+    it("plans nothing for a file without superseded imports", () => {
+        expect(plan(`using { ${LIVE} }\nPosition:vector3 = vector3{}`)).toEqual({ imports: [], retyped: [], undeclared: [] });
+    });
+
+    it("lists as retyped only a name whose old declaration is deprecated or whose kind changes", () => {
+        const result = plan(`using { ${TEMPORARY} }\nP:vector3 = vector3{}\nR:rotation = rotation{}\nD := Distance(P, P)`);
+
+        expect(result.retyped.map((entry) => entry.identifier)).toEqual(["rotation", "vector3"]);
+        expect(result.undeclared).toEqual([]);
+    });
+
+    it("reads the mapping from the table it is given", () => {
+        const table = [{ from: "/Old/Module", to: "/New/Module", note: "renamed" }];
+
+        const result = planModuleMigration(["using { /Old/Module }", `using { ${TEMPORARY} }`], spatialMath, declarationsOf, formatter, table);
+
+        expect(result.imports).toEqual([{ path: "/Old/Module", line: 0, replacement: "/New/Module", note: "renamed" }]);
+    });
+});
+
+describe("SupersededModuleMigrator.migrateFiles", () => {
+    const a = vscode.Uri.file("/project/a.verse");
+    const b = vscode.Uri.file("/project/b.verse");
+    const migration: ModuleMigrationPlan = { imports: [{ path: TEMPORARY, line: 0, replacement: LIVE, note: NOTE }], retyped: [], undeclared: [] };
+
+    let documents: Map<string, vscode.TextDocument & { save: jest.Mock }>;
+
+    function handlerWith(plans: Record<string, ModuleMigrationPlan>, outcome: StagedRewriteOutcome = "staged"): ImportHandler & { stageImportReplacements: jest.Mock } {
+        return {
+            planModuleMigration: jest.fn(async (document: vscode.TextDocument) => plans[document.uri.fsPath] ?? { imports: [], retyped: [], undeclared: [] }),
+            stageImportReplacements: jest.fn().mockResolvedValue(outcome),
+        } as unknown as ImportHandler & { stageImportReplacements: jest.Mock };
+    }
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        documents = new Map([a, b].map((uri) => [uri.fsPath, { uri, isDirty: false, version: 1, save: jest.fn().mockResolvedValue(true) } as unknown as vscode.TextDocument & { save: jest.Mock }]));
+        (vscode.workspace.openTextDocument as jest.Mock).mockImplementation(async (uri: vscode.Uri) => documents.get(uri.fsPath));
+    });
+
+    afterAll(() => {
+        (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValue({ getText: () => "", version: 1 });
+    });
+
+    it("stages only the affected files, and always through the preview", async () => {
+        const importHandler = handlerWith({ [a.fsPath]: migration });
+
+        const report = await new SupersededModuleMigrator(importHandler).migrateFiles([a, b]);
+
+        expect(importHandler.stageImportReplacements).toHaveBeenCalledTimes(1);
+        expect(importHandler.stageImportReplacements.mock.calls[0][2]).toEqual(migration.imports);
+        expect(vscode.workspace.applyEdit).toHaveBeenCalledWith(expect.anything(), { isRefactoring: true });
+        expect(report.migrated).toEqual([{ uri: a, plan: migration, saved: true }]);
+        expect(report.unaffectedCount).toBe(1);
+    });
+
+    it("reports the files as not applied when the preview is cancelled", async () => {
+        (vscode.workspace.applyEdit as jest.Mock).mockResolvedValueOnce(false);
+
+        const report = await new SupersededModuleMigrator(handlerWith({ [a.fsPath]: migration })).migrateFiles([a]);
+
+        expect(report.notApplied).toEqual([a]);
+        expect(documents.get(a.fsPath)!.save).not.toHaveBeenCalled();
+    });
+
+    it("applies nothing when the rewrite guard refuses every file", async () => {
+        const report = await new SupersededModuleMigrator(handlerWith({ [a.fsPath]: migration }, "refused")).migrateFiles([a]);
+
+        expect(report.refused).toEqual([a]);
+        expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+    });
+});
+
+describe("formatMigrationReport", () => {
+    it("lists the names to check in each file, under the table's notes", () => {
+        const plan: ModuleMigrationPlan = {
+            imports: [{ path: TEMPORARY, line: 2, replacement: LIVE, note: "rotation and vector3 are the _Deprecated natives" }],
+            retyped: [{ identifier: "vector3", from: TEMPORARY, to: LIVE }],
+            undeclared: [{ identifier: "MakeRotation", from: TEMPORARY, to: LIVE }],
+        };
+
+        const markdown = formatMigrationReport({
+            migrated: [{ uri: vscode.Uri.file("/project/a.verse"), plan, saved: true }],
+            refused: [],
+            failed: [],
+            notApplied: [],
+            unaffectedCount: 0,
+            skippedByCancellation: 0,
+        });
+
+        expect(markdown).toContain(`- ${TEMPORARY} → ${LIVE}: rotation and vector3 are the _Deprecated natives`);
+        expect(markdown).toContain(`- line 3: ${TEMPORARY} → ${LIVE}`);
+        expect(markdown).toContain("- `vector3` (now /Verse.org/SpatialMath)");
+        expect(markdown).toContain("- `MakeRotation` (from /UnrealEngine.com/Temporary/SpatialMath)");
+    });
+});
+
+describe("compileSupersededModules", () => {
+    it("keeps a valid entry, noting where it came from when it gives no note", () => {
+        const { modules, errors } = compileSupersededModules([{ from: "/Old/Module", to: "/New/Module" }], "settings");
+
+        expect(errors).toEqual([]);
+        expect(modules).toEqual([{ from: "/Old/Module", to: "/New/Module", note: "listed in settings" }]);
+    });
+
+    it.each([
+        ["a relative source", { from: "Old", to: "/New/Module" }, '"from" must be an absolute path'],
+        ["no target", { from: "/Old/Module" }, '"to" must be an absolute path'],
+        ["a module mapped to itself", { from: "/Old/Module", to: "/Old/Module" }, "the same module"],
+        ["a note that is not text", { from: "/Old/Module", to: "/New/Module", note: 3 }, '"note" must be a string'],
+    ])("drops %s", (_case, entry, message) => {
+        const { modules, errors } = compileSupersededModules([entry], "settings");
+
+        expect(modules).toEqual([]);
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toContain(message);
+    });
+});
+
+describe("SupersededModuleTable", () => {
+    it("puts the configured entries before the built-in table, so they win", () => {
+        const configured = { from: TEMPORARY, to: "/Team/SpatialMath", note: "use the team's wrapper" };
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+            get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "behavior.supersededModules" ? [configured] : defaultValue)),
+        });
+
+        const table = new SupersededModuleTable().modulesFor();
+
+        expect(table).toEqual([configured, ...SUPERSEDED_MODULES]);
+        expect(planModuleMigration([`using { ${TEMPORARY} }`], spatialMath, declarationsOf, formatter, table).imports[0].replacement).toBe("/Team/SpatialMath");
+    });
+});
@@ -0,0 +1,168 @@
+import * as vscode from "vscode";
+import { formatOptimizeReport, WorkspaceImportOptimizer } from "../WorkspaceImportOptimizer";
+import { ImportHandler } from "../ImportHandler";
+import { ImportRewriteOutcome } from "../../types";
+
+const AMBIGUOUS = "Unknown identifier `thing`. Did you forget to specify one of:\nusing { /GameA/Combat }\nusing { /GameB/Combat }";
+
+function fakeDocument(uri: vscode.Uri, isDirty = false): vscode.TextDocument & { save: jest.Mock } {
+    return { uri, isDirty, save: jest.fn().mockResolvedValue(true) } as unknown as vscode.TextDocument & { save: jest.Mock };
+}
+
+/** An import handler that answers each file with the outcome named for it. */
+function handlerWithOutcomes(outcomes: Record<string, ImportRewriteOutcome>): ImportHandler {
+    return {
+        extractImportsFromDiagnostics: jest.fn((diagnostics: vscode.Diagnostic[]) => ({
+            paths: [],
+            diagnosticPositionsByPath: new Map(),
+            ambiguousPositions: diagnostics.filter((diagnostic) => diagnostic.message === AMBIGUOUS).map((diagnostic) => diagnostic.range.start),
+        })),
+        organizeImportsWithOutcome: jest.fn(async (document: vscode.TextDocument) => outcomes[document.uri.fsPath]),
+    } as unknown as ImportHandler;
+}
+
+const a = vscode.Uri.file("/project/a.verse");
+const b = vscode.Uri.file("/project/b.verse");
+const c = vscode.Uri.file("/project/c.verse");
+const d = vscode.Uri.file("/project/d.verse");
+
+let documents: Map<string, vscode.TextDocument & { save: jest.Mock }>;
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    documents = new Map([a, b, c, d].map((uri) => [uri.fsPath, fakeDocument(uri)]));
+    (vscode.workspace.openTextDocument as jest.Mock).mockImplementation(async (uri: vscode.Uri) => documents.get(uri.fsPath));
+    (vscode.languages.getDiagnostics as jest.Mock).mockReturnValue([]);
+});
+
+afterAll(() => {
+    (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValue({ getText: () => "", version: 1 });
+});
+
+describe("WorkspaceImportOptimizer.optimizeFiles", () => {
+    it("sorts each file into the report by how its rewrite ended", async () => {
+        const optimizer = new WorkspaceImportOptimizer(handlerWithOutcomes({ [a.fsPath]: "applied", [b.fsPath]: "unchanged", [c.fsPath]: "refused", [d.fsPath]: "failed" }));
+
+        const report = await optimizer.optimizeFiles([a, b, c, d]);
+
+        expect(report.changed).toEqual([{ uri: a, saved: true }]);
+        expect(report.unchangedCount).toBe(1);
+        expect(report.refused).toEqual([c]);
+        expect(report.failed).toEqual([d]);
+        expect(documents.get(a.fsPath)!.save).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not save a changed file that already had unsaved edits", async () => {
+        documents.set(a.fsPath, fakeDocument(a, true));
+        const optimizer = new WorkspaceImportOptimizer(handlerWithOutcomes({ [a.fsPath]: "applied" }));
+
+        const report = await optimizer.optimizeFiles([a]);
+
+        expect(report.changed).toEqual([{ uri: a, saved: false }]);
+        expect(documents.get(a.fsPath)!.save).not.toHaveBeenCalled();
+    });
+
+    it("lists the lines of the ambiguous diagnostics it left alone", async () => {
+        (vscode.languages.getDiagnostics as jest.Mock).mockReturnValue([new vscode.Diagnostic(new vscode.Range(new vscode.Position(4, 2), new vscode.Position(4, 7)), AMBIGUOUS)]);
+        const optimizer = new WorkspaceImportOptimizer(handlerWithOutcomes({ [a.fsPath]: "unchanged" }));
+
+        const report = await optimizer.optimizeFiles([a]);
+
+        expect(report.ambiguous).toEqual([{ uri: a, lines: [5] }]);
+    });
+
+    it("reports a file that could not be opened as failed and carries on", async () => {
+        (vscode.workspace.openTextDocument as jest.Mock).mockImplementation(async (uri: vscode.Uri) => {
+            if (uri === a) {
+                throw new Error("cannot open");
+            }
+            return documents.get(uri.fsPath);
+        });
+        const optimizer = new WorkspaceImportOptimizer(handlerWithOutcomes({ [b.fsPath]: "applied" }));
+
+        const report = await optimizer.optimizeFiles([a, b]);
+
+        expect(report.failed).toEqual([a]);
+        expect(report.changed).toEqual([{ uri: b, saved: true }]);
+    });
+
+    it("stops at cancellation and counts the files it never reached", async () => {
+        const token = { isCancellationRequested: false } as vscode.CancellationToken;
+        const importHandler = handlerWithOutcomes({ [a.fsPath]: "applied" });
+        (importHandler.organizeImportsWithOutcome as jest.Mock).mockImplementation(async () => {
+            (token as { isCancellationRequested: boolean }).isCancellationRequested = true;
+            return "applied";
+        });
+
+        const report = await new WorkspaceImportOptimizer(importHandler).optimizeFiles([a, b, c], undefined, token);
+
+        expect(report.changed).toHaveLength(1);
+        expect(report.skippedByCancellation).toBe(2);
+    });
+
+    describe("with previewed edits", () => {
+        let defaultConfiguration: unknown;
+
+        beforeEach(() => {
+            defaultConfiguration = vscode.workspace.getConfiguration();
+            (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+                get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key === "general.previewImportEdits" ? true : defaultValue)),
+            });
+        });
+
+        afterEach(() => {
+            (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue(defaultConfiguration);
+            (vscode.workspace.applyEdit as jest.Mock).mockResolvedValue(true);
+        });
+
+        /** An import handler that stages an entry for each file named, and leaves the rest unchanged. */
+        const stagingHandler = (...staged: vscode.Uri[]): ImportHandler =>
+            ({
+                ...handlerWithOutcomes({}),
+                stageOrganizedImports: jest.fn(async (edit: vscode.WorkspaceEdit, document: vscode.TextDocument) => {
+                    if (!staged.includes(document.uri)) return "unchanged";
+                    edit.replace(document.uri, new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 0)), "using { /Verse.org/Random }\n");
+                    return "staged";
+                }),
+            }) as unknown as ImportHandler;
+
+        it("applies every file's changes in one previewed edit, and saves them once it is accepted", async () => {
+            const report = await new WorkspaceImportOptimizer(stagingHandler(a, b)).optimizeFiles([a, b, c]);
+
+            expect(vscode.workspace.applyEdit).toHaveBeenCalledTimes(1);
+            expect((vscode.workspace.applyEdit as jest.Mock).mock.calls[0][1]).toEqual({ isRefactoring: true });
+            expect(report.changed).toEqual([
+                { uri: a, saved: true },
+                { uri: b, saved: true },
+            ]);
+            expect(report.unchangedCount).toBe(1);
+            expect(documents.get(a.fsPath)!.save).toHaveBeenCalledTimes(1);
+        });
+
+        it("reports the files of a cancelled preview as not applied, and saves none of them", async () => {
+            (vscode.workspace.applyEdit as jest.Mock).mockResolvedValue(false);
+
+            const report = await new WorkspaceImportOptimizer(stagingHandler(a)).optimizeFiles([a]);
+
+            expect(report.changed).toEqual([]);
+            expect(report.notApplied).toEqual([a]);
+            expect(documents.get(a.fsPath)!.save).not.toHaveBeenCalled();
+        });
+    });
+});
+
+describe("formatOptimizeReport", () => {
+    it("lists every kind of result that has files, and leaves out the rest", () => {
+        const text = formatOptimizeReport(
+            { changed: [{ uri: a, saved: false }], refused: [c], failed: [], notApplied: [], ambiguous: [{ uri: b, lines: [3, 9] }], unchangedCount: 2, skippedByCancellation: 0 },
+            "workspace",
+        );
+
+        expect(text).toContain("4 file(s) processed: 1 changed, 2 already optimized, 1 skipped, 0 failed.");
+        expect(text).toContain("- /project/a.verse (not saved: it had unsaved changes)");
+        expect(text).toContain("- /project/c.verse");
+        expect(text).toContain("- /project/b.verse: line 3, 9");
+        expect(text).not.toContain("## Failed");
+        expect(text).not.toContain("Cancelled");
+    });
+});
@@ -11,9 +11,8 @@ interface CorpusEntry {
     message: string;
     /**
      * Per-entry config overrides, keyed the way config.get() is called (e.g.
-     * "behavior.ambiguousImports"). Applied only to suggestion extraction -
-     * extractImportsFromDiagnostics never reads configuration, so a settings
-     * override has no effect on the optimize-path assertion below.
+     * "behavior.ambiguousImports"). Applied to both extractions, though
+     * extractImportsFromDiagnostics reads only diagnostics.customPatterns.
      */
     settings?: Record<string, unknown>;
     expected: {
@@ -48,24 +47,37 @@ describe("diagnostics corpus", () => {
         describe(`UEFN ${corpus.uefnVersion}`, () => {
             let extractor: ImportSuggestionExtractor;
 
+            let defaultConfiguration: unknown;
+
             beforeEach(() => {
                 const outputChannel = vscode.window.createOutputChannel("test");
                 extractor = new ImportSuggestionExtractor(outputChannel, new ImportFormatter());
+                defaultConfiguration = vscode.workspace.getConfiguration();
             });
 
-            it.each(corpus.entries.map((entry) => [entry.id, entry] as const))("%s: suggestion extraction", async (_id, entry) => {
-                if (entry.settings) {
-                    const settings = entry.settings;
-                    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+            afterEach(() => {
+                (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue(defaultConfiguration);
+            });
+
+            /** Answers every read for the rest of the test from the entry's settings, falling back to the defaults. */
+            const applySettings = (entry: CorpusEntry): void => {
+                const settings = entry.settings;
+                if (settings) {
+                    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
                         get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key in settings ? settings[key] : defaultValue)),
                         update: jest.fn().mockResolvedValue(undefined),
                     });
                 }
+            };
+
+            it.each(corpus.entries.map((entry) => [entry.id, entry] as const))("%s: suggestion extraction", async (_id, entry) => {
+                applySettings(entry);
                 const suggestions = await extractor.extractImportSuggestions(entry.message);
                 expect(suggestions.map((suggestion) => suggestion.importStatement)).toEqual(entry.expected.suggestions);
             });
 
             it.each(corpus.entries.map((entry) => [entry.id, entry] as const))("%s: optimize path extraction", (_id, entry) => {
+                applySettings(entry);
                 const { paths } = extractor.extractImportsFromDiagnostics([
                     { message: entry.message, range: new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 1)) } as vscode.Diagnostic,
                 ]);
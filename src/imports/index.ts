@@ -1,7 +1,11 @@
 // ImportHandler is the entry point for import handling: outside this module,
-// take it, the converter, the three providers, or ImportFormatter for its
-// static classification. ImportSuggestionExtractor and ImportDocumentEditor are
-// the facade's own collaborators and have no caller outside it.
+// take it, the converter, the seven providers, the workspace optimizer, the
+// import-choice memory, the suggestion ranker, the superseded-module migrator,
+// the module-rename rewriter, ImportFormatter for its static classification,
+// previewImportEditsFor for whether a write is previewed, or
+// apiStabilityLabel for how a declaration's marks are named.
+// ImportSuggestionExtractor and ImportDocumentEditor are the facade's own
+// collaborators and have no caller outside it.
 export { ImportHandler } from "./ImportHandler";
 export { ImportFormatter } from "./ImportFormatter";
 export { ImportSuggestionExtractor } from "./ImportSuggestionExtractor";
@@ -9,4 +13,15 @@ export { ImportDocumentEditor } from "./ImportDocumentEditor";
 export { ImportPathConverter } from "./ImportPathConverter";
 export { ImportCodeActionProvider } from "./ImportCodeActionProvider";
 export { ImportOrganizeCodeActionProvider } from "./ImportOrganizeCodeActionProvider";
+export { ImportAddMissingCodeActionProvider } from "./ImportAddMissingCodeActionProvider";
 export { ImportCodeLensProvider } from "./ImportCodeLensProvider";
+export { ImportCompletionProvider } from "./ImportCompletionProvider";
+export { ImportHoverProvider } from "./ImportHoverProvider";
+export { DigestDefinitionProvider } from "./DigestDefinitionProvider";
+export { ImportChoiceMemory } from "./ImportChoiceMemory";
+export { ImportSuggestionRanker } from "./ImportSuggestionRanker";
+export { WorkspaceImportOptimizer, WorkspaceOptimizeReport, formatOptimizeReport } from "./WorkspaceImportOptimizer";
+export { SupersededModuleMigrator, MigrationReport, formatMigrationReport } from "./SupersededModuleMigrator";
+export { ModuleRenameRewriter } from "./ModuleRenameRewriter";
+export { previewImportEditsFor } from "./ImportEditPreview";
+export { apiStabilityLabel } from "./ApiStability";
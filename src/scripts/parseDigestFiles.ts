@@ -12,8 +12,8 @@ import * as fs from "fs";
 import * as path from "path";
 // Import the shared parser and manifest directly (not via the services barrel,
 // which pulls in `vscode` and would break ts-node).
-import { parseDigestContent, rootDomainForDigestFile } from "../services/digestParsing";
-import { BUNDLED_DIGEST_NAMES, digestDataFile, digestSourceFile } from "../services/digestManifest";
+import { digestBuildStamp, parseDigestContent, rootDomainForDigestFile } from "../services/digestParsing";
+import { BUNDLED_DIGEST_NAMES, DIGEST_DATA_VERSION, digestDataFile, digestSourceFile } from "../services/digestManifest";
 
 interface PrecompiledDigest {
     version: string;
@@ -24,19 +24,6 @@ interface PrecompiledDigest {
     moduleIndex: ReturnType<typeof parseDigestContent>["moduleIndex"];
 }
 
-// 2.0.0 keys each identifier to a list of declarations rather than one, so a
-// name declared by several modules keeps every module it can be imported from.
-const VERSION = "2.0.0";
-
-/**
- * The UEFN build a digest came from, as stamped in its header
- * (`++Fortnite+Release-37.20-CL-45679054`), or "unknown" if absent.
- */
-function extractBuildReference(content: string): string {
-    const buildMatch = content.match(/\+\+Fortnite\+Release-[\d.]+-CL-\d+/);
-    return buildMatch ? buildMatch[0] : "unknown";
-}
-
 /**
  * One digest file, parsed and stamped for storage. Parsing itself is shared
  * with the runtime path through `parseDigestContent`, so the precompiled data
@@ -49,10 +36,10 @@ function parseDigestFile(filePath: string): PrecompiledDigest {
     const { entries, moduleIndex } = parseDigestContent(content, rootDomainForDigestFile(fileName));
 
     return {
-        version: VERSION,
+        version: DIGEST_DATA_VERSION,
         generatedAt: new Date().toISOString(),
         sourceFile: fileName,
-        sourceBuild: extractBuildReference(content),
+        sourceBuild: digestBuildStamp(content),
         entries,
         moduleIndex,
     };
@@ -36,6 +36,12 @@ function declaresExternalInstance(head: DeclarationHead, line: string): boolean
     return head.params === null && head.receiver === null && head.operator === ":" && EXTERNAL_INSTANCE_TAIL.test(line.slice(head.end));
 }
 
+/** Where UEFN writes each project's generated digests: `{LOCALAPPDATA}\UnrealEditorFortnite\Saved\VerseProject`. */
+function verseProjectsDirectory(): string {
+    const localAppData = process.env.LOCALAPPDATA || path.join(os.homedir(), "AppData", "Local");
+    return path.join(localAppData, "UnrealEditorFortnite", "Saved", "VerseProject");
+}
+
 /**
  * The set of asset type names UEFN generated for this project, read from its
  * Assets.digest.verse.
@@ -88,9 +94,7 @@ export class AssetsDigestParser {
             return null;
         }
 
-        const localAppData = process.env.LOCALAPPDATA || path.join(os.homedir(), "AppData", "Local");
-
-        const primaryPath = path.join(localAppData, "UnrealEditorFortnite", "Saved", "VerseProject", projectName, `${projectName}-Assets`, "Assets.digest.verse");
+        const primaryPath = path.join(verseProjectsDirectory(), projectName, `${projectName}-Assets`, "Assets.digest.verse");
 
         if (fs.existsSync(primaryPath)) {
             logger.debug("AssetsDigestParser", `Found Assets.digest.verse at: ${primaryPath}`);
@@ -98,7 +102,7 @@ export class AssetsDigestParser {
             return primaryPath;
         }
 
-        const fallbackPath = path.join(localAppData, "UnrealEditorFortnite", "Saved", "VerseProject", projectName, "Assets.digest.verse");
+        const fallbackPath = path.join(verseProjectsDirectory(), projectName, "Assets.digest.verse");
 
         if (fs.existsSync(fallbackPath)) {
             logger.debug("AssetsDigestParser", `Found Assets.digest.verse at fallback location: ${fallbackPath}`);
@@ -111,6 +115,22 @@ export class AssetsDigestParser {
         return null;
     }
 
+    /**
+     * The project's own folder under VerseProject, where UEFN also writes the
+     * API digests of the installed build, or null when there is no project
+     * name or no such folder. Unmemoized, so unlike the Assets.digest.verse
+     * path it needs no revalidation.
+     */
+    async getVerseProjectDirectory(): Promise<string | null> {
+        const projectName = await this.projectPathHandler.getProjectName();
+        if (!projectName) {
+            return null;
+        }
+
+        const directory = path.join(verseProjectsDirectory(), projectName);
+        return fs.existsSync(directory) ? directory : null;
+    }
+
     /**
      * Overlapping refresh calls must share one run: the TTL check reads state
      * from before {@link getAssetsDigestPath}'s awaits, so every call that
@@ -323,11 +343,10 @@ export class AssetsDigestParser {
     setupFileWatcher(): vscode.Disposable {
         const disposables: vscode.Disposable[] = [];
 
-        const localAppData = process.env.LOCALAPPDATA || path.join(os.homedir(), "AppData", "Local");
         // The digest lives outside the workspace. A plain string glob is only
         // honored inside workspace folders, so watch the external VerseProject
         // directory recursively via a RelativePattern anchored to its Uri.
-        const verseProjectDir = path.join(localAppData, "UnrealEditorFortnite", "Saved", "VerseProject");
+        const verseProjectDir = verseProjectsDirectory();
         const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(verseProjectDir), "**/Assets.digest.verse"));
 
         // A create event is the cold-start case: VS Code opened before UEFN had
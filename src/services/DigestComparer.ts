@@ -0,0 +1,287 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { logger } from "../utils";
+import { DigestEntry, ParsedDigest, digestBuildStamp, parseDigestContent, rootDomainForDigestFile } from "./digestParsing";
+import { BUNDLED_DIGEST_NAMES, digestSourceFile } from "./digestManifest";
+import { InstalledDigestSource } from "./InstalledDigestSource";
+
+/** One digest of a set, parsed from its `.verse` source. */
+export interface ReadDigest extends ParsedDigest {
+    /** The absolute path it was read from. */
+    sourceFile: string;
+    /** The UEFN build stamped in its header, or "unknown". */
+    sourceBuild: string;
+}
+
+/** The digests found in one folder, by digest name, under the label the report gives that side. */
+export interface DigestSet {
+    label: string;
+    digests: Map<string, ReadDigest>;
+}
+
+/** One side of a comparison as the report names it: each digest compared, and the build it came from. */
+export interface DigestDiffSide {
+    label: string;
+    digests: Array<{ name: string; sourceFile: string; sourceBuild: string }>;
+}
+
+/** A name one side declares in a module and the other does not. */
+export interface DigestIdentifierChange {
+    identifier: string;
+    modulePath: string;
+    type: DigestEntry["type"];
+}
+
+/** A name that left some modules and arrived in others, so an import of where it was no longer brings it in. */
+export interface DigestIdentifierMove {
+    identifier: string;
+    from: string[];
+    to: string[];
+}
+
+/**
+ * The changes in the modules a project imports, which are the ones that can
+ * break it, in the same order as the whole diff's lists.
+ */
+export interface DigestDiffImpact {
+    /** How many modules the project imports, from either side or neither. */
+    importedModuleCount: number;
+    removedModules: string[];
+    /** Moves out of an imported module: its import no longer brings the name in. */
+    movedIdentifiers: DigestIdentifierMove[];
+    removedIdentifiers: DigestIdentifierChange[];
+    addedIdentifiers: DigestIdentifierChange[];
+}
+
+/**
+ * What changed between two digest sets, each list sorted by module path then
+ * name. A name in an added or removed module is left out of the identifier
+ * lists, which the module's own line already covers - unless it moved, since
+ * a move says where to import it from now.
+ */
+export interface DigestDiff {
+    before: DigestDiffSide;
+    after: DigestDiffSide;
+    /** Digests only one side has, left out of the comparison rather than reported as wholly added or removed. */
+    uncompared: string[];
+    addedModules: string[];
+    removedModules: string[];
+    addedIdentifiers: DigestIdentifierChange[];
+    removedIdentifiers: DigestIdentifierChange[];
+    movedIdentifiers: DigestIdentifierMove[];
+    /** The changes in the modules the project imports, when the comparison was given them. */
+    impact?: DigestDiffImpact;
+}
+
+/**
+ * The digests in `folder`, each looked for there or one level below it as
+ * InstalledDigestSource looks for them, and parsed with the same
+ * parseDigestContent the bundled JSON is generated with. A digest that is
+ * missing is left out; one that cannot be read is logged and left out.
+ */
+export async function readDigestSet(folder: string, label: string): Promise<DigestSet> {
+    const digests = new Map<string, ReadDigest>();
+    for (const digestName of BUNDLED_DIGEST_NAMES) {
+        const sourceFile = InstalledDigestSource.locate(folder, digestSourceFile(digestName));
+        if (!sourceFile) {
+            continue;
+        }
+
+        try {
+            const content = await fs.promises.readFile(sourceFile, "utf8");
+            const parsed = parseDigestContent(content, rootDomainForDigestFile(path.basename(sourceFile)));
+            digests.set(digestName, { ...parsed, sourceFile, sourceBuild: digestBuildStamp(content) });
+        } catch (error) {
+            logger.error("DigestComparer", `Failed to read ${sourceFile}`, error);
+        }
+    }
+    return { label, digests };
+}
+
+/**
+ * Compares the digests both sets hold. They are merged per side before the
+ * comparison, so a name that moved from one digest to another - from
+ * UnrealEngine.com into Verse.org, say - reads as one move rather than a
+ * removal and an unrelated addition.
+ *
+ * @param importedModules The absolute paths a project imports. Given, the
+ * diff also says which of its changes reach them.
+ */
+export function diffDigestSets(before: DigestSet, after: DigestSet, importedModules?: ReadonlySet<string>): DigestDiff {
+    const compared = BUNDLED_DIGEST_NAMES.filter((name) => before.digests.has(name) && after.digests.has(name));
+    const uncompared = BUNDLED_DIGEST_NAMES.filter((name) => before.digests.has(name) !== after.digests.has(name));
+
+    const side = (set: DigestSet): DigestDiffSide => ({
+        label: set.label,
+        digests: compared.map((name) => {
+            const { sourceFile, sourceBuild } = set.digests.get(name)!;
+            return { name, sourceFile, sourceBuild };
+        }),
+    });
+    const modulesOf = (set: DigestSet): Set<string> => new Set(compared.flatMap((name) => Object.keys(set.digests.get(name)!.moduleIndex)));
+    // Identifier, then module path, to the declaration there.
+    const declarationsOf = (set: DigestSet): Map<string, Map<string, DigestEntry>> => {
+        const byIdentifier = new Map<string, Map<string, DigestEntry>>();
+        for (const name of compared) {
+            for (const [identifier, declarations] of Object.entries(set.digests.get(name)!.entries)) {
+                const byModule = byIdentifier.get(identifier) ?? new Map<string, DigestEntry>();
+                declarations.forEach((declaration) => byModule.set(declaration.modulePath, declaration));
+                byIdentifier.set(identifier, byModule);
+            }
+        }
+        return byIdentifier;
+    };
+
+    const beforeModules = modulesOf(before);
+    const afterModules = modulesOf(after);
+    const addedModules = [...afterModules].filter((modulePath) => !beforeModules.has(modulePath)).sort();
+    const removedModules = [...beforeModules].filter((modulePath) => !afterModules.has(modulePath)).sort();
+
+    const beforeDeclarations = declarationsOf(before);
+    const afterDeclarations = declarationsOf(after);
+    const addedIdentifiers: DigestIdentifierChange[] = [];
+    const removedIdentifiers: DigestIdentifierChange[] = [];
+    const movedIdentifiers: DigestIdentifierMove[] = [];
+
+    for (const identifier of new Set([...beforeDeclarations.keys(), ...afterDeclarations.keys()])) {
+        const was = beforeDeclarations.get(identifier) ?? new Map<string, DigestEntry>();
+        const is = afterDeclarations.get(identifier) ?? new Map<string, DigestEntry>();
+        const left = [...was.values()].filter((declaration) => !is.has(declaration.modulePath));
+        const arrived = [...is.values()].filter((declaration) => !was.has(declaration.modulePath));
+
+        if (left.length > 0 && arrived.length > 0) {
+            movedIdentifiers.push({ identifier, from: left.map((d) => d.modulePath).sort(), to: arrived.map((d) => d.modulePath).sort() });
+            continue;
+        }
+        for (const declaration of left) {
+            if (!removedModules.includes(declaration.modulePath)) {
+                removedIdentifiers.push({ identifier, modulePath: declaration.modulePath, type: declaration.type });
+            }
+        }
+        for (const declaration of arrived) {
+            if (!addedModules.includes(declaration.modulePath)) {
+                addedIdentifiers.push({ identifier, modulePath: declaration.modulePath, type: declaration.type });
+            }
+        }
+    }
+
+    const byModuleThenName = (a: DigestIdentifierChange, b: DigestIdentifierChange): number => a.modulePath.localeCompare(b.modulePath) || a.identifier.localeCompare(b.identifier);
+    const diff: DigestDiff = {
+        before: side(before),
+        after: side(after),
+        uncompared: [...uncompared],
+        addedModules,
+        removedModules,
+        addedIdentifiers: addedIdentifiers.sort(byModuleThenName),
+        removedIdentifiers: removedIdentifiers.sort(byModuleThenName),
+        movedIdentifiers: movedIdentifiers.sort((a, b) => a.from[0].localeCompare(b.from[0]) || a.identifier.localeCompare(b.identifier)),
+    };
+    if (importedModules) {
+        diff.impact = {
+            importedModuleCount: importedModules.size,
+            removedModules: removedModules.filter((modulePath) => importedModules.has(modulePath)),
+            movedIdentifiers: diff.movedIdentifiers.filter((move) => move.from.some((modulePath) => importedModules.has(modulePath))),
+            removedIdentifiers: diff.removedIdentifiers.filter((change) => importedModules.has(change.modulePath)),
+            addedIdentifiers: diff.addedIdentifiers.filter((change) => importedModules.has(change.modulePath)),
+        };
+    }
+    return diff;
+}
+
+/**
+ * The diff as a Markdown report, breaking changes first: a `using` of a
+ * removed module stops compiling, and a name that moved or was removed stops
+ * resolving through the import that used to bring it in. The changes in the
+ * project's imports, where the diff has them, come before all of it.
+ */
+export function formatDigestDiff(diff: DigestDiff): string {
+    const lines = ["# Verse API Digest Changes", ""];
+
+    if (diff.before.digests.length === 0) {
+        lines.push(`No digest was found on both sides: ${diff.before.label} and ${diff.after.label} have none in common.`);
+        return lines.join("\n") + "\n";
+    }
+
+    lines.push(`| Digest | ${diff.before.label} | ${diff.after.label} |`, "| --- | --- | --- |");
+    diff.before.digests.forEach(({ name, sourceBuild }, index) => lines.push(`| ${name} | ${sourceBuild} | ${diff.after.digests[index].sourceBuild} |`));
+    if (diff.uncompared.length > 0) {
+        lines.push("", `Not compared, found on one side only: ${diff.uncompared.join(", ")}.`);
+    }
+
+    const changes = diff.addedModules.length + diff.removedModules.length + diff.addedIdentifiers.length + diff.removedIdentifiers.length + diff.movedIdentifiers.length;
+    if (changes === 0) {
+        lines.push("", "No modules or public names differ.");
+        return lines.join("\n") + "\n";
+    }
+
+    const byModule = (title: string, changed: DigestIdentifierChange[], depth = "##"): void => {
+        if (changed.length === 0) {
+            return;
+        }
+        lines.push("", `${depth} ${title} (${changed.length})`);
+        let modulePath: string | null = null;
+        for (const change of changed) {
+            if (change.modulePath !== modulePath) {
+                modulePath = change.modulePath;
+                lines.push("", `${depth}# ${modulePath}`, "");
+            }
+            lines.push(`- \`${change.identifier}\` (${change.type})`);
+        }
+    };
+    const moves = (moved: DigestIdentifierMove[]): string[] => moved.map(({ identifier, from, to }) => `- \`${identifier}\`: ${from.join(", ")} → ${to.join(", ")}`);
+
+    if (diff.impact) {
+        const impact = diff.impact;
+        lines.push("", "## In this workspace's imports");
+        if (impact.removedModules.length + impact.movedIdentifiers.length + impact.removedIdentifiers.length + impact.addedIdentifiers.length === 0) {
+            lines.push("", `None of the ${impact.importedModuleCount} module(s) the workspace imports changed.`);
+        }
+        if (impact.removedModules.length > 0) {
+            lines.push("", `### Removed modules (${impact.removedModules.length})`, "", ...impact.removedModules.map((modulePath) => `- ${modulePath}`));
+        }
+        if (impact.movedIdentifiers.length > 0) {
+            lines.push("", `### Moved names (${impact.movedIdentifiers.length})`, "", ...moves(impact.movedIdentifiers));
+        }
+        byModule("Removed names", impact.removedIdentifiers, "###");
+        byModule("Added names", impact.addedIdentifiers, "###");
+    }
+
+    if (diff.removedModules.length > 0) {
+        lines.push("", `## Removed modules (${diff.removedModules.length})`, "", "A `using` of any of these no longer compiles.", "", ...diff.removedModules.map((modulePath) => `- ${modulePath}`));
+    }
+    if (diff.movedIdentifiers.length > 0) {
+        lines.push("", `## Moved names (${diff.movedIdentifiers.length})`, "", "The import that brought these in no longer does.", "");
+        lines.push(...moves(diff.movedIdentifiers));
+    }
+    byModule("Removed names", diff.removedIdentifiers);
+    if (diff.addedModules.length > 0) {
+        lines.push("", `## Added modules (${diff.addedModules.length})`, "", ...diff.addedModules.map((modulePath) => `- ${modulePath}`));
+    }
+    byModule("Added names", diff.addedIdentifiers);
+
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Finds the digest sets the compare command offers: the sources bundled with
+ * the extension, and the install's, from where InstalledDigestSource reads
+ * them.
+ */
+export class DigestComparer {
+    constructor(
+        private extensionContext: vscode.ExtensionContext,
+        private installedDigests: InstalledDigestSource,
+    ) {}
+
+    /** The `.verse` sources the bundled JSON was generated from, which ship beside it. */
+    bundled(): Promise<DigestSet> {
+        return readDigestSet(path.join(this.extensionContext.extensionPath, "src", "utils"), "Bundled");
+    }
+
+    /** The install's digests, or null when there is no folder to read them from. */
+    async installed(): Promise<DigestSet | null> {
+        const folder = await this.installedDigests.digestFolder();
+        return folder ? readDigestSet(folder, "Installed") : null;
+    }
+}
@@ -1,13 +1,16 @@
 import * as vscode from "vscode";
 import { logger } from "../utils";
 import { PrecompiledDigestLoader } from "./PrecompiledDigestLoader";
+import { InstalledDigestSource } from "./InstalledDigestSource";
+import { AssetsDigestParser } from "./AssetsDigestParser";
 import { DigestEntry } from "./digestParsing";
 
 export { DigestEntry } from "./digestParsing";
 
 /**
  * The index of importable Verse API identifiers, served from the precompiled
- * JSON in `src/data`.
+ * JSON in `src/data`, or from the UEFN install's digests where
+ * `experimental.useInstalledDigests` asks for them.
  *
  * There is no second source. A load failure is reported to the user and leaves
  * the index empty rather than degrading quietly, and every later call retries,
@@ -20,12 +23,18 @@ export class DigestParser {
     private precompiledLoader: PrecompiledDigestLoader | null = null;
     private loadFailureReported: boolean = false;
 
+    /**
+     * @param assetsDigestParser Where the project's VerseProject folder is
+     *   found, which is where the installed digests are looked for unless a
+     *   folder is configured.
+     */
     constructor(
         private outputChannel: vscode.OutputChannel,
         extensionContext?: vscode.ExtensionContext,
+        assetsDigestParser?: AssetsDigestParser,
     ) {
         if (extensionContext) {
-            this.precompiledLoader = new PrecompiledDigestLoader(extensionContext);
+            this.precompiledLoader = new PrecompiledDigestLoader(extensionContext, new InstalledDigestSource(extensionContext, assetsDigestParser));
         }
     }
 
@@ -46,6 +55,27 @@ export class DigestParser {
         }
     }
 
+    /**
+     * The module index: every module path the digests declare, with the names
+     * a `using` of it brings into scope. Empty when the digest data could not
+     * be loaded.
+     */
+    async getModuleIndex(): Promise<ReadonlyMap<string, string[]>> {
+        if (!this.precompiledLoader) {
+            return new Map();
+        }
+
+        try {
+            if (!this.precompiledLoader.isLoaded()) {
+                await this.precompiledLoader.loadPrecompiledDigests();
+            }
+            return this.precompiledLoader.getModuleIndex();
+        } catch (error) {
+            this.reportLoadFailure(error);
+            return new Map();
+        }
+    }
+
     /**
      * Tells the user once per instance that the digest data is unusable.
      *
@@ -0,0 +1,46 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { BUNDLED_DIGEST_NAMES, digestSourceFile } from "./digestManifest";
+
+/**
+ * Serves the bundled `*.digest.verse` sources as read-only virtual documents,
+ * which is where Go to Definition on a Verse API name lands.
+ *
+ * A virtual document rather than the file itself: the extension's install
+ * directory is not the user's to edit, and an edit there would put the source
+ * out of step with the precompiled JSON its line numbers came from.
+ *
+ * The sources ship in the `.vsix` only because .vscodeignore negates them with
+ * `!src/utils/*.digest.verse`, as it does `src/data` for the JSON.
+ */
+export class DigestSourceProvider implements vscode.TextDocumentContentProvider {
+    static readonly SCHEME = "verse-digest";
+
+    constructor(private extensionContext: vscode.ExtensionContext) {}
+
+    /**
+     * The virtual document for a bundled digest source, e.g. `Verse.digest.verse`,
+     * or the file itself for a digest read from the UEFN install, which
+     * InstalledDigestSource names by its absolute path.
+     */
+    static uriFor(sourceFile: string): vscode.Uri {
+        if (path.isAbsolute(sourceFile)) {
+            return vscode.Uri.file(sourceFile);
+        }
+        return vscode.Uri.from({ scheme: DigestSourceProvider.SCHEME, path: `/${sourceFile}` });
+    }
+
+    /**
+     * The source's text. Only the bundled digests are served, so a hand-typed
+     * `verse-digest:` URI cannot read an arbitrary file from the install.
+     */
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const sourceFile = uri.path.replace(/^\//, "");
+        if (!BUNDLED_DIGEST_NAMES.some((digestName) => digestSourceFile(digestName) === sourceFile)) {
+            throw new Error(`Not a bundled digest source: ${sourceFile}`);
+        }
+
+        return fs.promises.readFile(path.join(this.extensionContext.extensionPath, "src", "utils", sourceFile), "utf8");
+    }
+}
@@ -0,0 +1,138 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { logger, settingsFor } from "../utils";
+import { AssetsDigestParser } from "./AssetsDigestParser";
+import { digestBuildStamp, parseDigestContent, rootDomainForDigestFile } from "./digestParsing";
+import { BUNDLED_DIGEST_NAMES, DIGEST_DATA_VERSION, digestDataFile, digestSourceFile } from "./digestManifest";
+import { PrecompiledDigest } from "./PrecompiledDigestLoader";
+
+/**
+ * The Verse API digests of the UEFN install, for an install a release ahead of
+ * the snapshot the extension bundles. Off unless
+ * `experimental.useInstalledDigests` is set.
+ *
+ * They are looked for in `experimental.installedDigestFolder` when that is
+ * set, and otherwise in the project's VerseProject folder, where UEFN writes
+ * the Assets digest too. Each is read from the folder itself or from a folder
+ * one level below it, the way UEFN nests the Assets digest in
+ * `{ProjectName}-Assets`.
+ *
+ * A digest is parsed once per build. The result is written to global storage
+ * under the build stamp in its header, in the bundled JSON's format, and read
+ * back from there while the build and DIGEST_DATA_VERSION both still match. A
+ * digest with no build stamp cannot be keyed, and is parsed every load.
+ *
+ * Nothing here throws: a digest that is missing or unreadable is left out,
+ * and the loader serves the bundled one in its place.
+ */
+export class InstalledDigestSource {
+    constructor(
+        private extensionContext: vscode.ExtensionContext,
+        private assetsDigestParser?: AssetsDigestParser,
+    ) {}
+
+    /** The installed digests found, by digest name; empty when the setting is off or none is found. */
+    async load(): Promise<Map<string, PrecompiledDigest>> {
+        const digests = new Map<string, PrecompiledDigest>();
+        if (!settingsFor().get<boolean>("experimental.useInstalledDigests", false)) {
+            return digests;
+        }
+
+        const folder = await this.digestFolder();
+        if (!folder) {
+            logger.info("InstalledDigestSource", "No folder to read installed digests from; using the bundled digests");
+            return digests;
+        }
+
+        for (const digestName of BUNDLED_DIGEST_NAMES) {
+            const sourcePath = InstalledDigestSource.locate(folder, digestSourceFile(digestName));
+            if (!sourcePath) {
+                logger.debug("InstalledDigestSource", `${digestSourceFile(digestName)} not found under ${folder}; using the bundled one`);
+                continue;
+            }
+
+            try {
+                const digest = await this.parsedDigest(digestName, sourcePath);
+                // Go to Definition opens the file the lines were read from,
+                // which for an installed digest is the file on disk.
+                digests.set(digestName, { ...digest, sourceFile: sourcePath });
+                logger.info("InstalledDigestSource", `Using ${sourcePath} (${digest.sourceBuild})`);
+            } catch (error) {
+                logger.error("InstalledDigestSource", `Failed to read ${sourcePath}; using the bundled digest`, error);
+            }
+        }
+
+        return digests;
+    }
+
+    /**
+     * The configured folder, or the project's VerseProject folder, or null when
+     * neither exists. Read whether or not the setting is on, so the digest
+     * comparison can diff the install before the user switches to it.
+     */
+    async digestFolder(): Promise<string | null> {
+        const configured = settingsFor().get<string>("experimental.installedDigestFolder", "").trim();
+        if (configured) {
+            if (fs.existsSync(configured)) {
+                return configured;
+            }
+            logger.warn("InstalledDigestSource", `experimental.installedDigestFolder does not exist: ${configured}`);
+            return null;
+        }
+        return (await this.assetsDigestParser?.getVerseProjectDirectory()) ?? null;
+    }
+
+    /** `fileName` directly in `folder`, else in the first folder one level below that holds it, else null. */
+    static locate(folder: string, fileName: string): string | null {
+        const direct = path.join(folder, fileName);
+        if (fs.existsSync(direct)) {
+            return direct;
+        }
+
+        try {
+            for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+                const nested = path.join(folder, entry.name, fileName);
+                if (entry.isDirectory() && fs.existsSync(nested)) {
+                    return nested;
+                }
+            }
+        } catch (error) {
+            logger.warn("InstalledDigestSource", `Could not list ${folder}: ${error}`);
+        }
+        return null;
+    }
+
+    /** The digest at `sourcePath`, from the global-storage copy of its build where one is current, parsed otherwise. */
+    private async parsedDigest(digestName: string, sourcePath: string): Promise<PrecompiledDigest> {
+        const content = await fs.promises.readFile(sourcePath, "utf8");
+        const sourceBuild = digestBuildStamp(content);
+        const cachePath = sourceBuild === "unknown" ? null : path.join(this.extensionContext.globalStorageUri.fsPath, "digests", sourceBuild, digestDataFile(digestName));
+
+        if (cachePath && fs.existsSync(cachePath)) {
+            try {
+                const cached: PrecompiledDigest = JSON.parse(await fs.promises.readFile(cachePath, "utf8"));
+                if (cached.version === DIGEST_DATA_VERSION) {
+                    return cached;
+                }
+            } catch (error) {
+                logger.warn("InstalledDigestSource", `Ignoring unreadable cached digest ${cachePath}: ${error}`);
+            }
+        }
+
+        const fileName = path.basename(sourcePath);
+        const { entries, moduleIndex } = parseDigestContent(content, rootDomainForDigestFile(fileName));
+        const digest: PrecompiledDigest = { version: DIGEST_DATA_VERSION, generatedAt: new Date().toISOString(), sourceFile: fileName, sourceBuild, entries, moduleIndex };
+
+        if (cachePath) {
+            try {
+                await fs.promises.mkdir(path.dirname(cachePath), { recursive: true });
+                await fs.promises.writeFile(cachePath, JSON.stringify(digest), "utf8");
+            } catch (error) {
+                // Only the next load's time is lost: it parses again.
+                logger.warn("InstalledDigestSource", `Could not cache the parsed digest at ${cachePath}: ${error}`);
+            }
+        }
+        return digest;
+    }
+}
@@ -6,6 +6,7 @@ import { singleFlight } from "../utils/singleFlight";
 import { DigestEntry } from "./DigestParser";
 import { appendDeclaration } from "./digestParsing";
 import { BUNDLED_DIGEST_NAMES, digestDataFile } from "./digestManifest";
+import { InstalledDigestSource } from "./InstalledDigestSource";
 
 /**
  * One `src/data/*.digest.json` payload, as written by `npm run parse-digest`.
@@ -26,6 +27,10 @@ export interface PrecompiledDigest {
  * `src/scripts/parseDigestFiles.ts` generates at build time rather than parsed
  * from Verse source at startup.
  *
+ * When `experimental.useInstalledDigests` is on, a digest the UEFN install
+ * carries is served in place of the bundled one (InstalledDigestSource), and
+ * the bundled JSON only fills in for a digest the install does not have.
+ *
  * This is DigestParser's only source. It reports failure by throwing from
  * {@link loadPrecompiledDigests} and by leaving {@link isLoaded} false; there is
  * no second source to fall back to, so DigestParser surfaces that to the user.
@@ -49,7 +54,10 @@ export class PrecompiledDigestLoader {
      */
     private loadGeneration: number = 0;
 
-    constructor(private extensionContext: vscode.ExtensionContext) {}
+    constructor(
+        private extensionContext: vscode.ExtensionContext,
+        private installedDigests?: InstalledDigestSource,
+    ) {}
 
     /**
      * Loads every digest file into memory, throwing if none of them could be
@@ -76,17 +84,18 @@ export class PrecompiledDigestLoader {
         logger.debug("PrecompiledDigestLoader", "Loading pre-compiled digest files...");
 
         try {
+            const installed = this.installedDigests ? await this.installedDigests.load() : new Map<string, PrecompiledDigest>();
             const extensionPath = this.extensionContext.extensionPath;
             const dataDir = path.join(extensionPath, "src", "data");
 
             // The .vsix carries src/data only because .vscodeignore negates it
             // with `!src/data/**`. Drop that negation and the packaged
             // extension ships no digest data at all.
-            if (!fs.existsSync(dataDir)) {
+            if (!fs.existsSync(dataDir) && installed.size === 0) {
                 throw new Error(`Pre-compiled digest directory not found: ${dataDir}`);
             }
 
-            const successCount = await this.loadFromDirectory(dataDir);
+            const successCount = await this.loadFromDirectory(dataDir, installed);
 
             // The index was cleared while loading; what this run merged is
             // gone, so latching `loaded` here would leave it true over an
@@ -111,35 +120,40 @@ export class PrecompiledDigestLoader {
     }
 
     /**
-     * How many of the expected digest files were read and merged. A file that
-     * is missing or unparseable is logged and skipped rather than failing the
-     * others.
+     * How many of the expected digests were read and merged, each from
+     * `installed` where it holds one and from the bundled JSON otherwise. A
+     * file that is missing or unparseable is logged and skipped rather than
+     * failing the others.
      */
-    private async loadFromDirectory(dataDir: string): Promise<number> {
+    private async loadFromDirectory(dataDir: string, installed: ReadonlyMap<string, PrecompiledDigest>): Promise<number> {
         let successCount = 0;
 
         for (const digestName of BUNDLED_DIGEST_NAMES) {
             const fileName = digestDataFile(digestName);
             const filePath = path.join(dataDir, fileName);
+            const installedDigest = installed.get(digestName);
 
-            if (!fs.existsSync(filePath)) {
+            if (!installedDigest && !fs.existsSync(filePath)) {
                 logger.warn("PrecompiledDigestLoader", `Digest file not found: ${filePath}`);
                 continue;
             }
 
             try {
-                const content = fs.readFileSync(filePath, "utf8");
-                const digest: PrecompiledDigest = JSON.parse(content);
+                const digest: PrecompiledDigest = installedDigest ?? JSON.parse(fs.readFileSync(filePath, "utf8"));
 
                 // Every declaring module is kept, one per module path, so a
                 // lookup can offer the choice. BUNDLED_DIGEST_NAMES order is
                 // still the precedence between the three domains: it decides
                 // which path leads the list, and the lead is what a caller
                 // picking one answer takes.
+                //
+                // Each declaration is stamped with the source it came from,
+                // which the JSON names once rather than per entry, so Go to
+                // Definition knows which bundled `.verse` file its line is in.
                 for (const [identifier, declarations] of Object.entries(digest.entries)) {
                     const merged = this.digestCache.get(identifier) ?? [];
                     for (const declaration of declarations) {
-                        appendDeclaration(merged, declaration);
+                        appendDeclaration(merged, { ...declaration, sourceFile: digest.sourceFile });
                     }
                     this.digestCache.set(identifier, merged);
                 }
@@ -178,6 +192,14 @@ export class PrecompiledDigestLoader {
         return this.moduleIndex.get(modulePath) || [];
     }
 
+    /**
+     * Every module path the digests declare, with the names each brings into
+     * scope. The live index, not a copy.
+     */
+    getModuleIndex(): ReadonlyMap<string, string[]> {
+        return this.moduleIndex;
+    }
+
     /** The live cache, not a copy: mutating it corrupts the index. */
     getAllEntries(): Map<string, DigestEntry[]> {
         return this.digestCache;
@@ -4,14 +4,26 @@ import { ProjectPathHandler } from "../project";
 import { ProjectPathScanner } from "./ProjectPathScanner";
 import { PROJECT_CACHE_VERSION, ProjectPathData, ProjectPathNode, SerializedProjectPathCache } from "../types";
 import { findContentRoot } from "./contentRoot";
-import { buildProjectIndexes, resolveModuleLocations, ModuleLocationCandidate, ProjectIndexes } from "./moduleLocationLookup";
+import {
+    buildProjectIndexes,
+    projectModuleMembers,
+    resolveAllDeclarationImports,
+    resolveDeclarationImports,
+    resolveModuleLocations,
+    resolveProjectModules,
+    DeclarationImportOptions,
+    ModuleLocationCandidate,
+    ProjectDeclarationImport,
+    ProjectIndexes,
+    ProjectModule,
+} from "./moduleLocationLookup";
 
 /**
  * Caches the project's scanned declarations in VS Code workspace storage and
  * serves module-location lookups from derived in-memory indexes. Data is a
  * flat node list; all indexes are rebuilt from it on load and after updates.
  */
-export class ProjectPathCache {
+export class ProjectPathCache implements vscode.Disposable {
     private data: ProjectPathData | null = null;
     private indexes: ProjectIndexes = buildProjectIndexes([]);
     private fileWatcher: vscode.FileSystemWatcher | null = null;
@@ -28,6 +40,10 @@ export class ProjectPathCache {
      */
     private generation: number = 0;
 
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    /** Fires whenever the cached declarations change: a scan, a load, a reparse, a clear. */
+    readonly onDidChange = this.changeEmitter.event;
+
     private static readonly CACHE_KEY = "projectPathTree";
     /** Storage key of the pre-2 metadata payload; cleared on save. */
     private static readonly LEGACY_METADATA_KEY = "projectPathTreeMeta";
@@ -110,6 +126,18 @@ export class ProjectPathCache {
         }
     }
 
+    /**
+     * The names a `using` of the project module named `moduleName` brings into
+     * scope, or null when nothing is cached or nothing cached knows the module.
+     * See projectModuleMembers for why same-named modules are merged.
+     */
+    getModuleMembers(moduleName: string): Set<string> | null {
+        if (!this.data) {
+            return null;
+        }
+        return projectModuleMembers(moduleName, this.indexes.fileIndex);
+    }
+
     /**
      * The possible locations of a module import path, empty when nothing is
      * cached and empty again when the workspace holds no Content root to place
@@ -147,6 +175,76 @@ export class ProjectPathCache {
         });
     }
 
+    /**
+     * The modules a `using` would bring a public project declaration named
+     * `identifier` in from, empty when nothing is cached, when the project
+     * file binds no Verse path, or when the workspace holds no Content root.
+     *
+     * @param importingUri The file the import would be written in. A
+     *   declaration in its own folder module is not offered.
+     */
+    async lookupDeclarationImports(identifier: string, importingUri?: vscode.Uri): Promise<ProjectDeclarationImport[]> {
+        const options = await this.declarationImportOptions(importingUri);
+        return options ? resolveDeclarationImports(identifier, this.indexes.identifierIndex, options) : [];
+    }
+
+    /** lookupDeclarationImports for every public declaration the cache holds. */
+    async listDeclarationImports(importingUri?: vscode.Uri): Promise<ProjectDeclarationImport[]> {
+        const options = await this.declarationImportOptions(importingUri);
+        return options ? resolveAllDeclarationImports(this.indexes.identifierIndex, options) : [];
+    }
+
+    /**
+     * Every module of the project with what it declares, for the project
+     * module explorer. Empty when nothing is cached, or when there is no Verse
+     * path or Content root to place the declarations under. See
+     * resolveProjectModules.
+     */
+    async listProjectModules(): Promise<ProjectModule[]> {
+        const options = await this.declarationImportOptions();
+        return options && this.data ? resolveProjectModules(this.data.nodes, options) : [];
+    }
+
+    /**
+     * Where declarations are placed to build their imports, or null when there
+     * is nowhere to place them.
+     *
+     * The Verse path is read from the project file rather than from the cached
+     * data, whose scanner stands the bare project name in for a missing one:
+     * an import written under that stand-in names a module nothing declares.
+     */
+    private async declarationImportOptions(importingUri?: vscode.Uri): Promise<DeclarationImportOptions | null> {
+        if (!this.data) {
+            return null;
+        }
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            return null;
+        }
+
+        const projectVersePath = await this.projectPathHandler.getProjectVersePath(workspaceFolder.uri);
+        if (!projectVersePath) {
+            return null;
+        }
+
+        const contentRoot = await findContentRoot(
+            workspaceFolder,
+            await this.projectPathHandler.getRootPluginName(workspaceFolder.uri),
+            await this.projectPathHandler.getProjectFileDirectory(workspaceFolder.uri),
+        );
+        if (!contentRoot) {
+            return null;
+        }
+
+        return {
+            workspaceFolderPath: workspaceFolder.uri.fsPath,
+            contentRootPath: contentRoot.fsPath,
+            projectVersePath,
+            importingFilePath: importingUri?.fsPath,
+        };
+    }
+
     /**
      * Rescans the whole project and replaces the cache with the result.
      *
@@ -332,6 +430,14 @@ export class ProjectPathCache {
         return vscode.Disposable.from(...disposables);
     }
 
+    /**
+     * Drops every onDidChange listener, so a view subscribed to the cache does
+     * not outlive deactivation. Registered with the extension's subscriptions.
+     */
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
     getStats(): {
         loaded: boolean;
         identifiers: number;
@@ -365,6 +471,7 @@ export class ProjectPathCache {
         this.rebuildInFlight = null;
         this.indexes = buildProjectIndexes([]);
         this.pendingUpdates.clear();
+        this.changeEmitter.fire();
 
         if (this.updateDebounceTimer) {
             clearTimeout(this.updateDebounceTimer);
@@ -484,6 +591,7 @@ export class ProjectPathCache {
     /** Must follow every mutation of `data.nodes`, or lookups serve the old set. */
     private rebuildIndexes(): void {
         this.indexes = buildProjectIndexes(this.data ? this.data.nodes : []);
+        this.changeEmitter.fire();
     }
 
     /**
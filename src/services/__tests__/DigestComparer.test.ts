@@ -0,0 +1,123 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DigestSet, diffDigestSets, formatDigestDiff, readDigestSet } from "../DigestComparer";
+import { parseDigestContent } from "../digestParsing";
+
+const OLD_BUILD = "++Fortnite+Release-37.20-CL-45679054";
+const NEW_BUILD = "++Fortnite+Release-38.00-CL-46000000";
+
+/** A set holding one Verse digest parsed from `lines`. */
+function verseSet(label: string, build: string, lines: string[]): DigestSet {
+    const parsed = parseDigestContent(lines.join("\n"), "/Verse.org");
+    return { label, digests: new Map([["Verse", { ...parsed, sourceFile: `/${label}/Verse.digest.verse`, sourceBuild: build }]]) };
+}
+
+const BEFORE = verseSet("Bundled", OLD_BUILD, [
+    "Simulation<public> := module:",
+    "    agent<native><public> := class<unique>:",
+    "    GetSimulationElapsedTime<native><public>():float",
+    "Legacy<public> := module:",
+    "    legacy_thing<public> := class:",
+    "    Lerp<public>(A:float, B:float, T:float):float",
+]);
+
+const AFTER = verseSet("Installed", NEW_BUILD, [
+    "Simulation<public> := module:",
+    "    agent<native><public> := class<unique>:",
+    "    Lerp<public>(A:float, B:float, T:float):float",
+    "Colors<public> := module:",
+    "    color<public> := struct:",
+]);
+
+describe("diffDigestSets", () => {
+    it("reports added and removed modules, and a name that changed module as a move", () => {
+        const diff = diffDigestSets(BEFORE, AFTER);
+
+        expect(diff.removedModules).toEqual(["/Verse.org/Legacy"]);
+        expect(diff.addedModules).toEqual(["/Verse.org/Colors"]);
+        expect(diff.movedIdentifiers).toEqual([{ identifier: "Lerp", from: ["/Verse.org/Legacy"], to: ["/Verse.org/Simulation"] }]);
+    });
+
+    it("leaves the names of a removed or added module to the module's own entry", () => {
+        const diff = diffDigestSets(BEFORE, AFTER);
+
+        expect(diff.removedIdentifiers).toEqual([{ identifier: "GetSimulationElapsedTime", modulePath: "/Verse.org/Simulation", type: "function" }]);
+        expect(diff.addedIdentifiers).toEqual([]);
+    });
+
+    it("labels each side with the build of each digest compared, and sets aside a digest only one side has", () => {
+        const after: DigestSet = {
+            label: AFTER.label,
+            digests: new Map([...AFTER.digests, ["Fortnite", { entries: {}, moduleIndex: {}, sourceFile: "/Fortnite.digest.verse", sourceBuild: NEW_BUILD }]]),
+        };
+
+        const diff = diffDigestSets(BEFORE, after);
+
+        expect(diff.before).toEqual({ label: "Bundled", digests: [{ name: "Verse", sourceFile: "/Bundled/Verse.digest.verse", sourceBuild: OLD_BUILD }] });
+        expect(diff.after.digests.map((digest) => digest.sourceBuild)).toEqual([NEW_BUILD]);
+        expect(diff.uncompared).toEqual(["Fortnite"]);
+    });
+
+    it("picks out the changes in the modules a project imports", () => {
+        const diff = diffDigestSets(BEFORE, AFTER, new Set(["/Verse.org/Legacy", "/Verse.org/Simulation", "/Fortnite.com/Devices"]));
+
+        expect(diff.impact).toEqual({
+            importedModuleCount: 3,
+            removedModules: ["/Verse.org/Legacy"],
+            movedIdentifiers: [{ identifier: "Lerp", from: ["/Verse.org/Legacy"], to: ["/Verse.org/Simulation"] }],
+            removedIdentifiers: [{ identifier: "GetSimulationElapsedTime", modulePath: "/Verse.org/Simulation", type: "function" }],
+            addedIdentifiers: [],
+        });
+        expect(diffDigestSets(BEFORE, AFTER).impact).toBeUndefined();
+    });
+});
+
+describe("formatDigestDiff", () => {
+    it("puts the builds in the header and the breaking changes before the additions", () => {
+        const report = formatDigestDiff(diffDigestSets(BEFORE, AFTER));
+
+        expect(report).toContain(`| Verse | ${OLD_BUILD} | ${NEW_BUILD} |`);
+        expect(report.indexOf("## Removed modules")).toBeLessThan(report.indexOf("## Moved names"));
+        expect(report.indexOf("## Removed names")).toBeLessThan(report.indexOf("## Added modules"));
+        expect(report).toContain("- `Lerp`: /Verse.org/Legacy → /Verse.org/Simulation");
+    });
+
+    it("lists the changes in the project's imports before everything else", () => {
+        const report = formatDigestDiff(diffDigestSets(BEFORE, AFTER, new Set(["/Verse.org/Simulation"])));
+
+        expect(report.indexOf("## In this workspace's imports")).toBeLessThan(report.indexOf("## Removed modules"));
+        expect(report).toContain("### Removed names (1)\n\n#### /Verse.org/Simulation\n\n- `GetSimulationElapsedTime` (function)");
+    });
+
+    it("says so when none of the project's imports changed", () => {
+        expect(formatDigestDiff(diffDigestSets(BEFORE, AFTER, new Set(["/Fortnite.com/Devices"])))).toContain("None of the 1 module(s) the workspace imports changed.");
+    });
+
+    it("says so when nothing differs", () => {
+        expect(formatDigestDiff(diffDigestSets(BEFORE, BEFORE))).toContain("No modules or public names differ.");
+    });
+});
+
+describe("readDigestSet", () => {
+    let folder: string;
+
+    beforeEach(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), "digest-set-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    it("parses the digests in the folder or one level below it, with each one's build stamp", async () => {
+        fs.mkdirSync(path.join(folder, "Game-Verse"));
+        fs.writeFileSync(path.join(folder, "Game-Verse", "Verse.digest.verse"), [`# ${NEW_BUILD}`, "Simulation<public> := module:", "    agent<native><public> := class<unique>:"].join("\n"));
+
+        const set = await readDigestSet(folder, "Installed");
+
+        expect([...set.digests.keys()]).toEqual(["Verse"]);
+        expect(set.digests.get("Verse")).toMatchObject({ sourceBuild: NEW_BUILD, sourceFile: path.join(folder, "Game-Verse", "Verse.digest.verse") });
+        expect(set.digests.get("Verse")!.entries["agent"][0].modulePath).toBe("/Verse.org/Simulation");
+    });
+});
@@ -9,7 +9,7 @@ import { DigestEntry } from "../digestParsing";
  *
  * Two defects, both in how DigestParser behaved when it could not serve a good
  * answer. It fell back to parsing `src/utils/*.digest.verse`, which
- * `.vscodeignore` keeps out of the `.vsix`, and it latched that unreachable
+ * `.vscodeignore` then kept out of the `.vsix`, and it latched that unreachable
  * fallback on permanently after one load failure - so a single bad
  * `src/data/*.digest.json` cost the session every lookup while the log claimed
  * a successful fallback. Separately, lookups matched by substring, so `device`
@@ -69,7 +69,7 @@ describe("DigestParser", () => {
             JSON.stringify({
                 version: "2",
                 generatedAt: "",
-                sourceFile: "",
+                sourceFile: path.basename(String(target)).replace(/\.json$/, ".verse"),
                 sourceBuild: "",
                 entries: digestFiles[path.basename(String(target))] ?? {},
                 moduleIndex: {},
@@ -139,6 +139,12 @@ describe("DigestParser", () => {
 
             expect(results.map((result) => result.modulePath)).toEqual(["/Verse.org/SpatialMath", "/UnrealEngine.com/Temporary/SpatialMath"]);
         });
+
+        it("names the digest source each declaration was read from", async () => {
+            const results = await parser.lookupIdentifier("Distance");
+
+            expect(results.map((result) => result.sourceFile)).toEqual(["Verse.digest.verse", "UnrealEngine.digest.verse"]);
+        });
     });
 
     describe("when the digest data cannot be read", () => {
@@ -0,0 +1,35 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { DigestSourceProvider } from "../DigestSourceProvider";
+
+describe("DigestSourceProvider", () => {
+    // The repository root stands in for the install: the sources sit at the
+    // same src/utils path in both.
+    const EXTENSION_PATH = path.resolve(__dirname, "..", "..", "..");
+    const provider = new DigestSourceProvider({ extensionPath: EXTENSION_PATH } as unknown as vscode.ExtensionContext);
+
+    it("addresses a bundled source under its own scheme", () => {
+        const uri = DigestSourceProvider.uriFor("Verse.digest.verse");
+
+        expect(uri.scheme).toBe(DigestSourceProvider.SCHEME);
+        expect(uri.path).toBe("/Verse.digest.verse");
+    });
+
+    it("addresses a digest read from the UEFN install as the file itself", () => {
+        const installed = path.resolve("/uefn", "VerseProject", "Game", "Verse.digest.verse");
+
+        expect(DigestSourceProvider.uriFor(installed).scheme).toBe("file");
+    });
+
+    it("serves the bundled source's text", async () => {
+        const text = await provider.provideTextDocumentContent(DigestSourceProvider.uriFor("Verse.digest.verse"));
+
+        expect(text).toBe(fs.readFileSync(path.join(EXTENSION_PATH, "src", "utils", "Verse.digest.verse"), "utf8"));
+    });
+
+    it("refuses a path that is not a bundled digest source", async () => {
+        await expect(provider.provideTextDocumentContent(DigestSourceProvider.uriFor("../../package.json"))).rejects.toThrow("Not a bundled digest source");
+        await expect(provider.provideTextDocumentContent(DigestSourceProvider.uriFor("settings.ts"))).rejects.toThrow("Not a bundled digest source");
+    });
+});
@@ -0,0 +1,80 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { InstalledDigestSource } from "../InstalledDigestSource";
+import { AssetsDigestParser } from "../AssetsDigestParser";
+import { DIGEST_DATA_VERSION } from "../digestManifest";
+
+const BUILD = "++Fortnite+Release-42.00-CL-99999999";
+const VERSE_DIGEST = [`# Copyright Epic Games, Inc. All Rights Reserved.`, `# ${BUILD}`, "Simulation<public> := module:", "    agent<native><public> := class<unique>:"].join("\n");
+
+function settingsReturn(values: Record<string, unknown>): void {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+        get: jest.fn().mockImplementation((key: string, defaultValue?: unknown) => (key in values ? values[key] : defaultValue)),
+        inspect: jest.fn().mockReturnValue(undefined),
+        update: jest.fn().mockResolvedValue(undefined),
+    });
+}
+
+describe("InstalledDigestSource.load", () => {
+    let root: string;
+    let projectDir: string;
+    let storageDir: string;
+    let context: vscode.ExtensionContext;
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), "installed-digests-"));
+        projectDir = path.join(root, "VerseProject", "Game");
+        storageDir = path.join(root, "storage");
+        fs.mkdirSync(path.join(projectDir, "Game-Verse"), { recursive: true });
+        fs.writeFileSync(path.join(projectDir, "Game-Verse", "Verse.digest.verse"), VERSE_DIGEST);
+        context = { globalStorageUri: { fsPath: storageDir } } as unknown as vscode.ExtensionContext;
+    });
+
+    afterEach(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    const source = (): InstalledDigestSource => new InstalledDigestSource(context, { getVerseProjectDirectory: jest.fn().mockResolvedValue(projectDir) } as unknown as AssetsDigestParser);
+
+    it("reads nothing unless the setting asks for the installed digests", async () => {
+        settingsReturn({});
+
+        expect((await source().load()).size).toBe(0);
+    });
+
+    it("parses a digest found one level below the project folder, named by its path", async () => {
+        settingsReturn({ "experimental.useInstalledDigests": true });
+
+        const digests = await source().load();
+
+        expect([...digests.keys()]).toEqual(["Verse"]);
+        const verse = digests.get("Verse")!;
+        expect(verse.sourceBuild).toBe(BUILD);
+        expect(verse.sourceFile).toBe(path.join(projectDir, "Game-Verse", "Verse.digest.verse"));
+        expect(verse.entries["agent"][0]).toMatchObject({ modulePath: "/Verse.org/Simulation", sourceLine: 4 });
+    });
+
+    it("caches the parse under the build stamp, and reads it back while the format matches", async () => {
+        settingsReturn({ "experimental.useInstalledDigests": true });
+        await source().load();
+        const cachePath = path.join(storageDir, "digests", BUILD, "Verse.digest.json");
+        expect(JSON.parse(fs.readFileSync(cachePath, "utf8")).version).toBe(DIGEST_DATA_VERSION);
+
+        const cached = JSON.parse(fs.readFileSync(cachePath, "utf8"));
+        cached.entries["agent"][0].modulePath = "/From/The/Cache";
+        fs.writeFileSync(cachePath, JSON.stringify(cached));
+
+        expect((await source().load()).get("Verse")!.entries["agent"][0].modulePath).toBe("/From/The/Cache");
+    });
+
+    it("reads the configured folder instead of the project's", async () => {
+        const configured = path.join(root, "Elsewhere");
+        fs.mkdirSync(configured);
+        fs.writeFileSync(path.join(configured, "Fortnite.digest.verse"), `# ${BUILD}\nDevices<public> := module:\n    button_device<public> := class:`);
+        settingsReturn({ "experimental.useInstalledDigests": true, "experimental.installedDigestFolder": configured });
+
+        expect([...(await source().load()).keys()]).toEqual(["Fortnite"]);
+    });
+});
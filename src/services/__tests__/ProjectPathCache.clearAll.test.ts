@@ -61,4 +61,15 @@ describe("ProjectPathCache.clearAll", () => {
         expect(memento.get(CACHE_KEY)).toBeUndefined();
         expect(memento.get(LEGACY_METADATA_KEY)).toBeUndefined();
     });
+
+    it("notifies no listener once the cache is disposed", async () => {
+        const cache = createCache(new FakeMemento());
+        const listener = jest.fn();
+        cache.onDidChange(listener);
+
+        cache.dispose();
+        await cache.clearAll();
+
+        expect(listener).not.toHaveBeenCalled();
+    });
 });
@@ -234,6 +234,15 @@ describe("parseDigestContent - declaration recognition", () => {
 
         expect(entries["GetName"]).toBeUndefined();
     });
+
+    it("records a public extension method in the module index, which a using of the module brings into scope", () => {
+        const digest = ["Devices<public> := module:", "    (Target:agent).GetName<public>()<transacts>:string = external {}", "    (Target:agent).Hidden()<transacts>:string = external {}"].join("\n");
+
+        const { moduleIndex } = parseDigestContent(digest, "/Fortnite.com");
+
+        expect(moduleIndex["/Fortnite.com/Devices"]).toContain("GetName");
+        expect(moduleIndex["/Fortnite.com/Devices"]).not.toContain("Hidden");
+    });
 });
 
 describe("parseDigestContent - deduplication and module index", () => {
@@ -288,6 +297,62 @@ describe("parseDigestContent - deduplication and module index", () => {
         expect(entries["ToString"].map((declaration) => declaration.modulePath)).toEqual(["/Verse.org/Verse"]);
     });
 
+    it("records each declaration's 1-based source line, the first one for an overload", () => {
+        const digest = [
+            "# Module import path: /Verse.org/Verse",
+            "Verse<public> := module:",
+            "    ToString<public>(X:int)<reads>:string = external {}",
+            "    ToString<public>(X:float)<reads>:string = external {}",
+            "",
+            "    @editable",
+            "    thing<public> := class:",
+        ].join("\n");
+
+        const { entries } = parseDigestContent(digest, "/Verse.org");
+
+        expect(entries["Verse"][0].sourceLine).toBe(2);
+        expect(entries["ToString"].map((declaration) => declaration.sourceLine)).toEqual([3]);
+        expect(entries["thing"][0].sourceLine).toBe(7);
+    });
+
+    it("marks a declaration deprecated by its attributes, and no declaration after it", () => {
+        const digest = [
+            "Devices<public> := module:",
+            "    @deprecated",
+            "    # Deprecated. Use `new_device` instead.",
+            "    old_device<public> := class<concrete>(base):",
+            "        @deprecated",
+            "        Member<public>():void",
+            "    new_device<public> := class<concrete>(base):",
+            '    @import_as("/Script/EpicGamesTemporary.FVerseThing_Deprecated")',
+            "    thing<native><public> := struct<concrete>:",
+        ].join("\n");
+
+        const { entries } = parseDigestContent(digest, "/Fortnite.com");
+
+        expect(entries["old_device"][0].deprecated).toBe(true);
+        expect(entries["new_device"][0].deprecated).toBeUndefined();
+        expect(entries["thing"][0].deprecated).toBe(true);
+    });
+
+    it("marks a declaration experimental by its attribute, apart from any deprecation", () => {
+        const digest = [
+            "SceneGraph<public> := module:",
+            "    @experimental",
+            "    # Represents the physical body of the camera.",
+            "    camera_component<native><public> := class<final_super>(component):",
+            "        @experimental",
+            "        var NearClippingPlaneDistance<native><public>:float = external {}",
+            "    entity<native><public> := class<concrete>:",
+        ].join("\n");
+
+        const { entries } = parseDigestContent(digest, "/Verse.org");
+
+        expect(entries["camera_component"][0].experimental).toBe(true);
+        expect(entries["camera_component"][0].deprecated).toBeUndefined();
+        expect(entries["entity"][0].experimental).toBeUndefined();
+    });
+
     it("accumulates every member of a re-opened module in the module index", () => {
         const digest = [
             "Devices<public> := module:",
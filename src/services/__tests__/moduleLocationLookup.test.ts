@@ -1,4 +1,4 @@
-import { buildProjectIndexes, resolveFolderModuleLocations, resolveModuleLocations } from "../moduleLocationLookup";
+import { buildProjectIndexes, projectModuleMembers, resolveDeclarationImports, resolveFolderModuleLocations, resolveModuleLocations, resolveProjectModules } from "../moduleLocationLookup";
 import { ProjectPathNode } from "../../types";
 
 function moduleNode(name: string, fullPath: string, sourceFile: string): ProjectPathNode {
@@ -246,3 +246,113 @@ describe("resolveFolderModuleLocations", () => {
         expect(resolveFolderModuleLocations("", projectDirs)).toEqual([]);
     });
 });
+
+describe("resolveDeclarationImports", () => {
+    const PROJECT = "/acct@fortnite.com/MyGame";
+
+    const imports = (identifier: string, nodes: ProjectPathNode[], importingFilePath?: string) =>
+        resolveDeclarationImports(identifier, buildProjectIndexes(nodes).identifierIndex, {
+            workspaceFolderPath: WORKSPACE_ROOT,
+            contentRootPath: `${WORKSPACE_ROOT}/Content`,
+            projectVersePath: PROJECT,
+            importingFilePath,
+        }).map((match) => match.modulePath);
+
+    it("names the folder module of a top-level declaration", () => {
+        expect(imports("gadget_device", [classNode("gadget_device", "gadget_device", "Content/Gadgets/gadget.verse")])).toEqual([`${PROJECT}/Gadgets`]);
+    });
+
+    it("appends the in-file module chain to the folders", () => {
+        expect(imports("shop", [classNode("shop", "Economy.Store.shop", "Content/Systems/economy.verse")])).toEqual([`${PROJECT}/Systems/Economy/Store`]);
+    });
+
+    it("names the project itself for a top-level declaration at the Content root", () => {
+        expect(imports("root_device", [classNode("root_device", "root_device", "Content/main.verse")])).toEqual([PROJECT]);
+    });
+
+    it("matches the name case-sensitively", () => {
+        expect(imports("Gadget_Device", [classNode("gadget_device", "gadget_device", "Content/Gadgets/gadget.verse")])).toEqual([]);
+    });
+
+    it("skips private declarations, module declarations, and files outside Content", () => {
+        const nodes: ProjectPathNode[] = [
+            { name: "hidden", fullPath: "hidden", type: "class", isPublic: false, sourceFile: "Content/Gadgets/a.verse" },
+            moduleNode("hidden", "hidden", "Content/Gadgets/b.verse"),
+            classNode("hidden", "hidden", "Other/c.verse"),
+        ];
+
+        expect(imports("hidden", nodes)).toEqual([]);
+    });
+
+    it("skips a top-level declaration in the importing file's own folder, but not one nested in a module there", () => {
+        const nodes = [classNode("helper", "helper", "Content/Gadgets/a.verse"), classNode("helper", "Inner.helper", "Content/Gadgets/b.verse")];
+
+        expect(imports("helper", nodes, `${WORKSPACE_ROOT}/Content/Gadgets/main.verse`)).toEqual([`${PROJECT}/Gadgets/Inner`]);
+    });
+
+    it("answers each module once however many of its files declare the name", () => {
+        const nodes = [classNode("helper", "helper", "Content/Gadgets/a.verse"), classNode("helper", "helper", "Content/Gadgets/b.verse")];
+
+        expect(imports("helper", nodes)).toEqual([`${PROJECT}/Gadgets`]);
+    });
+});
+
+describe("resolveProjectModules", () => {
+    const PROJECT = "/acct@fortnite.com/MyGame";
+
+    const modules = (nodes: ProjectPathNode[]) => resolveProjectModules(nodes, { workspaceFolderPath: WORKSPACE_ROOT, contentRootPath: `${WORKSPACE_ROOT}/Content`, projectVersePath: PROJECT });
+
+    it("lists the project, every folder on a file's path, and each explicit module, sorted by path", () => {
+        const result = modules([classNode("shop", "Economy.shop", "Content/Systems/Store/economy.verse"), moduleNode("Economy", "Economy", "Content/Systems/Store/economy.verse")]);
+
+        expect(result.map((module) => [module.modulePath, module.isFolder])).toEqual([
+            [PROJECT, true],
+            [`${PROJECT}/Systems`, true],
+            [`${PROJECT}/Systems/Store`, true],
+            [`${PROJECT}/Systems/Store/Economy`, false],
+        ]);
+        expect(result[3].members.map((node) => node.name)).toEqual(["shop"]);
+    });
+
+    it("makes a folder public through an explicit declaration at its path", () => {
+        const definitions = { ...moduleNode("Gadgets", "Gadgets", "Content/Definitions.verse"), sourceLine: 3 };
+
+        const gadgets = modules([classNode("gadget_device", "gadget_device", "Content/Gadgets/gadget.verse"), definitions]).find((module) => module.modulePath === `${PROJECT}/Gadgets`);
+
+        expect(gadgets).toMatchObject({ isFolder: true, isPublic: true, declarations: [definitions] });
+        expect(gadgets?.members.map((node) => node.name)).toEqual(["gadget_device"]);
+    });
+
+    it("leaves a folder module nothing declares internal, and skips a file outside Content", () => {
+        const result = modules([classNode("gadget_device", "gadget_device", "Content/Gadgets/gadget.verse"), classNode("tool", "tool", "Plugins/Tool/tool.verse")]);
+
+        expect(result.map((module) => module.modulePath)).toEqual([PROJECT, `${PROJECT}/Gadgets`]);
+        expect(result[1].isPublic).toBe(false);
+    });
+});
+
+describe("projectModuleMembers", () => {
+    const members = (moduleName: string, nodes: ProjectPathNode[]) => projectModuleMembers(moduleName, buildProjectIndexes(nodes).fileIndex);
+
+    it("returns the top-level declarations of files directly inside a folder of that name", () => {
+        const nodes = [classNode("gadget_device", "gadget_device", "Content/Gadgets/gadget.verse"), classNode("other", "other", "Content/Elsewhere/other.verse")];
+
+        expect(members("Gadgets", nodes)).toEqual(new Set(["gadget_device"]));
+    });
+
+    it("returns the declarations inside an explicit module of that name", () => {
+        const nodes = [moduleNode("Economy", "Economy", "Content/file.verse"), classNode("shop", "Economy.shop", "Content/file.verse")];
+
+        expect(members("Economy", nodes)).toEqual(new Set(["shop"]));
+    });
+
+    it("counts a child folder as a member, since a using brings its name into scope", () => {
+        const nodes = [classNode("rifle", "rifle", "Content/Gadgets/Weapons/rifle.verse")];
+
+        expect(members("Gadgets", nodes)).toEqual(new Set(["Weapons"]));
+    });
+
+    it("returns null for a module nothing cached declares or holds", () => {
+        expect(members("Missing", [classNode("rifle", "rifle", "Content/Gadgets/rifle.verse")])).toBeNull();
+    });
+});
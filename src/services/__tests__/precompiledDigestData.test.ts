@@ -12,7 +12,7 @@ import * as path from "path";
  */
 interface PrecompiledDigest {
     sourceBuild: string;
-    entries: Record<string, { identifier: string; modulePath: string; type: string; isPublic: boolean }[]>;
+    entries: Record<string, { identifier: string; modulePath: string; type: string; isPublic: boolean; sourceLine?: number }[]>;
     moduleIndex: Record<string, string[]>;
 }
 
@@ -67,6 +67,23 @@ describe("precompiled digest data (41.30)", () => {
         expect(verse.entries["ToString"].map((declaration) => declaration.modulePath)).toEqual(["/Verse.org/Verse", "/Verse.org/SpatialMath"]);
     });
 
+    it("records source lines that land on the declarations in the bundled .verse files", () => {
+        // Go to Definition opens these lines; data generated from a different
+        // copy of the sources would open the wrong declaration.
+        const sourceLines = (fileName: string) => fs.readFileSync(path.resolve(__dirname, "..", "..", "utils", fileName), "utf8").split("\n");
+        const cases: [PrecompiledDigest, string, string][] = [
+            [verse, "Verse.digest.verse", "vector3"],
+            [fortnite, "Fortnite.digest.verse", "button_device"],
+            [unrealEngine, "UnrealEngine.digest.verse", "vector3"],
+        ];
+
+        for (const [digest, fileName, id] of cases) {
+            const line = sourceLines(fileName)[digest.entries[id][0].sourceLine! - 1];
+            // UnrealEngine's vector3 carries a `(/module:)` qualifier.
+            expect(line).toMatch(new RegExp(`^\\s*(\\(/[^()]*:\\))?${id}<`));
+        }
+    });
+
     it("indexes button_device under the /Fortnite.com/Devices module", () => {
         const members = fortnite.moduleIndex["/Fortnite.com/Devices"];
         expect(members).toBeDefined();
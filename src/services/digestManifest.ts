@@ -31,6 +31,21 @@
  */
 export const BUNDLED_DIGEST_NAMES = ["Fortnite", "Verse", "UnrealEngine"] as const;
 
+/**
+ * The format of the generated JSON, written into each file. Shared with the
+ * runtime parse of an installed digest, whose cached JSON is only reused while
+ * it matches.
+ *
+ * 2.0.0 keys each identifier to a list of declarations rather than one, so a
+ * name declared by several modules keeps every module it can be imported from.
+ * 2.1.0 adds each declaration's line in its `.verse` source, which Go to
+ * Definition opens.
+ * 2.2.0 marks deprecated declarations, which ranking puts behind their
+ * replacements.
+ * 2.3.0 marks experimental declarations, which an island cannot publish with.
+ */
+export const DIGEST_DATA_VERSION = "2.3.0";
+
 /** The checked-in Verse source a digest is generated from. */
 export function digestSourceFile(digestName: string): string {
     return `${digestName}.digest.verse`;
@@ -40,3 +55,37 @@ export function digestSourceFile(digestName: string): string {
 export function digestDataFile(digestName: string): string {
     return `${digestName}.digest.json`;
 }
+
+/**
+ * A bundled module whose declarations moved to another, for the migration
+ * command.
+ */
+export interface SupersededModule {
+    from: string;
+    to: string;
+    /** What the move changes for code written against `from`, shown in the migration report. */
+    note: string;
+}
+
+/**
+ * The superseded homes BUNDLED_DIGEST_NAMES describes, and where their
+ * declarations live now. Add a row when a UEFN release retires a module; a
+ * team maps its own in `behavior.supersededModules` or the project
+ * configuration file (SupersededModuleTable).
+ *
+ * A name both modules declare is a distinct declaration in each, not an alias,
+ * so the migration reports each one the file uses whose old declaration is
+ * deprecated or whose kind changed.
+ */
+export const SUPERSEDED_MODULES: readonly SupersededModule[] = [
+    {
+        from: "/UnrealEngine.com/Temporary/SpatialMath",
+        to: "/Verse.org/SpatialMath",
+        note: "rotation and vector3 here are the _Deprecated natives; /Verse.org/SpatialMath binds the live types, and values crossing an API still typed on the old ones need FromRotation or FromVector3",
+    },
+    {
+        from: "/UnrealEngine.com/ControlInput",
+        to: "/Verse.org/Input",
+        note: "input_events, player_input and GetPlayerInput are declared again in /Verse.org/Input, and the events are renamed: DetectionBeginEvent is BeginDetectEvent, ActivationTriggeredEvent is TriggerActivationEvent, and so on",
+    },
+];
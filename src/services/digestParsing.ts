@@ -36,6 +36,26 @@ export interface DigestEntry {
     type: "class" | "function" | "variable" | "module" | "unknown";
     description?: string;
     isPublic: boolean;
+    /** 1-based line of the declaration in its digest source; the first one for an overload. */
+    sourceLine?: number;
+    /**
+     * The digest source the declaration was read from, e.g. `Verse.digest.verse`,
+     * or the absolute path of a digest read from the UEFN install.
+     * Not written into the generated JSON, which names its source once at the
+     * top; PrecompiledDigestLoader stamps it on each entry as it merges them.
+     */
+    sourceFile?: string;
+    /**
+     * Set only when true: the declaration is marked `@deprecated`, or bound by
+     * `@import_as` to a native whose name ends `_Deprecated`, which is how the
+     * superseded `/UnrealEngine.com/Temporary/SpatialMath` types are marked.
+     */
+    deprecated?: true;
+    /**
+     * Set only when true: the declaration is marked `@experimental`. An island
+     * that uses an experimental API cannot be published.
+     */
+    experimental?: true;
 }
 
 /**
@@ -48,6 +68,10 @@ export interface DigestEntry {
  * each of those modules is a valid `using` target the user may need to choose
  * between. The list holds one declaration per module path, in declaration
  * order.
+ *
+ * The module index is wider than the entries: it also holds the public
+ * extension methods a module declares, which the entries do not offer as
+ * suggestions but which a `using` of the module still brings into scope.
  */
 export interface ParsedDigest {
     entries: Record<string, DigestEntry[]>;
@@ -91,6 +115,27 @@ const QUALIFIER_RE = /^\((\/[^()]*):\)/;
 /** Extracts the explicit module import path from a `# Module import path:` comment. */
 const MODULE_PATH_COMMENT_RE = /#\s*Module import path:\s*(\S+)/;
 
+/** An attribute line marking the declaration below it as deprecated. */
+const DEPRECATED_ATTRIBUTE_RE = /^@deprecated\b|^@import_as\("[^"]*_Deprecated"\)/;
+
+/** An attribute line marking the declaration below it as experimental. */
+const EXPERIMENTAL_ATTRIBUTE_RE = /^@experimental\b/;
+
+/** What the attributes above a declaration say about it. */
+interface DeclarationAttributes {
+    deprecated: boolean;
+    experimental: boolean;
+}
+
+/**
+ * The UEFN build a digest came from, as stamped in its header
+ * (`++Fortnite+Release-37.20-CL-45679054`), or "unknown" if absent.
+ */
+export function digestBuildStamp(content: string): string {
+    const buildMatch = content.match(/\+\+Fortnite\+Release-[\d.]+-CL-\d+/);
+    return buildMatch ? buildMatch[0] : "unknown";
+}
+
 /**
  * Maps a digest file name to the root module domain its top-level declarations
  * live under. Top-level modules without an explicit `# Module import path:`
@@ -157,19 +202,35 @@ export function parseDigestContent(content: string, rootDomain: string): ParsedD
     const entries: Record<string, DigestEntry[]> = {};
     const moduleIndex = new Map<string, Set<string>>();
 
-    const addEntry = (identifier: string, modulePath: string, type: DigestEntry["type"], isPublic: boolean): void => {
-        if (!isPublic) {
-            return;
-        }
+    const addMember = (identifier: string, modulePath: string): void => {
         let members = moduleIndex.get(modulePath);
         if (!members) {
             members = new Set<string>();
             moduleIndex.set(modulePath, members);
         }
         members.add(identifier);
+    };
+
+    // What the attributes since the last declaration marked it. Comments and
+    // further attributes between the two do not clear it.
+    let pendingAttributes: DeclarationAttributes = { deprecated: false, experimental: false };
+
+    const addEntry = (identifier: string, modulePath: string, type: DigestEntry["type"], isPublic: boolean, sourceLine: number, attributes: DeclarationAttributes): void => {
+        if (!isPublic) {
+            return;
+        }
+        addMember(identifier, modulePath);
 
         const declarations = entries[identifier] ?? (entries[identifier] = []);
-        appendDeclaration(declarations, { identifier, modulePath, type, isPublic });
+        appendDeclaration(declarations, {
+            identifier,
+            modulePath,
+            type,
+            isPublic,
+            sourceLine,
+            ...(attributes.deprecated ? { deprecated: true as const } : {}),
+            ...(attributes.experimental ? { experimental: true as const } : {}),
+        });
     };
 
     // Explicit path from the most recent `# Module import path:` comment, applied
@@ -185,19 +246,29 @@ export function parseDigestContent(content: string, rootDomain: string): ParsedD
     // a module opens a new frame; a class/struct/interface/enum records itself and
     // opens a body whose members are skipped. Shared by the plain and parametric
     // (type-parameter-bearing) declaration paths.
-    const recordModuleOrType = (name: string, isPublic: boolean, keyword: DeclarationKeyword, qualifierPath: string | null, indent: number): void => {
+    const recordModuleOrType = (
+        name: string,
+        isPublic: boolean,
+        keyword: DeclarationKeyword,
+        qualifierPath: string | null,
+        indent: number,
+        sourceLine: number,
+        attributes: DeclarationAttributes,
+    ): void => {
         if (keyword === "module") {
             const modulePath = resolveModulePath(name, pendingModulePath, qualifierPath, moduleStack, rootDomain);
             pendingModulePath = null;
-            addEntry(name, modulePath, "module", isPublic);
+            addEntry(name, modulePath, "module", isPublic, sourceLine, attributes);
             moduleStack.push({ path: modulePath, indent });
             return;
         }
-        addEntry(name, containingModulePath(qualifierPath, moduleStack, rootDomain), "class", isPublic);
+        addEntry(name, containingModulePath(qualifierPath, moduleStack, rootDomain), "class", isPublic, sourceLine, attributes);
         classBodyIndents.push(indent);
     };
 
-    for (const rawLine of content.split("\n")) {
+    const rawLines = content.split("\n");
+    for (let lineIndex = 0; lineIndex < rawLines.length; lineIndex++) {
+        const rawLine = rawLines[lineIndex];
         const line = rawLine.trim();
 
         if (line === "") {
@@ -210,11 +281,23 @@ export function parseDigestContent(content: string, rootDomain: string): ParsedD
             }
             continue;
         }
-        // Attribute decorators and `using` imports never declare an importable name.
-        if (line.startsWith("@") || line.startsWith("using")) {
+        // Attribute decorators and `using` imports never declare an importable
+        // name. An attribute can mark the declaration it decorates deprecated
+        // or experimental.
+        if (line.startsWith("@")) {
+            pendingAttributes.deprecated ||= DEPRECATED_ATTRIBUTE_RE.test(line);
+            pendingAttributes.experimental ||= EXPERIMENTAL_ATTRIBUTE_RE.test(line);
+            continue;
+        }
+        if (line.startsWith("using")) {
             continue;
         }
 
+        // Taken here, before any line can be skipped, so that a member's
+        // attribute never carries over to the declaration after it.
+        const attributes = pendingAttributes;
+        pendingAttributes = { deprecated: false, experimental: false };
+
         const indent = lineIndentWidth(rawLine);
         // Holds frames rather than bare indents, so it cannot use
         // popClosedBlocks; the closing rule has to stay in step with it.
@@ -241,25 +324,32 @@ export function parseDigestContent(content: string, rootDomain: string): ParsedD
             continue;
         }
 
+        const isPublic = head.specifiers.includes("<public>");
+
         // A receiver-style extension method declares a name in this module, and
-        // this index deliberately does not offer it: the project scan reads the
+        // the entries deliberately do not offer it: the project scan reads the
         // same head and does index one. Policy, not a difference of grammar -
         // see matchDeclarationHead's `receiver`.
+        //
+        // The module index records it all the same. `Player.GetFortCharacter[]`
+        // resolves only while its module is imported, so an index that left it
+        // out would report that import as providing nothing the file uses.
         if (head.receiver !== null) {
+            if (isPublic) {
+                addMember(head.name, containingModulePath(qualifierPath, moduleStack, rootDomain));
+            }
             continue;
         }
 
-        const isPublic = head.specifiers.includes("<public>");
-
         if (head.keyword) {
-            recordModuleOrType(head.name, isPublic, head.keyword, qualifierPath, indent);
+            recordModuleOrType(head.name, isPublic, head.keyword, qualifierPath, indent, lineIndex + 1, attributes);
             continue;
         }
 
         // A parameter list makes it a function whichever operator follows, and
         // an unclosed one - a signature continuing below - reports as `(`.
         const type: DigestEntry["type"] = head.params !== null || head.operator === "(" ? "function" : "variable";
-        addEntry(head.name, containingModulePath(qualifierPath, moduleStack, rootDomain), type, isPublic);
+        addEntry(head.name, containingModulePath(qualifierPath, moduleStack, rootDomain), type, isPublic, lineIndex + 1, attributes);
     }
 
     const moduleIndexRecord: Record<string, string[]> = {};
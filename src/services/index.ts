@@ -4,9 +4,15 @@
 // come from and ProjectPathScanner is what ProjectPathCache rebuilds from -
 // reach for either directly only to bypass a cache on purpose. AssetsDigestParser
 // is separate from the other two: it reads the project's generated assets, not
-// the API.
+// the API. DigestSourceProvider serves the bundled digest sources that Go to
+// Definition opens, and DigestComparer reports what changed between two sets of
+// them.
 export { DigestParser, DigestEntry } from "./DigestParser";
 export { AssetsDigestParser } from "./AssetsDigestParser";
 export { PrecompiledDigestLoader, PrecompiledDigest } from "./PrecompiledDigestLoader";
 export { ProjectPathScanner } from "./ProjectPathScanner";
 export { ProjectPathCache } from "./ProjectPathCache";
+export { ProjectModule } from "./moduleLocationLookup";
+export { DigestSourceProvider } from "./DigestSourceProvider";
+export { DigestComparer, DigestDiff, DigestSet, formatDigestDiff, readDigestSet, diffDigestSets } from "./DigestComparer";
+export { InstalledDigestSource } from "./InstalledDigestSource";
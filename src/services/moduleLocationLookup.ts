@@ -255,3 +255,240 @@ export function toContentRelativeDir(sourceFileAbsolute: string, contentRootAbso
     const lastSlash = belowRoot.lastIndexOf("/");
     return lastSlash === -1 ? "" : belowRoot.slice(0, lastSlash);
 }
+
+/** A project declaration and the absolute Verse path of the module a `using` must name to reach it. */
+export interface ProjectDeclarationImport {
+    node: ProjectPathNode;
+
+    /** e.g. "/account@fortnite.com/Project/Gadgets/Outer" */
+    modulePath: string;
+}
+
+/** Where resolveDeclarationImports places a declaration, and the file it would be imported into. */
+export interface DeclarationImportOptions {
+    workspaceFolderPath: string;
+    contentRootPath: string;
+    projectVersePath: string;
+    importingFilePath?: string;
+}
+
+/**
+ * The modules that declare `identifier` publicly, one entry per module, as
+ * absolute Verse paths built from the file's Content-relative folders and the
+ * declaration's in-file module chain.
+ *
+ * The name is matched exactly, though the index is keyed lowercased: Verse
+ * identifiers are case-sensitive, and a `using` of a module holding `Trigger`
+ * does nothing for a reference to `trigger`. See declarationImport for which
+ * declarations are never offered.
+ *
+ * @param options the anchors resolveModuleLocations places a node against, the
+ * project's own Verse path, and the absolute path of the file that would hold
+ * the import where there is one
+ */
+export function resolveDeclarationImports(identifier: string, identifierIndex: ReadonlyMap<string, ProjectPathNode[]>, options: DeclarationImportOptions): ProjectDeclarationImport[] {
+    const candidates = (identifierIndex.get(identifier.toLowerCase()) || []).filter((node) => node.name === identifier);
+    return uniqueDeclarationImports(candidates, options);
+}
+
+/**
+ * resolveDeclarationImports for every name in the index at once: each module
+ * once per name it declares. For a completion list, which offers names before
+ * any is typed out.
+ */
+export function resolveAllDeclarationImports(identifierIndex: ReadonlyMap<string, ProjectPathNode[]>, options: DeclarationImportOptions): ProjectDeclarationImport[] {
+    const results: ProjectDeclarationImport[] = [];
+    for (const nodes of identifierIndex.values()) {
+        const byName = new Map<string, ProjectPathNode[]>();
+        for (const node of nodes) {
+            byName.set(node.name, [...(byName.get(node.name) ?? []), node]);
+        }
+        for (const sameName of byName.values()) {
+            results.push(...uniqueDeclarationImports(sameName, options));
+        }
+    }
+    return results;
+}
+
+/** The import of each same-named node that has one, keeping the first node per module. */
+function uniqueDeclarationImports(nodes: readonly ProjectPathNode[], options: DeclarationImportOptions): ProjectDeclarationImport[] {
+    const importingDir = options.importingFilePath ? toContentRelativeDir(options.importingFilePath, options.contentRootPath) : null;
+    const results: ProjectDeclarationImport[] = [];
+    const seenModules = new Set<string>();
+
+    for (const node of nodes) {
+        const declaration = declarationImport(node, options, importingDir);
+        if (declaration && !seenModules.has(declaration.modulePath)) {
+            seenModules.add(declaration.modulePath);
+            results.push(declaration);
+        }
+    }
+
+    return results;
+}
+
+/**
+ * The module a `using` must name to reach a node, or null for one that is
+ * never offered as an import.
+ *
+ * Module declarations are not offered, because a reference to a module
+ * resolves through its parent's import rather than through one of its own, and
+ * the parent is what the compiler reports. Nor is a top-level declaration in a
+ * file of the importing file's own folder: both already sit in the same
+ * module, so there is nothing to import.
+ *
+ * @param importingDir the importing file's Content-relative directory, or null without one
+ */
+function declarationImport(node: ProjectPathNode, options: DeclarationImportOptions, importingDir: string | null): ProjectDeclarationImport | null {
+    if (node.type === "module" || !node.isPublic || !node.sourceFile) {
+        return null;
+    }
+
+    const contentRelativeDir = toContentRelativeDir(path.join(options.workspaceFolderPath, node.sourceFile), options.contentRootPath);
+    if (contentRelativeDir === null) {
+        return null;
+    }
+
+    const enclosingModules = node.fullPath
+        .split(".")
+        .filter((s) => s.length > 0)
+        .slice(0, -1);
+    if (enclosingModules.length === 0 && contentRelativeDir === importingDir) {
+        return null;
+    }
+
+    const segments = [...contentRelativeDir.split("/"), ...enclosingModules].filter((s) => s.length > 0);
+    return { node, modulePath: segments.length > 0 ? `${options.projectVersePath}/${segments.join("/")}` : options.projectVersePath };
+}
+
+/** A module of the project: a folder under Content, an explicit `:= module` declaration, or both. */
+export interface ProjectModule {
+    /** e.g. "/account@fortnite.com/Project/Gadgets"; the project's own path for the Content root. */
+    modulePath: string;
+
+    /** Whether a folder under Content is this module. */
+    isFolder: boolean;
+
+    /** The explicit declarations of it, in the order the cache holds them. Empty for a folder module nothing declares. */
+    declarations: ProjectPathNode[];
+
+    /** Whether one of its explicit declarations is `<public>`. A folder module nothing declares is internal. */
+    isPublic: boolean;
+
+    /** What it declares directly, module declarations left to their own entries. */
+    members: ProjectPathNode[];
+}
+
+/**
+ * Every module of the project, sorted by path: the Content root, each folder
+ * that holds a cached file, and each explicit module declaration, placed as
+ * declarationImport places a declaration - the file's Content-relative folders,
+ * then the in-file chain.
+ *
+ * A folder and an explicit declaration at the same path are one module, as
+ * they are to the compiler: a definitions file declaring `Gadgets<public> :=
+ * module` at the Content root is what makes the Gadgets folder public. Only
+ * folders the cache has a file in are known, so an empty folder is missing.
+ *
+ * @param options the anchors declarationImport places against; the importing
+ *   file is not read
+ */
+export function resolveProjectModules(nodes: readonly ProjectPathNode[], options: DeclarationImportOptions): ProjectModule[] {
+    const modules = new Map<string, ProjectModule>();
+    const moduleAt = (segments: readonly string[]): ProjectModule => {
+        const modulePath = segments.length > 0 ? `${options.projectVersePath}/${segments.join("/")}` : options.projectVersePath;
+        let found = modules.get(modulePath);
+        if (!found) {
+            found = { modulePath, isFolder: false, declarations: [], isPublic: false, members: [] };
+            modules.set(modulePath, found);
+        }
+        return found;
+    };
+
+    moduleAt([]).isFolder = true;
+    for (const node of nodes) {
+        if (!node.sourceFile) {
+            continue;
+        }
+        const contentRelativeDir = toContentRelativeDir(path.join(options.workspaceFolderPath, node.sourceFile), options.contentRootPath);
+        if (contentRelativeDir === null) {
+            continue;
+        }
+
+        const folders = contentRelativeDir.split("/").filter((s) => s.length > 0);
+        for (let depth = 1; depth <= folders.length; depth++) {
+            moduleAt(folders.slice(0, depth)).isFolder = true;
+        }
+
+        const chain = node.fullPath.split(".").filter((s) => s.length > 0);
+        if (node.type === "module") {
+            const declared = moduleAt([...folders, ...chain]);
+            declared.declarations.push(node);
+            declared.isPublic ||= node.isPublic;
+        } else {
+            moduleAt([...folders, ...chain.slice(0, -1)]).members.push(node);
+        }
+    }
+
+    return [...modules.values()].sort((a, b) => a.modulePath.localeCompare(b.modulePath));
+}
+
+/**
+ * The names a `using` of a project module brings into scope, or null when
+ * nothing cached declares a module of that name or holds a folder of it.
+ *
+ * A module is known by its last segment alone, and every module of that name
+ * contributes: an explicit `Name := module` anywhere in the project, and every
+ * folder called `Name` at whatever depth. Telling same-named modules apart takes
+ * the Content root and the import's own location, and a reader that merges them
+ * can only answer with more names than the one module has - which makes an
+ * import look used, never unused. Its one caller deletes what this reports as
+ * providing nothing, so that is the direction it must err in.
+ *
+ * Members are the declarations directly inside the module, whatever their
+ * visibility, and the child modules it holds, explicit or folder: a `using`
+ * brings a submodule's name into scope as well, for a qualified reference or a
+ * relative import to resolve through.
+ *
+ * @param moduleName One segment, as the last segment of an import path reads
+ */
+export function projectModuleMembers(moduleName: string, fileIndex: ReadonlyMap<string, ProjectPathNode[]>): Set<string> | null {
+    const members = new Set<string>();
+    let known = false;
+
+    for (const [sourceFile, nodes] of fileIndex) {
+        const dirSegments = path.posix
+            .dirname(sourceFile.replace(/\\/g, "/"))
+            .split("/")
+            .filter((s) => s.length > 0 && s !== ".");
+
+        // A folder called moduleName: the file's own top-level declarations are
+        // its members when the file sits directly inside it, and the next
+        // folder down is a child module when it sits deeper.
+        for (let depth = 0; depth < dirSegments.length; depth++) {
+            if (dirSegments[depth] !== moduleName) {
+                continue;
+            }
+            known = true;
+            if (depth < dirSegments.length - 1) {
+                members.add(dirSegments[depth + 1]);
+            }
+        }
+        const directlyInFolder = dirSegments.length > 0 && dirSegments[dirSegments.length - 1] === moduleName;
+
+        for (const node of nodes) {
+            const chain = node.fullPath.split(".").filter((s) => s.length > 0);
+            if (chain.length === 1 && directlyInFolder) {
+                members.add(node.name);
+            }
+            if (chain.length >= 2 && chain[chain.length - 2] === moduleName) {
+                members.add(node.name);
+            }
+            if (node.type === "module" && node.name === moduleName) {
+                known = true;
+            }
+        }
+    }
+
+    return known ? members : null;
+}
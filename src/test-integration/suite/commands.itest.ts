@@ -15,6 +15,7 @@ describe("commands and snooze (playbook T7/T8)", () => {
         const expected = [
             "verseAutoImports.showStatusMenu",
             "verseAutoImports.optimizeImports",
+            "verseAutoImports.optimizeImportsInWorkspace",
             "verseAutoImports.addSingleImport",
             "verseAutoImports.toggleAutoImport",
             "verseAutoImports.togglePreserveLocations",
@@ -32,6 +33,9 @@ describe("commands and snooze (playbook T7/T8)", () => {
             "verseAutoImports.rebuildPathCache",
             "verseAutoImports.clearPathCache",
             "verseAutoImports.showCacheStatus",
+            "verseAutoImports.showAutoImportHistory",
+            "verseAutoImports.clearAutoImportHistory",
+            "verseAutoImports.clearImportChoices",
         ];
         for (const commandId of expected) {
             assert.ok(registered.includes(commandId), `command ${commandId} is not registered`);
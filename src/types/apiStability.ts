@@ -0,0 +1,18 @@
+/**
+ * A place a file uses a declaration the digests mark `@experimental` or
+ * deprecated: a `using` of a marked module, or a name that resolves only
+ * through the file's imports to marked declarations.
+ */
+export interface UnstableApiUse {
+    /** The identifier as written, or the module path of a `using`. */
+    name: string;
+    /** The module the marked declaration is imported from. */
+    modulePath: string;
+    /** 0-based. */
+    line: number;
+    /** 0-based column of the name on its line. */
+    character: number;
+    length: number;
+    experimental: boolean;
+    deprecated: boolean;
+}
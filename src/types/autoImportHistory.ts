@@ -0,0 +1,41 @@
+/**
+ * Version of the persisted auto-import history format. A stored history
+ * carrying any other version is dropped on load rather than read as this one.
+ */
+export const AUTO_IMPORT_HISTORY_VERSION = "1";
+
+/** One statement an automatic import wrote, and why it was written. */
+export interface AutoImportedStatement {
+    statement: string;
+    /** The compiler message that asked for it, as the diagnostic carried it. */
+    diagnosticMessage: string;
+    /**
+     * How the statement was picked: "high_confidence" for the lone suggestion
+     * of a diagnostic, "remembered_choice" for the module the user picked for
+     * the name before, otherwise the behavior.multiOptionStrategy that chose it
+     * out of several.
+     */
+    strategy: string;
+}
+
+/** One automatic edit: every statement the debounce for one document wrote at once. */
+export interface AutoImportHistoryEntry {
+    id: string;
+    /** Milliseconds since the epoch, when the edit applied. */
+    timestamp: number;
+    /**
+     * The edited file's fsPath. Automatic imports only ever edit file: URIs
+     * (DiagnosticsHandler.shouldProcessUri), so the path round-trips through
+     * Uri.file.
+     */
+    fsPath: string;
+    statements: AutoImportedStatement[];
+    /** Set once the entry's statements have been removed through Revert. */
+    reverted?: boolean;
+}
+
+/** The shape the history is persisted in. */
+export interface SerializedAutoImportHistory {
+    version: string;
+    entries: AutoImportHistoryEntry[];
+}
@@ -0,0 +1,27 @@
+/**
+ * What a custom diagnostic pattern's match means, and so which named capture
+ * group it must carry:
+ *
+ * - "singleImport": `(?<path>...)`, the one module to import;
+ * - "multiOption": `(?<paths>...)`, a block listing several, written as
+ *   `using { /Path }` lines, `(/Path:)` qualifiers or bare absolute paths;
+ * - "identifier": `(?<identifier>...)`, the unknown name, resolved the way a
+ *   built-in "Unknown identifier" is. An optional `(?<path>...)` is taken as
+ *   the inferred module where no lookup knows the name.
+ */
+export type DiagnosticPatternKind = "singleImport" | "multiOption" | "identifier";
+
+/**
+ * One extra compiler message shape a team declares, in the
+ * `diagnostics.customPatterns` setting or the `diagnosticPatterns` list of the
+ * project configuration file.
+ */
+export interface CustomDiagnosticPattern {
+    /** A JavaScript regular expression source, matched against the whole message. */
+    pattern: string;
+    /** Any of `i`, `m`, `s` and `u`. `g` and `y` are refused: they make a pattern stateful. */
+    flags?: string;
+    kind: DiagnosticPatternKind;
+    /** Shown with a suggestion this pattern produced, when quick-fix descriptions are on. */
+    description?: string;
+}
@@ -0,0 +1,18 @@
+/** One import statement of a file, named by its path and the line it starts on. */
+export interface ImportAtLine {
+    path: string;
+    /** 0-based. The path alone does not say which statement: an import can be written twice word for word. */
+    line: number;
+}
+
+/**
+ * Imports of one file that name the same module: the same path written twice,
+ * the project prefix in two casings, or an absolute path beside the relative
+ * reference that resolves to it.
+ */
+export interface DuplicateImportGroup {
+    /** In document order. Collapsing writes `preferredPath` over the first and deletes the rest. */
+    imports: ImportAtLine[];
+    /** The spelling `pathConversion.projectImportPathStyle` prefers among those the module is known by. */
+    preferredPath: string;
+}
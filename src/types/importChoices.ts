@@ -0,0 +1,28 @@
+/**
+ * Version of the persisted import-choice format. Stored choices carrying any
+ * other version are dropped on load rather than read as this one.
+ */
+export const IMPORT_CHOICES_VERSION = "1";
+
+/** One module picked, or rejected, for one ambiguous name. */
+export interface ImportChoice {
+    identifier: string;
+    /** The path as the import statement writes it, e.g. "/Verse.org/SpatialMath". */
+    modulePath: string;
+}
+
+/** What the user has decided so far about one ambiguous name. */
+export interface RememberedImportChoice {
+    /** The module picked most recently from the quick fixes. */
+    picked?: string;
+    /** How many picks in a row have chosen `picked`. */
+    streak: number;
+    /** Modules whose automatic import was undone right after it landed. */
+    rejected: string[];
+}
+
+/** The shape the choices are persisted in, keyed by identifier. */
+export interface SerializedImportChoices {
+    version: string;
+    choices: Record<string, RememberedImportChoice>;
+}
@@ -0,0 +1,23 @@
+/**
+ * One group of the `behavior.importGroups` setting, which the `custom` import
+ * grouping writes in list order, each separated from the next by a blank line.
+ *
+ * A rule matches with exactly one of `prefix`, `glob` or `relative`. Prefix and
+ * glob rules match absolute paths only: a relative path resolves its first
+ * segment against the imports above it, so relative imports are never sorted
+ * into a group of their own choosing, and all of them are written last, in the
+ * order they were written. A `relative` rule names that last group and gives it
+ * a header, and has to be the last rule for that reason.
+ */
+export interface ImportGroupRule {
+    /** What the group is called, in the refactor preview and in warnings. */
+    name: string;
+    /** Matches a path starting with this text, such as `/Verse.org/`. */
+    prefix?: string;
+    /** Matches a whole path: `*` within one segment, `**` across segments, `?` one character. */
+    glob?: string;
+    /** Matches every relative import. */
+    relative?: boolean;
+    /** Written as a `#` comment above the group, when the group has imports. A leading `#` is optional. */
+    header?: string;
+}
@@ -0,0 +1,35 @@
+import { ImportAtLine } from "./duplicateImports";
+
+/**
+ * One rule of the `behavior.restrictedImports` setting: a module no file, or
+ * no file under `files`, may import. The same idea as ESLint's
+ * no-restricted-imports.
+ *
+ * A rule matches with exactly one of `prefix`, `glob` or `allow`. The first two
+ * name the banned modules; `allow` names the only ones permitted and bans the
+ * rest. All three judge absolute paths only: a relative import names a module
+ * of the project through the imports above it, and is never restricted.
+ */
+export interface ImportRestrictionRule {
+    /** Bans paths starting with this text, such as `/UnrealEngine.com/Temporary/`. */
+    prefix?: string;
+    /** Bans whole paths: `*` within one segment, `**` across segments, `?` one character. */
+    glob?: string;
+    /** Bans every path none of these globs matches. */
+    allow?: string[];
+    /** The files the rule applies to, as a glob over the path relative to the workspace folder. Every file when absent. */
+    files?: string;
+    /** Shown with the diagnostic, in place of the default explanation. */
+    message?: string;
+    /** The absolute path the quick fix writes instead. */
+    replacement?: string;
+}
+
+/** Why an import is restricted: what the diagnostic says and what the quick fix offers. */
+export interface ImportRestriction {
+    message: string;
+    replacement?: string;
+}
+
+/** An import of a file that a rule restricts. */
+export interface RestrictedImport extends ImportAtLine, ImportRestriction {}
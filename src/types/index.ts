@@ -1,2 +1,11 @@
 export * from "./moduleInfo";
 export * from "./projectCache";
+export * from "./autoImportHistory";
+export * from "./importChoices";
+export * from "./diagnosticPatterns";
+export * from "./importGroups";
+export * from "./duplicateImports";
+export * from "./importRestrictions";
+export * from "./moduleMigration";
+export * from "./apiStability";
+export * from "./moduleRename";
@@ -1,5 +1,5 @@
 /** Which of the extractor's routes produced a suggestion. */
-export type ImportSuggestionSource = "error_message" | "digest_lookup" | "inference";
+export type ImportSuggestionSource = "error_message" | "digest_lookup" | "project_lookup" | "inference";
 
 /**
  * How far a suggestion can be trusted. Anything below "high" is labelled in
@@ -19,6 +19,51 @@ export interface ImportSuggestion {
      * could not be extracted, so callers must not treat it as always present.
      */
     modulePath?: string;
+
+    /** The digest marks the module, or the name's declaration in it, experimental. */
+    experimental?: boolean;
+    /** The digest marks the module, or the name's declaration in it, deprecated. */
+    deprecated?: boolean;
+}
+
+/**
+ * How strongly the context favours one of several suggestions for a name. The
+ * total orders them; the reasons are what the quick-fix title shows for it.
+ */
+export interface ImportScore {
+    total: number;
+    /** One short phrase per factor that moved the total, e.g. "imported by 3 project files". */
+    reasons: string[];
+}
+
+/** A suggestion with the score ImportSuggestionRanker gave it. */
+export interface RankedImportSuggestion extends ImportSuggestion {
+    score: ImportScore;
+}
+
+/**
+ * A name some module declares, offered for completion before the file imports
+ * that module. Carries the module rather than a statement: a project import
+ * written relative is only worth shortening for the item the user picks.
+ */
+export interface ImportableIdentifier {
+    identifier: string;
+    /** Absolute, e.g. "/Fortnite.com/Devices". */
+    modulePath: string;
+    /** The declaration's kind as its source names it: "class", "function" and so on. */
+    type: string;
+    source: Extract<ImportSuggestionSource, "digest_lookup" | "project_lookup">;
+    /**
+     * Where a bundled digest declares it: the `.verse` source's file name and
+     * the 1-based line. Set on digest declarations by lookupDeclarations, for
+     * Go to Definition; a project declaration is the language server's to
+     * answer.
+     */
+    declaredAt?: { sourceFile: string; line: number };
+    /** The digest marks the declaration deprecated. Never set on a project declaration. */
+    deprecated?: boolean;
+    /** The digest marks the declaration experimental. Never set on a project declaration. */
+    experimental?: boolean;
 }
 
 /**
@@ -58,4 +103,17 @@ export interface MissingImports {
     /** Deduplicated, in the order the diagnostics named them. */
     paths: string[];
     diagnosticPositionsByPath: DiagnosticPositionsByPath;
+    /**
+     * Where each diagnostic offering several candidate imports was reported.
+     * None of those is in `paths`: picking one needs the user.
+     */
+    ambiguousPositions: DiagnosticPosition[];
 }
+
+/**
+ * How an import rewrite of one document ended. "unchanged" is a success: the
+ * document already held what the rewrite would have written. "refused" is the
+ * rewrite guard, or a rebuild that could not be composed, declining to apply
+ * the text; "failed" is VS Code rejecting the edit, or it throwing.
+ */
+export type ImportRewriteOutcome = "applied" | "unchanged" | "refused" | "failed";
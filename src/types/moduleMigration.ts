@@ -0,0 +1,44 @@
+import { ImportAtLine } from "./duplicateImports";
+
+/** An import, with the path it is to be rewritten to. */
+export interface ImportReplacement extends ImportAtLine {
+    replacement: string;
+}
+
+/** An import of a superseded module, with the path it migrates to. */
+export interface SupersededImport extends ImportReplacement {
+    /** What the move changes, from the entry of the table that mapped it. */
+    note: string;
+}
+
+/**
+ * One entry of the `behavior.supersededModules` setting or the
+ * `supersededModules` list of the project configuration file: a module the
+ * team has retired, and the one its imports move to.
+ */
+export interface SupersededModuleRule {
+    from: string;
+    to: string;
+    /** Shown in the migration report. */
+    note?: string;
+}
+
+/** A name a file uses from a superseded module, and the modules it moves between. */
+export interface MigratedIdentifier {
+    identifier: string;
+    from: string;
+    to: string;
+}
+
+/** What migrating one file's superseded imports would change. */
+export interface ModuleMigrationPlan {
+    imports: SupersededImport[];
+    /**
+     * Names the live module declares again differently: the old declaration
+     * is deprecated, or the two are different kinds of declaration. The file
+     * keeps compiling against the name, but what it binds changes.
+     */
+    retyped: MigratedIdentifier[];
+    /** Names the live module does not declare, which stop resolving once migrated. */
+    undeclared: MigratedIdentifier[];
+}
@@ -0,0 +1,12 @@
+import { ImportAtLine } from "./duplicateImports";
+
+/** A folder module renamed or moved, as the absolute Verse paths it had and has. */
+export interface ModuleRename {
+    from: string;
+    to: string;
+}
+
+/** An import a rename leaves pointing at nothing, with the path that names its module again. */
+export interface RenamedImport extends ImportAtLine {
+    replacement: string;
+}
@@ -134,6 +134,14 @@ export class StatusBarHandler {
             },
         });
 
+        items.push({
+            label: "$(history) Auto-Import History",
+            description: "Review and revert automatic imports",
+            action: async () => {
+                await vscode.commands.executeCommand("verseAutoImports.showAutoImportHistory");
+            },
+        });
+
         items.push({
             label: "General",
             kind: vscode.QuickPickItemKind.Separator,
@@ -230,6 +238,10 @@ export class StatusBarHandler {
                 groupingLabel = "$(list-ordered) Import Grouping: Local First";
                 groupingDescription = "Local imports, then digest";
                 break;
+            case "custom":
+                groupingLabel = "$(list-ordered) Import Grouping: Custom";
+                groupingDescription = "The groups in the Import Groups setting";
+                break;
         }
 
         items.push({
@@ -379,6 +391,16 @@ export class StatusBarHandler {
             },
         });
 
+        items.push({
+            label: toggleIcon(currentGrouping === "custom", "Custom Groups"),
+            description: "The groups listed in the Import Groups setting, relative imports last",
+            action: async () => {
+                await writeSetting("behavior.importGrouping", "custom", resource);
+                logger.debug("StatusBarHandler", "Import grouping changed to: custom");
+                vscode.window.setStatusBarMessage("Import grouping: Custom groups", STATUS_MESSAGE_DURATION_MS);
+            },
+        });
+
         const selected = await vscode.window.showQuickPick(items, {
             placeHolder: "Select Import Grouping Option",
             matchOnDescription: true,
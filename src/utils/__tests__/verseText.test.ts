@@ -1,4 +1,4 @@
-import { countBraces, lineIndentWidth, maskCommentsAndStrings, popClosedBlocks, scanBraces } from "../verseText";
+import { countBraces, endsInCode, lineIndentWidth, maskCommentsAndStrings, popClosedBlocks, scanBraces } from "../verseText";
 
 /**
  * The masker's contract, rather than its lexing: which Verse constructs it
@@ -47,6 +47,21 @@ describe("maskCommentsAndStrings", () => {
  * masked text and nothing else: which braces reach it is the masker's question,
  * so what is pinned here is the counting, the range, and where a body closes.
  */
+describe("endsInCode", () => {
+    it("is true for a word in code", () => {
+        expect(endsInCode("X := vector3", 7)).toBe(true);
+    });
+
+    it("is false for a word in a line comment or a string", () => {
+        expect(endsInCode("X := 1 # vector3", 7)).toBe(false);
+        expect(endsInCode('X := "vector3', 7)).toBe(false);
+    });
+
+    it("is false for a word in a block comment opened on an earlier line", () => {
+        expect(endsInCode("<# notes\nabout vector3", 7)).toBe(false);
+    });
+});
+
 describe("scanBraces", () => {
     it("counts only within the half-open range", () => {
         expect(scanBraces("{{}}", 0, 2, 0).depth).toBe(2);
@@ -1,3 +1,4 @@
 export { logger } from "./logger";
 export { collectEnvironment, formatHostSummary, readSessionState } from "./environment";
 export { RESOURCE_SCOPED, activeResource, settingsFor, writeSetting, writeTargetFor, explicitSetting } from "./settings";
+export { CompiledList, CompiledSettingList, CompiledSettingListOptions, PROJECT_CONFIG_FILE, ProjectConfig, readProjectConfig } from "./projectConfig";
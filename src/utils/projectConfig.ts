@@ -0,0 +1,134 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "./logger";
+import { settingsFor } from "./settings";
+
+/**
+ * The configuration file a team commits at the root of a workspace folder, for
+ * what belongs to the project rather than to anyone's editor: a setting lives
+ * in one person's settings.json, this file travels with the repository.
+ */
+export const PROJECT_CONFIG_FILE = "verse-auto-imports.json";
+
+/**
+ * The parsed file, as written. Each reader validates the part it owns; nothing
+ * here knows what the keys mean.
+ */
+export type ProjectConfig = Record<string, unknown>;
+
+/** The last read of each file, keyed by its path, reused while its modification time holds. */
+const cache = new Map<string, { mtimeMs: number; config: ProjectConfig }>();
+
+/**
+ * The project configuration of the workspace folder holding `resource`, or an
+ * empty one when there is no such folder, no file, or a file that is not a
+ * JSON object - the last of which is logged, once per change to the file.
+ *
+ * Read synchronously, like the `.uefnproject` file: its readers include
+ * message classification, which is synchronous, and the file is re-read only
+ * when its modification time changes.
+ */
+export function readProjectConfig(resource?: vscode.Uri): ProjectConfig {
+    const folder = resource ? vscode.workspace.getWorkspaceFolder(resource) : undefined;
+    if (!folder) {
+        return {};
+    }
+
+    const filePath = path.join(folder.uri.fsPath, PROJECT_CONFIG_FILE);
+    let mtimeMs: number;
+    try {
+        mtimeMs = fs.statSync(filePath).mtimeMs;
+    } catch {
+        cache.delete(filePath);
+        return {};
+    }
+
+    const cached = cache.get(filePath);
+    if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.config;
+    }
+
+    let config: ProjectConfig = {};
+    try {
+        const parsed: unknown = JSON.parse(fs.readFileSync(filePath, "utf8"));
+        if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+            config = parsed as ProjectConfig;
+        } else {
+            logger.warn("ProjectConfig", `Ignoring ${filePath}: it is not a JSON object`);
+        }
+    } catch (error) {
+        logger.warn("ProjectConfig", `Ignoring ${filePath}: it could not be read as JSON`, error);
+    }
+
+    cache.set(filePath, { mtimeMs, config });
+    return config;
+}
+
+/** What a compiler makes of one configured list: the entries that passed, in order, and one line per entry dropped saying why. */
+export interface CompiledList<T> {
+    values: T[];
+    errors: string[];
+}
+
+/** Where a CompiledSettingList reads its list, what its entries are called, and how they compile. */
+export interface CompiledSettingListOptions<T> {
+    /** The setting holding the list, read scoped to the resource. */
+    setting: string;
+    /** The key of a list in the project configuration file, read after the setting's. Omitted, the file is not read. */
+    projectKey?: string;
+    /** The logger source the dropped entries are logged under. */
+    logSource: string;
+    /** The entries as the warning counts them, e.g. "custom diagnostic pattern(s)". */
+    entries: string;
+    /** Validates and compiles one list. `origin` names where it came from, for the messages. */
+    compile: (raw: unknown, origin: string) => CompiledList<T>;
+}
+
+/**
+ * A list read from a setting, and optionally from the project configuration
+ * file, compiled by its owner's compiler.
+ *
+ * Validated when a list is first seen, and again only when it changes. A
+ * dropped entry is logged and reported once, in a warning naming the first
+ * problem; the rest of the list still applies.
+ */
+export class CompiledSettingList<T> {
+    /** Compiled lists, keyed by origin and the list's JSON. */
+    private readonly compiled = new Map<string, T[]>();
+
+    constructor(private readonly options: CompiledSettingListOptions<T>) {}
+
+    /** The compiled entries that apply to `resource`: the setting's, then the project file's. */
+    valuesFor(resource?: vscode.Uri): T[] {
+        const { setting, projectKey } = this.options;
+        const fromSetting = this.compile(settingsFor(resource).get<unknown>(setting, []), `the ${setting} setting`);
+        if (projectKey === undefined) {
+            return fromSetting;
+        }
+        return [...fromSetting, ...this.compile(readProjectConfig(resource)[projectKey], PROJECT_CONFIG_FILE)];
+    }
+
+    private compile(raw: unknown, origin: string): T[] {
+        if (raw === undefined || (Array.isArray(raw) && raw.length === 0)) {
+            return [];
+        }
+
+        const key = `${origin}\n${JSON.stringify(raw)}`;
+        const cached = this.compiled.get(key);
+        if (cached) {
+            return cached;
+        }
+
+        const { values, errors } = this.options.compile(raw, origin);
+        for (const error of errors) {
+            logger.warn(this.options.logSource, `Ignoring ${error}`);
+        }
+        if (errors.length > 0) {
+            vscode.window.showWarningMessage(`Verse Auto Imports ignored ${errors.length} ${this.options.entries}. ${errors[0]}.`);
+        }
+
+        this.compiled.set(key, values);
+        return values;
+    }
+}
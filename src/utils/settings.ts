@@ -19,13 +19,27 @@ const SECTION = "verseAutoImports";
 export const RESOURCE_SCOPED: ReadonlySet<string> = new Set([
     "behavior.emptyLinesAfterImports",
     "behavior.importGrouping",
+    "behavior.importGroups",
     "behavior.importSyntax",
+    "behavior.learnImportChoices",
     "behavior.multiOptionStrategy",
     "behavior.preserveImportLocations",
+    "behavior.removeUnusedImports",
+    "behavior.restrictedImports",
     "behavior.sortImportsAlphabetically",
+    "behavior.supersededModules",
+    "completion.suggestImports",
+    "definition.openDigestSource",
+    "diagnostics.apiStability",
+    "diagnostics.customPatterns",
+    "diagnostics.duplicateImports",
+    "diagnostics.unusedImports",
     "general.autoImport",
+    "general.previewImportEdits",
+    "hover.showDeclaringModule",
     "moduleVisibility.definitionsFileName",
     "pathConversion.enableCodeLens",
+    "pathConversion.projectImportPathStyle",
     "quickFix.showDescriptions",
     "quickFix.sortAlphabetically",
 ]);
@@ -53,6 +53,17 @@ export function maskCommentsAndStrings(content: string): string {
         .join("\n");
 }
 
+/**
+ * Whether the last `length` characters of `text` are code, rather than part of
+ * a comment or a string. For an editor feature asking about the word before the
+ * cursor: pass the file up to the cursor, since a comment or string opened on
+ * an earlier line still covers it.
+ */
+export function endsInCode(text: string, length: number): boolean {
+    const masked = maskCommentsAndStrings(text);
+    return masked.slice(masked.length - length) === text.slice(text.length - length);
+}
+
 /**
  * Leading whitespace width of a whole line, each tab counted as four spaces, for
  * a scan that already holds the line rather than an offset into the file.